@@ -26,18 +26,13 @@ export async function waitForAppReady(page: import('@playwright/test').Page) {
 }
 
 /**
- * Helper to connect a mock wallet (for testing connected states)
- * Note: This requires the app to support a mock/demo mode
+ * Helper to connect the built-in demo wallet (for testing connected states).
+ * The demo connector has a fixed address and chain and needs no network.
  */
 export async function connectMockWallet(page: import('@playwright/test').Page) {
-  // The app has mock wallet functionality
-  // This would click connect and select mock option if available
-  const connectButton = page.getByRole('button', { name: /connect/i });
-  if (await connectButton.isVisible()) {
-    await connectButton.click();
-    // Wait for modal/options
-    await page.waitForTimeout(500);
-  }
+  await page.getByRole('button', { name: /connect wallet/i }).first().click();
+  await page.getByTestId('rk-wallet-option-demo').click();
+  await expect(page.getByRole('button', { name: new RegExp(DEMO_ADDRESS_SHORT, 'i') })).toBeVisible();
 }
 
 /**
@@ -112,6 +107,9 @@ export const TEST_TOKENS = {
   DAI: 'DAI',
 };
 
+/** Short form of the demo wallet address (DEMO_ADDRESS in src/lib/demoWallet.ts) */
+export const DEMO_ADDRESS_SHORT = '0xDE30...E300';
+
 export const TEST_AMOUNTS = {
   SMALL: '0.01',
   MEDIUM: '1',
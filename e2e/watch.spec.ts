@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+
+const WATCHED = '0x1234567890abcdef1234567890abcdef12345678';
+
+test.describe('Watch Mode', () => {
+  test('deep link shows the portfolio read-only', async ({ page }) => {
+    await page.goto(`/app/portfolio?address=${WATCHED}`);
+
+    await expect(page.getByText('Read-only view')).toBeVisible();
+    await expect(page.getByRole('button', { name: /claim all rewards/i })).toBeDisabled();
+  });
+
+  test('keeps the watched address when switching to stake', async ({ page }) => {
+    await page.goto(`/app/portfolio?address=${WATCHED}`);
+    await page.getByRole('navigation', { name: 'Main navigation' }).getByRole('button', { name: 'Stake' }).click();
+
+    await expect(page).toHaveURL(/\/app\/stake\?address=0x/);
+    await expect(page.getByRole('button', { name: /lock ignis/i }).first()).toBeDisabled();
+  });
+
+  test('ignores an invalid address', async ({ page }) => {
+    await page.goto('/app/portfolio?address=not-an-address');
+    await expect(page.getByText('Read-only view')).toHaveCount(0);
+  });
+
+  test('watches an address from the header and saves it', async ({ page }) => {
+    await page.goto('/app/swap');
+    await page.getByRole('button', { name: 'Open watch list' }).click();
+    await page.getByLabel('Address to watch').fill(WATCHED);
+    await page.getByLabel('Label').fill('Treasury');
+    await page.getByRole('button', { name: 'Watch read-only' }).click();
+
+    await expect(page).toHaveURL(/\/app\/portfolio\?address=0x/);
+    await expect(page.getByRole('button', { name: /watching/i })).toContainText('Treasury');
+  });
+
+  test('exits watch mode', async ({ page }) => {
+    await page.goto(`/app/portfolio?address=${WATCHED}`);
+    await page.getByRole('button', { name: 'Exit watch mode' }).click();
+    await expect(page.getByText('Read-only view')).toHaveCount(0);
+  });
+});
@@ -6,7 +6,7 @@ import { PageTransition } from './components/ui';
 import { KeyboardShortcutsModal } from './components/modals/KeyboardShortcutsModal';
 import { showTxToast } from './utils/toast';
 import { usePendingTransactions, useSettings, useGlobalShortcuts } from './hooks';
-import { useWallet } from './contexts';
+import { useWallet, useWatch, WATCHABLE_PATHS, WATCH_PARAM } from './contexts';
 import './styles/animations.css';
 import './styles/pool-detail.css';
 import './styles/MarketDepthPage.css';
@@ -22,6 +22,7 @@ const StakePage = lazy(() => import('./pages/StakePage').then(m => ({ default: m
 const AnalyticsPage = lazy(() => import('./pages/AnalyticsPage').then(m => ({ default: m.AnalyticsPage })));
 const PortfolioPage = lazy(() => import('./pages/PortfolioPage').then(m => ({ default: m.PortfolioPage })));
 const MarketDepthPage = lazy(() => import('./pages/MarketDepthPage').then(m => ({ default: m.MarketDepthPage })));
+const ApprovalsPage = lazy(() => import('./pages/ApprovalsPage').then(m => ({ default: m.ApprovalsPage })));
 
 // Loading skeleton for lazy-loaded pages
 const PageSkeleton = () => (
@@ -45,15 +46,16 @@ const PageSkeleton = () => (
     </div>
 );
 
-type TabName = 'swap' | 'pools' | 'depth' | 'liquidity' | 'portfolio' | 'stake' | 'analytics';
+type TabName = 'swap' | 'pools' | 'depth' | 'liquidity' | 'portfolio' | 'stake' | 'analytics' | 'approvals';
 
 // App Layout wrapper for DEX pages (includes header/footer)
 function AppLayout(): JSX.Element {
     const location = useLocation();
     const navigate = useNavigate();
-    const { address, isConnected, connect } = useWallet();
+    const { address, isConnected, chainId, connect } = useWallet();
+    const { watchedAddress } = useWatch();
     
-    const pendingTxs = usePendingTransactions();
+    const pendingTxs = usePendingTransactions(address, chainId);
     const settings = useSettings();
     
     // Keyboard shortcuts modal
@@ -77,12 +79,15 @@ function AppLayout(): JSX.Element {
     const getActiveTab = (): TabName => {
         const path = location.pathname.replace('/app', '').slice(1) || 'swap';
         if (path.startsWith('pool/')) return 'pools';
-        const validTabs: TabName[] = ['swap', 'pools', 'depth', 'liquidity', 'portfolio', 'stake', 'analytics'];
+        const validTabs: TabName[] = ['swap', 'pools', 'depth', 'liquidity', 'portfolio', 'stake', 'analytics', 'approvals'];
         return validTabs.includes(path as TabName) ? (path as TabName) : 'swap';
     };
 
     const setActiveTab = (tab: TabName): void => {
-        navigate(`/app/${tab}`);
+        const pathname = `/app/${tab}`;
+        // Stay in watch mode while moving between pages that support it
+        const keepWatching = watchedAddress && WATCHABLE_PATHS.includes(pathname);
+        navigate({ pathname, search: keepWatching ? `?${WATCH_PARAM}=${watchedAddress}` : '' });
     };
 
     useEffect(() => {
@@ -140,6 +145,7 @@ function AppLayout(): JSX.Element {
                                     <PoolsPage 
                                         isConnected={isConnected}
                                         onConnect={connect}
+                                        settings={settings}
                                     />
                                 </PageErrorBoundary>
                             } />
@@ -148,6 +154,7 @@ function AppLayout(): JSX.Element {
                                     <PoolDetailPage 
                                         isConnected={isConnected}
                                         onConnect={connect}
+                                        settings={settings}
                                     />
                                 </PageErrorBoundary>
                             } />
@@ -161,6 +168,7 @@ function AppLayout(): JSX.Element {
                                     <LiquidityPage 
                                         pendingTxs={pendingTxs}
                                         onPositionClick={(poolId) => navigate(`/app/pool/${poolId}`)}
+                                        settings={settings}
                                     />
                                 </PageErrorBoundary>
                             } />
@@ -179,6 +187,11 @@ function AppLayout(): JSX.Element {
                                     <AnalyticsPage />
                                 </PageErrorBoundary>
                             } />
+                            <Route path="approvals" element={
+                                <PageErrorBoundary pageName="Approvals">
+                                    <ApprovalsPage pendingTxs={pendingTxs} />
+                                </PageErrorBoundary>
+                            } />
                             <Route path="*" element={<Navigate to="/app/swap" replace />} />
                         </Routes>
                     </PageTransition>
@@ -1,5 +1,6 @@
 import { useMemo, useState } from 'react';
-import { estimateGas, formatGasEstimateDetailed, TransactionType } from '../services/gasEstimator';
+import { estimateGas, formatGasCostDetailed, formatGasEstimateDetailed, TransactionType } from '../services/gasEstimator';
+import type { GasCostEstimate, GasTier } from '../types';
 import { Tooltip } from './ui';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -8,6 +9,9 @@ import { Tooltip } from './ui';
 interface GasEstimateDisplayProps {
     txType: TransactionType;
     ethPrice?: number;
+    /** Live estimate of the exact transaction; the static txType estimate otherwise */
+    estimate?: GasCostEstimate | null;
+    tier?: GasTier;
     className?: string;
     showBreakdown?: boolean;
 }
@@ -37,9 +41,11 @@ const GasIcon = ({ size = 14 }: { size?: number }) => (
 // GAS BREAKDOWN TOOLTIP CONTENT
 // ─────────────────────────────────────────────────────────────────────────────
 const GasBreakdownContent = ({ 
-    breakdown 
+    breakdown,
+    isLive = false,
 }: { 
-    breakdown: { label: string; value: string }[] 
+    breakdown: { label: string; value: string }[];
+    isLive?: boolean;
 }) => (
     <div className="gas-breakdown">
         <div className="gas-breakdown__title">Gas Estimate</div>
@@ -50,7 +56,7 @@ const GasBreakdownContent = ({
             </div>
         ))}
         <div className="gas-breakdown__note">
-            Based on current Base L2 gas prices
+            {isLive ? 'Estimated for this transaction from recent fee history' : 'Based on current Base L2 gas prices'}
         </div>
     </div>
 );
@@ -61,16 +67,16 @@ const GasBreakdownContent = ({
 export const GasEstimateDisplay: React.FC<GasEstimateDisplayProps> = ({
     txType,
     ethPrice = 2450,
+    estimate = null,
+    tier = 'normal',
     className = '',
     showBreakdown = true,
 }) => {
-    const estimate = useMemo(() => {
-        return estimateGas(txType, ethPrice);
-    }, [txType, ethPrice]);
-
     const formatted = useMemo(() => {
-        return formatGasEstimateDetailed(estimate);
-    }, [estimate]);
+        return estimate
+            ? formatGasCostDetailed(estimate, tier)
+            : formatGasEstimateDetailed(estimateGas(txType, ethPrice));
+    }, [estimate, tier, txType, ethPrice]);
 
     const content = (
         <div className={`gas-estimate ${className}`}>
@@ -84,7 +90,7 @@ export const GasEstimateDisplay: React.FC<GasEstimateDisplayProps> = ({
     }
 
     return (
-        <Tooltip content={<GasBreakdownContent breakdown={formatted.breakdown} />}>
+        <Tooltip content={<GasBreakdownContent breakdown={formatted.breakdown} isLive={!!estimate} />}>
             {content}
         </Tooltip>
     );
@@ -96,21 +102,28 @@ export const GasEstimateDisplay: React.FC<GasEstimateDisplayProps> = ({
 interface InlineGasEstimateProps {
     txType: TransactionType;
     ethPrice?: number;
+    estimate?: GasCostEstimate | null;
+    tier?: GasTier;
     label?: string;
 }
 
 export const InlineGasEstimate: React.FC<InlineGasEstimateProps> = ({
     txType,
     ethPrice = 2450,
+    estimate = null,
+    tier = 'normal',
     label = 'Network Fee',
 }) => {
-    const estimate = useMemo(() => estimateGas(txType, ethPrice), [txType, ethPrice]);
-    const formatted = formatGasEstimateDetailed(estimate);
+    const formatted = useMemo(() => {
+        return estimate
+            ? formatGasCostDetailed(estimate, tier)
+            : formatGasEstimateDetailed(estimateGas(txType, ethPrice));
+    }, [estimate, tier, txType, ethPrice]);
 
     return (
         <div className="gas-estimate-inline">
             <span className="gas-estimate-inline__label">{label}</span>
-            <Tooltip content={<GasBreakdownContent breakdown={formatted.breakdown} />}>
+            <Tooltip content={<GasBreakdownContent breakdown={formatted.breakdown} isLive={!!estimate} />}>
                 <span className="gas-estimate-inline__value">
                     <GasIcon size={12} />
                     {formatted.total}
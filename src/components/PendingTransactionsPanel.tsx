@@ -1,7 +1,23 @@
 import { useState, memo } from 'react';
-import { TX_STATUS, TX_TYPES, formatTimeAgo, getExplorerUrl } from '../hooks/usePendingTransactions';
+import { TX_STATUS, TX_TYPES, formatTimeAgo, getExplorerName, getExplorerUrl } from '../hooks/usePendingTransactions';
+import type { ReplacementKind } from '../lib/contracts/txUtils';
+import type { Transaction, TxStatus, TxType } from '../types';
 
-const StatusIcon = memo(({ status }) => {
+/** Transactions shown in the recent view; the rest are under full history */
+const RECENT_LIMIT = 10;
+
+const STATUS_LABELS: Record<TxStatus, string> = {
+    pending: 'Pending',
+    success: 'Confirmed',
+    failed: 'Failed',
+    replaced: 'Replaced',
+    dropped: 'Dropped',
+};
+
+type PanelView = 'recent' | 'history';
+type RecentFilter = 'all' | 'pending' | 'completed';
+
+const StatusIcon = memo(({ status }: { status: TxStatus }) => {
     if (status === TX_STATUS.PENDING) {
         return (
             <svg className="tx-spinner" width="16" height="16" viewBox="0 0 24 24">
@@ -28,11 +44,30 @@ const StatusIcon = memo(({ status }) => {
             </div>
         );
     }
+    if (status === TX_STATUS.REPLACED || status === TX_STATUS.DROPPED) {
+        return (
+            <div className="tx-status-icon tx-status-icon--muted" title={STATUS_LABELS[status]}>
+                <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="#8A8A8A" strokeWidth="3">
+                    <line x1="6" y1="12" x2="18" y2="12"/>
+                </svg>
+            </div>
+        );
+    }
     return null;
 });
 
-const TransactionItem = memo(({ tx, onRemove }) => {
+interface TransactionItemProps {
+    tx: Transaction;
+    /** Entry that sped up or cancelled this one */
+    replacement?: Transaction;
+    onRemove: (id: string) => void;
+    onReplace?: (id: string, kind: ReplacementKind) => void;
+    isReplacing: boolean;
+}
+
+const TransactionItem = memo(({ tx, replacement, onRemove, onReplace, isReplacing }: TransactionItemProps) => {
     const typeLabel = TX_TYPES[tx.type] || tx.type;
+    const canReplace = !!onReplace && tx.status === TX_STATUS.PENDING && !!tx.hash;
     
     return (
         <div className="tx-item">
@@ -41,19 +76,61 @@ const TransactionItem = memo(({ tx, onRemove }) => {
                 <div className="tx-item__header">
                     <span className="tx-item__type">{typeLabel}</span>
                     <span className="tx-item__time">{formatTimeAgo(tx.timestamp)}</span>
+                    {(tx.status === TX_STATUS.REPLACED || tx.status === TX_STATUS.DROPPED) && (
+                        <span className="tx-item__status">{STATUS_LABELS[tx.status]}</span>
+                    )}
                 </div>
                 <div className="tx-item__summary">{tx.summary}</div>
+                {tx.execution && (
+                    <div className="tx-item__execution">
+                        Quoted {parseFloat(tx.execution.quotedAmount).toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                        {' · '}
+                        Received {parseFloat(tx.execution.receivedAmount).toLocaleString(undefined, { maximumFractionDigits: 6 })} {tx.execution.symbol}
+                        {' '}
+                        <span className={tx.execution.slippageBps > 0 ? 'tx-item__slippage--negative' : 'tx-item__slippage--positive'}>
+                            ({(-tx.execution.slippageBps / 100).toFixed(2)}%)
+                        </span>
+                    </div>
+                )}
                 {tx.hash && (
-                    <a href={getExplorerUrl(tx.hash)} target="_blank" rel="noopener noreferrer" className="tx-item__link">
-                        View on BaseScan
+                    <a href={getExplorerUrl(tx.hash, tx.chainId)} target="_blank" rel="noopener noreferrer" className="tx-item__link">
+                        View on {getExplorerName(tx.chainId)}
                         <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                             <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"/><polyline points="15 3 21 3 21 9"/><line x1="10" y1="14" x2="21" y2="3"/>
                         </svg>
                     </a>
                 )}
-                {tx.status === TX_STATUS.FAILED && tx.error && (
+                {replacement && (
+                    <div className="tx-item__note">
+                        {replacement.type === 'cancel' ? 'Cancelled' : 'Sped up'} with a same-nonce replacement
+                    </div>
+                )}
+                {tx.replaces && tx.type !== 'cancel' && (
+                    <div className="tx-item__note">Speed-up of a stuck transaction</div>
+                )}
+                {tx.status !== TX_STATUS.PENDING && tx.status !== TX_STATUS.SUCCESS && tx.error && (
                     <div className="tx-item__error">{tx.error}</div>
                 )}
+                {canReplace && (
+                    <div className="tx-item__actions">
+                        <button
+                            onClick={() => onReplace(tx.id, 'speedUp')}
+                            className="tx-item__action"
+                            disabled={isReplacing}
+                        >
+                            Speed up
+                        </button>
+                        {tx.type !== 'cancel' && (
+                            <button
+                                onClick={() => onReplace(tx.id, 'cancel')}
+                                className="tx-item__action tx-item__action--danger"
+                                disabled={isReplacing}
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
             {tx.status !== TX_STATUS.PENDING && (
                 <button 
@@ -66,7 +143,7 @@ const TransactionItem = memo(({ tx, onRemove }) => {
     );
 });
 
-export const PendingTransactionsButton = ({ pendingCount, onClick }) => {
+export const PendingTransactionsButton = ({ pendingCount, onClick }: { pendingCount: number; onClick: () => void }) => {
     return (
         <button
             onClick={onClick}
@@ -92,24 +169,55 @@ export const PendingTransactionsButton = ({ pendingCount, onClick }) => {
     );
 };
 
-export const PendingTransactionsPanel = ({ 
-    isOpen, 
-    onClose, 
-    transactions, 
-    onRemove, 
-    onClear, 
+interface PendingTransactionsPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    transactions: Transaction[];
+    onRemove: (id: string) => void;
+    onClear: () => void;
+    onClearCompleted: () => void;
+    pendingCount: number;
+    /** Speed up or cancel a stuck transaction; omitted when the wallet can't sign */
+    onReplace?: (id: string, kind: ReplacementKind) => void;
+    /** Transaction whose replacement is awaiting the wallet */
+    replacingId?: string | null;
+}
+
+export const PendingTransactionsPanel = ({
+    isOpen,
+    onClose,
+    transactions,
+    onRemove,
+    onClear,
     onClearCompleted,
     pendingCount,
-}) => {
-    const [filter, setFilter] = useState('all');
-    
+    onReplace,
+    replacingId = null,
+}: PendingTransactionsPanelProps) => {
+    const [view, setView] = useState<PanelView>('recent');
+    const [filter, setFilter] = useState<RecentFilter>('all');
+    const [typeFilter, setTypeFilter] = useState<TxType | 'all'>('all');
+    const [statusFilter, setStatusFilter] = useState<TxStatus | 'all'>('all');
+
     if (!isOpen) return null;
-    
-    const filteredTxs = transactions.filter(tx => {
-        if (filter === 'pending') return tx.status === TX_STATUS.PENDING;
-        if (filter === 'completed') return tx.status !== TX_STATUS.PENDING;
-        return true;
-    });
+
+    const filteredTxs = view === 'history'
+        ? transactions.filter(tx =>
+            (typeFilter === 'all' || tx.type === typeFilter)
+            && (statusFilter === 'all' || tx.status === statusFilter))
+        : transactions
+            .filter(tx => {
+                if (filter === 'pending') return tx.status === TX_STATUS.PENDING;
+                if (filter === 'completed') return tx.status !== TX_STATUS.PENDING;
+                return true;
+            })
+            .slice(0, RECENT_LIMIT);
+
+    const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+    const isFiltered = view === 'history'
+        ? typeFilter !== 'all' || statusFilter !== 'all'
+        : filter !== 'all';
 
     return (
         <>
@@ -131,7 +239,16 @@ export const PendingTransactionsPanel = ({
                 {/* Header */}
                 <div className="tx-panel__header">
                     <div className="tx-panel__title">
-                        <span id="tx-panel-title" className="tx-panel__title-text">Transactions</span>
+                        {view === 'history' && (
+                            <button
+                                onClick={() => setView('recent')}
+                                className="tx-panel__back"
+                                aria-label="Back to recent transactions"
+                            >‹</button>
+                        )}
+                        <span id="tx-panel-title" className="tx-panel__title-text">
+                            {view === 'history' ? 'History' : 'Transactions'}
+                        </span>
                         {pendingCount > 0 && (
                             <span className="tx-panel__badge">{pendingCount} pending</span>
                         )}
@@ -144,18 +261,45 @@ export const PendingTransactionsPanel = ({
                 </div>
 
                 {/* Filters */}
-                <div className="tx-panel__filters" role="group" aria-label="Filter transactions">
-                    {['all', 'pending', 'completed'].map(f => (
-                        <button
-                            key={f}
-                            onClick={() => setFilter(f)}
-                            className={`tx-panel__filter-btn ${filter === f ? 'tx-panel__filter-btn--active' : ''}`}
-                            aria-pressed={filter === f}
+                {view === 'history' ? (
+                    <div className="tx-panel__filters" role="group" aria-label="Filter transaction history">
+                        <select
+                            value={typeFilter}
+                            onChange={(e) => setTypeFilter(e.target.value as TxType | 'all')}
+                            className="tx-panel__select"
+                            aria-label="Filter by type"
                         >
-                            {f}
-                        </button>
-                    ))}
-                </div>
+                            <option value="all">All types</option>
+                            {(Object.keys(TX_TYPES) as TxType[]).map(type => (
+                                <option key={type} value={type}>{TX_TYPES[type]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value as TxStatus | 'all')}
+                            className="tx-panel__select"
+                            aria-label="Filter by status"
+                        >
+                            <option value="all">All statuses</option>
+                            {(Object.keys(STATUS_LABELS) as TxStatus[]).map(status => (
+                                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                            ))}
+                        </select>
+                    </div>
+                ) : (
+                    <div className="tx-panel__filters" role="group" aria-label="Filter transactions">
+                        {(['all', 'pending', 'completed'] as RecentFilter[]).map(f => (
+                            <button
+                                key={f}
+                                onClick={() => setFilter(f)}
+                                className={`tx-panel__filter-btn ${filter === f ? 'tx-panel__filter-btn--active' : ''}`}
+                                aria-pressed={filter === f}
+                            >
+                                {f}
+                            </button>
+                        ))}
+                    </div>
+                )}
 
                 {/* Transaction List */}
                 <div className="tx-panel__list">
@@ -164,17 +308,32 @@ export const PendingTransactionsPanel = ({
                             <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="tx-panel__empty-icon">
                                 <circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/>
                             </svg>
-                            <div style={{ fontSize: '0.875rem' }}>No {filter !== 'all' ? filter : ''} transactions</div>
+                            <div style={{ fontSize: '0.875rem' }}>
+                                {isFiltered ? 'No matching transactions' : 'No transactions'}
+                            </div>
                         </div>
                     ) : (
                         <div className="tx-panel__list-items">
                             {filteredTxs.map(tx => (
-                                <TransactionItem key={tx.id} tx={tx} onRemove={onRemove} />
+                                <TransactionItem
+                                    key={tx.id}
+                                    tx={tx}
+                                    replacement={tx.replacedBy ? byId.get(tx.replacedBy) : undefined}
+                                    onRemove={onRemove}
+                                    onReplace={onReplace}
+                                    isReplacing={replacingId !== null}
+                                />
                             ))}
                         </div>
                     )}
                 </div>
 
+                {view === 'recent' && transactions.length > 0 && (
+                    <button onClick={() => setView('history')} className="tx-panel__history-link">
+                        View full history ({transactions.length})
+                    </button>
+                )}
+
                 {/* Footer Actions */}
                 {transactions.length > 0 && (
                     <div className="tx-panel__footer">
@@ -0,0 +1,148 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getBreakevenDays, simulatePosition } from '../../lib/contracts/positionValue';
+import type { PositionModel, SimulationPoint } from '../../lib/contracts/positionValue';
+import { getCombinedPoolYield } from '../../services/vaultYieldService';
+import { formatCurrency, logger } from '../../utils';
+import type { Token } from '../../types';
+
+interface PositionSimulatorProps {
+    /** null until a range (and, for LB pools, bins) is chosen */
+    model: PositionModel | null;
+    token0: Token;
+    token1: Token;
+    /** Pool fee APR in percent, usually `pool.aprFees` */
+    feeApr: number;
+    /** Adds the underlying vault yield of both tokens */
+    isYieldBearing?: boolean;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+const formatPercent = (pct: number): string => `${pct >= 0 ? '+' : ''}${pct.toFixed(2)}%`;
+
+const formatDays = (days: number): string => {
+    if (days === 0) return 'None needed';
+    if (!Number.isFinite(days)) return 'Never';
+    if (days > 3650) return '10y+';
+    return days < 1 ? '< 1 day' : `${Math.ceil(days).toLocaleString()} days`;
+};
+
+/**
+ * Value of a position against holding its deposit across a price sweep,
+ * with where it turns single-sided and how long fees (and vault yield)
+ * take to make up the difference.
+ */
+export const PositionSimulator = ({ model, token0, token1, feeApr, isYieldBearing = false }: PositionSimulatorProps) => {
+    const [yieldApr, setYieldApr] = useState(0);
+
+    // Vault yield is weighted by what the deposit holds of each token today
+    const weight0 = useMemo(() => {
+        if (!model) return 0.5;
+        const { amount0, amount1 } = model.amountsAt(model.currentPrice);
+        const value = amount0 * model.currentPrice + amount1;
+        return value > 0 ? Math.round((amount0 * model.currentPrice / value) * 100) / 100 : 0.5;
+    }, [model]);
+
+    useEffect(() => {
+        setYieldApr(0);
+        if (!isYieldBearing) return;
+
+        let cancelled = false;
+        getCombinedPoolYield(token0.symbol, token1.symbol, weight0)
+            .then((result) => {
+                if (!cancelled) setYieldApr(result.combinedApy || 0);
+            })
+            .catch((err: unknown) => {
+                logger.warn('Vault yield unavailable for simulation', { error: err instanceof Error ? err.message : String(err) });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isYieldBearing, token0.symbol, token1.symbol, weight0]);
+
+    const simulation = useMemo(
+        () => (model ? simulatePosition(model, { feeApr, yieldApr }) : null),
+        [model, feeApr, yieldApr]
+    );
+
+    if (!model || !simulation || !(simulation.initialValue > 0)) {
+        return (
+            <div className="position-sim">
+                <div className="position-sim__header">
+                    <span className="position-sim__title">Position Simulator</span>
+                </div>
+                <div className="position-sim__empty">Choose a range to simulate the position</div>
+            </div>
+        );
+    }
+
+    const { points, initialValue, dailyIncome, lower, upper } = simulation;
+    // Values are in token1; show them in USD when token1 has a price
+    const toUsd = (value: number) => (token1.price > 0 ? formatCurrency(value * token1.price) : `${value.toFixed(4)} ${token1.symbol}`);
+    const formatPrice = (price: number) => price.toFixed(model.currentPrice < 1 ? 6 : 2);
+
+    const values = points.flatMap(p => [p.value, p.hodlValue]);
+    const minValue = Math.min(...values);
+    const valueRange = Math.max(...values) - minValue || 1;
+    // The sweep is geometric, so point index is a log-price axis
+    const logFrom = Math.log(points[0]!.price);
+    const logRange = Math.log(points[points.length - 1]!.price) - logFrom || 1;
+    const toX = (price: number) => ((Math.log(price) - logFrom) / logRange) * CHART_WIDTH;
+    const toY = (value: number) => CHART_HEIGHT - ((value - minValue) / valueRange) * CHART_HEIGHT;
+    const line = (key: 'value' | 'hodlValue') => points.map(p => `${toX(p.price).toFixed(2)},${toY(p[key]).toFixed(2)}`).join(' ');
+
+    const edges: { label: string; point: SimulationPoint; note: string }[] = [
+        { label: 'At min price', point: lower, note: `All ${token0.symbol} below` },
+        { label: 'At max price', point: upper, note: `All ${token1.symbol} above` },
+    ];
+
+    return (
+        <div className="position-sim">
+            <div className="position-sim__header">
+                <span className="position-sim__title">Position Simulator</span>
+                <span className="position-sim__deposit">Deposit {toUsd(initialValue)}</span>
+            </div>
+            <div className="position-sim__chart">
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" width="100%" height="100%">
+                    <rect x="0" y="0" width={Math.max(0, toX(model.lower))} height={CHART_HEIGHT} className="position-sim__single-sided" />
+                    <rect x={toX(model.upper)} y="0" width={Math.max(0, CHART_WIDTH - toX(model.upper))} height={CHART_HEIGHT} className="position-sim__single-sided" />
+                    <line x1={toX(model.currentPrice)} y1="0" x2={toX(model.currentPrice)} y2={CHART_HEIGHT} stroke="#22C55E" strokeDasharray="4,3" vectorEffect="non-scaling-stroke" />
+                    <polyline points={line('hodlValue')} fill="none" stroke="#7A7A7A" strokeWidth="1.5" strokeDasharray="5,3" vectorEffect="non-scaling-stroke" />
+                    <polyline points={line('value')} fill="none" stroke="#A78BFA" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+                </svg>
+                <div className="position-sim__axis">
+                    <span>{formatPrice(points[0]!.price)}</span>
+                    <span>{token1.symbol}/{token0.symbol}</span>
+                    <span>{formatPrice(points[points.length - 1]!.price)}</span>
+                </div>
+            </div>
+            <div className="position-sim__legend">
+                <span className="position-sim__legend-item"><span className="position-sim__legend-color position-sim__legend-color--position" /> Position</span>
+                <span className="position-sim__legend-item"><span className="position-sim__legend-color position-sim__legend-color--hodl" /> HODL</span>
+                <span className="position-sim__legend-item"><span className="position-sim__legend-color position-sim__legend-color--single" /> Single-sided</span>
+            </div>
+            <div className="position-sim__stats">
+                {edges.map(({ label, point, note }) => (
+                    <div key={label} className="position-sim__stat">
+                        <div className="position-sim__stat-label">{label} · {formatPrice(point.price)}</div>
+                        <div className={`position-sim__stat-value ${point.ilPercent < 0 ? 'position-sim__stat-value--loss' : ''}`}>
+                            {formatPercent(point.ilPercent)} vs HODL
+                        </div>
+                        <div className="position-sim__stat-sub">
+                            Breakeven: {formatDays(getBreakevenDays(point, dailyIncome))} · {note}
+                        </div>
+                    </div>
+                ))}
+                <div className="position-sim__stat">
+                    <div className="position-sim__stat-label">Est. income</div>
+                    <div className="position-sim__stat-value">{toUsd(dailyIncome)}/day</div>
+                    <div className="position-sim__stat-sub">
+                        {feeApr.toFixed(2)}% fees while in range{yieldApr > 0 ? ` + ${yieldApr.toFixed(2)}% vault yield` : ''}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,18 +1,44 @@
 import { useState, useRef, useMemo, useEffect } from 'react';
-import { generateCandlesticks, generateLiquidityDepth } from '../../utils';
+import { buildCandles, getTimeframeWindow } from '../../utils/charts';
+import type { ChartTimeframe, DepthBar, OHLCCandle, PricePoint } from '../../utils/charts';
+import type { BinPreview } from '../../lib/contracts/binDistribution';
 
-export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice, setMaxPrice, _type, token0, token1, baseAPR }) => {
+const TIMEFRAMES: ChartTimeframe[] = ['1D', '7D', '1M'];
+
+/**
+ * Candles are bucketed from `priceHistory` (pool swaps, token1 per token0)
+ * for the selected timeframe, and the depth column draws `depth` from the
+ * pool's depth reader; either is simply left out while unavailable.
+ * `binPreview` (Liquidity Book pools) overlays the LP's own per-bin deposit,
+ * from previewBinDistribution, on the liquidity-depth column.
+ */
+export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice, setMaxPrice, _type, token0, token1, baseAPR, priceHistory = null as PricePoint[] | null, depth = null as DepthBar[] | null, binPreview = null as BinPreview[] | null }) => {
     const chartRef = useRef(null);
     const [dragging, setDragging] = useState(null);
     const [hoveredCandle, setHoveredCandle] = useState(null);
-    const [activeTimeframe, setActiveTimeframe] = useState('1M');
-    const candles = useMemo(() => generateCandlesticks(currentPrice, 35), [currentPrice]);
-    const liquidityDepth = useMemo(() => generateLiquidityDepth(currentPrice, 50), [currentPrice]);
-    const allPrices = [...candles.flatMap(c => [c.high, c.low]), minPrice, maxPrice];
+    const [activeTimeframe, setActiveTimeframe] = useState<ChartTimeframe>('1M');
+    const { candles, timeWindow } = useMemo(() => {
+        const now = Math.floor(Date.now() / 1000);
+        return {
+            candles: buildCandles(priceHistory ?? [], activeTimeframe, now),
+            timeWindow: getTimeframeWindow(activeTimeframe, now),
+        };
+    }, [priceHistory, activeTimeframe]);
+    const liquidityDepth = depth ?? [];
+    const allPrices = [...candles.flatMap(c => [c.high, c.low]), currentPrice, minPrice, maxPrice];
+    const maxBinValue = binPreview ? Math.max(0, ...binPreview.map(bin => bin.valueY)) : 0;
     const priceMin = Math.min(...allPrices) * 0.98;
     const priceMax = Math.max(...allPrices) * 1.02;
     const priceRange = priceMax - priceMin;
     const priceToY = (p) => ((priceMax - p) / priceRange) * 100;
+    // One bar per bin, sized to the chart's price scale
+    const binBarHeight = binPreview && binPreview.length > 1
+        ? Math.max(0.6, Math.abs(priceToY(binPreview[0]!.price) - priceToY(binPreview[binPreview.length - 1]!.price)) / binPreview.length * 0.85)
+        : 1;
+    // Depth levels are unevenly spaced (ticks with liquidity, non-empty bins), so size bars by their spread
+    const depthBarHeight = liquidityDepth.length > 1
+        ? Math.min(4, Math.max(0.6, Math.abs(priceToY(liquidityDepth[0]!.price) - priceToY(liquidityDepth[liquidityDepth.length - 1]!.price)) / liquidityDepth.length * 0.9))
+        : 2;
     const yToPrice = (y) => priceMax - (y / 100) * priceRange;
     const getPercentFromCurrent = (price) => {
         const pct = ((price - currentPrice) / currentPrice) * 100;
@@ -41,7 +67,11 @@ export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice,
 
     const chartWidth = 75;
     const depthWidth = 20;
-    const candleWidth = chartWidth / candles.length * 0.7;
+    const candleWidth = chartWidth / timeWindow.count * 0.7;
+    const candleX = (candle: OHLCCandle) => 3 + ((candle.time - timeWindow.start) / timeWindow.bucket / timeWindow.count) * chartWidth;
+    const formatCandleTime = (time: number) => new Date(time * 1000).toLocaleString(undefined, activeTimeframe === '1M'
+        ? { month: 'short', day: 'numeric' }
+        : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
 
     return (
         <div className="price-chart">
@@ -53,7 +83,7 @@ export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice,
                     </span>
                 </div>
                 <div className="price-chart__timeframes">
-                    {['1D', '7D', '1M'].map(tf => (
+                    {TIMEFRAMES.map(tf => (
                         <button 
                             key={tf} 
                             onClick={() => setActiveTimeframe(tf)}
@@ -68,6 +98,9 @@ export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice,
                 ref={chartRef} 
                 className={`price-chart__canvas ${dragging ? 'price-chart__canvas--dragging' : 'price-chart__canvas--crosshair'}`}
             >
+                {candles.length === 0 && (
+                    <div className="price-chart__empty">No trades in this period</div>
+                )}
                 <svg width="100%" height="100%" style={{ position: 'absolute', left: 0, top: 0 }}>
                     <defs>
                         <linearGradient id="rangeGradient" x1="0%" y1="0%" x2="0%" y2="100%">
@@ -88,16 +121,28 @@ export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice,
                     ))}
                     {liquidityDepth.map((bin, i) => {
                         const y = priceToY(bin.price);
-                        const barHeight = 100 / liquidityDepth.length * 0.9;
                         const barWidth = (bin.depth / 120) * depthWidth;
+                        const inRange = bin.price >= minPrice && bin.price <= maxPrice;
+                        if (y < 0 || y > 100) return null;
+                        return (
+                            <rect key={i} x={`${100 - depthWidth - 2 + (depthWidth - barWidth)}%`} y={`${y - depthBarHeight / 2}%`} width={`${barWidth}%`} height={`${depthBarHeight}%`} fill={inRange ? 'url(#depthGradient)' : 'rgba(255,255,255,0.06)'} rx="2" />
+                        );
+                    })}
+                    {binPreview && maxBinValue > 0 && binPreview.map((bin) => {
+                        const y = priceToY(bin.price);
                         if (y < 0 || y > 100) return null;
+                        const widthY = (bin.amountY / maxBinValue) * depthWidth;
+                        const widthX = (bin.amountX * bin.price / maxBinValue) * depthWidth;
                         return (
-                            <rect key={i} x={`${100 - depthWidth - 2 + (depthWidth - barWidth)}%`} y={`${y - barHeight / 2}%`} width={`${barWidth}%`} height={`${barHeight}%`} fill={bin.isActive ? 'url(#depthGradient)' : 'rgba(255,255,255,0.06)'} rx="2" />
+                            <g key={`bin-${bin.binId}`}>
+                                {widthY > 0 && <rect x={`${98 - widthY}%`} y={`${y - binBarHeight / 2}%`} width={`${widthY}%`} height={`${binBarHeight}%`} fill="rgba(52, 211, 153, 0.8)" rx="1" />}
+                                {widthX > 0 && <rect x={`${98 - widthY - widthX}%`} y={`${y - binBarHeight / 2}%`} width={`${widthX}%`} height={`${binBarHeight}%`} fill="rgba(96, 165, 250, 0.8)" rx="1" />}
+                            </g>
                         );
                     })}
                     <rect x="3%" y={`${priceToY(maxPrice)}%`} width={`${chartWidth + 2}%`} height={`${priceToY(minPrice) - priceToY(maxPrice)}%`} fill="url(#rangeGradient)" stroke="rgba(167, 139, 250, 0.4)" strokeWidth="1" rx="4" />
                     {candles.map((c, i) => {
-                        const x = 3 + (i / candles.length) * chartWidth;
+                        const x = candleX(c);
                         const isGreen = c.close >= c.open;
                         const color = isGreen ? '#22C55E' : '#EF4444';
                         const bodyTop = priceToY(Math.max(c.open, c.close));
@@ -144,18 +189,18 @@ export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice,
                 </div>
                 
                 {/* Tooltip */}
-                {hoveredCandle !== null && (
-                    <div className="price-chart__tooltip" style={{ left: `${3 + (hoveredCandle / candles.length) * chartWidth + candleWidth}%`, top: 10 }}>
-                        <div className="price-chart__tooltip-title">Day {hoveredCandle + 1}</div>
+                {hoveredCandle !== null && candles[hoveredCandle] && (
+                    <div className="price-chart__tooltip" style={{ left: `${candleX(candles[hoveredCandle]) + candleWidth}%`, top: 10 }}>
+                        <div className="price-chart__tooltip-title">{formatCandleTime(candles[hoveredCandle].time)}</div>
                         <div className="price-chart__tooltip-grid">
                             <span className="price-chart__tooltip-label">O:</span>
-                            <span className="price-chart__tooltip-value">{candles[hoveredCandle].open.toFixed(2)}</span>
+                            <span className="price-chart__tooltip-value">{candles[hoveredCandle].open.toFixed(currentPrice < 1 ? 6 : 2)}</span>
                             <span className="price-chart__tooltip-label">H:</span>
-                            <span className="price-chart__tooltip-value price-chart__tooltip-value--high">{candles[hoveredCandle].high.toFixed(2)}</span>
+                            <span className="price-chart__tooltip-value price-chart__tooltip-value--high">{candles[hoveredCandle].high.toFixed(currentPrice < 1 ? 6 : 2)}</span>
                             <span className="price-chart__tooltip-label">L:</span>
-                            <span className="price-chart__tooltip-value price-chart__tooltip-value--low">{candles[hoveredCandle].low.toFixed(2)}</span>
+                            <span className="price-chart__tooltip-value price-chart__tooltip-value--low">{candles[hoveredCandle].low.toFixed(currentPrice < 1 ? 6 : 2)}</span>
                             <span className="price-chart__tooltip-label">C:</span>
-                            <span className="price-chart__tooltip-value">{candles[hoveredCandle].close.toFixed(2)}</span>
+                            <span className="price-chart__tooltip-value">{candles[hoveredCandle].close.toFixed(currentPrice < 1 ? 6 : 2)}</span>
                         </div>
                     </div>
                 )}
@@ -170,6 +215,16 @@ export const PriceRangeChart = ({ currentPrice, minPrice, maxPrice, setMinPrice,
                 <span className="price-chart__legend-item">
                     <span className="price-chart__legend-color price-chart__legend-color--depth" /> Liquidity Depth
                 </span>
+                {maxBinValue > 0 && (
+                    <>
+                        <span className="price-chart__legend-item">
+                            <span className="price-chart__legend-color price-chart__legend-color--bin-x" /> Your {token0?.symbol}
+                        </span>
+                        <span className="price-chart__legend-item">
+                            <span className="price-chart__legend-color price-chart__legend-color--bin-y" /> Your {token1?.symbol}
+                        </span>
+                    </>
+                )}
             </div>
         </div>
     );
@@ -1,2 +1,3 @@
 export { PriceRangeChart } from './PriceRangeChart';
 export { RangeTypeSelector } from './RangeTypeSelector';
+export { PositionSimulator } from './PositionSimulator';
@@ -1,12 +1,47 @@
 import { useState } from 'react';
 import { IgnisLogo } from '../ui';
 import { PendingTransactionsButton, PendingTransactionsPanel } from '../PendingTransactionsPanel';
+import { WatchListSwitcher } from './WatchListSwitcher';
 import { useWallet } from '../../contexts';
+import { useReplaceTransaction } from '../../hooks/contracts/useReplaceTransaction';
+import { getChain } from '../../lib/wagmi';
+import { DEFAULT_CHAIN_ID } from '../../lib/contracts/addresses';
+import type { ReplacementKind } from '../../lib/contracts/txUtils';
+import { showTxToast } from '../../utils/toast';
+import type { Transaction } from '../../types';
 
 export const Header = ({ activeTab, setActiveTab, pendingTxs }) => {
     const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
     const [txPanelOpen, setTxPanelOpen] = useState(false);
-    const { address, isConnected, isConnecting, connect, disconnect } = useWallet();
+    const { address, isConnected, isConnecting, chainId, isSupportedChain, isDemo, connect, disconnect, switchChain } = useWallet();
+    const chainName = chainId && isSupportedChain ? getChain(chainId).name : null;
+    const { replace } = useReplaceTransaction();
+    const [replacingId, setReplacingId] = useState<string | null>(null);
+
+    // Resend a stuck transaction with the same nonce and bumped fees
+    const handleReplace = async (id: string, kind: ReplacementKind) => {
+        const tx = pendingTxs?.transactions.find((t: Transaction) => t.id === id);
+        const txChainId = tx?.chainId ?? chainId;
+        if (!tx?.hash || !txChainId) return;
+
+        setReplacingId(id);
+        const toastId = showTxToast.pending(kind === 'cancel' ? 'Cancelling transaction...' : 'Speeding up transaction...');
+        const result = await replace(kind, tx.hash, txChainId);
+        if (result.success && result.hash && result.nonce !== undefined) {
+            pendingTxs.replaceTx(id, { type: kind, hash: result.hash, nonce: result.nonce });
+            showTxToast.success(
+                kind === 'cancel' ? 'Cancellation submitted' : 'Speed-up submitted',
+                result.hash,
+                toastId,
+                txChainId
+            );
+        } else if (result.isUserRejection) {
+            showTxToast.dismiss?.(toastId);
+        } else {
+            showTxToast.error?.(result.error || 'Replacement failed', toastId);
+        }
+        setReplacingId(null);
+    };
     
     const navItems = [
         { id: 'swap', label: 'Swap' }, 
@@ -15,7 +50,8 @@ export const Header = ({ activeTab, setActiveTab, pendingTxs }) => {
         { id: 'portfolio', label: 'Portfolio' },
         { id: 'liquidity', label: 'Liquidity' }, 
         { id: 'stake', label: 'Stake' },
-        { id: 'analytics', label: 'Analytics' }
+        { id: 'analytics', label: 'Analytics' },
+        { id: 'approvals', label: 'Approvals' }
     ];
 
     const formatAddress = (addr: string) => {
@@ -60,17 +96,31 @@ export const Header = ({ activeTab, setActiveTab, pendingTxs }) => {
                         />
                     )}
                     
-                    {/* Demo Wallet Button */}
+                    {/* Watch List */}
+                    <WatchListSwitcher />
+
+                    {/* Wallet Button */}
                     {isConnected && address ? (
                         <>
                             {/* Chain Indicator */}
-                            <button
-                                className="header__chain-btn header__chain-btn--connected hide-mobile"
-                                aria-label="Current network: Base"
-                            >
-                                <div className="header__chain-dot" style={{ background: '#0052FF' }} aria-hidden="true" />
-                                Base
-                            </button>
+                            {chainName ? (
+                                <button
+                                    className="header__chain-btn header__chain-btn--connected hide-mobile"
+                                    aria-label={`Current network: ${chainName}`}
+                                >
+                                    <div className="header__chain-dot" style={{ background: '#0052FF' }} aria-hidden="true" />
+                                    {chainName}
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => switchChain(DEFAULT_CHAIN_ID)}
+                                    className="header__chain-btn hide-mobile"
+                                    aria-label="Unsupported network. Click to switch."
+                                >
+                                    <div className="header__chain-dot" style={{ background: '#EF4444' }} aria-hidden="true" />
+                                    Wrong network
+                                </button>
+                            )}
 
                             {/* Account Button */}
                             <button
@@ -78,9 +128,11 @@ export const Header = ({ activeTab, setActiveTab, pendingTxs }) => {
                                 className="header__account-btn"
                                 aria-label={`Connected: ${formatAddress(address)}. Click to disconnect.`}
                             >
-                                <span className="header__account-balance hide-mobile">
-                                    Demo Mode
-                                </span>
+                                {isDemo && (
+                                    <span className="header__account-balance hide-mobile">
+                                        Demo Mode
+                                    </span>
+                                )}
                                 <span className="header__account-address">
                                     {formatAddress(address)}
                                 </span>
@@ -138,9 +190,11 @@ export const Header = ({ activeTab, setActiveTab, pendingTxs }) => {
                     onClose={() => setTxPanelOpen(false)}
                     transactions={pendingTxs.transactions}
                     pendingCount={pendingTxs.pendingCount}
-                    onRemove={pendingTxs.removeTransaction}
-                    onClear={pendingTxs.clearTransactions}
+                    onRemove={pendingTxs.removeTx}
+                    onClear={pendingTxs.clearAll}
                     onClearCompleted={pendingTxs.clearCompleted}
+                    onReplace={isConnected && !isDemo ? handleReplace : undefined}
+                    replacingId={replacingId}
                 />
             )}
         </header>
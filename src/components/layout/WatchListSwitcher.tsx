@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { useWatch, parseWatchAddress } from '../../contexts';
+import { formatAddress } from '../../utils/format';
+
+/**
+ * Header dropdown for read-only watch mode: watch any address, pick one from
+ * the saved watch list, or go back to the connected wallet.
+ */
+export const WatchListSwitcher = () => {
+    const { watchedAddress, watchList, watch, stopWatching, saveAddress, removeAddress } = useWatch();
+    const [isOpen, setIsOpen] = useState(false);
+    const [input, setInput] = useState('');
+    const [label, setLabel] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const address = parseWatchAddress(input);
+        if (!address) {
+            setError('Enter a valid 0x address');
+            return;
+        }
+        saveAddress(address, label);
+        watch(address);
+        setInput('');
+        setLabel('');
+        setError(null);
+        setIsOpen(false);
+    };
+
+    const activeEntry = watchList.find(entry => entry.address === watchedAddress);
+
+    return (
+        <div className="watch-switcher hide-mobile" ref={containerRef}>
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className={`watch-switcher__btn ${watchedAddress ? 'watch-switcher__btn--active' : ''}`}
+                aria-expanded={isOpen}
+                aria-haspopup="dialog"
+                aria-label={watchedAddress ? `Watching ${watchedAddress}. Open watch list.` : 'Open watch list'}
+            >
+                <span aria-hidden="true">👁</span>
+                {watchedAddress ? (activeEntry?.label ?? formatAddress(watchedAddress)) : 'Watch'}
+            </button>
+
+            {isOpen && (
+                <div className="watch-switcher__panel" role="dialog" aria-label="Watch list">
+                    <div className="watch-switcher__title">Watch an address</div>
+                    <form className="watch-switcher__form" onSubmit={handleSubmit}>
+                        <input
+                            className="watch-switcher__input"
+                            value={input}
+                            onChange={(e) => { setInput(e.target.value); setError(null); }}
+                            placeholder="0x…"
+                            aria-label="Address to watch"
+                            aria-invalid={!!error}
+                            spellCheck={false}
+                        />
+                        <input
+                            className="watch-switcher__input"
+                            value={label}
+                            onChange={(e) => setLabel(e.target.value)}
+                            placeholder="Label (optional)"
+                            aria-label="Label"
+                        />
+                        {error && <div className="watch-switcher__error" role="alert">{error}</div>}
+                        <button type="submit" className="watch-switcher__submit">Watch read-only</button>
+                    </form>
+
+                    {watchList.length > 0 && (
+                        <div className="watch-switcher__list">
+                            <div className="watch-switcher__title">Saved</div>
+                            {watchList.map(entry => (
+                                <div
+                                    key={entry.address}
+                                    className={`watch-switcher__item ${entry.address === watchedAddress ? 'watch-switcher__item--active' : ''}`}
+                                >
+                                    <button
+                                        className="watch-switcher__item-main"
+                                        onClick={() => { watch(entry.address); setIsOpen(false); }}
+                                    >
+                                        {entry.label && <span>{entry.label}</span>}
+                                        <span className="watch-switcher__item-address">{formatAddress(entry.address, 6)}</span>
+                                    </button>
+                                    <button
+                                        className="watch-switcher__item-remove"
+                                        onClick={() => removeAddress(entry.address)}
+                                        aria-label={`Remove ${entry.label ?? entry.address} from watch list`}
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {watchedAddress && (
+                        <button
+                            className="watch-switcher__exit"
+                            onClick={() => { stopWatching(); setIsOpen(false); }}
+                        >
+                            Back to my wallet
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
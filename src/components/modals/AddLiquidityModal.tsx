@@ -1,12 +1,55 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { formatUnits, isHash } from 'viem';
+import type { Address, Hash } from 'viem';
 import { TOKENS } from '../../data';
 import { TokenIcon, DualTokenIcon, FeeBadge, TypeBadge } from '../ui';
-import { PriceRangeChart, RangeTypeSelector } from '../charts';
+import { PositionSimulator, PriceRangeChart, RangeTypeSelector } from '../charts';
+import { TransactionConfirmModal } from './TransactionConfirmModal';
 import { showTxToast } from '../../utils';
+import { buildDepthBars } from '../../utils/charts';
 import { TIMING } from '../../constants';
-import type { AddLiquidityModalProps, Token } from '../../types';
-
-type LiquidityShape = 'spot' | 'curve' | 'bidask';
+import { useWallet } from '../../contexts';
+import { useCLPool, useMintCLPosition, useMintPreflightCall } from '../../hooks/contracts/useCLPosition';
+import type { MintCLPositionParams } from '../../hooks/contracts/useCLPosition';
+import { calculateMinAmountOut, toQuoteResponse, useQuote } from '../../hooks/contracts/useQuote';
+import { buildSwapCall } from '../../hooks/contracts/useSwap';
+import { usePreflight } from '../../hooks/contracts/usePreflight';
+import { useZapIn } from '../../hooks/contracts/useZap';
+import { useTokenAllowance } from '../../hooks/useTokenAllowance';
+import { parseTokenAmount } from '../../hooks/useSwapQuote';
+import { usePoolDepth } from '../../hooks/useDepth';
+import type { TokenInfo } from '../../hooks/useDepth';
+import { usePoolPriceHistory } from '../../hooks/subgraph/useStakingAndSwaps';
+import { DEFAULT_DEADLINE_SECONDS, DEFAULT_SLIPPAGE_BPS, FEE_TIERS, TICK_SPACINGS, ZERO_ADDRESS } from '../../lib/contracts/config';
+import { getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
+import { getRoutableAddress, isNativeToken } from '../../lib/contracts/native';
+import { feeTierFromPercent, getCLPoolId, withSlippageCap } from '../../lib/contracts/clPosition';
+import {
+    getPositionAmounts,
+    getRangeStatus,
+    getSqrtRatioAtTick,
+    nearestUsableTick,
+    priceToTick,
+    sqrtRatioToPrice,
+    tickToPrice,
+} from '../../lib/contracts/tickMath';
+import type { RangeStatus } from '../../lib/contracts/tickMath';
+import {
+    MAX_BINS_PER_SIDE,
+    binStepFromPercent,
+    buildBinDistribution,
+    getIdFromPrice,
+    previewBinDistribution,
+} from '../../lib/contracts/binDistribution';
+import type { LiquidityShape } from '../../lib/contracts/binDistribution';
+import { binPositionModel, clPositionModel, clPositionModelForValue } from '../../lib/contracts/positionValue';
+import { createDeadline } from '../../lib/contracts/validation';
+import { isIndexedDbAvailable } from '../../lib/db';
+import { getPositionId, savePosition } from '../../services/positionService';
+import { logger } from '../../utils/logger';
+import { getCLValueSplit, getZapSwapFraction, planCLZapDeposit, splitZapAmount } from '../../lib/contracts/zap';
+import type { ValueSplit } from '../../lib/contracts/zap';
+import type { AddLiquidityModalProps, Token, TransactionPlanStep } from '../../types';
 
 interface ShapeOption {
     id: LiquidityShape;
@@ -14,22 +57,89 @@ interface ShapeOption {
     icon: string;
 }
 
+/** Raw amounts of a zap in display order (token0, token1) */
+interface ZapPreview {
+    /** Expected swap output; zero when nothing is swapped */
+    received: bigint;
+    /** CL liquidity minted; zero for LB pools */
+    liquidity: bigint;
+    deposit: readonly [bigint, bigint];
+    /** Left in the wallet after the deposit */
+    dust: readonly [bigint, bigint];
+}
+
+/** Pool currency address; native ETH is the zero address in CL pool keys */
+const currencyOf = (token: Token | null | undefined): Address | null =>
+    isNativeToken(token) ? ZERO_ADDRESS : token?.address ?? null;
+
+/** Raw amount as an input string, trimmed to 8 significant digits */
+const toInputAmount = (raw: bigint, decimals: number): string =>
+    raw === BigInt(0) ? '0' : String(Number(parseFloat(formatUnits(raw, decimals)).toPrecision(8)));
+
+/** Deposit the simulator assumes until amounts are entered */
+const NOMINAL_DEPOSIT_USD = 1000;
+
+const toTokenInfo = (token: Token): TokenInfo => ({
+    address: currencyOf(token) ?? ZERO_ADDRESS,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+});
+
 export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({ 
     isOpen, 
     onClose, 
     pool, 
     isConnected, 
-    onConnect 
+    onConnect,
+    settings,
 }) => {
+    const { chainId, address, isDemo } = useWallet();
+    const slippageBps = settings ? Math.round(settings.slippage * 100) : DEFAULT_SLIPPAGE_BPS;
+    const approvalMode = settings?.approvalMode ?? 'exact';
     const [token0, setToken0] = useState<Token>(pool?.token0 || TOKENS[0]);
     const [token1, setToken1] = useState<Token>(pool?.token1 || TOKENS[1]);
     const [ammType, setAmmType] = useState(pool?.type || 'CLAMM');
     const [amount0, setAmount0] = useState('');
     const [amount1, setAmount1] = useState('');
+    /** Deposit side the user typed last; CL pools fill in the other one */
+    const [editedSide, setEditedSide] = useState<0 | 1>(0);
     const [liquidityShape, setLiquidityShape] = useState<LiquidityShape>('spot');
+    /** Display side of the only token deposited, swapping part of it for the other; null deposits both */
+    const [zapSide, setZapSide] = useState<0 | 1 | null>(null);
+    const [zapAmount, setZapAmount] = useState('');
+    const [confirmOpen, setConfirmOpen] = useState(false);
+    /** Fixed when the confirm modal opens, so the pre-flighted calls are the ones sent */
+    const [confirmDeadline, setConfirmDeadline] = useState<bigint | null>(null);
     const [isPending, setIsPending] = useState(false);
-    
-    const currentPrice = token0 && token1 ? token0.price / token1.price : 1;
+
+    const isCL = ammType === 'CLAMM';
+    // Pools without a CL fee tier (e.g. LB pools) fall back to the 0.30% tier
+    const percentTier = feeTierFromPercent(pool?.fee ?? 0.30);
+    const feeTier = TICK_SPACINGS[percentTier] ? percentTier : FEE_TIERS.MEDIUM;
+    const tickSpacing = TICK_SPACINGS[feeTier]!;
+
+    const clPool = useCLPool({
+        tokenA: currencyOf(token0),
+        tokenB: currencyOf(token1),
+        fee: feeTier,
+        chainId,
+        enabled: isOpen && isCL,
+    });
+    const { mint, step: mintStep } = useMintCLPosition();
+    const { zap, step: zapStep } = useZapIn();
+
+    // Display prices are token1 per token0 in the modal's order; the pool
+    // sorts currencies by address, so its prices and ticks may be inverted
+    const onChainPrice = clPool.state
+        ? sqrtRatioToPrice(
+            clPool.state.sqrtPriceX96,
+            clPool.flipped ? token1.decimals : token0.decimals,
+            clPool.flipped ? token0.decimals : token1.decimals
+        )
+        : null;
+    const marketPrice = token0 && token1 ? token0.price / token1.price : 1;
+    const currentPrice = onChainPrice ? (clPool.flipped ? 1 / onChainPrice : onChainPrice) : marketPrice;
     const [minPrice, setMinPrice] = useState(currentPrice * 0.9);
     const [maxPrice, setMaxPrice] = useState(currentPrice * 1.1);
     const totalAPR = pool ? pool.apr + (pool.aprEmissions || 0) + (pool.aprYield || 0) : 20;
@@ -43,28 +153,463 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
         }
     }, [pool]);
 
+    // Zaps mint CL positions only; LB pools take both tokens
     useEffect(() => {
-        const price = token0 && token1 ? token0.price / token1.price : 1;
-        setMinPrice(price * 0.9);
-        setMaxPrice(price * 1.1);
-    }, [token0, token1]);
+        if (!isCL) setZapSide(null);
+    }, [isCL]);
 
-    if (!isOpen) return null;
-    
-    const amount0Value = parseFloat(amount0) || 0;
-    const amount1Value = parseFloat(amount1) || 0;
+    useEffect(() => {
+        setMinPrice(currentPrice * 0.9);
+        setMaxPrice(currentPrice * 1.1);
+    }, [token0, token1, onChainPrice]);
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // CL RANGE & AMOUNTS
+    // ─────────────────────────────────────────────────────────────────────────
+
+    /** Range snapped to usable ticks, in display order and in pool order */
+    const clRange = useMemo(() => {
+        if (!isCL || !(minPrice > 0) || !(maxPrice > minPrice) || !Number.isFinite(maxPrice)) return null;
+        const lower = nearestUsableTick(priceToTick(minPrice, token0.decimals, token1.decimals), tickSpacing);
+        let upper = nearestUsableTick(priceToTick(maxPrice, token0.decimals, token1.decimals), tickSpacing);
+        if (upper <= lower) upper = lower + tickSpacing;
+        // Inverting prices negates ticks, and spacing is symmetric around 0
+        return {
+            displayLower: lower,
+            displayUpper: upper,
+            tickLower: clPool.flipped ? -upper : lower,
+            tickUpper: clPool.flipped ? -lower : upper,
+        };
+    }, [isCL, minPrice, maxPrice, token0.decimals, token1.decimals, tickSpacing, clPool.flipped]);
+
+    const sqrtPriceX96 = useMemo(() => {
+        if (clPool.state) return clPool.state.sqrtPriceX96;
+        if (!(currentPrice > 0) || !Number.isFinite(currentPrice)) return null;
+        const displayTick = priceToTick(currentPrice, token0.decimals, token1.decimals);
+        return getSqrtRatioAtTick(clPool.flipped ? -displayTick : displayTick);
+    }, [clPool.state, clPool.flipped, currentPrice, token0.decimals, token1.decimals]);
+
+    // Pool side (0/1) of each display side
+    const poolSide = (side: 0 | 1): 0 | 1 => (clPool.flipped ? (1 - side) as 0 | 1 : side);
+
+    const rangeStatus: RangeStatus | null = clRange && sqrtPriceX96
+        ? getRangeStatus(sqrtPriceX96, clRange.tickLower, clRange.tickUpper)
+        : null;
+    /** Display sides the range can hold: both in range, one side out of range */
+    const canDeposit = (side: 0 | 1): boolean =>
+        !rangeStatus || rangeStatus === 'in' || (rangeStatus === 'below') === (poolSide(side) === 0);
+
+    const clDeposit = useMemo(() => {
+        if (!clRange || !sqrtPriceX96) return null;
+        const token = editedSide === 0 ? token0 : token1;
+        const raw = BigInt(parseTokenAmount(editedSide === 0 ? amount0 : amount1, token.decimals));
+        if (raw === BigInt(0)) return null;
+        const position = getPositionAmounts(sqrtPriceX96, clRange.tickLower, clRange.tickUpper, raw, poolSide(editedSide));
+        if (!position) return null;
+        const poolAmounts = [position.amount0, position.amount1] as const;
+        return {
+            liquidity: position.liquidity,
+            poolAmounts,
+            displayAmounts: [poolAmounts[poolSide(0)], poolAmounts[poolSide(1)]] as const,
+        };
+    }, [clRange, sqrtPriceX96, editedSide, amount0, amount1, token0, token1, clPool.flipped]);
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // LB BINS
+    // ─────────────────────────────────────────────────────────────────────────
+
+    const binStep = binStepFromPercent(pool?.fee ?? 0.10);
+
+    /** Bins the range covers, X = token0 and Y = token1 */
+    const binRange = useMemo(() => {
+        if (ammType !== 'LBAMM' || !(minPrice > 0) || !(maxPrice > minPrice) || !(currentPrice > 0)) return null;
+        const activeId = getIdFromPrice(currentPrice, binStep, token0.decimals, token1.decimals);
+        const lowerId = Math.max(activeId - MAX_BINS_PER_SIDE, getIdFromPrice(minPrice, binStep, token0.decimals, token1.decimals));
+        const upperId = Math.min(activeId + MAX_BINS_PER_SIDE, getIdFromPrice(maxPrice, binStep, token0.decimals, token1.decimals));
+        return upperId < lowerId ? null : { activeId, lowerId, upperId };
+    }, [ammType, minPrice, maxPrice, currentPrice, binStep, token0.decimals, token1.decimals]);
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // SINGLE-TOKEN ZAP
+    // ─────────────────────────────────────────────────────────────────────────
+
+    const zapToken = zapSide === 1 ? token1 : token0;
+    const zapOutToken = zapSide === 1 ? token0 : token1;
+    // CL fee tiers are in hundredths of a bip, pool fees in percent
+    const poolFeeBps = isCL ? feeTier / 100 : Math.round((pool?.fee ?? 0.30) * 100);
+
+    /** Value split the range takes at the current price, in display order */
+    const zapTarget = useMemo((): ValueSplit | null => {
+        if (zapSide === null || !isCL || !clRange || !sqrtPriceX96) return null;
+        const split = getCLValueSplit(sqrtPriceX96, clRange.tickLower, clRange.tickUpper);
+        return clPool.flipped ? { value0: split.value1, value1: split.value0 } : split;
+    }, [zapSide, isCL, clRange, sqrtPriceX96, clPool.flipped]);
+
+    const zapSplit = useMemo(() => {
+        if (zapSide === null || !zapTarget) return null;
+        const amountIn = BigInt(parseTokenAmount(zapAmount, zapToken.decimals));
+        if (amountIn === BigInt(0)) return null;
+        const fraction = getZapSwapFraction(zapTarget, zapSide, poolFeeBps);
+        return { amountIn, fraction, ...splitZapAmount(amountIn, fraction) };
+    }, [zapSide, zapTarget, zapAmount, zapToken.decimals, poolFeeBps]);
+
+    // Routes trade WETH; the zap wraps and unwraps native ETH around the swap
+    const zapTokenIn = chainId ? getRoutableAddress(zapToken, chainId) : null;
+    const zapTokenOut = chainId ? getRoutableAddress(zapOutToken, chainId) : null;
+    const zapQuoteParams = useMemo(
+        () => isOpen && chainId && zapTokenIn && zapTokenOut && zapSplit && zapSplit.swapAmount > BigInt(0)
+            ? { tokenIn: zapTokenIn, tokenOut: zapTokenOut, amountIn: zapSplit.swapAmount, chainId }
+            : null,
+        [isOpen, chainId, zapTokenIn, zapTokenOut, zapSplit]
+    );
+    const zapQuote = useQuote({ params: zapQuoteParams, tokenOutDecimals: zapOutToken.decimals });
+
+    /**
+     * Kept amount plus the quoted swap output, and what of it the deposit
+     * takes: what fits the range at the current price, leaving the rest.
+     */
+    const zapPlan = useMemo((): ZapPreview | null => {
+        if (zapSide === null || !zapSplit) return null;
+        let received = BigInt(0);
+        if (zapSplit.swapAmount > BigInt(0)) {
+            // The quote is debounced; wait for the one matching this split
+            if (!zapQuote.quote || zapQuote.quote.amountIn !== zapSplit.swapAmount) return null;
+            received = zapQuote.quote.amountOut;
+        }
+        const balances = zapSide === 0 ? [zapSplit.keepAmount, received] as const : [received, zapSplit.keepAmount] as const;
+        if (!clRange || !sqrtPriceX96) return null;
+        const plan = planCLZapDeposit(sqrtPriceX96, clRange.tickLower, clRange.tickUpper, balances[poolSide(0)], balances[poolSide(1)]);
+        const amounts = [plan.amount0, plan.amount1] as const;
+        const dust = [plan.dust0, plan.dust1] as const;
+        return {
+            received,
+            liquidity: plan.liquidity,
+            deposit: [amounts[poolSide(0)], amounts[poolSide(1)]],
+            dust: [dust[poolSide(0)], dust[poolSide(1)]],
+        };
+    }, [zapSide, zapSplit, zapQuote.quote, clRange, sqrtPriceX96, clPool.flipped]);
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // LB DISTRIBUTION
+    // ─────────────────────────────────────────────────────────────────────────
+
+    /**
+     * How the deposit is spread over the bins. Without amounts the preview
+     * shows the shape alone, as if equal value went to each side.
+     */
+    const binPlan = useMemo(() => {
+        if (!binRange) return null;
+        const { activeId, lowerId, upperId } = binRange;
+        const [rawX, rawY] = [BigInt(parseTokenAmount(amount0, token0.decimals)), BigInt(parseTokenAmount(amount1, token1.decimals))];
+        const hasAmounts = rawX > BigInt(0) || rawY > BigInt(0);
+        const distribution = buildBinDistribution({
+            shape: liquidityShape,
+            activeId,
+            lowerId,
+            upperId,
+            amountX: hasAmounts ? rawX : BigInt(1),
+            amountY: hasAmounts ? rawY : BigInt(1),
+        });
+        const amounts = { amountX: Number(formatUnits(rawX, token0.decimals)), amountY: Number(formatUnits(rawY, token1.decimals)) };
+        const preview = previewBinDistribution(
+            distribution,
+            activeId,
+            binStep,
+            hasAmounts ? amounts : { amountX: 1, amountY: currentPrice },
+            { x: token0.decimals, y: token1.decimals }
+        );
+        return { activeId, lowerId, upperId, distribution, preview };
+    }, [binRange, amount0, amount1, token0.decimals, token1.decimals, liquidityShape, binStep, currentPrice]);
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // CHART DATA
+    // ─────────────────────────────────────────────────────────────────────────
+
+    /** CL pool ids follow from the key; LB pools only have one when listed by id */
+    const poolId = useMemo(() => {
+        if (isCL) return clPool.poolKey ? getCLPoolId(clPool.poolKey) : null;
+        return pool?.id && isHash(pool.id) ? pool.id : null;
+    }, [isCL, clPool.poolKey, pool?.id]);
+
+    const priceHistory = usePoolPriceHistory({
+        chainId,
+        poolId: isOpen ? poolId : null,
+        token0: currencyOf(token0),
+        token1: currencyOf(token1),
+    });
+
+    // The depth reader quotes in pool order, which CL pools may have flipped
+    const depthTokens = useMemo(() => {
+        const [base, quote] = isCL && clPool.flipped ? [token1, token0] : [token0, token1];
+        return { baseToken: toTokenInfo(base), quoteToken: toTokenInfo(quote) };
+    }, [isCL, clPool.flipped, token0, token1]);
+    const poolDepth = usePoolDepth({
+        poolId,
+        poolType: isCL ? 'CL' : 'BIN',
+        enabled: isOpen,
+        ...depthTokens,
+    });
+    const depthBars = useMemo(
+        () => poolDepth.depth ? buildDepthBars([...poolDepth.depth.bids, ...poolDepth.depth.asks], isCL && clPool.flipped) : null,
+        [poolDepth.depth, isCL, clPool.flipped]
+    );
+
+    const amountInput = (side: 0 | 1): string => {
+        const typed = side === 0 ? amount0 : amount1;
+        if (!isCL || side === editedSide) return typed;
+        if (!canDeposit(side)) return '0';
+        return clDeposit ? toInputAmount(clDeposit.displayAmounts[side], (side === 0 ? token0 : token1).decimals) : '';
+    };
+    const setAmount = (side: 0 | 1, value: string) => {
+        (side === 0 ? setAmount0 : setAmount1)(value);
+        setEditedSide(side);
+    };
+
+    const isZap = zapSide !== null;
+    /** Token units deposited on a side: typed or filled in, or what the zap plan deposits */
+    const depositValue = (side: 0 | 1): number => {
+        if (!isZap) return parseFloat(amountInput(side)) || 0;
+        return zapPlan ? Number(formatUnits(zapPlan.deposit[side], (side === 0 ? token0 : token1).decimals)) : 0;
+    };
+    const amount0Value = depositValue(0);
+    const amount1Value = depositValue(1);
     const totalValueUsd = (amount0Value * (token0?.price || 0)) + (amount1Value * (token1?.price || 0));
-    const canSubmit = isConnected && amount0Value > 0 && amount1Value > 0;
+    const clAvailable = !!clPool.poolKey && !!chainId && isContractConfigured(chainId, 'clPositionManager');
+    const zapSwaps = !!zapSplit && zapSplit.swapAmount > BigInt(0);
+    const routerAvailable = !zapSwaps || (!!chainId && isContractConfigured(chainId, 'gatewayRouter'));
+    const canSubmit = isZap
+        ? isConnected && !!zapPlan && clAvailable && routerAvailable && !!clPool.state && zapPlan.liquidity > BigInt(0)
+        : isCL
+            ? isConnected && clAvailable && !!clPool.state && !!clDeposit && clDeposit.liquidity > BigInt(0)
+            : isConnected && isDemo && amount0Value > 0 && amount1Value > 0;
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // PRE-FLIGHT
+    // ─────────────────────────────────────────────────────────────────────────
+
+    const mintParams = useMemo((): MintCLPositionParams | null => {
+        if (isZap || !isCL || !chainId || !clPool.poolKey || !clRange || !clDeposit || confirmDeadline === null) return null;
+        const [amount0Max, amount1Max] = clDeposit.poolAmounts.map(amount => withSlippageCap(amount, slippageBps));
+        return {
+            chainId,
+            poolKey: clPool.poolKey,
+            tickLower: clRange.tickLower,
+            tickUpper: clRange.tickUpper,
+            liquidity: clDeposit.liquidity,
+            amount0Max: amount0Max!,
+            amount1Max: amount1Max!,
+            deadline: confirmDeadline,
+            approvalMode,
+        };
+    }, [isZap, isCL, chainId, clPool.poolKey, clRange, clDeposit, confirmDeadline, slippageBps, approvalMode]);
+    const mintCall = useMintPreflightCall({ params: mintParams, owner: address, enabled: confirmOpen && !isPending });
+
+    // The zap's first transaction is its swap; the mint after it is simulated by the hook
+    const zapRouter = chainId && isContractConfigured(chainId, 'gatewayRouter') ? getContractAddress(chainId, 'gatewayRouter') : null;
+    const zapSwapQuote = zapSwaps && zapQuote.quote && zapTokenIn && zapTokenOut && zapRouter
+        ? toQuoteResponse(zapQuote.quote, {
+            tokenIn: zapTokenIn,
+            tokenOut: zapTokenOut,
+            minAmountOut: calculateMinAmountOut(zapQuote.quote.amountOut, slippageBps),
+            router: zapRouter,
+        })
+        : null;
+    const { allowance: zapAllowance } = useTokenAllowance(
+        isCL && zapSwaps && !isNativeToken(zapToken) ? zapToken : null,
+        zapRouter,
+        address,
+        chainId
+    );
+    // Until the router approval is mined the swap can only revert on the allowance
+    const zapSwapCall = zapSwapQuote && zapRouter && address && chainId && confirmDeadline !== null
+        && (isNativeToken(zapToken) || zapAllowance >= BigInt(zapSwapQuote.amountIn))
+        ? buildSwapCall({
+            quote: zapSwapQuote,
+            deadline: confirmDeadline,
+            recipient: address,
+            chainId,
+            nativeIn: isNativeToken(zapToken),
+            nativeOut: isNativeToken(zapOutToken),
+        }, zapRouter)
+        : null;
+
+    const preflight = usePreflight({
+        call: isZap ? zapSwapCall : mintCall,
+        account: address,
+        chainId,
+        enabled: confirmOpen && !isPending,
+    });
+
+    // Every hook runs above this, so isOpen can flip while the modal stays mounted
+    if (!isOpen) return null;
+
+    const formatPrice = (price: number): string => price.toFixed(currentPrice < 1 ? 6 : 2);
+    const displayMinPrice = clRange ? tickToPrice(clRange.displayLower, token0.decimals, token1.decimals) : minPrice;
+    const displayMaxPrice = clRange ? tickToPrice(clRange.displayUpper, token0.decimals, token1.decimals) : maxPrice;
+
+    const hasAmounts = amount0Value > 0 || amount1Value > 0;
+    const nominalValue = token1.price > 0 ? NOMINAL_DEPOSIT_USD / token1.price : 0;
+    const simulationModel = (() => {
+        if (!isCL) {
+            if (!binPlan) return null;
+            // Without amounts the preview is nominal; scale it to the nominal deposit
+            const previewValue = binPlan.preview.reduce((sum, bin) => sum + bin.valueY, 0);
+            const scale = hasAmounts || !(previewValue > 0) ? 1 : nominalValue / previewValue;
+            const bins = binPlan.preview.map(bin => ({ ...bin, amountX: bin.amountX * scale, amountY: bin.amountY * scale }));
+            return binPositionModel(bins, binStep, currentPrice);
+        }
+        return hasAmounts
+            ? clPositionModel({ currentPrice, minPrice: displayMinPrice, maxPrice: displayMaxPrice, amount0: amount0Value, amount1: amount1Value })
+            : clPositionModelForValue(currentPrice, displayMinPrice, displayMaxPrice, nominalValue);
+    })();
+
+    /** Move a CL bound by one tick spacing, or by 2% for other pool types */
+    const stepPrice = (bound: 'min' | 'max', direction: 1 | -1) => {
+        if (!clRange) {
+            const factor = direction > 0 ? 1.02 : 0.98;
+            if (bound === 'min') setMinPrice(minPrice * factor);
+            else setMaxPrice(maxPrice * factor);
+            return;
+        }
+        const tick = (bound === 'min' ? clRange.displayLower : clRange.displayUpper) + direction * tickSpacing;
+        if (bound === 'min' && tick >= clRange.displayUpper) return;
+        if (bound === 'max' && tick <= clRange.displayLower) return;
+        const price = tickToPrice(tick, token0.decimals, token1.decimals);
+        if (bound === 'min') setMinPrice(price);
+        else setMaxPrice(price);
+    };
+
+    const submitLabel = (): string => {
+        if (!isConnected) return 'Connect Wallet';
+        if (isCL && (mintStep === 'approving' || zapStep === 'approving')) return 'Approving...';
+        if (zapStep === 'swapping') return 'Swapping...';
+        if (isPending) return 'Adding Liquidity...';
+        if (!isCL && !isDemo) return 'LB deposits not available yet';
+        if (isCL && (!clAvailable || !routerAvailable)) return 'Not available on this network';
+        if (isCL && clPool.isLoading) return 'Loading pool...';
+        if (isCL && !clPool.state) return 'Pool not initialized';
+        if (zapSwaps && !zapPlan) return zapQuote.error ? 'No route for the swap' : 'Fetching quote...';
+        if (!canSubmit) return 'Enter amounts';
+        return isZap ? 'Review Zap' : 'Add Liquidity';
+    };
+
+    /** e.g. "0.5 WETH + 1200 USDC", skipping zero amounts */
+    const formatDisplayAmounts = (amounts: readonly [bigint, bigint]): string =>
+        ([0, 1] as const)
+            .filter(side => amounts[side] > BigInt(0))
+            .map(side => {
+                const token = side === 0 ? token0 : token1;
+                return `${toInputAmount(amounts[side], token.decimals)} ${token.symbol}`;
+            })
+            .join(' + ');
+
+    const resetAndClose = () => {
+        setAmount0(''); setAmount1(''); setZapAmount('');
+        onClose();
+    };
+
+    /** Keep a minted CL position, with its tokenId, so the liquidity page can read and collect its fees */
+    const rememberPosition = (tokenId: bigint | undefined, hash: Hash | undefined, amounts: readonly [bigint, bigint]): void => {
+        if (!chainId || !address || tokenId === undefined || !hash || !isIndexedDbAvailable()) return;
+        savePosition({
+            id: getPositionId(chainId, tokenId),
+            account: address,
+            chainId,
+            pool: pool ?? { id: poolId ?? '', token0, token1, type: ammType, fee: feeTier / 10000, tvl: 0, volume24h: 0, apr: 0 },
+            token0Amount: Number(formatUnits(amounts[0], token0.decimals)),
+            token1Amount: Number(formatUnits(amounts[1], token1.decimals)),
+            minPrice: displayMinPrice,
+            maxPrice: displayMaxPrice,
+            initialValue: totalValueUsd,
+            createdAt: Date.now(),
+            hash,
+            onChain: { type: 'CL', tokenId: tokenId.toString() },
+        }).catch((error: unknown) => logger.warn('Failed to save position', { error, tokenId: tokenId.toString() }));
+    };
 
     const handleAddLiquidity = async (): Promise<void> => {
         if (!isConnected) { onConnect(); return; }
+        if (isZap || isCL) {
+            setConfirmDeadline(createDeadline(DEFAULT_DEADLINE_SECONDS));
+            setConfirmOpen(true);
+            return;
+        }
+        if (isDemo) await simulateAddLiquidity();
+    };
+
+    /** Demo wallet only: LB pools are not wired to the bin position manager yet */
+    const simulateAddLiquidity = async (): Promise<void> => {
         setIsPending(true);
         const toastId = showTxToast.pending(`Adding liquidity to ${token0?.symbol}/${token1?.symbol}...`);
         await new Promise(r => setTimeout(r, TIMING.TX_SIMULATION));
         showTxToast.success(`Added $${totalValueUsd.toLocaleString()} to ${token0?.symbol}/${token1?.symbol} pool`, '0x' + Math.random().toString(16).slice(2, 10), toastId);
         setIsPending(false);
-        setAmount0(''); setAmount1('');
-        onClose();
+        resetAndClose();
+    };
+
+    const handleMintPosition = async (): Promise<void> => {
+        if (!chainId || !mintParams) return;
+        setIsPending(true);
+        const pair = `${token0.symbol}/${token1.symbol}`;
+        const toastId = showTxToast.pending(`Adding liquidity to ${pair}...`);
+
+        const result = await mint(mintParams);
+        setIsPending(false);
+        setConfirmOpen(false);
+
+        if (result.success) {
+            if (clDeposit) rememberPosition(result.tokenId, result.hash, clDeposit.displayAmounts);
+            showTxToast.success(`Added $${totalValueUsd.toLocaleString()} to ${pair} pool`, result.hash, toastId, chainId);
+            clPool.refresh();
+            resetAndClose();
+        } else if (result.isUserRejection) {
+            showTxToast.dismiss?.(toastId);
+        } else {
+            showTxToast.error?.(result.error || 'Adding liquidity failed', toastId);
+        }
+    };
+
+    const handleZap = async (): Promise<void> => {
+        if (zapSide === null || !zapSplit || !zapPlan) return;
+        if (!chainId || !clPool.poolKey || !clRange || confirmDeadline === null) return;
+
+        setIsPending(true);
+        const pair = `${token0.symbol}/${token1.symbol}`;
+        const toastId = showTxToast.pending(`Zapping ${zapToken.symbol} into ${pair}...`);
+        const result = await zap({
+            chainId,
+            poolKey: clPool.poolKey,
+            tickLower: clRange.tickLower,
+            tickUpper: clRange.tickUpper,
+            inputSide: poolSide(zapSide),
+            amountIn: zapSplit.amountIn,
+            quote: zapSwapQuote,
+            slippageBps,
+            deadline: confirmDeadline,
+            approvalMode,
+        });
+        setIsPending(false);
+        setConfirmOpen(false);
+
+        if (result.success) {
+            rememberPosition(result.tokenId, result.hash, zapPlan.deposit);
+            const dust = result.dust ? [result.dust.amount0, result.dust.amount1] as const : null;
+            const leftover = dust ? formatDisplayAmounts([dust[poolSide(0)], dust[poolSide(1)]]) : '';
+            showTxToast.success(
+                `Added $${totalValueUsd.toLocaleString()} to ${pair} pool${leftover ? `; ${leftover} left over in your wallet` : ''}`,
+                result.hash,
+                toastId,
+                chainId
+            );
+            clPool.refresh();
+            resetAndClose();
+        } else if (result.isUserRejection && !result.swapHash) {
+            showTxToast.dismiss?.(toastId);
+        } else {
+            // Past the swap the output is already in the wallet; say so rather than imply nothing happened
+            const message = result.error || 'Zap failed';
+            showTxToast.error?.(result.swapHash ? `${message} The swapped ${zapOutToken.symbol} is in your wallet.` : message, toastId);
+        }
     };
 
     const shapes: ShapeOption[] = [
@@ -73,6 +618,37 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
         { id: 'bidask', label: 'Bid-Ask', icon: '▌ ▐' }
     ];
 
+    /** Transactions the zap sends, for review in the confirm modal */
+    const zapSteps = ((): TransactionPlanStep[] => {
+        if (!zapSplit || !zapPlan) return [];
+        const steps: TransactionPlanStep[] = [];
+        if (zapSwaps) {
+            if (!isNativeToken(zapToken)) {
+                steps.push({ title: `Approve ${zapToken.symbol} for the router`, detail: 'Skipped when the allowance already covers the swap' });
+            }
+            const minReceived = calculateMinAmountOut(zapPlan.received, slippageBps);
+            steps.push({
+                title: `Swap ${toInputAmount(zapSplit.swapAmount, zapToken.decimals)} ${zapToken.symbol} for ~${toInputAmount(zapPlan.received, zapOutToken.decimals)} ${zapOutToken.symbol}`,
+                detail: `${(zapSplit.fraction * 100).toFixed(1)}% of the deposit · at least ${toInputAmount(minReceived, zapOutToken.decimals)} ${zapOutToken.symbol}`,
+            });
+        }
+        const where = `Range ${formatPrice(displayMinPrice)} – ${formatPrice(displayMaxPrice)}, after any Permit2 approvals`;
+        const leftover = formatDisplayAmounts(zapPlan.dust);
+        steps.push({
+            title: `Add ${formatDisplayAmounts(zapPlan.deposit)}`,
+            detail: leftover ? `${where} · ${leftover} left over stays in your wallet` : where,
+        });
+        return steps;
+    })();
+
+    /** The plain CL mint: Permit2 approvals and permits as needed, then the mint */
+    const mintSteps: TransactionPlanStep[] = clDeposit
+        ? [{
+            title: `Add ${formatDisplayAmounts(clDeposit.displayAmounts)}`,
+            detail: `Range ${formatPrice(displayMinPrice)} – ${formatPrice(displayMaxPrice)}, after any Permit2 approvals`,
+        }]
+        : [];
+
     return (
         <div 
             onClick={onClose} 
@@ -120,7 +696,7 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
                     <div className="liquidity-modal__pool-stats">
                         <div className="liquidity-modal__stat">
                             <div className="liquidity-modal__stat-label">Current Price</div>
-                            <div className="liquidity-modal__stat-value">{currentPrice.toFixed(currentPrice < 1 ? 6 : 2)}</div>
+                            <div className="liquidity-modal__stat-value">{formatPrice(currentPrice)}</div>
                         </div>
                         <div className="liquidity-modal__stat">
                             <div className="liquidity-modal__stat-label">Est. APR</div>
@@ -149,29 +725,29 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
                 <div className="liquidity-modal__grid">
                     <div className="liquidity-modal__chart-section">
                         <RangeTypeSelector currentPrice={currentPrice} setMinPrice={setMinPrice} setMaxPrice={setMaxPrice} baseAPR={baseAPR} />
-                        <PriceRangeChart currentPrice={currentPrice} minPrice={minPrice} maxPrice={maxPrice} setMinPrice={setMinPrice} setMaxPrice={setMaxPrice} type={ammType} token0={token0} token1={token1} baseAPR={baseAPR} />
+                        <PriceRangeChart currentPrice={currentPrice} minPrice={minPrice} maxPrice={maxPrice} setMinPrice={setMinPrice} setMaxPrice={setMaxPrice} type={ammType} token0={token0} token1={token1} baseAPR={baseAPR} priceHistory={priceHistory.data} depth={depthBars} binPreview={binPlan?.preview ?? null} />
                         
                         <div className={`price-input-grid ${ammType === 'LBAMM' ? 'price-input-grid--3col' : 'price-input-grid--2col'}`}>
                             <div className="price-input-box">
                                 <div className="price-input-box__label">Min Price</div>
                                 <div className="price-input-box__controls">
-                                    <button onClick={() => setMinPrice(minPrice * 0.98)} className="price-input-box__btn">−</button>
-                                    <div className="price-input-box__value">{minPrice.toFixed(currentPrice < 1 ? 6 : 2)}</div>
-                                    <button onClick={() => setMinPrice(minPrice * 1.02)} className="price-input-box__btn">+</button>
+                                    <button onClick={() => stepPrice('min', -1)} className="price-input-box__btn">−</button>
+                                    <div className="price-input-box__value">{formatPrice(displayMinPrice)}</div>
+                                    <button onClick={() => stepPrice('min', 1)} className="price-input-box__btn">+</button>
                                 </div>
                             </div>
                             <div className="price-input-box">
                                 <div className="price-input-box__label">Max Price</div>
                                 <div className="price-input-box__controls">
-                                    <button onClick={() => setMaxPrice(maxPrice * 0.98)} className="price-input-box__btn">−</button>
-                                    <div className="price-input-box__value">{maxPrice.toFixed(currentPrice < 1 ? 6 : 2)}</div>
-                                    <button onClick={() => setMaxPrice(maxPrice * 1.02)} className="price-input-box__btn">+</button>
+                                    <button onClick={() => stepPrice('max', -1)} className="price-input-box__btn">−</button>
+                                    <div className="price-input-box__value">{formatPrice(displayMaxPrice)}</div>
+                                    <button onClick={() => stepPrice('max', 1)} className="price-input-box__btn">+</button>
                                 </div>
                             </div>
                             {ammType === 'LBAMM' && (
                                 <div className="price-input-box">
                                     <div className="price-input-box__label" style={{ color: '#8A8A8A' }}>Num Bins</div>
-                                    <div className="price-input-box__value">51</div>
+                                    <div className="price-input-box__value">{binPlan ? binPlan.upperId - binPlan.lowerId + 1 : '—'}</div>
                                 </div>
                             )}
                         </div>
@@ -199,9 +775,88 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
 
                     <div className="liquidity-modal__deposit-section">
                         <div className="liquidity-modal__section-title">Deposit Amount</div>
+
+                        <div className="zap-toggle" role="group" aria-label="Deposit with">
+                            {([null, 0, 1] as const).map(side => (
+                                <button
+                                    key={side ?? 'both'}
+                                    onClick={() => setZapSide(side)}
+                                    className={`zap-toggle__btn ${zapSide === side ? 'zap-toggle__btn--active' : ''}`}
+                                    aria-pressed={zapSide === side}
+                                    disabled={side !== null && !isCL}
+                                >
+                                    {side === null ? 'Both tokens' : `Only ${(side === 0 ? token0 : token1).symbol}`}
+                                </button>
+                            ))}
+                        </div>
+
+                        {!isCL && (
+                            <div className="deposit-token__range-note" role="status">
+                                {isDemo
+                                    ? 'Zap is only available for concentrated-liquidity pools. Deposit both tokens to add to this pool.'
+                                    : 'Deposits into Liquidity Book pools are not available yet. The preview shows where your liquidity would land.'}
+                            </div>
+                        )}
                         
-                        {[{ token: token0, amount: amount0, setAmount: setAmount0 }, { token: token1, amount: amount1, setAmount: setAmount1 }].map((item, i) => (
-                            <div key={i} className="deposit-token">
+                        {isCL && !isZap && rangeStatus && rangeStatus !== 'in' && (
+                            <div className="deposit-token__range-note" role="status">
+                                Current price is outside your range. Only {(canDeposit(0) ? token0 : token1).symbol} is deposited
+                                until the price moves into it.
+                            </div>
+                        )}
+
+                        {isZap && (
+                            <div className="deposit-token">
+                                <div className="deposit-token__header">
+                                    <TokenIcon token={zapToken} size={40} />
+                                    <div className="deposit-token__info">
+                                        <div className="deposit-token__symbol">{zapToken.symbol}</div>
+                                        <div className="deposit-token__protocol">{zapToken.protocol || 'Base Chain'}</div>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={zapAmount}
+                                        onChange={e => setZapAmount(e.target.value)}
+                                        placeholder="0.00"
+                                        className="deposit-token__input"
+                                        aria-label={`${zapToken.symbol} amount`}
+                                    />
+                                </div>
+                                <div className="deposit-token__footer">
+                                    <span className="deposit-token__balance">Balance: {zapToken.balance.toLocaleString()}</span>
+                                    <button onClick={() => setZapAmount(zapToken.balance.toString())} className="deposit-token__max-btn">
+                                        MAX
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {isZap && zapSplit && (
+                            <div className="zap-summary" role="status">
+                                <div className="zap-summary__row">
+                                    <span className="zap-summary__label">Swap</span>
+                                    <span className="zap-summary__value">
+                                        {zapSwaps
+                                            ? `${(zapSplit.fraction * 100).toFixed(1)}% → ${zapPlan ? `~${toInputAmount(zapPlan.received, zapOutToken.decimals)} ${zapOutToken.symbol}` : '…'}`
+                                            : 'None needed'}
+                                    </span>
+                                </div>
+                                <div className="zap-summary__row">
+                                    <span className="zap-summary__label">Deposit</span>
+                                    <span className="zap-summary__value">{zapPlan ? formatDisplayAmounts(zapPlan.deposit) || '—' : '…'}</span>
+                                </div>
+                                <div className="zap-summary__row">
+                                    <span className="zap-summary__label">Left over</span>
+                                    <span className="zap-summary__value zap-summary__value--muted">
+                                        {zapPlan ? formatDisplayAmounts(zapPlan.dust) || 'None' : '…'}
+                                    </span>
+                                </div>
+                                {zapQuote.error && <div className="zap-summary__error">{zapQuote.error.userMessage}</div>}
+                            </div>
+                        )}
+
+                        {!isZap && ([0, 1] as const).map(side => ({ side, token: side === 0 ? token0 : token1 })).map(item => (
+                            <div key={item.side} className={`deposit-token ${isCL && !canDeposit(item.side) ? 'deposit-token--disabled' : ''}`}>
                                 <div className="deposit-token__header">
                                     <TokenIcon token={item.token} size={40} />
                                     <div className="deposit-token__info">
@@ -210,15 +865,23 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
                                     </div>
                                     <input 
                                         type="number" 
-                                        value={item.amount} 
-                                        onChange={e => item.setAmount(e.target.value)} 
+                                        value={amountInput(item.side)} 
+                                        onChange={e => setAmount(item.side, e.target.value)} 
                                         placeholder="0.00" 
                                         className="deposit-token__input"
+                                        disabled={isCL && !canDeposit(item.side)}
+                                        aria-label={`${item.token?.symbol} amount`}
                                     />
                                 </div>
                                 <div className="deposit-token__footer">
                                     <span className="deposit-token__balance">Balance: {item.token?.balance.toLocaleString()}</span>
-                                    <button onClick={() => item.setAmount(item.token?.balance.toString() || '')} className="deposit-token__max-btn">MAX</button>
+                                    <button
+                                        onClick={() => setAmount(item.side, item.token?.balance.toString() || '')}
+                                        className="deposit-token__max-btn"
+                                        disabled={isCL && !canDeposit(item.side)}
+                                    >
+                                        MAX
+                                    </button>
                                 </div>
                             </div>
                         ))}
@@ -230,18 +893,38 @@ export const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
                             </div>
                             <div className="deposit-summary__row">
                                 <span className="deposit-summary__label">Slippage</span>
-                                <span className="deposit-summary__slippage">0.50%</span>
+                                <span className="deposit-summary__slippage">{(slippageBps / 100).toFixed(2)}%</span>
                             </div>
                             <button 
                                 onClick={handleAddLiquidity} 
                                 disabled={(!canSubmit && isConnected) || isPending}
                                 className={`deposit-submit-btn ${canSubmit || !isConnected ? 'deposit-submit-btn--active' : 'deposit-submit-btn--disabled'} ${isPending ? 'deposit-submit-btn--pending' : ''}`}
                             >
-                                {!isConnected ? 'Connect Wallet' : isPending ? 'Adding Liquidity...' : !canSubmit ? 'Enter amounts' : 'Add Liquidity'}
+                                {submitLabel()}
                             </button>
                         </div>
                     </div>
                 </div>
+
+                <PositionSimulator
+                    model={simulationModel}
+                    token0={token0}
+                    token1={token1}
+                    feeApr={baseAPR}
+                    isYieldBearing={!!pool?.isYieldBearing}
+                />
+
+                <TransactionConfirmModal
+                    isOpen={confirmOpen}
+                    onClose={() => setConfirmOpen(false)}
+                    onConfirm={isZap ? handleZap : handleMintPosition}
+                    type="addLiquidity"
+                    priceImpact={isZap && zapSwaps && zapQuote.quote ? zapQuote.quote.priceImpactPercent : 0}
+                    slippage={slippageBps / 100}
+                    isPending={isPending}
+                    preflight={preflight}
+                    steps={isZap ? zapSteps : mintSteps}
+                />
             </div>
         </div>
     );
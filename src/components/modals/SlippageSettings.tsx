@@ -8,7 +8,9 @@ export const SlippageSettings: React.FC<SlippageSettingsProps> = ({
     slippage, 
     setSlippage, 
     deadline, 
-    setDeadline 
+    setDeadline,
+    approvalMode,
+    setApprovalMode,
 }) => {
     const [customSlippage, setCustomSlippage] = useState('');
     const presets = [0.1, 0.5, 1.0];
@@ -138,6 +140,38 @@ export const SlippageSettings: React.FC<SlippageSettingsProps> = ({
                     </div>
                 </div>
 
+                {approvalMode && setApprovalMode && (
+                    <div className="slippage-section">
+                        <div className="slippage-section__label">
+                            <span id="approval-mode-label" className="slippage-section__label-text">Token Approvals</span>
+                            <div className="tooltip-container" style={{ cursor: 'help' }}>
+                                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="#7A7A7A" strokeWidth="2" aria-hidden="true">
+                                    <circle cx="12" cy="12" r="10" /><path d="M12 16v-4M12 8h.01" />
+                                </svg>
+                                <div className="tooltip" style={{ width: 220 }} role="tooltip">
+                                    <div style={{ fontSize: '0.75rem', color: '#A3A3A3' }}>
+                                        Exact approves only what each trade spends. Unlimited approves once per token, but the contract can spend your whole balance.
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="slippage-presets" role="radiogroup" aria-labelledby="approval-mode-label">
+                            {(['exact', 'unlimited'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    role="radio"
+                                    onClick={() => setApprovalMode(mode)}
+                                    className={`slippage-preset-btn ${approvalMode === mode ? 'slippage-preset-btn--active' : ''}`}
+                                    aria-checked={approvalMode === mode}
+                                >
+                                    {mode === 'exact' ? 'Exact' : 'Unlimited'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 <div className="slippage-summary">
                     <div className="slippage-summary__row">
                         <span className="slippage-summary__label">Slippage</span>
@@ -1,8 +1,13 @@
 import { useState, useMemo } from 'react';
+import { isAddress } from 'viem';
 import { TOKENS } from '../../data';
 import { TokenIcon } from '../ui';
+import { isUnlistedToken } from '../../services/tokenListService';
+import { handleError } from '../../lib/contracts/errors';
 import type { Token, TokenSelectorModalProps } from '../../types';
 
+const tokenKey = (token: Token): string => token.address?.toLowerCase() ?? token.symbol;
+
 export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({ 
     isOpen, 
     onClose, 
@@ -12,14 +17,18 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
     favoriteTokens = ['ETH', 'USDC', 'IGNIS'],
     recentTokens = [],
     onToggleFavorite,
+    tokens = TOKENS,
+    onImport,
 }) => {
     const [search, setSearch] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
     
     const filteredTokens = useMemo(() => {
         const query = search.toLowerCase().trim();
-        if (!query) return TOKENS.filter(t => t.symbol !== otherToken?.symbol);
+        if (!query) return tokens.filter(t => t.symbol !== otherToken?.symbol);
         
-        return TOKENS.filter(t => {
+        return tokens.filter(t => {
             if (t.symbol === otherToken?.symbol) return false;
             return (
                 t.symbol.toLowerCase().includes(query) ||
@@ -27,7 +36,11 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
                 (t.address && t.address.toLowerCase().includes(query))
             );
         });
-    }, [search, otherToken]);
+    }, [search, otherToken, tokens]);
+    
+    // A pasted address that matches nothing can be imported
+    const importAddress = search.trim();
+    const canImport = !!onImport && filteredTokens.length === 0 && isAddress(importAddress, { strict: false });
     
     const { favorites, recent, other } = useMemo(() => {
         const favs: Token[] = [];
@@ -55,6 +68,19 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
         onClose();
     };
     
+    const handleImport = async (): Promise<void> => {
+        if (!onImport) return;
+        setIsImporting(true);
+        setImportError(null);
+        try {
+            handleSelect(await onImport(importAddress as `0x${string}`));
+        } catch (err: unknown) {
+            setImportError(handleError(err).userMessage);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+    
     if (!isOpen) return null;
     
     const TokenRow: React.FC<{ token: Token; showFavorite?: boolean }> = ({ token, showFavorite = true }) => {
@@ -71,6 +97,11 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
                         {token.isYieldBearing && (
                             <span className="token-list__yield-badge">YIELD</span>
                         )}
+                        {isUnlistedToken(token) && (
+                            <span className="token-list__unlisted-badge" title="Imported by address; not on any token list">
+                                UNLISTED
+                            </span>
+                        )}
                     </div>
                     <div className="token-list__name">{token.name}</div>
                 </div>
@@ -131,7 +162,7 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
                         <input 
                             type="text" 
                             value={search} 
-                            onChange={e => setSearch(e.target.value)} 
+                            onChange={e => { setSearch(e.target.value); setImportError(null); }} 
                             placeholder="Search name, symbol, or address" 
                             autoFocus 
                             className="modal__search-input"
@@ -148,7 +179,23 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
                 </div>
                 
                 <div className="token-list">
-                    {filteredTokens.length === 0 ? (
+                    {canImport ? (
+                        <div className="token-list__import">
+                            <div className="token-list__import-warning" role="alert">
+                                This token is not on any list. Anyone can create a token with any name,
+                                including fake versions of existing tokens. Check the address before trading.
+                            </div>
+                            <div className="token-list__import-address">{importAddress}</div>
+                            {importError && <div className="token-list__import-error">{importError}</div>}
+                            <button
+                                onClick={handleImport}
+                                disabled={isImporting}
+                                className="token-list__import-btn"
+                            >
+                                {isImporting ? 'Looking up token…' : 'Import token'}
+                            </button>
+                        </div>
+                    ) : filteredTokens.length === 0 ? (
                         <div className="token-list__empty">
                             <div className="token-list__empty-icon">🔍</div>
                             <div>No tokens found for "{search}"</div>
@@ -161,14 +208,14 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
                             {favorites.length > 0 && !search && (
                                 <>
                                     <SectionHeader title="⭐ Favorites" />
-                                    {favorites.map(token => <TokenRow key={token.symbol} token={token} />)}
+                                    {favorites.map(token => <TokenRow key={tokenKey(token)} token={token} />)}
                                 </>
                             )}
                             
                             {recent.length > 0 && !search && (
                                 <>
                                     <SectionHeader title="🕐 Recent" />
-                                    {recent.map(token => <TokenRow key={token.symbol} token={token} />)}
+                                    {recent.map(token => <TokenRow key={tokenKey(token)} token={token} />)}
                                 </>
                             )}
                             
@@ -177,13 +224,13 @@ export const TokenSelectorModal: React.FC<TokenSelectorModalProps> = ({
                                     {!search && (favorites.length > 0 || recent.length > 0) && (
                                         <SectionHeader title="All Tokens" />
                                     )}
-                                    {other.map(token => <TokenRow key={token.symbol} token={token} />)}
+                                    {other.map(token => <TokenRow key={tokenKey(token)} token={token} />)}
                                 </>
                             )}
                             
                             {search && (
                                 [...favorites, ...recent, ...other].map(token => (
-                                    <TokenRow key={token.symbol} token={token} />
+                                    <TokenRow key={tokenKey(token)} token={token} />
                                 ))
                             )}
                         </>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { TIMING, THRESHOLDS } from '../../constants';
-import type { TransactionConfirmModalProps } from '../../types';
+import { GAS_TIERS, formatGasTierCost } from '../../services/gasEstimator';
+import { APPROVAL_METHOD_LABELS } from '../../lib/contracts/permit';
+import type { GasCostEstimate, GasTier, SwapExecutionSummary, TransactionConfirmModalProps, TransactionPlanStep } from '../../types';
 
 interface DetailRowProps {
     label: string;
@@ -15,6 +17,71 @@ const DetailRow: React.FC<DetailRowProps> = ({ label, value, valueClass = '' })
     </div>
 );
 
+const formatAmount = (value: string): string =>
+    parseFloat(value || '0').toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const ExecutionResult: React.FC<{ execution: SwapExecutionSummary }> = ({ execution }) => {
+    const { quotedAmount, receivedAmount, symbol, slippageBps } = execution;
+    const slippageClass = slippageBps > 0 ? 'tx-details__value--warning' : 'tx-details__value--success';
+
+    return (
+        <div className="tx-details">
+            <DetailRow label="Quoted" value={`${formatAmount(quotedAmount)} ${symbol}`} />
+            <DetailRow label="Received" value={`${formatAmount(receivedAmount)} ${symbol}`} valueClass="tx-details__value--gold" />
+            <DetailRow label="Slippage vs. Quote" value={`${(-slippageBps / 100).toFixed(2)}%`} valueClass={slippageClass} />
+        </div>
+    );
+};
+
+const PlanSteps: React.FC<{ steps: TransactionPlanStep[] }> = ({ steps }) => (
+    <ol className="tx-steps" aria-label="Transactions to sign">
+        {steps.map((step, i) => (
+            <li key={i} className="tx-steps__item">
+                <span className="tx-steps__index">{i + 1}</span>
+                <div>
+                    <div className="tx-steps__title">{step.title}</div>
+                    {step.detail && <div className="tx-steps__detail">{step.detail}</div>}
+                </div>
+            </li>
+        ))}
+    </ol>
+);
+
+const GAS_TIER_LABELS: Record<GasTier, string> = {
+    slow: 'Slow',
+    normal: 'Normal',
+    fast: 'Fast',
+};
+
+const GasTierSelector: React.FC<{
+    estimate: GasCostEstimate;
+    tier: GasTier;
+    onChange?: (tier: GasTier) => void;
+}> = ({ estimate, tier, onChange }) => (
+    <div className="tx-gas">
+        <DetailRow label="Network Fee" value={formatGasTierCost(estimate.tiers[tier])} />
+        {onChange && (
+            <div className="tx-gas__tiers" role="radiogroup" aria-label="Transaction speed">
+                {GAS_TIERS.map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        role="radio"
+                        aria-checked={tier === option}
+                        onClick={() => onChange(option)}
+                        className={`tx-gas__tier ${tier === option ? 'tx-gas__tier--active' : ''}`}
+                    >
+                        <span className="tx-gas__tier-label">{GAS_TIER_LABELS[option]}</span>
+                        <span className="tx-gas__tier-cost">
+                            {estimate.tiers[option].costUSD < 0.01 ? '<$0.01' : `$${estimate.tiers[option].costUSD.toFixed(2)}`}
+                        </span>
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
 export const TransactionConfirmModal: React.FC<TransactionConfirmModalProps> = ({ 
     isOpen, 
     onClose, 
@@ -39,14 +106,29 @@ export const TransactionConfirmModal: React.FC<TransactionConfirmModalProps> = (
     _lockDuration,
     _veAmount,
     isPending = false,
+    execution = null,
+    preflight,
+    tradeType = 'EXACT_INPUT',
+    maxSold,
+    quoteFreshness = null,
+    quoteUpdate = null,
+    onAcceptQuoteUpdate,
+    gasEstimate = null,
+    gasTier = 'normal',
+    onGasTierChange,
+    approvalMethod = null,
+    steps,
+    unavailableReason = null,
 }) => {
     const [countdown, setCountdown] = useState<number | null>(null);
 
     // Only run countdown for swaps with valid quote data
     const hasValidQuote = fromToken && toToken && fromAmount && toAmount;
+    // Live quotes expire by block and are requoted in place instead of closing
+    const hasLiveQuote = !!quoteFreshness;
 
     useEffect(() => {
-        if (isOpen && type === 'swap' && !isPending && hasValidQuote) {
+        if (isOpen && type === 'swap' && !isPending && !execution && hasValidQuote && !hasLiveQuote) {
             setCountdown(TIMING.QUOTE_COUNTDOWN);
             const timer = setInterval(() => {
                 setCountdown(prev => {
@@ -62,10 +144,18 @@ export const TransactionConfirmModal: React.FC<TransactionConfirmModalProps> = (
         } else if (!isOpen) {
             setCountdown(null);
         }
-    }, [isOpen, type, isPending, onClose, hasValidQuote]);
+    }, [isOpen, type, isPending, execution, onClose, hasValidQuote, hasLiveQuote]);
 
     if (!isOpen) return null;
 
+    const isExactOutput = type === 'swap' && tradeType === 'EXACT_OUTPUT';
+    // Exact-output swaps sell the whole bound; the target is the on-chain floor
+    const payAmount = isExactOutput && maxSold ? maxSold : fromAmount;
+    const isSimulating = preflight?.status === 'simulating';
+    const willRevert = preflight?.status === 'reverted';
+    const isQuoteStale = quoteFreshness?.isStale ?? false;
+    const secondsLeft = quoteFreshness ? quoteFreshness.secondsRemaining : countdown;
+
     const isHighImpact = priceImpact > THRESHOLDS.priceImpact.low;
     const isVeryHighImpact = priceImpact > THRESHOLDS.priceImpact.medium;
 
@@ -77,6 +167,7 @@ export const TransactionConfirmModal: React.FC<TransactionConfirmModalProps> = (
         removeLiquidity: 'Confirm Remove Liquidity',
         stake: 'Confirm Lock',
         claim: 'Confirm Claim',
+        revoke: 'Confirm Revoke',
     };
 
     const getImpactClass = (): string => {
@@ -99,7 +190,7 @@ export const TransactionConfirmModal: React.FC<TransactionConfirmModalProps> = (
                 aria-labelledby="tx-confirm-title"
             >
                 <div className="modal__header">
-                    <h3 id="tx-confirm-title" className="modal__title">{titles[type]}</h3>
+                    <h3 id="tx-confirm-title" className="modal__title">{execution ? 'Swap Complete' : titles[type]}</h3>
                     <button 
                         onClick={onClose} 
                         disabled={isPending} 
@@ -113,144 +204,218 @@ export const TransactionConfirmModal: React.FC<TransactionConfirmModalProps> = (
                     </button>
                 </div>
 
-                <div className="modal__body">
-                    {(type === 'swap' || type === 'twap' || type === 'limit') && fromToken && toToken && (
-                        <>
-                            <div className="tx-token-box">
-                                <div className="tx-token-box__label">You pay</div>
-                                <div className="tx-token-box__content">
-                                    <span className="tx-token-box__amount">{fromAmount}</span>
-                                    <div className="tx-token-box__token">
-                                        <div 
-                                            className="tx-token-box__token-icon" 
-                                            style={{ background: `linear-gradient(135deg, ${fromToken.color || '#627EEA'}, ${fromToken.color || '#627EEA'}88)` }}
-                                        >
-                                            {fromToken.icon}
+                {execution ? (
+                    <div className="modal__body">
+                        <ExecutionResult execution={execution} />
+                        <button onClick={onClose} className="tx-confirm-btn tx-confirm-btn--primary">
+                            Close
+                        </button>
+                    </div>
+                ) : (
+                    <div className="modal__body">
+                        {(type === 'swap' || type === 'twap' || type === 'limit') && fromToken && toToken && (
+                            <>
+                                <div className="tx-token-box">
+                                    <div className="tx-token-box__label">{isExactOutput ? 'You pay (max. sold)' : 'You pay'}</div>
+                                    <div className="tx-token-box__content">
+                                        <span className="tx-token-box__amount">{payAmount}</span>
+                                        <div className="tx-token-box__token">
+                                            <div 
+                                                className="tx-token-box__token-icon" 
+                                                style={{ background: `linear-gradient(135deg, ${fromToken.color || '#627EEA'}, ${fromToken.color || '#627EEA'}88)` }}
+                                            >
+                                                {fromToken.icon}
+                                            </div>
+                                            <span className="tx-token-box__token-symbol">{fromToken.symbol}</span>
                                         </div>
-                                        <span className="tx-token-box__token-symbol">{fromToken.symbol}</span>
+                                    </div>
+                                    <div className="tx-token-box__usd">
+                                        ≈ ${(parseFloat(payAmount || '0') * (fromToken.price || 0)).toLocaleString(undefined, { maximumFractionDigits: 2 })}
                                     </div>
                                 </div>
-                                <div className="tx-token-box__usd">
-                                    ≈ ${(parseFloat(fromAmount || '0') * (fromToken.price || 0)).toLocaleString(undefined, { maximumFractionDigits: 2 })}
-                                </div>
-                            </div>
 
-                            <div className="tx-arrow">
-                                <div className="tx-arrow__icon">
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                        <path d="M12 5v14M5 12l7 7 7-7"/>
-                                    </svg>
+                                <div className="tx-arrow">
+                                    <div className="tx-arrow__icon">
+                                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                            <path d="M12 5v14M5 12l7 7 7-7"/>
+                                        </svg>
+                                    </div>
                                 </div>
-                            </div>
 
-                            <div className="tx-token-box tx-token-box--receive">
-                                <div className="tx-token-box__label">You receive</div>
-                                <div className="tx-token-box__content">
-                                    <span className="tx-token-box__amount tx-token-box__amount--receive">
-                                        {parseFloat(toAmount || '0').toLocaleString(undefined, { maximumFractionDigits: 6 })}
-                                    </span>
-                                    <div className="tx-token-box__token">
-                                        <div 
-                                            className="tx-token-box__token-icon" 
-                                            style={{ background: `linear-gradient(135deg, ${toToken.color || '#2775CA'}, ${toToken.color || '#2775CA'}88)` }}
-                                        >
-                                            {toToken.icon}
+                                <div className="tx-token-box tx-token-box--receive">
+                                    <div className="tx-token-box__label">{isExactOutput ? 'You receive (at least)' : 'You receive'}</div>
+                                    <div className="tx-token-box__content">
+                                        <span className="tx-token-box__amount tx-token-box__amount--receive">
+                                            {parseFloat(toAmount || '0').toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                                        </span>
+                                        <div className="tx-token-box__token">
+                                            <div 
+                                                className="tx-token-box__token-icon" 
+                                                style={{ background: `linear-gradient(135deg, ${toToken.color || '#2775CA'}, ${toToken.color || '#2775CA'}88)` }}
+                                            >
+                                                {toToken.icon}
+                                            </div>
+                                            <span className="tx-token-box__token-symbol">{toToken.symbol}</span>
                                         </div>
-                                        <span className="tx-token-box__token-symbol">{toToken.symbol}</span>
+                                    </div>
+                                    <div className="tx-token-box__usd">
+                                        ≈ ${(parseFloat(toAmount || '0') * (toToken.price || 0)).toLocaleString(undefined, { maximumFractionDigits: 2 })}
                                     </div>
                                 </div>
-                                <div className="tx-token-box__usd">
-                                    ≈ ${(parseFloat(toAmount || '0') * (toToken.price || 0)).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                            </>
+                        )}
+
+                        {quoteUpdate && (
+                            <div className="tx-warning tx-warning--warning" role="alert">
+                                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="#F59E0B" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
+                                    <path d="M23 4v6h-6M1 20v-6h6"/><path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"/>
+                                </svg>
+                                <div className="tx-quote-update__body">
+                                    <div className="tx-warning__title">Price updated</div>
+                                    <div className="tx-warning__text">
+                                        {quoteUpdate.side === 'output' ? 'You receive' : 'You pay'} {quoteUpdate.previousAmount} → {quoteUpdate.newAmount} {quoteUpdate.symbol}
+                                        {' '}({quoteUpdate.changeBps > 0 ? '+' : ''}{(quoteUpdate.changeBps / 100).toFixed(2)}%)
+                                    </div>
                                 </div>
+                                <button onClick={onAcceptQuoteUpdate} className="tx-quote-update__accept">
+                                    Accept
+                                </button>
                             </div>
-                        </>
-                    )}
+                        )}
 
-                    {isVeryHighImpact && (
-                        <div className="tx-warning tx-warning--error" role="alert">
-                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#EF4444" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
-                                <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
-                                <line x1="12" y1="9" x2="12" y2="13"/><line x1="12" y1="17" x2="12.01" y2="17"/>
-                            </svg>
-                            <div>
-                                <div className="tx-warning__title">High Price Impact!</div>
-                                <div className="tx-warning__text">This trade will move the market price by {priceImpact.toFixed(2)}%</div>
+                        {unavailableReason && (
+                            <div className="tx-warning tx-warning--error" role="alert">
+                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#EF4444" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
+                                    <circle cx="12" cy="12" r="10"/><line x1="15" y1="9" x2="9" y2="15"/><line x1="9" y1="9" x2="15" y2="15"/>
+                                </svg>
+                                <div>
+                                    <div className="tx-warning__title">Transaction unavailable</div>
+                                    <div className="tx-warning__text">{unavailableReason}</div>
+                                </div>
                             </div>
-                        </div>
-                    )}
-                    {isHighImpact && !isVeryHighImpact && (
-                        <div className="tx-warning tx-warning--warning" role="alert">
-                            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="#F59E0B" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
-                                <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
-                                <line x1="12" y1="9" x2="12" y2="13"/><line x1="12" y1="17" x2="12.01" y2="17"/>
-                            </svg>
-                            <span className="tx-warning__text">Price impact is {priceImpact.toFixed(2)}%. Proceed with caution.</span>
-                        </div>
-                    )}
+                        )}
 
-                    <div className="tx-details">
-                        {type === 'swap' && fromToken && toToken && (
-                            <>
-                                <DetailRow label="Rate" value={`1 ${fromToken.symbol} = ${parseFloat(String(rate || 0)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${toToken.symbol}`} />
-                                <DetailRow label="Price Impact" value={`${priceImpact.toFixed(2)}%`} valueClass={getImpactClass()} />
-                                <DetailRow label="Min. Received" value={`${minReceived || (parseFloat(toAmount || '0') * (1 - slippage/100)).toFixed(4)} ${toToken.symbol}`} />
-                                <DetailRow label="Slippage" value={`${slippage}%`} />
-                                <DetailRow label="Network Fee" value={networkFee} />
-                                {route && <DetailRow label="Route" value={route} valueClass="tx-details__value--gold" />}
-                            </>
+                        {willRevert && (
+                            <div className="tx-warning tx-warning--error" role="alert">
+                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#EF4444" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
+                                    <circle cx="12" cy="12" r="10"/><line x1="15" y1="9" x2="9" y2="15"/><line x1="9" y1="9" x2="15" y2="15"/>
+                                </svg>
+                                <div>
+                                    <div className="tx-warning__title">Transaction would fail</div>
+                                    <div className="tx-warning__text">{preflight?.reason || 'Simulation reverted'}</div>
+                                </div>
+                            </div>
                         )}
-                        {type === 'twap' && fromToken && toToken && (
-                            <>
-                                <DetailRow label="Total Trades" value={String(totalTrades)} />
-                                <DetailRow label="Trade Interval" value={`${tradeInterval} min`} />
-                                <DetailRow label="Size per Trade" value={`${(parseFloat(fromAmount || '0') / (totalTrades || 1)).toFixed(4)} ${fromToken.symbol}`} />
-                                <DetailRow label="Estimated Output" value={`${parseFloat(toAmount || '0').toFixed(4)} ${toToken.symbol}`} />
-                                <DetailRow label="Slippage per Trade" value={`${slippage}%`} />
-                            </>
+
+                        {isVeryHighImpact && (
+                            <div className="tx-warning tx-warning--error" role="alert">
+                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#EF4444" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
+                                    <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+                                    <line x1="12" y1="9" x2="12" y2="13"/><line x1="12" y1="17" x2="12.01" y2="17"/>
+                                </svg>
+                                <div>
+                                    <div className="tx-warning__title">High Price Impact!</div>
+                                    <div className="tx-warning__text">This trade will move the market price by {priceImpact.toFixed(2)}%</div>
+                                </div>
+                            </div>
                         )}
-                        {type === 'limit' && fromToken && toToken && (
-                            <>
-                                <DetailRow label="Limit Price" value={`${limitPrice} ${toToken.symbol}/${fromToken.symbol}`} />
-                                <DetailRow label="Current Price" value={`${parseFloat(String(rate || 0)).toFixed(6)} ${toToken.symbol}/${fromToken.symbol}`} />
-                                <DetailRow 
-                                    label="Difference" 
-                                    value={`${((parseFloat(limitPrice || '0') / parseFloat(String(rate || 1)) - 1) * 100).toFixed(2)}%`} 
-                                    valueClass={parseFloat(limitPrice || '0') > (rate || 0) ? 'tx-details__value--success' : 'tx-details__value--error'} 
-                                />
-                                <DetailRow label="Expiry" value={expiry || ''} />
-                            </>
+                        {isHighImpact && !isVeryHighImpact && (
+                            <div className="tx-warning tx-warning--warning" role="alert">
+                                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="#F59E0B" strokeWidth="2" className="tx-warning__icon" aria-hidden="true">
+                                    <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+                                    <line x1="12" y1="9" x2="12" y2="13"/><line x1="12" y1="17" x2="12.01" y2="17"/>
+                                </svg>
+                                <span className="tx-warning__text">Price impact is {priceImpact.toFixed(2)}%. Proceed with caution.</span>
+                            </div>
                         )}
-                    </div>
 
-                    {countdown && !isPending && (
-                        <div className="tx-countdown">
-                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <circle cx="12" cy="12" r="10"/><path d="M12 6v6l4 2"/>
-                            </svg>
-                            Quote updates in {countdown}s
-                        </div>
-                    )}
+                        {steps && steps.length > 0 && <PlanSteps steps={steps} />}
 
-                    {isPending && (
-                        <div className="tx-pending" role="status" aria-live="polite">
-                            <svg viewBox="0 0 24 24" className="tx-pending__spinner" aria-hidden="true">
-                                <circle cx="12" cy="12" r="10" stroke="rgba(255,255,255,0.1)" strokeWidth="3" fill="none"/>
-                                <circle cx="12" cy="12" r="10" stroke="#F5B041" strokeWidth="3" fill="none" strokeDasharray="31.4 31.4" strokeLinecap="round"/>
-                            </svg>
-                            <div className="tx-pending__title">Waiting for confirmation</div>
-                            <div className="tx-pending__subtitle">Confirm this transaction in your wallet</div>
+                        <div className="tx-details">
+                            {type === 'addLiquidity' && (
+                                <>
+                                    {priceImpact > 0 && <DetailRow label="Price Impact" value={`${priceImpact.toFixed(2)}%`} valueClass={getImpactClass()} />}
+                                    <DetailRow label="Slippage" value={`${slippage}%`} />
+                                </>
+                            )}
+                            {type === 'swap' && fromToken && toToken && (
+                                <>
+                                    <DetailRow label="Rate" value={`1 ${fromToken.symbol} = ${parseFloat(String(rate || 0)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${toToken.symbol}`} />
+                                    <DetailRow label="Price Impact" value={`${priceImpact.toFixed(2)}%`} valueClass={getImpactClass()} />
+                                    {isExactOutput ? (
+                                        <>
+                                            <DetailRow label="Quoted Input" value={`${fromAmount} ${fromToken.symbol}`} />
+                                            <DetailRow label="Above Target" value={`Received as extra ${toToken.symbol}`} />
+                                        </>
+                                    ) : (
+                                        <DetailRow label="Min. Received" value={`${minReceived || (parseFloat(toAmount || '0') * (1 - slippage/100)).toFixed(4)} ${toToken.symbol}`} />
+                                    )}
+                                    <DetailRow label="Slippage" value={`${slippage}%`} />
+                                    {approvalMethod && (
+                                        <DetailRow label="Approval" value={APPROVAL_METHOD_LABELS[approvalMethod]} />
+                                    )}
+                                    {gasEstimate ? (
+                                        <GasTierSelector estimate={gasEstimate} tier={gasTier} onChange={onGasTierChange} />
+                                    ) : (
+                                        <DetailRow label="Network Fee" value={networkFee} />
+                                    )}
+                                    {route && <DetailRow label="Route" value={route} valueClass="tx-details__value--gold" />}
+                                </>
+                            )}
+                            {type === 'twap' && fromToken && toToken && (
+                                <>
+                                    <DetailRow label="Total Trades" value={String(totalTrades)} />
+                                    <DetailRow label="Trade Interval" value={`${tradeInterval} min`} />
+                                    <DetailRow label="Size per Trade" value={`${(parseFloat(fromAmount || '0') / (totalTrades || 1)).toFixed(4)} ${fromToken.symbol}`} />
+                                    <DetailRow label="Estimated Output" value={`${parseFloat(toAmount || '0').toFixed(4)} ${toToken.symbol}`} />
+                                    <DetailRow label="Slippage per Trade" value={`${slippage}%`} />
+                                </>
+                            )}
+                            {type === 'limit' && fromToken && toToken && (
+                                <>
+                                    <DetailRow label="Limit Price" value={`${limitPrice} ${toToken.symbol}/${fromToken.symbol}`} />
+                                    <DetailRow label="Current Price" value={`${parseFloat(String(rate || 0)).toFixed(6)} ${toToken.symbol}/${fromToken.symbol}`} />
+                                    <DetailRow 
+                                        label="Difference" 
+                                        value={`${((parseFloat(limitPrice || '0') / parseFloat(String(rate || 1)) - 1) * 100).toFixed(2)}%`} 
+                                        valueClass={parseFloat(limitPrice || '0') > (rate || 0) ? 'tx-details__value--success' : 'tx-details__value--error'} 
+                                    />
+                                    <DetailRow label="Expiry" value={expiry || ''} />
+                                </>
+                            )}
                         </div>
-                    )}
 
-                    {!isPending && (
-                        <button 
-                            onClick={onConfirm} 
-                            className={`tx-confirm-btn ${isVeryHighImpact ? 'tx-confirm-btn--danger' : 'tx-confirm-btn--primary'}`}
-                        >
-                            {isVeryHighImpact ? 'Swap Anyway' : type === 'swap' ? 'Confirm Swap' : type === 'twap' ? 'Confirm TWAP' : type === 'limit' ? 'Confirm Limit Order' : 'Confirm'}
-                        </button>
-                    )}
-                </div>
+                        {(secondsLeft || isQuoteStale) && !isPending && (
+                            <div className="tx-countdown">
+                                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <circle cx="12" cy="12" r="10"/><path d="M12 6v6l4 2"/>
+                                </svg>
+                                {isQuoteStale ? 'Refreshing quote...' : `Quote updates in ${secondsLeft}s`}
+                            </div>
+                        )}
+
+                        {isPending && (
+                            <div className="tx-pending" role="status" aria-live="polite">
+                                <svg viewBox="0 0 24 24" className="tx-pending__spinner" aria-hidden="true">
+                                    <circle cx="12" cy="12" r="10" stroke="rgba(255,255,255,0.1)" strokeWidth="3" fill="none"/>
+                                    <circle cx="12" cy="12" r="10" stroke="#F5B041" strokeWidth="3" fill="none" strokeDasharray="31.4 31.4" strokeLinecap="round"/>
+                                </svg>
+                                <div className="tx-pending__title">Waiting for confirmation</div>
+                                <div className="tx-pending__subtitle">Confirm this transaction in your wallet</div>
+                            </div>
+                        )}
+
+                        {!isPending && (
+                            <button 
+                                onClick={onConfirm} 
+                                disabled={!!unavailableReason || willRevert || isSimulating || isQuoteStale || !!quoteUpdate}
+                                className={`tx-confirm-btn ${isVeryHighImpact ? 'tx-confirm-btn--danger' : 'tx-confirm-btn--primary'}`}
+                            >
+                                {unavailableReason ? 'Unavailable' : willRevert ? 'Transaction Would Fail' : quoteUpdate ? 'Accept New Quote to Continue' : isQuoteStale ? 'Refreshing Quote...' : isSimulating ? 'Simulating...' : isVeryHighImpact ? 'Swap Anyway' : type === 'swap' ? 'Confirm Swap' : type === 'twap' ? 'Confirm TWAP' : type === 'limit' ? 'Confirm Limit Order' : 'Confirm'}
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
             
             <style>{`
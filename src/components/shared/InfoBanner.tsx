@@ -1,3 +1,5 @@
+import { formatAddress } from '../../utils/format';
+
 /**
  * Reusable InfoBanner component for announcements and tips
  */
@@ -21,6 +23,28 @@ export const InfoBanner = ({
     );
 };
 
+/**
+ * Watch Mode Banner - shown while viewing an address read-only
+ */
+export const WatchModeBanner = ({ address, onExit }: { address: string; onExit: () => void }) => {
+    return (
+        <div className="info-banner info-banner--warning watch-mode-banner" role="status">
+            <div className="info-banner__icon info-banner__icon--warning">
+                👁
+            </div>
+            <div className="info-banner__content">
+                <div className="info-banner__title">Read-only view</div>
+                <div className="info-banner__text">
+                    Watching {formatAddress(address)}. Transactions are disabled; connect this wallet to manage it.
+                </div>
+            </div>
+            <button className="watch-mode-banner__exit" onClick={onExit}>
+                Exit watch mode
+            </button>
+        </div>
+    );
+};
+
 /**
  * MEV Capture Banner - specialized variant
  */
@@ -10,7 +10,7 @@ export { PageHeader, PageContainer } from './PageHeader';
 
 // Data Display
 export { StatBox, StatsGrid } from './StatBox';
-export { InfoBanner, MEVCaptureBanner } from './InfoBanner';
+export { InfoBanner, MEVCaptureBanner, WatchModeBanner } from './InfoBanner';
 export { 
     DataTable, 
     TableHeader, 
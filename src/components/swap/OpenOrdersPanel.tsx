@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useLimitOrderWatcher } from '../../hooks/contracts/useLimitOrderWatcher';
+import type { ParsedQuote } from '../../hooks/contracts/useQuote';
+import { formatTimeAgo, getExplorerUrl } from '../../hooks/usePendingTransactions';
+import type { LimitOrder, LimitOrderExpiry } from '../../services/limitOrderService';
+import { formatTokenAmount } from '../../utils/format';
+import '../../styles/swap.css';
+
+interface OpenOrdersPanelProps {
+    orders: LimitOrder[];
+    onCancel: (id: string) => void;
+    onEdit: (id: string, changes: { limitPrice?: string; expiry?: LimitOrderExpiry }) => Promise<void>;
+    /** Called by an order's price watcher when its limit is reached */
+    onTrigger: (order: LimitOrder, quote: ParsedQuote) => void;
+}
+
+const STATUS_LABELS: Record<LimitOrder['status'], string> = {
+    open: 'Open',
+    executing: 'Executing',
+    filled: 'Filled',
+    cancelled: 'Cancelled',
+    expired: 'Expired',
+    failed: 'Failed',
+};
+
+/** Closed orders kept visible below the open ones */
+const MAX_CLOSED_ORDERS = 5;
+
+const formatExpiresIn = (expiresAt: number): string => {
+    const seconds = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+    if (seconds < 3600) return `${Math.ceil(seconds / 60)}m`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+    return `${Math.floor(seconds / 86400)}d`;
+};
+
+const OrderSummary = ({ order }: { order: LimitOrder }) => (
+    <div className="open-orders__summary">
+        {formatTokenAmount(BigInt(order.amountIn), order.tokenIn.decimals, 6)} {order.tokenIn.symbol}
+        {' → '}
+        ≥ {formatTokenAmount(BigInt(order.targetAmountOut), order.tokenOut.decimals, 6)} {order.tokenOut.symbol}
+    </div>
+);
+
+/**
+ * Open order with a live price watcher. Mounting the row is what keeps the
+ * order polled, so the panel must stay rendered while orders are open.
+ */
+const OpenOrderRow = ({ order, onCancel, onEdit, onTrigger }: Omit<OpenOrdersPanelProps, 'orders'> & { order: LimitOrder }) => {
+    const { currentPrice, distanceBps } = useLimitOrderWatcher(order, onTrigger);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draftPrice, setDraftPrice] = useState(order.limitPrice);
+    const [editError, setEditError] = useState<string | null>(null);
+    const isExecuting = order.status === 'executing';
+
+    const handleSave = async () => {
+        try {
+            await onEdit(order.id, { limitPrice: draftPrice });
+            setEditError(null);
+            setIsEditing(false);
+        } catch (error: unknown) {
+            setEditError(error instanceof Error ? error.message : 'Invalid price');
+        }
+    };
+
+    return (
+        <div className="open-orders__item">
+            <div className="open-orders__header">
+                <span className={`open-orders__status open-orders__status--${order.status}`}>
+                    {STATUS_LABELS[order.status]}
+                </span>
+                <span className="open-orders__meta">Expires in {formatExpiresIn(order.expiresAt)}</span>
+            </div>
+            <OrderSummary order={order} />
+
+            {isEditing ? (
+                <div className="open-orders__edit">
+                    <input
+                        type="text"
+                        value={draftPrice}
+                        onChange={e => setDraftPrice(e.target.value)}
+                        className="open-orders__edit-input"
+                        aria-label="New limit price"
+                    />
+                    <button onClick={handleSave} className="open-orders__btn open-orders__btn--primary">Save</button>
+                    <button onClick={() => setIsEditing(false)} className="open-orders__btn">Back</button>
+                </div>
+            ) : (
+                <div className="open-orders__prices">
+                    <span>
+                        Limit {order.limitPrice} {order.tokenOut.symbol}/{order.tokenIn.symbol}
+                    </span>
+                    {currentPrice !== null && (
+                        <span className="open-orders__market">
+                            Market {currentPrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                            {distanceBps ? ` · ${(distanceBps / 100).toFixed(2)}% away` : ' · limit reached'}
+                        </span>
+                    )}
+                </div>
+            )}
+            {editError && <div className="open-orders__error">{editError}</div>}
+
+            {!isEditing && !isExecuting && (
+                <div className="open-orders__actions">
+                    <button
+                        onClick={() => {
+                            setDraftPrice(order.limitPrice);
+                            setIsEditing(true);
+                        }}
+                        className="open-orders__btn"
+                    >
+                        Edit
+                    </button>
+                    <button onClick={() => onCancel(order.id)} className="open-orders__btn open-orders__btn--danger">
+                        Cancel
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ClosedOrderRow = ({ order }: { order: LimitOrder }) => (
+    <div className="open-orders__item open-orders__item--closed">
+        <div className="open-orders__header">
+            <span className={`open-orders__status open-orders__status--${order.status}`}>
+                {STATUS_LABELS[order.status]}
+            </span>
+            <span className="open-orders__meta">{formatTimeAgo(order.updatedAt)}</span>
+        </div>
+        <OrderSummary order={order} />
+        {order.txHash && (
+            <a href={getExplorerUrl(order.txHash, order.chainId)} target="_blank" rel="noopener noreferrer" className="open-orders__link">
+                View transaction
+            </a>
+        )}
+        {order.error && <div className="open-orders__error">{order.error}</div>}
+    </div>
+);
+
+/**
+ * Limit orders for the connected account: open orders (watched, editable,
+ * cancellable) followed by the most recent closed ones
+ */
+export const OpenOrdersPanel = ({ orders, onCancel, onEdit, onTrigger }: OpenOrdersPanelProps) => {
+    const open = orders.filter(o => o.status === 'open' || o.status === 'executing');
+    const closed = orders.filter(o => o.status !== 'open' && o.status !== 'executing').slice(0, MAX_CLOSED_ORDERS);
+
+    if (orders.length === 0) return null;
+
+    return (
+        <div className="open-orders" role="region" aria-label="Limit orders">
+            <div className="open-orders__title">Open orders ({open.length})</div>
+            {open.length === 0 && <div className="open-orders__empty">No open orders</div>}
+            {open.map(order => (
+                <OpenOrderRow key={order.id} order={order} onCancel={onCancel} onEdit={onEdit} onTrigger={onTrigger} />
+            ))}
+            {closed.map(order => (
+                <ClosedOrderRow key={order.id} order={order} />
+            ))}
+        </div>
+    );
+};
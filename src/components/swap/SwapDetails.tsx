@@ -14,6 +14,8 @@ export const SwapDetails = ({
     minReceived,
     slippage,
     needsApproval = false,
+    quoteFreshness = null as { secondsRemaining: number; isStale: boolean } | null,
+    isFallbackRoute = false,
 }) => {
     // Dynamic gas estimate
     const gasEstimate = useMemo(() => {
@@ -57,6 +59,22 @@ export const SwapDetails = ({
                 value={`${slippage}%`} 
                 valueClass="swap-details__value--gold"
             />
+            {quoteFreshness && (
+                <DetailRow 
+                    label="Quote Refresh" 
+                    value={quoteFreshness.isStale ? 'Refreshing...' : `${quoteFreshness.secondsRemaining}s`}
+                    valueClass={quoteFreshness.isStale || quoteFreshness.secondsRemaining <= 3 ? 'swap-details__value--warning' : ''}
+                    tooltip="Quotes are valid for a few blocks and refresh automatically"
+                />
+            )}
+            {isFallbackRoute && (
+                <DetailRow 
+                    label="Route" 
+                    value="On-chain fallback"
+                    valueClass="swap-details__value--warning"
+                    tooltip="The routing API is unavailable; this route was found and priced directly from the pool registry"
+                />
+            )}
             <DetailRow 
                 label="Network Fee" 
                 value={networkFee}
@@ -40,7 +40,8 @@ import { logger } from '../../utils/logger';
  */
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { ethers } from 'ethers';
+import { decodeRoute, countRouteSteps } from '../../lib/contracts/route';
+import type { RouteCLPoolData, RouteBinPoolData, RouteVaultData } from '../../lib/contracts/route';
 import '../../styles/SwapRouteDisplay.css';
 
 // TYPES - Match Quoter API Response
@@ -72,10 +73,12 @@ export interface QuoteResponse {
   splitCount: number;
   /** Quote creation timestamp */
   timestamp: number;
-  /** Route data freshness timestamp */
+  /** Route data freshness timestamp (unix seconds) */
   routeTimestamp: number;
   /** Number of blocks this quote is valid for */
   validForBlocks: number;
+  /** Block the quote was priced at; when absent the receiving block is used */
+  quotedBlock?: number;
   /** Target contract address (GatewayRouter) */
   to: string;
   /** Encoded calldata for the swap transaction */
@@ -141,58 +144,9 @@ export interface DecodedStep {
   poolData: CLPoolData | BinPoolData | VaultData;
 }
 
-/**
- * Concentrated Liquidity pool data
- * @description Data specific to CL pool swaps
- */
-interface CLPoolData {
-  /** Pool type identifier */
-  type: 'CL';
-  /** Token0 address (sorted) */
-  token0: string;
-  /** Token1 address (sorted) */
-  token1: string;
-  /** Fee tier in hundredths of bip */
-  fee: number;
-  /** Tick spacing */
-  tickSpacing: number;
-  /** Hooks contract address */
-  hooks: string;
-  /** Swap direction: true = token0→token1 */
-  zeroForOne: boolean;
-}
-
-/**
- * Liquidity Book pool data
- * @description Data specific to Bin pool swaps
- */
-interface BinPoolData {
-  /** Pool type identifier */
-  type: 'BIN';
-  /** Token0 address (sorted) */
-  token0: string;
-  /** Token1 address (sorted) */
-  token1: string;
-  /** Bin step in basis points / 10 */
-  binStep: number;
-  /** Hooks contract address */
-  hooks: string;
-  /** Swap direction: true = tokenX→tokenY */
-  swapForY: boolean;
-}
-
-/**
- * Vault wrap/unwrap data
- * @description Data for ERC4626 vault operations
- */
-interface VaultData {
-  /** Data type identifier */
-  type: 'VAULT';
-  /** ERC4626 vault address */
-  vault: string;
-  /** Whether to use gateway buffer */
-  useBuffer: boolean;
-}
+type CLPoolData = RouteCLPoolData;
+type BinPoolData = RouteBinPoolData;
+type VaultData = RouteVaultData;
 
 /**
  * Fully decoded route structure
@@ -212,7 +166,7 @@ export interface DecodedRoute {
   totalSteps: number;
 }
 
-// ROUTE DECODER - Decodes packed bytes from quoter
+// ROUTE DECODER - Adapts lib/contracts/route to the display shape
 
 /**
  * Action code to action name mapping
@@ -229,18 +183,13 @@ const ACTION_NAMES: Record<number, DecodedStep['action']> = {
  * Decodes the encodedRoute from quoter API
  * 
  * @description
- * Parses the packed bytes returned by the quoter into a structured format.
+ * Parses the packed bytes returned by the quoter into a structured format
+ * using the shared wire-format codec in `lib/contracts/route`.
  * Handles both single routes and split routes.
  * 
- * Format - Single Route:
- * `[numSteps:1][step1][step2]...`
- * Each step: `[action:1][tokenIn:20][tokenOut:20][poolDataLen:2][poolData]`
- * 
- * Format - Split Route:
- * `[0x00][0x01][numRoutes:1][routeLen:2][route1][amt1:32][routeLen:2][route2][amt2:32]...`
- * 
  * @param encodedRoute - Hex string from quoter API (with or without 0x prefix)
  * @returns Decoded route structure
+ * @throws IgnisError if the route bytes are malformed
  * 
  * @example
  * ```typescript
@@ -250,165 +199,24 @@ const ACTION_NAMES: Record<number, DecodedStep['action']> = {
  * ```
  */
 export function decodeEncodedRoute(encodedRoute: string): DecodedRoute {
-  const data = encodedRoute.startsWith('0x') ? encodedRoute.slice(2) : encodedRoute;
-  
-  // Check for split encoding marker [0x00][0x01]
-  if (data.length >= 4 && data.slice(0, 4) === '0001') {
-    return decodeSplitRoute(data);
-  }
-  
+  const route = decodeRoute(encodedRoute);
+
   return {
-    isSplit: false,
-    routes: [{ steps: decodeSingleRoute(data) }],
-    totalSteps: decodeSingleRoute(data).length,
+    isSplit: route.isSplit,
+    routes: route.paths.map(path => ({
+      steps: path.steps.map(step => ({
+        action: ACTION_NAMES[step.action] || 'SWAP_CL',
+        actionCode: step.action,
+        tokenIn: step.tokenIn,
+        tokenOut: step.tokenOut,
+        poolData: step.poolData,
+      })),
+      amount: path.amountIn?.toString(),
+    })),
+    totalSteps: countRouteSteps(route),
   };
 }
 
-/**
- * Decode a single (non-split) route
- * @internal
- * @param data - Hex string without 0x prefix
- * @returns Array of decoded steps
- */
-function decodeSingleRoute(data: string): DecodedStep[] {
-  const steps: DecodedStep[] = [];
-  let offset = 0;
-  
-  // Number of steps (1 byte = 2 hex chars)
-  const numSteps = parseInt(data.slice(offset, offset + 2), 16);
-  offset += 2;
-  
-  for (let i = 0; i < numSteps; i++) {
-    // Action (1 byte)
-    const actionCode = parseInt(data.slice(offset, offset + 2), 16);
-    offset += 2;
-    
-    // TokenIn (20 bytes = 40 hex chars)
-    const tokenIn = '0x' + data.slice(offset, offset + 40);
-    offset += 40;
-    
-    // TokenOut (20 bytes)
-    const tokenOut = '0x' + data.slice(offset, offset + 40);
-    offset += 40;
-    
-    // Pool data length (2 bytes = 4 hex chars)
-    const poolDataLen = parseInt(data.slice(offset, offset + 4), 16);
-    offset += 4;
-    
-    // Pool data (variable length)
-    const poolDataHex = '0x' + data.slice(offset, offset + poolDataLen * 2);
-    offset += poolDataLen * 2;
-    
-    const poolData = decodePoolData(actionCode, poolDataHex);
-    
-    steps.push({
-      action: ACTION_NAMES[actionCode] || 'SWAP_CL',
-      actionCode,
-      tokenIn,
-      tokenOut,
-      poolData,
-    });
-  }
-  
-  return steps;
-}
-
-/**
- * Decode a split route with multiple paths
- * @internal
- * @param data - Hex string without 0x prefix
- * @returns Decoded route with multiple paths
- */
-function decodeSplitRoute(data: string): DecodedRoute {
-  let offset = 4; // Skip [0x00][0x01] marker
-  
-  // Number of routes (1 byte)
-  const numRoutes = parseInt(data.slice(offset, offset + 2), 16);
-  offset += 2;
-  
-  const routes: { steps: DecodedStep[]; amount?: string }[] = [];
-  let totalSteps = 0;
-  
-  for (let i = 0; i < numRoutes; i++) {
-    // Route length (2 bytes)
-    const routeLen = parseInt(data.slice(offset, offset + 4), 16);
-    offset += 4;
-    
-    // Route data
-    const routeData = data.slice(offset, offset + routeLen * 2);
-    offset += routeLen * 2;
-    
-    // Amount (32 bytes = 64 hex chars)
-    const amountHex = data.slice(offset, offset + 64);
-    offset += 64;
-    const amount = BigInt('0x' + amountHex).toString();
-    
-    const steps = decodeSingleRoute(routeData);
-    totalSteps += steps.length;
-    
-    routes.push({ steps, amount });
-  }
-  
-  return { isSplit: true, routes, totalSteps };
-}
-
-/**
- * Decode pool-specific data based on action type
- * @internal
- * @param action - Action code (0-3)
- * @param poolDataHex - ABI-encoded pool data with 0x prefix
- * @returns Decoded pool data
- * @throws Error if action code is unknown
- */
-function decodePoolData(action: number, poolDataHex: string): CLPoolData | BinPoolData | VaultData {
-  const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-  
-  if (action === 2 || action === 3) {
-    // WRAP or UNWRAP: abi.encode(address vault, bool useBuffer)
-    const decoded = abiCoder.decode(['address', 'bool'], poolDataHex);
-    return {
-      type: 'VAULT',
-      vault: decoded[0],
-      useBuffer: decoded[1],
-    };
-  }
-  
-  if (action === 0) {
-    // SWAP_CL: abi.encode(address token0, address token1, uint24 fee, int24 tickSpacing, address hooks, bool zeroForOne)
-    const decoded = abiCoder.decode(
-      ['address', 'address', 'uint24', 'int24', 'address', 'bool'],
-      poolDataHex
-    );
-    return {
-      type: 'CL',
-      token0: decoded[0],
-      token1: decoded[1],
-      fee: Number(decoded[2]),
-      tickSpacing: Number(decoded[3]),
-      hooks: decoded[4],
-      zeroForOne: decoded[5],
-    };
-  }
-  
-  if (action === 1) {
-    // SWAP_BIN: abi.encode(address token0, address token1, uint16 binStep, address hooks, bool swapForY)
-    const decoded = abiCoder.decode(
-      ['address', 'address', 'uint16', 'address', 'bool'],
-      poolDataHex
-    );
-    return {
-      type: 'BIN',
-      token0: decoded[0],
-      token1: decoded[1],
-      binStep: Number(decoded[2]),
-      hooks: decoded[3],
-      swapForY: decoded[4],
-    };
-  }
-  
-  throw new Error(`Unknown action: ${action}`);
-}
-
 // UTILITIES
 
 /**
@@ -1,5 +1,17 @@
+import { TWAP_MAX_TRADES, TWAP_MIN_TRADES } from '../../services/twapService';
 import '../../styles/swap.css';
 
+interface TWAPSettingsProps {
+    totalTrades: number;
+    setTotalTrades: (value: number) => void;
+    tradeInterval: string;
+    setTradeInterval: (value: string) => void;
+    maxDeviationBps: number;
+    setMaxDeviationBps: (value: number) => void;
+    sizePerTrade: number;
+    fromSymbol?: string;
+}
+
 /**
  * TWAP (Time-Weighted Average Price) settings panel
  */
@@ -8,9 +20,11 @@ export const TWAPSettings = ({
     setTotalTrades, 
     tradeInterval, 
     setTradeInterval,
+    maxDeviationBps,
+    setMaxDeviationBps,
     sizePerTrade,
     fromSymbol,
-}) => {
+}: TWAPSettingsProps) => {
     const intervals = [
         { value: '1', label: '1 min' },
         { value: '5', label: '5 min' },
@@ -19,6 +33,9 @@ export const TWAPSettings = ({
         { value: '60', label: '1 hour' },
     ];
 
+    // Slices are deferred while the price is this far below the start price
+    const deviations = [50, 100, 200, 500];
+
     const totalDuration = totalTrades * parseInt(tradeInterval);
 
     return (
@@ -31,14 +48,14 @@ export const TWAPSettings = ({
                     <div className="twap-settings__field-label">Number of Trades</div>
                     <div className="twap-settings__counter">
                         <button 
-                            onClick={() => setTotalTrades(Math.max(2, totalTrades - 1))} 
+                            onClick={() => setTotalTrades(Math.max(TWAP_MIN_TRADES, totalTrades - 1))} 
                             className="twap-settings__counter-btn"
                         >
                             -
                         </button>
                         <span className="twap-settings__counter-value">{totalTrades}</span>
                         <button 
-                            onClick={() => setTotalTrades(Math.min(20, totalTrades + 1))} 
+                            onClick={() => setTotalTrades(Math.min(TWAP_MAX_TRADES, totalTrades + 1))} 
                             className="twap-settings__counter-btn"
                         >
                             +
@@ -59,6 +76,20 @@ export const TWAPSettings = ({
                         ))}
                     </select>
                 </div>
+
+                {/* Max price deviation */}
+                <div>
+                    <div className="twap-settings__field-label">Max Price Deviation</div>
+                    <select 
+                        value={maxDeviationBps} 
+                        onChange={e => setMaxDeviationBps(Number(e.target.value))} 
+                        className="twap-settings__select"
+                    >
+                        {deviations.map(bps => (
+                            <option key={bps} value={bps}>{bps / 100}%</option>
+                        ))}
+                    </select>
+                </div>
             </div>
 
             {/* Summary */}
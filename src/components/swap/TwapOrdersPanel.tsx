@@ -0,0 +1,133 @@
+import { getExplorerUrl } from '../../hooks/usePendingTransactions';
+import { getExecutionPrice, getTwapProgress } from '../../services/twapService';
+import type { TwapOrder, TwapSlice } from '../../services/twapService';
+import { formatTokenAmount } from '../../utils/format';
+import '../../styles/swap.css';
+
+interface TwapOrdersPanelProps {
+    orders: TwapOrder[];
+    onPause: (id: string) => void;
+    onResume: (id: string) => void;
+    onCancel: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<TwapOrder['status'], string> = {
+    active: 'Active',
+    paused: 'Paused',
+    completed: 'Completed',
+    cancelled: 'Cancelled',
+};
+
+/** Finished orders kept visible below the running ones */
+const MAX_CLOSED_ORDERS = 3;
+
+const formatPrice = (price: number): string => price.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const formatCountdown = (at: number): string => {
+    const seconds = Math.max(0, Math.ceil((at - Date.now()) / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.ceil(seconds / 60)}m`;
+};
+
+const SliceRow = ({ order, slice }: { order: TwapOrder; slice: TwapSlice }) => {
+    const price = slice.amountOut
+        ? getExecutionPrice(BigInt(slice.amountIn), BigInt(slice.amountOut), order.tokenIn.decimals, order.tokenOut.decimals)
+        : null;
+
+    return (
+        <div className={`twap-orders__slice twap-orders__slice--${slice.status}`}>
+            <span>#{slice.index + 1}</span>
+            <span>{formatTokenAmount(BigInt(slice.amountIn), order.tokenIn.decimals, 6)} {order.tokenIn.symbol}</span>
+            <span>
+                {slice.amountOut
+                    ? `${formatTokenAmount(BigInt(slice.amountOut), order.tokenOut.decimals, 6)} ${order.tokenOut.symbol}`
+                    : slice.status}
+            </span>
+            <span>{price !== null ? formatPrice(price) : '—'}</span>
+            {slice.txHash ? (
+                <a href={getExplorerUrl(slice.txHash, order.chainId)} target="_blank" rel="noopener noreferrer" className="open-orders__link">
+                    Tx
+                </a>
+            ) : <span />}
+        </div>
+    );
+};
+
+const TwapOrderRow = ({ order, onPause, onResume, onCancel }: Omit<TwapOrdersPanelProps, 'orders'> & { order: TwapOrder }) => {
+    const progress = getTwapProgress(order);
+    const isRunning = order.status === 'active' || order.status === 'paused';
+    const percent = (progress.filledSlices / progress.totalSlices) * 100;
+
+    return (
+        <div className={`open-orders__item${isRunning ? '' : ' open-orders__item--closed'}`}>
+            <div className="open-orders__header">
+                <span className={`open-orders__status open-orders__status--${order.status}`}>
+                    {STATUS_LABELS[order.status]} · {progress.filledSlices}/{progress.totalSlices}
+                </span>
+                {order.status === 'active' && progress.filledSlices < progress.totalSlices && (
+                    <span className="open-orders__meta">Next slice in {formatCountdown(order.nextSliceAt)}</span>
+                )}
+            </div>
+            <div className="open-orders__summary">
+                {formatTokenAmount(BigInt(order.amountIn), order.tokenIn.decimals, 6)} {order.tokenIn.symbol}
+                {' → '}
+                {order.tokenOut.symbol}
+            </div>
+
+            <div className="twap-orders__bar" role="progressbar" aria-valuenow={Math.round(percent)} aria-valuemin={0} aria-valuemax={100}>
+                <div className="twap-orders__bar-fill" style={{ width: `${percent}%` }} />
+            </div>
+
+            <div className="open-orders__prices">
+                <span>Start price {formatPrice(order.startPrice)} {order.tokenOut.symbol}/{order.tokenIn.symbol}</span>
+                {progress.averagePrice !== null && (
+                    <span className="open-orders__market">
+                        Avg. execution {formatPrice(progress.averagePrice)}
+                        {progress.priceChangeBps !== null && ` (${progress.priceChangeBps >= 0 ? '+' : ''}${(progress.priceChangeBps / 100).toFixed(2)}%)`}
+                    </span>
+                )}
+            </div>
+
+            <div className="twap-orders__slices">
+                {order.slices.map(slice => (
+                    <SliceRow key={slice.index} order={order} slice={slice} />
+                ))}
+            </div>
+            {order.error && <div className="open-orders__error">{order.error}</div>}
+
+            {isRunning && (
+                <div className="open-orders__actions">
+                    {order.status === 'active' ? (
+                        <button onClick={() => onPause(order.id)} className="open-orders__btn">Pause</button>
+                    ) : (
+                        <button onClick={() => onResume(order.id)} className="open-orders__btn open-orders__btn--primary">Resume</button>
+                    )}
+                    <button onClick={() => onCancel(order.id)} className="open-orders__btn open-orders__btn--danger">
+                        Cancel
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * TWAP orders for the connected account with per-slice fills, average
+ * execution price versus the start price, and pause / resume / cancel
+ */
+export const TwapOrdersPanel = ({ orders, onPause, onResume, onCancel }: TwapOrdersPanelProps) => {
+    const running = orders.filter(o => o.status === 'active' || o.status === 'paused');
+    const closed = orders.filter(o => o.status === 'completed' || o.status === 'cancelled').slice(0, MAX_CLOSED_ORDERS);
+
+    if (orders.length === 0) return null;
+
+    return (
+        <div className="open-orders" role="region" aria-label="TWAP orders">
+            <div className="open-orders__title">TWAP orders ({running.length})</div>
+            {running.length === 0 && <div className="open-orders__empty">No running TWAP orders</div>}
+            {[...running, ...closed].map(order => (
+                <TwapOrderRow key={order.id} order={order} onPause={onPause} onResume={onResume} onCancel={onCancel} />
+            ))}
+        </div>
+    );
+};
@@ -8,6 +8,8 @@ export { ModeToggle } from './ModeToggle';
 export { TokenInput, SwapArrowButton } from './TokenInput';
 export { TWAPSettings } from './TWAPSettings';
 export { LimitSettings } from './LimitSettings';
+export { OpenOrdersPanel } from './OpenOrdersPanel';
+export { TwapOrdersPanel } from './TwapOrdersPanel';
 export { SwapChart } from './SwapChart';
 export { SwapRouteDisplay } from './SwapRouteDisplay';
 export { 
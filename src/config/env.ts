@@ -16,6 +16,11 @@ import { z } from 'zod';
 // Schema Definition
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Ethereum address, shared with the chain registry and deployment manifests */
+export const addressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a valid Ethereum address');
+
 const envSchema = z.object({
   // Mode
   MODE: z.enum(['development', 'production', 'test']).default('development'),
@@ -25,8 +30,8 @@ const envSchema = z.object({
   // WalletConnect (Required for wallet connections)
   VITE_WALLETCONNECT_PROJECT_ID: z
     .string()
-    .min(1, 'WalletConnect Project ID is required')
     .regex(/^[a-f0-9]{32}$/, 'WalletConnect Project ID must be a 32-char hex string')
+    .or(z.literal(''))
     .optional()
     .default(''), // Empty default for development, will show warning
 
@@ -34,12 +39,14 @@ const envSchema = z.object({
   VITE_SUBGRAPH_URL_MAINNET: z
     .string()
     .url('Must be a valid URL')
+    .or(z.literal(''))
     .optional()
     .default(''),
   
   VITE_SUBGRAPH_URL_BASE: z
     .string()
     .url('Must be a valid URL')
+    .or(z.literal(''))
     .optional()
     .default(''),
 
@@ -57,15 +64,9 @@ const envSchema = z.object({
     .default('https://mainnet.base.org'),
 
   // Contract Addresses (optional overrides)
-  VITE_GATEWAY_ROUTER_ADDRESS: z
-    .string()
-    .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a valid Ethereum address')
-    .optional(),
+  VITE_GATEWAY_ROUTER_ADDRESS: addressSchema.optional(),
 
-  VITE_QUOTER_ADDRESS: z
-    .string()
-    .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a valid Ethereum address')
-    .optional(),
+  VITE_QUOTER_ADDRESS: addressSchema.optional(),
 
   // Feature Flags
   VITE_ENABLE_TESTNET: z
@@ -82,6 +83,7 @@ const envSchema = z.object({
   VITE_SENTRY_DSN: z
     .string()
     .url('Must be a valid Sentry DSN URL')
+    .or(z.literal(''))
     .optional()
     .default(''),
 
@@ -154,6 +156,29 @@ function validateEnv(): Env {
 // Validate on module load
 export const env = validateEnv();
 
+/**
+ * Validate static configuration (chain registry, deployment manifests) with
+ * the same policy as the environment: throw in production, log and continue
+ * with the unvalidated value in development.
+ */
+export function validateConfig<S extends z.ZodTypeAny>(schema: S, raw: unknown, label: string): z.infer<S> {
+  const result = schema.safeParse(raw);
+  if (result.success) return result.data;
+
+  const errorMessages = result.error.issues
+    .map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+
+  console.error(`❌ ${label} validation failed:\n` + errorMessages);
+
+  if (import.meta.env.PROD) {
+    throw new Error('Application misconfigured. Please contact support.');
+  }
+
+  console.warn(`⚠️ Continuing with unvalidated ${label} in development mode`);
+  return raw as z.infer<S>;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Startup Warnings
 // ─────────────────────────────────────────────────────────────────────────────
@@ -224,6 +224,8 @@ export const CACHE_CONFIG = {
     yields: 'ignis_yields_cache',
     apr: 'ignis_apr_cache',
     historical: 'ignis_historical_cache',
+    importedTokens: 'ignis_imported_tokens',
+    watchList: 'ignis_watch_list',
   },
 };
 
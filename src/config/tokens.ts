@@ -195,6 +195,15 @@ export const DEMO_TOKENS = [
   { symbol: 'apxETH', name: 'Pirex ETH', icon: 'Ξ', color: '#DC2626', balance: 0.15, price: 3980, protocol: 'Dinero', underlying: 'ETH' },
 ];
 
+/**
+ * Token lists in the Uniswap token-list format (https://tokenlists.org),
+ * merged into the token selector. Entries for other chains are ignored.
+ */
+export const TOKEN_LIST_URLS = [
+  'https://tokens.uniswap.org',
+  'https://tokens.coingecko.com/base/all.json',
+];
+
 /**
  * Get tokens for current network mode
  */
@@ -1,13 +1,26 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useCallback, useMemo, ReactNode } from 'react';
+import { WagmiProvider, useAccount, useDisconnect, useSwitchChain } from 'wagmi';
+import { RainbowKitProvider, darkTheme, useConnectModal } from '@rainbow-me/rainbowkit';
+import { wagmiConfig, isChainSupported } from '../lib/wagmi';
+import type { SupportedChainId } from '../lib/wagmi';
+import { DEMO_CONNECTOR_ID } from '../lib/demoWallet';
+import { customTheme } from '../config/wagmi';
 import type { Address } from '../types';
+import '@rainbow-me/rainbowkit/styles.css';
 
 interface WalletContextType {
     address: Address | null;
     isConnected: boolean;
     isConnecting: boolean;
     chainId: number | null;
+    /** Connected chain is one the app is configured for */
+    isSupportedChain: boolean;
+    /** Connected through the demo wallet rather than a real one */
+    isDemo: boolean;
+    /** Open the wallet picker */
     connect: () => Promise<void>;
     disconnect: () => void;
+    switchChain: (chainId: number) => Promise<void>;
 }
 
 const WalletContext = createContext<WalletContextType | null>(null);
@@ -16,42 +29,48 @@ interface WalletProviderProps {
     children: ReactNode;
 }
 
-export function WalletProvider({ children }: WalletProviderProps): JSX.Element {
-    const [address, setAddress] = useState<Address | null>(null);
-    const [isConnecting, setIsConnecting] = useState(false);
-    const [chainId, setChainId] = useState<number | null>(null);
+const walletTheme = darkTheme({
+    accentColor: customTheme.colors.accentColor,
+    accentColorForeground: customTheme.colors.accentColorForeground,
+    borderRadius: 'medium',
+});
 
-    const isConnected = !!address;
+/**
+ * Wallet state from wagmi's account and chain. Must sit inside
+ * WagmiProvider and RainbowKitProvider.
+ */
+function WalletStateProvider({ children }: WalletProviderProps): JSX.Element {
+    const account = useAccount();
+    const { disconnect: disconnectWallet } = useDisconnect();
+    const { switchChainAsync } = useSwitchChain();
+    const { openConnectModal } = useConnectModal();
 
     const connect = useCallback(async (): Promise<void> => {
-        setIsConnecting(true);
-        
-        // Simulate wallet connection for demo
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Generate a demo address
-        const demoAddress = `0x${Array.from({ length: 40 }, () => 
-            Math.floor(Math.random() * 16).toString(16)
-        ).join('')}` as Address;
-        
-        setAddress(demoAddress);
-        setChainId(8453); // Base chain
-        setIsConnecting(false);
-    }, []);
+        openConnectModal?.();
+    }, [openConnectModal]);
 
     const disconnect = useCallback((): void => {
-        setAddress(null);
-        setChainId(null);
-    }, []);
+        disconnectWallet();
+    }, [disconnectWallet]);
+
+    const switchChain = useCallback(async (chainId: number): Promise<void> => {
+        await switchChainAsync({ chainId: chainId as SupportedChainId });
+    }, [switchChainAsync]);
 
-    const value: WalletContextType = {
-        address,
+    const isConnected = account.isConnected && !!account.address;
+    const chainId = isConnected ? account.chainId ?? null : null;
+
+    const value = useMemo<WalletContextType>(() => ({
+        address: isConnected ? account.address ?? null : null,
         isConnected,
-        isConnecting,
+        isConnecting: account.isConnecting || account.isReconnecting,
         chainId,
+        isSupportedChain: chainId !== null && isChainSupported(chainId),
+        isDemo: isConnected && account.connector?.id === DEMO_CONNECTOR_ID,
         connect,
         disconnect,
-    };
+        switchChain,
+    }), [account.address, account.isConnecting, account.isReconnecting, account.connector, isConnected, chainId, connect, disconnect, switchChain]);
 
     return (
         <WalletContext.Provider value={value}>
@@ -60,6 +79,21 @@ export function WalletProvider({ children }: WalletProviderProps): JSX.Element {
     );
 }
 
+/**
+ * Wagmi + RainbowKit wallet connection. Expects a QueryClientProvider above it.
+ */
+export function WalletProvider({ children }: WalletProviderProps): JSX.Element {
+    return (
+        <WagmiProvider config={wagmiConfig}>
+            <RainbowKitProvider theme={walletTheme} modalSize="compact">
+                <WalletStateProvider>
+                    {children}
+                </WalletStateProvider>
+            </RainbowKitProvider>
+        </WagmiProvider>
+    );
+}
+
 export function useWallet(): WalletContextType {
     const context = useContext(WalletContext);
     if (!context) {
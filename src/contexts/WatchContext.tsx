@@ -0,0 +1,132 @@
+import { createContext, useContext, useCallback, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { getAddress, isAddress } from 'viem';
+import { CACHE_CONFIG } from '../config/protocols';
+import { logger } from '../utils/logger';
+import { useWallet } from './WalletContext';
+import type { Address } from '../types';
+
+export interface WatchListEntry {
+    address: Address;
+    label?: string;
+}
+
+interface WatchContextType {
+    /** Account the account pages show: the watched address, else the connected wallet */
+    address: Address | null;
+    /** Address from `?address=`, only on pages that support watch mode */
+    watchedAddress: Address | null;
+    /** Viewing an address the connected wallet can't sign for; write actions are disabled */
+    isReadOnly: boolean;
+    watchList: WatchListEntry[];
+    /** Show `address` read-only, staying on the current page when it supports watch mode */
+    watch: (address: Address) => void;
+    stopWatching: () => void;
+    saveAddress: (address: Address, label?: string) => void;
+    removeAddress: (address: Address) => void;
+}
+
+/** Pages that read account data by address and can show a watched one */
+export const WATCHABLE_PATHS = ['/app/portfolio', '/app/liquidity', '/app/stake', '/app/approvals'];
+
+export const WATCH_PARAM = 'address';
+
+/** Tooltip for write actions disabled in watch mode */
+export const READ_ONLY_MESSAGE = 'Read-only: connect this wallet to make changes';
+
+const WatchContext = createContext<WatchContextType | null>(null);
+
+/**
+ * Checksummed address from user input or a deep link, or null if invalid
+ */
+export function parseWatchAddress(value: string | null | undefined): Address | null {
+    const trimmed = value?.trim();
+    if (!trimmed || !isAddress(trimmed, { strict: false })) return null;
+    return getAddress(trimmed);
+}
+
+function readWatchList(): WatchListEntry[] {
+    try {
+        const saved = localStorage.getItem(CACHE_CONFIG.keys.watchList);
+        return saved ? JSON.parse(saved) as WatchListEntry[] : [];
+    } catch (e) {
+        logger.warn('Watch list load failed', { error: e });
+        return [];
+    }
+}
+
+/**
+ * Read-only "watch address" mode. The watched address lives in the URL
+ * (`/app/portfolio?address=0x…`) so views can be deep linked; saved
+ * addresses persist in localStorage. Must sit inside WalletProvider and a router.
+ */
+export function WatchProvider({ children }: { children: ReactNode }): JSX.Element {
+    const { address: walletAddress } = useWallet();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [watchList, setWatchList] = useState<WatchListEntry[]>(readWatchList);
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(CACHE_CONFIG.keys.watchList, JSON.stringify(watchList));
+        } catch (e) {
+            logger.warn('Watch list save failed', { error: e });
+        }
+    }, [watchList]);
+
+    const isWatchablePage = WATCHABLE_PATHS.includes(location.pathname);
+    const watchedAddress = isWatchablePage ? parseWatchAddress(searchParams.get(WATCH_PARAM)) : null;
+    const isReadOnly = watchedAddress !== null && watchedAddress.toLowerCase() !== walletAddress?.toLowerCase();
+
+    const watch = useCallback((address: Address): void => {
+        const pathname = isWatchablePage ? location.pathname : WATCHABLE_PATHS[0];
+        navigate({ pathname, search: `?${WATCH_PARAM}=${address}` });
+    }, [isWatchablePage, location.pathname, navigate]);
+
+    const stopWatching = useCallback((): void => {
+        setSearchParams(prev => {
+            const next = new URLSearchParams(prev);
+            next.delete(WATCH_PARAM);
+            return next;
+        });
+    }, [setSearchParams]);
+
+    const saveAddress = useCallback((address: Address, label?: string): void => {
+        setWatchList(prev => [
+            { address, label: label?.trim() || undefined },
+            ...prev.filter(entry => entry.address.toLowerCase() !== address.toLowerCase()),
+        ]);
+    }, []);
+
+    const removeAddress = useCallback((address: Address): void => {
+        setWatchList(prev => prev.filter(entry => entry.address.toLowerCase() !== address.toLowerCase()));
+    }, []);
+
+    const value = useMemo<WatchContextType>(() => ({
+        address: watchedAddress ?? walletAddress,
+        watchedAddress,
+        isReadOnly,
+        watchList,
+        watch,
+        stopWatching,
+        saveAddress,
+        removeAddress,
+    }), [watchedAddress, walletAddress, isReadOnly, watchList, watch, stopWatching, saveAddress, removeAddress]);
+
+    return (
+        <WatchContext.Provider value={value}>
+            {children}
+        </WatchContext.Provider>
+    );
+}
+
+export function useWatch(): WatchContextType {
+    const context = useContext(WatchContext);
+    if (!context) {
+        throw new Error('useWatch must be used within a WatchProvider');
+    }
+    return context;
+}
+
+export default WatchContext;
@@ -1 +1,3 @@
 export { WalletProvider, useWallet } from './WalletContext';
+export { WatchProvider, useWatch, parseWatchAddress, WATCHABLE_PATHS, WATCH_PARAM, READ_ONLY_MESSAGE } from './WatchContext';
+export type { WatchListEntry } from './WatchContext';
@@ -1,4 +1,4 @@
-import type { Token } from '../types';
+import type { PositionOnChain } from '../types';
 import { TOKENS } from './tokens';
 import { POOLS } from './pools';
 
@@ -17,6 +17,7 @@ export interface UserPosition {
     igniEarned: number;
     createdAt: Date;
     initialValue: number;
+    onChain?: PositionOnChain;
 }
 
 export const USER_POSITIONS: UserPosition[] = [
@@ -2,7 +2,7 @@ import type { Token } from '../types';
 
 export const TOKENS: Token[] = [
     { symbol: 'ETH', name: 'Ethereum', decimals: 18, price: 2450.00, balance: 2.5, icon: 'Ξ', color: '#627EEA', isNative: true },
-    { symbol: 'WETH', name: 'Wrapped Ethereum', decimals: 18, price: 2450.00, balance: 1.2, icon: 'W', color: '#627EEA' },
+    { symbol: 'WETH', name: 'Wrapped Ethereum', address: '0x4200000000000000000000000000000000000006', decimals: 18, price: 2450.00, balance: 1.2, icon: 'W', color: '#627EEA' },
     { symbol: 'USDC', name: 'USD Coin', decimals: 6, price: 1.00, balance: 5000, icon: '$', color: '#2775CA' },
     { symbol: 'USDT', name: 'Tether USD', decimals: 6, price: 1.00, balance: 2500, icon: '₮', color: '#26A17B' },
     { symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, price: 1.00, balance: 1500, icon: '◈', color: '#F5AC37' },
@@ -4,3 +4,13 @@ export * from './useSwap';
 export * from './useToken';
 export * from './useStaking';
 export * from './useBuffer';
+export * from './useWrapNative';
+export * from './usePreflight';
+export * from './useQuoteFreshness';
+export * from './useLimitOrderWatcher';
+export * from './useReplaceTransaction';
+export * from './useGasEstimate';
+export * from './useAllowances';
+export * from './useCLPosition';
+export * from './usePositionFees';
+export * from './useZap';
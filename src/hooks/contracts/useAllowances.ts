@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { publicActions } from 'viem';
+import type { Address, Hash, PublicClient } from 'viem';
+import { getPublicClient, wagmiConfig } from '../../lib/wagmi';
+import { getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
+import { handleError, logError } from '../../lib/contracts/errors';
+import {
+    APPROVAL_SPENDERS,
+    buildRevokeCall,
+    readTokenFlags,
+    scanAllowances,
+} from '../../lib/contracts/approvals';
+import type { AllowanceEntry, ApprovalToken } from '../../lib/contracts/approvals';
+import { TX_TIMEOUT_MS, withTimeout } from '../../lib/contracts/txUtils';
+import { contractLogger } from '../../utils/logger';
+
+export interface RevokeResult {
+    /** Entries whose revoke transaction was mined successfully */
+    revoked: AllowanceEntry[];
+    hashes: Hash[];
+    error?: string;
+    isUserRejection?: boolean;
+}
+
+interface UseAllowancesOptions {
+    owner: Address | null | undefined;
+    chainId: number | null | undefined;
+    /** Tokens to scan; entries without an address (native) are ignored */
+    tokens: { address?: Address; symbol: string; decimals: number; isNative?: boolean }[];
+    enabled?: boolean;
+}
+
+interface UseAllowancesResult {
+    /** Non-zero allowances to IGNIS contracts */
+    allowances: AllowanceEntry[];
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => void;
+    /** Set each allowance to 0, one transaction per entry; stops at the first rejection */
+    revoke: (entries: AllowanceEntry[], onSubmitted?: (entry: AllowanceEntry, hash: Hash) => void) => Promise<RevokeResult>;
+    isRevoking: boolean;
+}
+
+/**
+ * Allowances the owner has granted to the router, buffer and staker.
+ *
+ * Token flags from the router (isNonStandardToken) and vault adapter
+ * (requiresApproveReset) are read with the scan, so revokes use the right
+ * approve() encoding for each token.
+ */
+export function useAllowances({ owner, chainId, tokens, enabled = true }: UseAllowancesOptions): UseAllowancesResult {
+    const [allowances, setAllowances] = useState<AllowanceEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isRevoking, setIsRevoking] = useState(false);
+    const [version, setVersion] = useState(0);
+
+    const scanTokens = useMemo(() => {
+        const seen = new Set<string>();
+        return tokens.flatMap((token): ApprovalToken[] => {
+            if (!token.address || token.isNative || seen.has(token.address.toLowerCase())) return [];
+            seen.add(token.address.toLowerCase());
+            return [{ address: token.address, symbol: token.symbol, decimals: token.decimals }];
+        });
+    }, [tokens]);
+    // Rescan on a changed token set only, not on every token list refetch
+    const tokensKey = scanTokens.map(t => t.address.toLowerCase()).join(',');
+    const tokensRef = useRef(scanTokens);
+    tokensRef.current = scanTokens;
+
+    useEffect(() => {
+        setAllowances([]);
+        setError(null);
+        if (!enabled || !owner || !chainId) return;
+
+        const spenders = APPROVAL_SPENDERS
+            .filter(spender => isContractConfigured(chainId, spender))
+            .map(spender => ({ spender, address: getContractAddress(chainId, spender) }));
+
+        let cancelled = false;
+        const client = getPublicClient(chainId) as PublicClient;
+
+        const run = async () => {
+            const scanned = tokensRef.current;
+            setIsLoading(true);
+            try {
+                const flags = await readTokenFlags(client, scanned.map(t => t.address), {
+                    router: isContractConfigured(chainId, 'gatewayRouter') ? getContractAddress(chainId, 'gatewayRouter') : undefined,
+                    vaultAdapter: isContractConfigured(chainId, 'vaultAdapter') ? getContractAddress(chainId, 'vaultAdapter') : undefined,
+                });
+                const next = await scanAllowances(client, owner, scanned, spenders, flags);
+                if (!cancelled) setAllowances(next);
+            } catch (err: unknown) {
+                if (!cancelled) {
+                    const ignisError = handleError(err);
+                    contractLogger.warn('Allowance scan failed', { error: ignisError.message });
+                    setError(ignisError.userMessage);
+                }
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+
+        run();
+        return () => {
+            cancelled = true;
+        };
+    }, [owner, chainId, tokensKey, enabled, version]);
+
+    const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+    const revoke = useCallback(async (
+        entries: AllowanceEntry[],
+        onSubmitted?: (entry: AllowanceEntry, hash: Hash) => void
+    ): Promise<RevokeResult> => {
+        const submitted: { entry: AllowanceEntry; hash: Hash }[] = [];
+        if (!chainId || entries.length === 0) return { revoked: [], hashes: [] };
+
+        setIsRevoking(true);
+        let failure: Pick<RevokeResult, 'error' | 'isUserRejection'> = {};
+        // Receipts are read through the wallet's transport, as in useSwap
+        let waitForReceipt: ((hash: Hash) => Promise<{ status: 'success' | 'reverted' }>) | null = null;
+
+        try {
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+            waitForReceipt = (hash) => client.waitForTransactionReceipt({ hash });
+
+            // Sequential so each wallet prompt gets the next nonce
+            for (const entry of entries) {
+                const hash = await client.writeContract({
+                    ...buildRevokeCall(entry),
+                    account: walletClient.account,
+                    chain: walletClient.chain,
+                });
+                submitted.push({ entry, hash });
+                onSubmitted?.(entry, hash);
+            }
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useAllowances.revoke', err, { chainId, submitted: submitted.length });
+            failure = { error: ignisError.userMessage, isUserRejection: ignisError.isUserRejection };
+        }
+
+        const receipts = await Promise.all(submitted.map(({ hash }) =>
+            withTimeout(waitForReceipt!(hash), TX_TIMEOUT_MS, hash).catch(() => null)
+        ));
+        const revoked = submitted
+            .filter((_, i) => receipts[i]?.status === 'success')
+            .map(({ entry }) => entry);
+
+        if (revoked.length < submitted.length && !failure.error) {
+            failure = { error: 'Some revoke transactions did not confirm' };
+        }
+
+        setIsRevoking(false);
+        if (submitted.length > 0) refresh();
+        return { revoked, hashes: submitted.map(({ hash }) => hash), ...failure };
+    }, [chainId, refresh]);
+
+    return { allowances, isLoading, error, refresh, revoke, isRevoking };
+}
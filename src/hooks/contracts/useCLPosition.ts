@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { erc20Abi, publicActions } from 'viem';
+import type { Address, Hash, PublicClient, TransactionReceipt } from 'viem';
+import { getPublicClient, wagmiConfig } from '../../lib/wagmi';
+import { getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
+import { ZERO_ADDRESS } from '../../lib/contracts/config';
+import { IgnisError, handleError, logError } from '../../lib/contracts/errors';
+import { buildApproveCalls, getApprovalAmount, readTokenFlags } from '../../lib/contracts/approvals';
+import {
+    MAX_PERMIT2_AMOUNT,
+    PERMIT2_ADDRESS,
+    PERMIT2_APPROVAL_TTL_SECONDS,
+    buildPermit2TypedData,
+    readPermit2Allowance,
+} from '../../lib/contracts/permit';
+import type { PermitSingle } from '../../lib/contracts/permit';
+import {
+    buildCLPoolKey,
+    buildMintPositionCall,
+    buildPositionManagerMulticall,
+    buildPositionManagerPermitCall,
+    getMintedTokenId,
+    readCLPoolState,
+} from '../../lib/contracts/clPosition';
+import type { CLPoolState } from '../../lib/contracts/clPosition';
+import type { CLPoolKey } from '../../lib/contracts/types';
+import { assertCallSucceeds } from '../../lib/contracts/simulation';
+import type { ContractCall } from '../../lib/contracts/simulation';
+import { TX_TIMEOUT_MS, withTimeout } from '../../lib/contracts/txUtils';
+import { poolLogger } from '../../utils/logger';
+import type { ApprovalMode } from '../../types';
+
+export type MintStep = 'idle' | 'approving' | 'minting';
+
+export interface MintResult {
+    success: boolean;
+    hash?: Hash;
+    /** Position NFT minted, read from the receipt */
+    tokenId?: bigint;
+    error?: string;
+    isUserRejection?: boolean;
+}
+
+interface UseCLPoolOptions {
+    /** Pair in display order; native ETH is the zero address */
+    tokenA: Address | null | undefined;
+    tokenB: Address | null | undefined;
+    /** Fee tier from FEE_TIERS */
+    fee: number;
+    chainId: number | null | undefined;
+    enabled?: boolean;
+}
+
+interface UseCLPoolResult {
+    /** null when the pair, fee tier or pool manager is unavailable */
+    poolKey: CLPoolKey | null;
+    /** tokenA is currency1 of the pool, so prices are inverted on-chain */
+    flipped: boolean;
+    /** null until read, and for pools that were never initialized */
+    state: CLPoolState | null;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => void;
+}
+
+export interface MintCLPositionParams {
+    chainId: number;
+    poolKey: CLPoolKey;
+    tickLower: number;
+    tickUpper: number;
+    liquidity: bigint;
+    amount0Max: bigint;
+    amount1Max: bigint;
+    deadline: bigint;
+    approvalMode?: ApprovalMode;
+}
+
+interface UseMintPreflightCallOptions {
+    /** What mint() will be called with; null disables the check */
+    params: MintCLPositionParams | null;
+    owner: Address | null | undefined;
+    enabled?: boolean;
+}
+
+interface UseMintCLPositionResult {
+    mint: (params: MintCLPositionParams) => Promise<MintResult>;
+    step: MintStep;
+    isPending: boolean;
+    error: Error | null;
+}
+
+/**
+ * Key and slot0 of the hookless CL pool for a pair and fee tier
+ */
+export function useCLPool({ tokenA, tokenB, fee, chainId, enabled = true }: UseCLPoolOptions): UseCLPoolResult {
+    const [state, setState] = useState<CLPoolState | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [version, setVersion] = useState(0);
+
+    const { poolKey, flipped } = useMemo(() => {
+        if (!enabled || !tokenA || !tokenB || !chainId || !isContractConfigured(chainId, 'clPoolManager')) {
+            return { poolKey: null, flipped: false };
+        }
+        try {
+            return buildCLPoolKey(tokenA, tokenB, fee, getContractAddress(chainId, 'clPoolManager'));
+        } catch {
+            return { poolKey: null, flipped: false };
+        }
+    }, [tokenA, tokenB, fee, chainId, enabled]);
+
+    useEffect(() => {
+        setState(null);
+        setError(null);
+        if (!poolKey || !chainId) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        readCLPoolState(getPublicClient(chainId) as PublicClient, poolKey)
+            .then((next) => {
+                if (!cancelled) setState(next);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    const ignisError = handleError(err);
+                    poolLogger.warn('CL pool state unavailable', { error: ignisError.message });
+                    setError(ignisError.userMessage);
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [poolKey, chainId, version]);
+
+    const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+    return { poolKey, flipped, state, isLoading, error, refresh };
+}
+
+/**
+ * Mint a CL position through CLPositionManager.
+ *
+ * The position manager pulls ERC20s through Permit2, so each ERC20 side is
+ * first approved to Permit2 (a transaction, only when that allowance falls
+ * short). The position manager's own Permit2 allowance is granted with a
+ * signed PermitSingle, bundled with the mint in one multicall. Native ETH
+ * is sent as msg.value.
+ */
+export function useMintCLPosition(): UseMintCLPositionResult {
+    const [step, setStep] = useState<MintStep>('idle');
+    const [error, setError] = useState<Error | null>(null);
+
+    const mint = useCallback(async (params: MintCLPositionParams): Promise<MintResult> => {
+        const { chainId, poolKey, amount0Max, amount1Max, approvalMode = 'exact' } = params;
+        setError(null);
+        setStep('approving');
+
+        let hash: Hash | undefined;
+
+        try {
+            if (!isContractConfigured(chainId, 'clPositionManager')) {
+                throw new IgnisError({
+                    code: 'NOT_CONFIGURED',
+                    message: 'CL position manager not configured',
+                    userMessage: 'Concentrated liquidity is not available on this network',
+                });
+            }
+            const positionManager = getContractAddress(chainId, 'clPositionManager');
+
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+            const owner = walletClient.account.address;
+
+            const send = async (call: ContractCall, label: string): Promise<TransactionReceipt> => {
+                const txHash = await client.writeContract({
+                    ...call,
+                    account: walletClient.account,
+                    chain: walletClient.chain,
+                });
+                const receipt = await withTimeout(client.waitForTransactionReceipt({ hash: txHash }), TX_TIMEOUT_MS, txHash);
+                if (receipt.status !== 'success') {
+                    throw new IgnisError({
+                        code: 'TX_REVERTED',
+                        message: `${label} transaction ${txHash} reverted`,
+                        userMessage: `${label} failed on-chain.`,
+                        details: { hash: txHash, blockNumber: receipt.blockNumber.toString() },
+                    });
+                }
+                return receipt;
+            };
+
+            // Router and vault adapter flags pick the approve encoding and any approve(0) reset
+            const tokens = [poolKey.currency0, poolKey.currency1].filter(currency => currency !== ZERO_ADDRESS);
+            const flags = await readTokenFlags(client, tokens, {
+                router: isContractConfigured(chainId, 'gatewayRouter') ? getContractAddress(chainId, 'gatewayRouter') : undefined,
+                vaultAdapter: isContractConfigured(chainId, 'vaultAdapter') ? getContractAddress(chainId, 'vaultAdapter') : undefined,
+            });
+
+            // Sequential so each wallet prompt gets the next nonce
+            const now = Math.floor(Date.now() / 1000);
+            const permits: ContractCall[] = [];
+            for (const [currency, amountMax] of [[poolKey.currency0, amount0Max], [poolKey.currency1, amount1Max]] as const) {
+                if (currency === ZERO_ADDRESS || amountMax === BigInt(0)) continue;
+
+                const allowance = await client.readContract({
+                    address: currency,
+                    abi: erc20Abi,
+                    functionName: 'allowance',
+                    args: [owner, PERMIT2_ADDRESS],
+                });
+                if (allowance < amountMax) {
+                    for (const call of buildApproveCalls(currency, PERMIT2_ADDRESS, getApprovalAmount(amountMax, approvalMode), allowance, flags.get(currency.toLowerCase()))) {
+                        await send(call, 'Approval');
+                    }
+                }
+
+                const permit2 = await readPermit2Allowance(client, owner, currency, positionManager);
+                if (permit2.amount < amountMax || permit2.expiration <= now) {
+                    const permit: PermitSingle = {
+                        details: {
+                            token: currency,
+                            amount: approvalMode === 'unlimited' ? MAX_PERMIT2_AMOUNT : amountMax,
+                            expiration: now + PERMIT2_APPROVAL_TTL_SECONDS,
+                            nonce: permit2.nonce,
+                        },
+                        spender: positionManager,
+                        sigDeadline: params.deadline,
+                    };
+                    const signature = await walletClient.signTypedData({
+                        account: walletClient.account,
+                        ...buildPermit2TypedData(permit, chainId),
+                    });
+                    permits.push(buildPositionManagerPermitCall(positionManager, owner, permit, signature));
+                }
+            }
+
+            setStep('minting');
+            const mintCall = buildMintPositionCall({ ...params, positionManager, owner });
+            const call = permits.length > 0 ? buildPositionManagerMulticall(positionManager, [...permits, mintCall]) : mintCall;
+            // The permits only exist now, so this is the first point the exact call can be simulated
+            await assertCallSucceeds(client, call, owner);
+            const receipt = await send(call, 'Add liquidity');
+            hash = receipt.transactionHash;
+            const tokenId = getMintedTokenId(receipt.logs, positionManager, owner) ?? undefined;
+            poolLogger.info('CL position minted', { hash, chainId, tokenId: tokenId?.toString(), tickLower: params.tickLower, tickUpper: params.tickUpper });
+
+            return { success: true, hash, tokenId };
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useMintCLPosition', err, { hash, chainId });
+            setError(ignisError);
+            return {
+                success: false,
+                hash,
+                error: ignisError.userMessage,
+                isUserRejection: ignisError.isUserRejection,
+            };
+        } finally {
+            setStep('idle');
+        }
+    }, []);
+
+    return { mint, step, isPending: step !== 'idle', error };
+}
+
+/**
+ * The mint call to pre-flight in the confirm modal, or null while a token
+ * still needs its Permit2 approval or the position manager a permit. Those
+ * come first, and without them the simulation would revert on the allowance
+ * rather than on the mint; mint() simulates the final call once they exist.
+ */
+export function useMintPreflightCall({ params, owner, enabled = true }: UseMintPreflightCallOptions): ContractCall | null {
+    const [readyKey, setReadyKey] = useState<string | null>(null);
+
+    const chainId = params?.chainId;
+    const currency0 = params?.poolKey.currency0;
+    const currency1 = params?.poolKey.currency1;
+    const amount0Max = params?.amount0Max;
+    const amount1Max = params?.amount1Max;
+    const key = enabled && params && owner
+        ? `${chainId}:${owner}:${currency0}:${currency1}:${amount0Max}:${amount1Max}`
+        : null;
+
+    useEffect(() => {
+        setReadyKey(null);
+        if (!key || !chainId || !owner || !currency0 || !currency1 || amount0Max === undefined || amount1Max === undefined) return;
+        if (!isContractConfigured(chainId, 'clPositionManager')) return;
+
+        let cancelled = false;
+        const client = getPublicClient(chainId) as PublicClient;
+        const positionManager = getContractAddress(chainId, 'clPositionManager');
+        const now = Math.floor(Date.now() / 1000);
+
+        const isCovered = async (currency: Address, amountMax: bigint): Promise<boolean> => {
+            if (currency === ZERO_ADDRESS || amountMax === BigInt(0)) return true;
+            const [allowance, permit2] = await Promise.all([
+                client.readContract({ address: currency, abi: erc20Abi, functionName: 'allowance', args: [owner, PERMIT2_ADDRESS] }),
+                readPermit2Allowance(client, owner, currency, positionManager),
+            ]);
+            return allowance >= amountMax && permit2.amount >= amountMax && permit2.expiration > now;
+        };
+
+        Promise.all([isCovered(currency0, amount0Max), isCovered(currency1, amount1Max)])
+            .then(([covered0, covered1]) => {
+                if (!cancelled && covered0 && covered1) setReadyKey(key);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    poolLogger.warn('Permit2 allowances unavailable', { error: handleError(err).message });
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [key, chainId, owner, currency0, currency1, amount0Max, amount1Max]);
+
+    if (!params || !owner || !key || readyKey !== key) return null;
+    try {
+        return buildMintPositionCall({ ...params, positionManager: getContractAddress(params.chainId, 'clPositionManager'), owner });
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Address, PublicClient } from 'viem';
+import { getPublicClient } from '../../lib/wagmi';
+import { CACHE_TIMES } from '../../lib/queryClient';
+import { getCallKey } from '../../lib/contracts/simulation';
+import type { ContractCall } from '../../lib/contracts/simulation';
+import { handleError } from '../../lib/contracts/errors';
+import { estimateTransactionCost } from '../../services/gasEstimator';
+import { getTokenPrice } from '../../services/priceService';
+import { contractLogger } from '../../utils/logger';
+import type { GasCostEstimate } from '../../types';
+
+interface UseGasEstimateOptions {
+    /** Exact call that will be sent; null disables the estimate */
+    call: ContractCall | null;
+    account: Address | null | undefined;
+    chainId: number | null | undefined;
+    enabled?: boolean;
+}
+
+interface UseGasEstimateResult {
+    estimate: GasCostEstimate | null;
+    isLoading: boolean;
+}
+
+/**
+ * Live cost of a transaction per fee tier (see estimateTransactionCost).
+ *
+ * Re-estimates when the call changes and every block-ish interval while
+ * enabled. Failures keep the last estimate; the caller falls back to its
+ * static fee display when there is none.
+ */
+export function useGasEstimate({ call, account, chainId, enabled = true }: UseGasEstimateOptions): UseGasEstimateResult {
+    const [estimate, setEstimate] = useState<GasCostEstimate | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const callRef = useRef(call);
+    callRef.current = call;
+
+    let callKey: string | null = null;
+    if (call) {
+        try {
+            callKey = getCallKey(call);
+        } catch (err: unknown) {
+            contractLogger.warn('Gas estimate skipped: call could not be encoded', { error: err });
+        }
+    }
+
+    useEffect(() => {
+        setEstimate(null);
+        if (!enabled || !callKey || !account || !chainId) return;
+
+        let cancelled = false;
+        const client = getPublicClient(chainId) as PublicClient;
+
+        const run = async () => {
+            const current = callRef.current;
+            if (!current) return;
+            setIsLoading(true);
+            try {
+                const nativePrice = await getTokenPrice(client.chain?.nativeCurrency.symbol ?? 'ETH');
+                const next = await estimateTransactionCost(client, current, account, nativePrice);
+                if (!cancelled) setEstimate(next);
+            } catch (err: unknown) {
+                if (!cancelled) {
+                    contractLogger.warn('Gas estimate unavailable', { error: handleError(err).message });
+                }
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+
+        run();
+        const interval = setInterval(run, CACHE_TIMES.GAS_PRICE);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [callKey, account, chainId, enabled]);
+
+    return { estimate, isLoading };
+}
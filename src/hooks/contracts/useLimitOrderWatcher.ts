@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import { formatUnits } from 'viem';
+import { useQuote } from './useQuote';
+import type { ParsedQuote } from './useQuote';
+import { getRoutableAddress } from '../../lib/contracts/native';
+import { getLimitDistanceBps, isLimitReached, isOrderExpired } from '../../services/limitOrderService';
+import type { LimitOrder } from '../../services/limitOrderService';
+
+/** How often each open order is re-quoted */
+export const LIMIT_ORDER_POLL_MS = 15_000;
+
+interface UseLimitOrderWatcherResult {
+    quote: ParsedQuote | null;
+    /** Current market price in tokenOut per tokenIn, null until quoted */
+    currentPrice: number | null;
+    /** Bps the market still has to move; 0 once the limit is reached */
+    distanceBps: number | null;
+}
+
+/**
+ * Poll the quoter for an open limit order and fire `onTrigger` once the
+ * quoted output reaches the order's target.
+ *
+ * Fires at most once per order revision (id + updatedAt), so an edit re-arms
+ * the watcher while a pending execution does not trigger twice.
+ */
+export function useLimitOrderWatcher(
+    order: LimitOrder,
+    onTrigger: (order: LimitOrder, quote: ParsedQuote) => void
+): UseLimitOrderWatcherResult {
+    const tokenIn = getRoutableAddress(order.tokenIn, order.chainId);
+    const tokenOut = getRoutableAddress(order.tokenOut, order.chainId);
+    const isOpen = order.status === 'open';
+
+    const { quote } = useQuote({
+        params: isOpen && tokenIn && tokenOut
+            ? { tokenIn, tokenOut, amountIn: BigInt(order.amountIn), chainId: order.chainId }
+            : null,
+        debounceMs: 0,
+        tokenOutDecimals: order.tokenOut.decimals,
+        refetchIntervalMs: LIMIT_ORDER_POLL_MS,
+    });
+
+    const triggeredRef = useRef<string | null>(null);
+    const onTriggerRef = useRef(onTrigger);
+    onTriggerRef.current = onTrigger;
+
+    const revision = `${order.id}:${order.updatedAt}`;
+
+    useEffect(() => {
+        if (!quote || !isOpen || isOrderExpired(order)) return;
+        if (!isLimitReached(order, quote.amountOut)) return;
+        if (triggeredRef.current === revision) return;
+
+        triggeredRef.current = revision;
+        onTriggerRef.current(order, quote);
+    }, [quote, isOpen, revision]);
+
+    const currentPrice = quote
+        ? Number(formatUnits(quote.amountOut, order.tokenOut.decimals))
+            / Number(formatUnits(BigInt(order.amountIn), order.tokenIn.decimals))
+        : null;
+
+    return {
+        quote,
+        currentPrice,
+        distanceBps: quote ? getLimitDistanceBps(order, quote.amountOut) : null,
+    };
+}
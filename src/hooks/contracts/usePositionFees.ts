@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { formatUnits, publicActions } from 'viem';
+import type { Address, Hash, PublicClient } from 'viem';
+import { getPublicClient, wagmiConfig } from '../../lib/wagmi';
+import { getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
+import { DEFAULT_DEADLINE_SECONDS, ZERO_ADDRESS } from '../../lib/contracts/config';
+import { IgnisError, handleError, logError } from '../../lib/contracts/errors';
+import {
+    buildCollectFeesCall,
+    readCLPositionFees,
+    readCLPositionInfo,
+} from '../../lib/contracts/positionFees';
+import type { FeeAmounts } from '../../lib/contracts/positionFees';
+import type { CLPoolKey } from '../../lib/contracts/types';
+import type { ContractCall } from '../../lib/contracts/simulation';
+import { createDeadline } from '../../lib/contracts/validation';
+import { TX_TIMEOUT_MS, withTimeout } from '../../lib/contracts/txUtils';
+import { getTokenPrices } from '../../services/priceService';
+import { poolLogger } from '../../utils/logger';
+import type { PositionOnChain, Token } from '../../types';
+
+export interface PositionFees {
+    /** Token units, in the order of the tokens passed in */
+    amount0: number;
+    amount1: number;
+    usd: number;
+}
+
+export interface CollectFeesResult {
+    success: boolean;
+    hash?: Hash;
+    error?: string;
+    isUserRejection?: boolean;
+}
+
+interface UsePositionFeesOptions {
+    chainId: number | null | undefined;
+    position: PositionOnChain | null | undefined;
+    token0: Token;
+    token1: Token;
+    enabled?: boolean;
+}
+
+interface UsePositionFeesResult {
+    /** null until read, and for positions without an on-chain reference */
+    fees: PositionFees | null;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => void;
+}
+
+interface UseCollectFeesResult {
+    /** `deadline` defaults to DEFAULT_DEADLINE_SECONDS from now; pass the pre-flighted one to send the same call */
+    collect: (chainId: number, tokenId: bigint, deadline?: bigint) => Promise<CollectFeesResult>;
+    isPending: boolean;
+    error: Error | null;
+}
+
+interface UseCollectFeesCallOptions {
+    chainId: number | null | undefined;
+    tokenId: bigint | null;
+    recipient: Address | null | undefined;
+    deadline: bigint | null;
+    enabled?: boolean;
+}
+
+const currencyOf = (token: Token): Address | undefined => (token.isNative ? ZERO_ADDRESS : token.address);
+
+/**
+ * Read a CL position's fees from the pool manager, from the fee growth
+ * inside its range. Priced in USD with priceService, falling back to the
+ * tokens' listed prices.
+ */
+export function usePositionFees({ chainId, position, token0, token1, enabled = true }: UsePositionFeesOptions): UsePositionFeesResult {
+    const [fees, setFees] = useState<PositionFees | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [version, setVersion] = useState(0);
+
+    const currency0 = currencyOf(token0);
+    const currency1 = currencyOf(token1);
+
+    useEffect(() => {
+        setFees(null);
+        setError(null);
+        if (!enabled || !position || !chainId || !currency0 || !currency1) return;
+
+        let cancelled = false;
+        const client = getPublicClient(chainId) as PublicClient;
+
+        // Fee amounts come back in pool currency order; `flipped` when token0 is currency1
+        const readFees = async (): Promise<{ amounts: FeeAmounts; flipped: boolean }> => {
+            if (!isContractConfigured(chainId, 'clPositionManager')) {
+                throw new IgnisError({
+                    code: 'NOT_CONFIGURED',
+                    message: 'CL position manager not configured',
+                    userMessage: 'Concentrated liquidity is not available on this network',
+                });
+            }
+            const { info, ...amounts } = await readCLPositionFees(client, getContractAddress(chainId, 'clPositionManager'), BigInt(position.tokenId));
+            return { amounts, flipped: info.poolKey.currency0.toLowerCase() !== currency0.toLowerCase() };
+        };
+
+        setIsLoading(true);
+        const readPrices = getTokenPrices([token0.symbol, token1.symbol]) as Promise<Record<string, { price: number } | undefined>>;
+        Promise.all([readFees(), readPrices])
+            .then(([{ amounts, flipped }, prices]) => {
+                if (cancelled) return;
+                const [raw0, raw1] = flipped ? [amounts.amount1, amounts.amount0] : [amounts.amount0, amounts.amount1];
+                const amount0 = Number(formatUnits(raw0, token0.decimals));
+                const amount1 = Number(formatUnits(raw1, token1.decimals));
+                const price0 = prices[token0.symbol]?.price || token0.price;
+                const price1 = prices[token1.symbol]?.price || token1.price;
+                setFees({ amount0, amount1, usd: amount0 * price0 + amount1 * price1 });
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    const ignisError = handleError(err);
+                    poolLogger.warn('Position fees unavailable', { error: ignisError.message });
+                    setError(ignisError.userMessage);
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled, position, chainId, currency0, currency1, token0.symbol, token1.symbol, token0.decimals, token1.decimals, token0.price, token1.price, version]);
+
+    const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+    return { fees, isLoading, error, refresh };
+}
+
+/**
+ * Collect a CL position's fees without touching its liquidity.
+ */
+export function useCollectFees(): UseCollectFeesResult {
+    const [isPending, setIsPending] = useState(false);
+    const [error, setError] = useState<Error | null>(null);
+
+    const collect = useCallback(async (chainId: number, tokenId: bigint, deadline?: bigint): Promise<CollectFeesResult> => {
+        setError(null);
+        setIsPending(true);
+
+        let hash: Hash | undefined;
+
+        try {
+            if (!isContractConfigured(chainId, 'clPositionManager')) {
+                throw new IgnisError({
+                    code: 'NOT_CONFIGURED',
+                    message: 'CL position manager not configured',
+                    userMessage: 'Concentrated liquidity is not available on this network',
+                });
+            }
+            const positionManager = getContractAddress(chainId, 'clPositionManager');
+
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+            const recipient = walletClient.account.address;
+
+            const { poolKey } = await readCLPositionInfo(client, positionManager, tokenId);
+            hash = await client.writeContract({
+                ...buildCollectFeesCall({ positionManager, tokenId, poolKey, recipient, deadline: deadline ?? createDeadline(DEFAULT_DEADLINE_SECONDS) }),
+                account: walletClient.account,
+                chain: walletClient.chain,
+            });
+
+            const receipt = await withTimeout(client.waitForTransactionReceipt({ hash }), TX_TIMEOUT_MS, hash);
+            if (receipt.status !== 'success') {
+                throw new IgnisError({
+                    code: 'TX_REVERTED',
+                    message: `Collect fees transaction ${hash} reverted`,
+                    userMessage: 'Collecting fees failed on-chain.',
+                    details: { hash, blockNumber: receipt.blockNumber.toString() },
+                });
+            }
+            poolLogger.info('CL position fees collected', { hash, chainId, tokenId: tokenId.toString() });
+
+            return { success: true, hash };
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useCollectFees', err, { hash, chainId, tokenId: tokenId.toString() });
+            setError(ignisError);
+            return {
+                success: false,
+                hash,
+                error: ignisError.userMessage,
+                isUserRejection: ignisError.isUserRejection,
+            };
+        } finally {
+            setIsPending(false);
+        }
+    }, []);
+
+    return { collect, isPending, error };
+}
+
+/**
+ * The collect call useCollectFees will send, for pre-flight simulation.
+ * null until the position's pool key has been read.
+ */
+export function useCollectFeesCall({ chainId, tokenId, recipient, deadline, enabled = true }: UseCollectFeesCallOptions): ContractCall | null {
+    const [poolKey, setPoolKey] = useState<CLPoolKey | null>(null);
+
+    useEffect(() => {
+        setPoolKey(null);
+        if (!enabled || !chainId || tokenId === null || !isContractConfigured(chainId, 'clPositionManager')) return;
+
+        let cancelled = false;
+        readCLPositionInfo(getPublicClient(chainId) as PublicClient, getContractAddress(chainId, 'clPositionManager'), tokenId)
+            .then((info) => {
+                if (!cancelled) setPoolKey(info.poolKey);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    poolLogger.warn('Position info unavailable', { error: handleError(err).message });
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [chainId, tokenId, enabled]);
+
+    if (!poolKey || !chainId || tokenId === null || !recipient || deadline === null) return null;
+    return buildCollectFeesCall({
+        positionManager: getContractAddress(chainId, 'clPositionManager'),
+        tokenId,
+        poolKey,
+        recipient,
+        deadline,
+    });
+}
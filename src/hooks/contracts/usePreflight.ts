@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Address, PublicClient } from 'viem';
+import { getPublicClient } from '../../lib/wagmi';
+import { getCallKey, simulateCall } from '../../lib/contracts/simulation';
+import type { ContractCall } from '../../lib/contracts/simulation';
+import { handleError } from '../../lib/contracts/errors';
+import { contractLogger } from '../../utils/logger';
+import type { PreflightCheck } from '../../types';
+
+interface UsePreflightOptions {
+    /**
+     * Exact call that will be sent; null disables the check. A list is for
+     * batches of independent transactions (e.g. revokes), each simulated on
+     * its own against the current state.
+     */
+    call: ContractCall | readonly ContractCall[] | null;
+    account: Address | null | undefined;
+    chainId: number | null | undefined;
+    enabled?: boolean;
+}
+
+interface UsePreflightResult extends PreflightCheck {
+    recheck: () => void;
+}
+
+const IDLE: PreflightCheck = { status: 'idle' };
+
+/**
+ * Simulate a transaction with eth_call before the wallet prompt opens.
+ *
+ * Re-runs whenever the calldata, value or target changes. A revert is decoded
+ * through parseContractError; failures of the simulation itself (RPC down,
+ * unsupported chain) leave the check 'idle' rather than blocking the user.
+ */
+export function usePreflight({ call, account, chainId, enabled = true }: UsePreflightOptions): UsePreflightResult {
+    const [check, setCheck] = useState<PreflightCheck>(IDLE);
+    const [nonce, setNonce] = useState(0);
+    const callRef = useRef<readonly ContractCall[]>([]);
+
+    const calls: readonly ContractCall[] = !call ? [] : Array.isArray(call) ? call : [call as ContractCall];
+    callRef.current = calls;
+
+    let callKey: string | null = null;
+    if (calls.length > 0) {
+        try {
+            callKey = calls.map(c => getCallKey(c)).join('|');
+        } catch (err: unknown) {
+            contractLogger.warn('Pre-flight skipped: call could not be encoded', { error: err });
+        }
+    }
+
+    useEffect(() => {
+        const current = callRef.current;
+        if (!enabled || current.length === 0 || !callKey || !account || !chainId) {
+            setCheck(IDLE);
+            return;
+        }
+
+        let cancelled = false;
+        setCheck({ status: 'simulating' });
+
+        (async () => {
+            try {
+                const client = getPublicClient(chainId) as PublicClient;
+                const results = await Promise.all(current.map(c => simulateCall(client, c, account)));
+                if (cancelled) return;
+
+                const index = results.findIndex(result => !result.ok);
+                const failed = results[index];
+                if (!failed || failed.ok) {
+                    setCheck({ status: 'passed' });
+                } else if (failed.error.code === 'NETWORK_ERROR') {
+                    setCheck(IDLE);
+                } else {
+                    contractLogger.warn('Pre-flight simulation reverted', {
+                        code: failed.error.code,
+                        functionName: current[index]!.functionName,
+                    });
+                    setCheck({ status: 'reverted', reason: failed.error.userMessage });
+                }
+            } catch (err: unknown) {
+                if (cancelled) return;
+                contractLogger.warn('Pre-flight simulation unavailable', { error: handleError(err).message });
+                setCheck(IDLE);
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [callKey, account, chainId, enabled, nonce]);
+
+    const recheck = useCallback(() => setNonce(n => n + 1), []);
+
+    return { ...check, recheck };
+}
@@ -2,18 +2,23 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Address, formatUnits } from 'viem';
+import type { PublicClient } from 'viem';
 import { getPublicClient } from '../../lib/wagmi';
-import { getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
+import { getBlockTimeSeconds, getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
 import { ABIS } from '../../lib/contracts/config';
 import { QuoteResult, RouteStep, RouteAction } from '../../lib/contracts/types';
+import { decodeRoute, countRouteSteps, PackedRoute } from '../../lib/contracts/route';
 import { handleError, IgnisError, logError } from '../../lib/contracts/errors';
 import { QUERY_KEYS, CACHE_TIMES } from '../../lib/queryClient';
 import { swapLogger } from '../../utils/logger';
+import type { QuoteResponse } from '../../components/swap/SwapRouteDisplay';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
 // ─────────────────────────────────────────────────────────────────────────────────
 
+export type TradeType = 'EXACT_INPUT' | 'EXACT_OUTPUT';
+
 export interface QuoteParams {
   tokenIn: Address;
   tokenOut: Address;
@@ -21,8 +26,18 @@ export interface QuoteParams {
   chainId: number;
 }
 
+/** Quote the input required to receive exactly `amountOut` */
+export interface ExactOutputQuoteParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountOut: bigint;
+  chainId: number;
+}
+
 export interface ParsedQuote {
   // Core quote data
+  tradeType: TradeType;
+  amountIn: bigint;
   amountOut: bigint;
   amountOutFormatted: string;
   gasEstimate: bigint;
@@ -32,6 +47,7 @@ export interface ParsedQuote {
   // Route data
   route: RouteStep[];
   encodedRoute: `0x${string}`;
+  decodedRoute: PackedRoute | null;
   routeDescription: string;
   hopCount: number;
   
@@ -52,14 +68,22 @@ export interface ParsedQuote {
   // Computed
   effectivePrice: number;
   minimumReceived: (slippageBps: number) => bigint;
+  maximumSold: (slippageBps: number) => bigint;
 }
 
 export interface UseQuoteOptions {
-  params: QuoteParams | null;
+  params: QuoteParams | ExactOutputQuoteParams | null;
   enabled?: boolean;
   debounceMs?: number;
   staleTimeMs?: number;
   tokenOutDecimals?: number;
+  /** Re-quote on an interval (e.g. limit-order watchers); off by default */
+  refetchIntervalMs?: number;
+  /**
+   * Chain to keep tracking blocks on while params are null, for callers that
+   * check the freshness of quotes from elsewhere against the same block
+   */
+  blockChainId?: number | null;
 }
 
 export interface UseQuoteResult {
@@ -70,6 +94,8 @@ export interface UseQuoteResult {
   error: IgnisError | null;
   refetch: () => Promise<void>;
   dataUpdatedAt: number;
+  /** Latest block seen on the quoted chain; quotes are anchored to it */
+  currentBlock: bigint | null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -79,6 +105,12 @@ export interface UseQuoteResult {
 const QUOTE_STALE_BLOCKS = 3;
 const DEFAULT_DEBOUNCE_MS = 300;
 
+/** Exact-output search stops once the overshoot is within this many bps */
+export const EXACT_OUTPUT_TOLERANCE_BPS = 1;
+/** Headroom added when stepping up from below the target */
+const EXACT_OUTPUT_STEP_UP_BPS = 50;
+const EXACT_OUTPUT_MAX_ITERATIONS = 8;
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // RAW QUOTE TYPE (matches contract return)
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -138,13 +170,112 @@ async function fetchQuote(params: QuoteParams): Promise<RawQuoteResult> {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXACT OUTPUT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function isExactOutputParams(
+  params: QuoteParams | ExactOutputQuoteParams
+): params is ExactOutputQuoteParams {
+  return 'amountOut' in params;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - BigInt(1)) / b;
+}
+
+/**
+ * Find the smallest input whose quoted output reaches `targetOut`.
+ *
+ * The quoter only prices exact-input trades, so this inverts it. Output is
+ * concave in input (out/in falls as size grows), which means a proportional
+ * step from above never drops below the target; from below we add headroom
+ * so the first step lands above it.
+ *
+ * @param targetOut - Exact output wanted
+ * @param quoteOut - Quoted output for a given input
+ * @param initialGuess - Starting input (e.g. the reverse-direction quote)
+ * @throws IgnisError NoRouteFound if no input reaches the target
+ */
+export async function solveExactOutput(
+  targetOut: bigint,
+  quoteOut: (amountIn: bigint) => Promise<bigint>,
+  initialGuess: bigint
+): Promise<{ amountIn: bigint; amountOut: bigint }> {
+  let amountIn = initialGuess > BigInt(0) ? initialGuess : BigInt(1);
+  let best: { amountIn: bigint; amountOut: bigint } | null = null;
+
+  for (let i = 0; i < EXACT_OUTPUT_MAX_ITERATIONS; i++) {
+    const amountOut = await quoteOut(amountIn);
+
+    let next: bigint;
+    if (amountOut >= targetOut) {
+      if (!best || amountIn < best.amountIn) best = { amountIn, amountOut };
+
+      const overshootBps = ((amountOut - targetOut) * BigInt(10000)) / targetOut;
+      if (overshootBps <= BigInt(EXACT_OUTPUT_TOLERANCE_BPS)) break;
+
+      next = ceilDiv(amountIn * targetOut, amountOut);
+    } else if (amountOut === BigInt(0)) {
+      next = amountIn * BigInt(2);
+    } else {
+      const proportional = ceilDiv(amountIn * targetOut, amountOut);
+      next = ceilDiv(proportional * BigInt(10000 + EXACT_OUTPUT_STEP_UP_BPS), BigInt(10000));
+      if (best && next >= best.amountIn) break;
+    }
+
+    if (next === amountIn) break;
+    amountIn = next;
+  }
+
+  if (!best) {
+    throw new IgnisError({
+      code: 'NoRouteFound',
+      message: `No input found that yields ${targetOut}`,
+      userMessage: 'Not enough liquidity to receive this amount',
+    });
+  }
+
+  return best;
+}
+
+async function fetchExactOutputQuote(
+  params: ExactOutputQuoteParams
+): Promise<{ raw: RawQuoteResult; amountIn: bigint }> {
+  const { tokenIn, tokenOut, amountOut, chainId } = params;
+
+  // Selling the target amount back the other way approximates the input needed
+  let initialGuess = BigInt(0);
+  try {
+    const reverse = await fetchQuote({ tokenIn: tokenOut, tokenOut: tokenIn, amountIn: amountOut, chainId });
+    initialGuess = reverse.amountOut;
+  } catch (error: unknown) {
+    swapLogger.warn('Reverse quote failed, searching from 1 wei', { error });
+  }
+
+  // Keep every quote so the winning input's route is returned as-is
+  const quotes = new Map<bigint, RawQuoteResult>();
+  const { amountIn } = await solveExactOutput(
+    amountOut,
+    async (candidate) => {
+      const result = await fetchQuote({ tokenIn, tokenOut, amountIn: candidate, chainId });
+      quotes.set(candidate, result);
+      return result.amountOut;
+    },
+    initialGuess
+  );
+
+  return { raw: quotes.get(amountIn)!, amountIn };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // QUOTE PARSING
 // ─────────────────────────────────────────────────────────────────────────────────
 
 function parseQuoteResult(
   raw: RawQuoteResult,
-  params: QuoteParams,
+  tradeType: TradeType,
+  amountIn: bigint,
   currentBlock: bigint,
   tokenOutDecimals: number
 ): ParsedQuote {
@@ -159,6 +290,7 @@ function parseQuoteResult(
   }));
 
   const routeDescription = buildRouteDescription(route);
+  const decodedRoute = tryDecodeRoute(raw.encodedRoute);
   const priceImpactBps = Number(raw.priceImpactBps);
   const priceImpactPercent = priceImpactBps / 100;
   const bufferFeeBps = Number(raw.bufferFee);
@@ -172,6 +304,8 @@ function parseQuoteResult(
   const effectivePrice = amountOutFloat;
 
   return {
+    tradeType,
+    amountIn,
     amountOut: raw.amountOut,
     amountOutFormatted: formatUnits(raw.amountOut, tokenOutDecimals),
     gasEstimate: raw.gasEstimate,
@@ -180,7 +314,8 @@ function parseQuoteResult(
     route,
     encodedRoute: raw.encodedRoute,
     routeDescription,
-    hopCount: route.length,
+    decodedRoute,
+    hopCount: decodedRoute ? countRouteSteps(decodedRoute) : route.length,
     isSplit: raw.isSplit,
     splitCount: raw.splitCount,
     bufferFee: raw.bufferFee,
@@ -194,9 +329,19 @@ function parseQuoteResult(
       const slippageMultiplier = BigInt(10000 - slippageBps);
       return (raw.amountOut * slippageMultiplier) / BigInt(10000);
     },
+    maximumSold: (slippageBps: number) => calculateMaxAmountIn(amountIn, slippageBps),
   };
 }
 
+function tryDecodeRoute(encodedRoute: `0x${string}`): PackedRoute | null {
+  try {
+    return decodeRoute(encodedRoute);
+  } catch (error: unknown) {
+    swapLogger.warn('Quoter returned an undecodable route', { error });
+    return null;
+  }
+}
+
 function buildRouteDescription(route: RouteStep[]): string {
   if (route.length === 0) return 'No route';
   
@@ -245,14 +390,22 @@ export function useQuote(options: UseQuoteOptions): UseQuoteResult {
     debounceMs = DEFAULT_DEBOUNCE_MS,
     staleTimeMs = CACHE_TIMES.QUOTE,
     tokenOutDecimals = 18,
+    refetchIntervalMs,
+    blockChainId,
   } = options;
 
   const queryClient = useQueryClient();
   const currentBlockRef = useRef<bigint>(BigInt(0));
+  const [currentBlock, setCurrentBlock] = useState<bigint | null>(null);
 
   // Debounce the amount input
   const debouncedParams = useDebounce(params, debounceMs);
 
+  // Exact-output quotes share the cache namespace, keyed apart by a prefix
+  const amount = debouncedParams
+    ? isExactOutputParams(debouncedParams) ? debouncedParams.amountOut : debouncedParams.amountIn
+    : BigInt(0);
+
   // Build query key
   const queryKey = useMemo(() => {
     if (!debouncedParams) return null;
@@ -260,9 +413,9 @@ export function useQuote(options: UseQuoteOptions): UseQuoteResult {
       debouncedParams.chainId,
       debouncedParams.tokenIn,
       debouncedParams.tokenOut,
-      debouncedParams.amountIn.toString()
+      isExactOutputParams(debouncedParams) ? `out:${amount}` : amount.toString()
     );
-  }, [debouncedParams]);
+  }, [debouncedParams, amount]);
 
   // Check if quoter is configured
   const isConfigured = useMemo(() => {
@@ -270,25 +423,31 @@ export function useQuote(options: UseQuoteOptions): UseQuoteResult {
     return isContractConfigured(debouncedParams.chainId, 'smartQuoter');
   }, [debouncedParams]);
 
-  // Fetch current block for freshness check
+  // Track the current block once per block time; quotes are anchored to it
+  // and callers check their freshness against the same number
+  const trackedChainId = debouncedParams?.chainId ?? blockChainId ?? null;
   useEffect(() => {
-    if (!debouncedParams) return;
-
-    const fetchBlock = async () => {
-      try {
-        const publicClient = getPublicClient(debouncedParams.chainId);
-        const block = await publicClient.getBlockNumber();
-        currentBlockRef.current = block;
-      } catch (error: unknown) {
-        swapLogger.warn('Failed to fetch block number', { error });
-      }
-    };
-
-    fetchBlock();
-    const interval = setInterval(fetchBlock, 12000);
+    setCurrentBlock(null);
+    if (!trackedChainId) return;
+
+    let unwatch: (() => void) | undefined;
+    try {
+      const publicClient = getPublicClient(trackedChainId) as PublicClient;
+      unwatch = publicClient.watchBlockNumber({
+        emitOnBegin: true,
+        pollingInterval: getBlockTimeSeconds(trackedChainId) * 1000,
+        onBlockNumber: (block) => {
+          currentBlockRef.current = block;
+          setCurrentBlock(block);
+        },
+        onError: (error) => swapLogger.warn('Failed to fetch block number', { error }),
+      });
+    } catch (error: unknown) {
+      swapLogger.warn('Failed to fetch block number', { error });
+    }
 
-    return () => clearInterval(interval);
-  }, [debouncedParams?.chainId]);
+    return () => unwatch?.();
+  }, [trackedChainId]);
 
   // Main query
   const query = useQuery({
@@ -306,17 +465,24 @@ export function useQuote(options: UseQuoteOptions): UseQuoteResult {
         });
       }
 
+      if (isExactOutputParams(debouncedParams)) {
+        const { raw, amountIn } = await fetchExactOutputQuote(debouncedParams);
+        return parseQuoteResult(raw, 'EXACT_OUTPUT', amountIn, currentBlockRef.current, tokenOutDecimals);
+      }
+
       const raw = await fetchQuote(debouncedParams);
       return parseQuoteResult(
         raw,
-        debouncedParams,
+        'EXACT_INPUT',
+        debouncedParams.amountIn,
         currentBlockRef.current,
         tokenOutDecimals
       );
     },
-    enabled: enabled && !!debouncedParams && debouncedParams.amountIn > BigInt(0),
+    enabled: enabled && !!debouncedParams && amount > BigInt(0),
     staleTime: staleTimeMs,
     gcTime: staleTimeMs * 2,
+    refetchInterval: refetchIntervalMs ?? false,
     retry: (failureCount, error) => {
       if (error instanceof IgnisError) {
         if (['NoRouteFound', 'InvalidToken', 'ZeroAmount'].includes(error.code)) {
@@ -349,9 +515,34 @@ export function useQuote(options: UseQuoteOptions): UseQuoteResult {
     error,
     refetch,
     dataUpdatedAt: query.dataUpdatedAt,
+    currentBlock,
   };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// ONE-SHOT QUOTE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a fresh exact-input quote outside React Query, for schedulers that
+ * need the price at the moment they act rather than the cached one
+ */
+export async function getQuote(params: QuoteParams, tokenOutDecimals: number = 18): Promise<ParsedQuote> {
+  if (!isContractConfigured(params.chainId, 'smartQuoter')) {
+    throw new IgnisError({
+      code: 'NOT_CONFIGURED',
+      message: 'Quoter contract not configured',
+      userMessage: 'Quoter not deployed on this network',
+    });
+  }
+
+  const [raw, currentBlock] = await Promise.all([
+    fetchQuote(params),
+    getPublicClient(params.chainId).getBlockNumber(),
+  ]);
+  return parseQuoteResult(raw, 'EXACT_INPUT', params.amountIn, currentBlock, tokenOutDecimals);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // HELPER FUNCTIONS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -361,6 +552,40 @@ export function calculateMinAmountOut(amountOut: bigint, slippageBps: number): b
   return (amountOut * slippageMultiplier) / BigInt(10000);
 }
 
+/**
+ * Shape an on-chain quote like a Quoter API response so useSwap can execute it.
+ * For exact-output quotes pass the exact target as `minAmountOut`.
+ */
+export function toQuoteResponse(
+  quote: ParsedQuote,
+  params: { tokenIn: Address; tokenOut: Address; minAmountOut: bigint; router: Address }
+): QuoteResponse {
+  return {
+    tokenIn: params.tokenIn,
+    tokenOut: params.tokenOut,
+    amountIn: quote.amountIn.toString(),
+    expectedAmountOut: quote.amountOut.toString(),
+    minAmountOut: params.minAmountOut.toString(),
+    gasEstimate: Number(quote.gasEstimate),
+    priceImpactBps: quote.priceImpactBps,
+    encodedRoute: quote.encodedRoute,
+    isSplit: quote.isSplit,
+    splitCount: quote.splitCount,
+    timestamp: Date.now(),
+    routeTimestamp: Number(quote.quotedAt),
+    validForBlocks: QUOTE_STALE_BLOCKS,
+    quotedBlock: Number(quote.quotedBlock),
+    to: params.router,
+    calldata: '0x',
+  };
+}
+
+/** Input-side bound for exact-output swaps, rounded up */
+export function calculateMaxAmountIn(amountIn: bigint, slippageBps: number): bigint {
+  const slippageMultiplier = BigInt(10000 + slippageBps);
+  return (amountIn * slippageMultiplier + BigInt(9999)) / BigInt(10000);
+}
+
 export function calculateDeadline(secondsFromNow: number = 1200): bigint {
   return BigInt(Math.floor(Date.now() / 1000) + secondsFromNow);
 }
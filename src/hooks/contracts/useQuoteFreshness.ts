@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react';
+import { getBlockTimeSeconds } from '../../lib/contracts/addresses';
+import { getQuoteFreshness } from '../../lib/contracts/validation';
+import type { QuoteFreshness } from '../../lib/contracts/validation';
+import type { QuoteResponse } from '../../components/swap/SwapRouteDisplay';
+import { swapLogger } from '../../utils/logger';
+
+interface UseQuoteFreshnessOptions {
+    quote: QuoteResponse | null;
+    chainId: number | null | undefined;
+    /** Current block from useQuote, so freshness and requotes agree on it */
+    currentBlock: bigint | null;
+    /** Called once per quote when it expires, typically to requote */
+    onExpire?: () => void;
+    enabled?: boolean;
+}
+
+interface UseQuoteFreshnessResult {
+    /** Null until both the quote and the current block are known */
+    freshness: QuoteFreshness | null;
+    /** Block the quote is anchored to; pass to useSwap to refuse stale execution */
+    quotedBlock: bigint | null;
+}
+
+/**
+ * Identity of a quote across re-renders. Quoter API responses are new objects
+ * on every fetch, so this changes exactly when a requote lands.
+ */
+function getQuoteKey(quote: QuoteResponse): string {
+    return `${quote.timestamp}:${quote.amountIn}:${quote.expectedAmountOut}:${quote.encodedRoute}`;
+}
+
+/**
+ * Track a quote's validForBlocks window against the block useQuote tracks.
+ *
+ * Quotes that carry quotedBlock expire relative to it; otherwise the block at
+ * which the quote first arrived is used. Also ticks once a second so callers
+ * can render a countdown.
+ */
+export function useQuoteFreshness({
+    quote,
+    chainId,
+    currentBlock,
+    onExpire,
+    enabled = true,
+}: UseQuoteFreshnessOptions): UseQuoteFreshnessResult {
+    const [now, setNow] = useState(() => Date.now());
+    const anchorRef = useRef<{ key: string; block: bigint } | null>(null);
+    const expiredKeyRef = useRef<string | null>(null);
+    const onExpireRef = useRef(onExpire);
+    onExpireRef.current = onExpire;
+
+    const active = enabled && !!quote && !!chainId;
+    const blockTimeSeconds = chainId ? getBlockTimeSeconds(chainId) : 2;
+
+    useEffect(() => {
+        if (!active) return;
+        const ticker = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(ticker);
+    }, [active]);
+
+    const quoteKey = quote ? getQuoteKey(quote) : null;
+
+    let quotedBlock: bigint | null = null;
+    if (quote && quoteKey) {
+        if (quote.quotedBlock !== undefined) {
+            quotedBlock = BigInt(quote.quotedBlock);
+        } else if (anchorRef.current?.key === quoteKey) {
+            quotedBlock = anchorRef.current.block;
+        } else if (currentBlock !== null) {
+            anchorRef.current = { key: quoteKey, block: currentBlock };
+            quotedBlock = currentBlock;
+        }
+    }
+
+    const freshness = active && quote && quotedBlock !== null && currentBlock !== null
+        ? getQuoteFreshness(
+            { quotedBlock, validForBlocks: quote.validForBlocks, routeTimestamp: quote.routeTimestamp },
+            currentBlock,
+            blockTimeSeconds,
+            now / 1000
+        )
+        : null;
+    const isStale = freshness?.isStale ?? false;
+
+    useEffect(() => {
+        if (!isStale || !quoteKey || expiredKeyRef.current === quoteKey) return;
+        expiredKeyRef.current = quoteKey;
+        swapLogger.info('Quote expired, requoting', { quotedBlock: quotedBlock?.toString() });
+        onExpireRef.current?.();
+    }, [isStale, quoteKey]);
+
+    return { freshness, quotedBlock };
+}
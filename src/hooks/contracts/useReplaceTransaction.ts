@@ -0,0 +1,101 @@
+import { useState, useCallback } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { publicActions } from 'viem';
+import type { Hash } from 'viem';
+import { wagmiConfig } from '../../lib/wagmi';
+import { IgnisError, handleError, logError } from '../../lib/contracts/errors';
+import { buildReplacementRequest, getReplacementFees } from '../../lib/contracts/txUtils';
+import type { Eip1559Fees, ReplacementKind } from '../../lib/contracts/txUtils';
+import { logger } from '../../utils/logger';
+
+export interface ReplaceResult {
+    success: boolean;
+    /** Hash of the replacement transaction */
+    hash?: Hash;
+    /** Nonce shared by the original and the replacement */
+    nonce?: number;
+    error?: string;
+    isUserRejection?: boolean;
+}
+
+interface UseReplaceTransactionResult {
+    replace: (kind: ReplacementKind, hash: Hash, chainId: number) => Promise<ReplaceResult>;
+    isPending: boolean;
+    error: Error | null;
+}
+
+/**
+ * Speed up or cancel a stuck transaction by sending a replacement with the
+ * same nonce and bumped EIP-1559 fees.
+ *
+ * The original is read back from the node's mempool, so only transactions
+ * still pending there can be replaced. The replacement's receipt isn't
+ * awaited; the pending transactions store reconciles it.
+ */
+export function useReplaceTransaction(): UseReplaceTransactionResult {
+    const [isPending, setIsPending] = useState(false);
+    const [error, setError] = useState<Error | null>(null);
+
+    const replace = useCallback(async (kind: ReplacementKind, hash: Hash, chainId: number): Promise<ReplaceResult> => {
+        setIsPending(true);
+        setError(null);
+
+        try {
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+
+            const original = await client.getTransaction({ hash }).catch(() => null);
+            if (!original || original.blockNumber !== null) {
+                throw new IgnisError({
+                    code: 'TX_NOT_PENDING',
+                    message: `Transaction ${hash} is no longer pending`,
+                    userMessage: 'This transaction is no longer pending.',
+                    details: { hash },
+                });
+            }
+            if (original.from.toLowerCase() !== walletClient.account.address.toLowerCase()) {
+                throw new IgnisError({
+                    code: 'WRONG_ACCOUNT',
+                    message: `Transaction ${hash} was sent by ${original.from}`,
+                    userMessage: 'Switch to the wallet that sent this transaction.',
+                    details: { hash },
+                });
+            }
+
+            let network: Eip1559Fees | undefined;
+            try {
+                network = await client.estimateFeesPerGas();
+            } catch (feeError: unknown) {
+                logger.warn('Fee estimation failed, bumping original fees only', { error: feeError });
+            }
+
+            const request = buildReplacementRequest(kind, original, getReplacementFees(original, network));
+            const replacementHash = await client.sendTransaction({
+                ...request,
+                account: walletClient.account,
+                chain: walletClient.chain,
+            });
+
+            logger.info(kind === 'cancel' ? 'Cancellation submitted' : 'Speed-up submitted', {
+                hash: replacementHash,
+                replaces: hash,
+                nonce: request.nonce,
+            });
+
+            return { success: true, hash: replacementHash, nonce: request.nonce };
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useReplaceTransaction', err, { hash, chainId, kind });
+            setError(ignisError);
+            return {
+                success: false,
+                error: ignisError.userMessage,
+                isUserRejection: ignisError.isUserRejection,
+            };
+        } finally {
+            setIsPending(false);
+        }
+    }, []);
+
+    return { replace, isPending, error };
+}
@@ -1,11 +1,34 @@
 import { useState, useCallback } from 'react';
-import type { Address } from '../../types';
+import { getWalletClient } from 'wagmi/actions';
+import { publicActions } from 'viem';
+import type { Abi, Address, Hash, Hex, ReplacementReason } from 'viem';
+import { wagmiConfig } from '../../lib/wagmi';
+import { getBlockTimeSeconds, isContractConfigured } from '../../lib/contracts/addresses';
+import { ABIS, getWriteContract } from '../../lib/contracts/config';
+import { IgnisError, handleError, logError } from '../../lib/contracts/errors';
+import { compareWithQuote, decodeSwapReceipt } from '../../lib/contracts/receipt';
+import type { ContractCall } from '../../lib/contracts/simulation';
+import type { SwapExecutionReport } from '../../lib/contracts/receipt';
+import { TX_TIMEOUT_MS, addGasBuffer, withTimeout } from '../../lib/contracts/txUtils';
+import type { Eip1559Fees } from '../../lib/contracts/txUtils';
+import {
+    assertFreshQuote,
+    assertPositiveAmount,
+    assertValidDeadline,
+    assertValidMaxAmountIn,
+    assertValidMinAmountOut,
+} from '../../lib/contracts/validation';
+import type { QuoteResponse } from '../../components/swap/SwapRouteDisplay';
+import { swapLogger } from '../../utils/logger';
 
 export interface SwapResult {
     success: boolean;
     hash?: string;
     error?: string;
+    isUserRejection?: boolean;
     amountOut?: bigint;
+    /** Router events decoded from the receipt, compared against the quote */
+    execution?: SwapExecutionReport;
 }
 
 export interface SwapQuote {
@@ -21,31 +44,186 @@ interface UseSwapResult {
     error: Error | null;
 }
 
-interface SwapParams {
-    tokenIn: Address;
-    tokenOut: Address;
-    amountIn: bigint;
-    minAmountOut: bigint;
+export interface SwapParams {
+    /** Quote from the Quoter API (supplies encodedRoute, amountIn and minAmountOut) */
+    quote: QuoteResponse;
+    /** Unix timestamp (seconds) after which the router reverts */
+    deadline: bigint;
     recipient: Address;
+    chainId: number;
+    tokenInDecimals?: number;
+    tokenOutDecimals?: number;
+    /** Pay in native ETH: amountIn is sent as msg.value and wrapped by the router */
+    nativeIn?: boolean;
+    /** Receive native ETH: executes through executeRouteUnwrapETH */
+    nativeOut?: boolean;
+    /**
+     * Exact-output bound. The route sells this much with quote.minAmountOut
+     * (the exact amount wanted) as its floor, so the router reverts rather
+     * than deliver less; whatever the bound buys above the target is
+     * received as extra output. Refused up front if quote.amountIn has
+     * already moved above it.
+     */
+    maxAmountIn?: bigint;
+    /**
+     * Block the quote is anchored to (see useQuoteFreshness). When set, the
+     * swap is refused once the chain moves past quote.validForBlocks.
+     */
+    quotedBlock?: bigint;
+    /** Called with the hash as soon as the wallet broadcasts, before the receipt */
+    onSubmitted?: (hash: Hash) => void;
+    /** Fee tier picked in the confirm modal; the wallet's own fees otherwise */
+    fees?: Eip1559Fees;
+}
+
+const ROUTER_ABI = ABIS.GatewayRouterV5 as Abi;
+
+/**
+ * Build the executeRoute / executeRouteUnwrapETH call for a quote.
+ * Pre-flight simulation and execution both use this, so the simulated
+ * calldata is exactly what the wallet signs.
+ */
+export function buildSwapCall(params: SwapParams, router: Address): ContractCall {
+    const { quote, deadline, recipient, nativeIn, nativeOut, maxAmountIn } = params;
+    const amountIn = maxAmountIn ?? BigInt(quote.amountIn);
+
+    return {
+        address: router,
+        abi: ROUTER_ABI,
+        functionName: nativeOut ? 'executeRouteUnwrapETH' : 'executeRoute',
+        args: [quote.encodedRoute as Hex, amountIn, BigInt(quote.minAmountOut), recipient, deadline],
+        value: nativeIn ? amountIn : undefined,
+    };
 }
 
+/**
+ * Execute a quoted route through GatewayRouterV5.executeRoute
+ * (or executeRouteUnwrapETH when the output is native ETH).
+ *
+ * The transaction is sent through the connected wallet, and the receipt is
+ * read back through the wallet's own transport so that local forks (anvil)
+ * see the same chain the transaction was sent to.
+ */
 export function useSwap(): UseSwapResult {
     const [isPending, setIsPending] = useState(false);
     const [error, setError] = useState<Error | null>(null);
 
     const swap = useCallback(async (params: SwapParams): Promise<SwapResult> => {
+        const { quote, deadline, chainId, tokenInDecimals, tokenOutDecimals, nativeIn, nativeOut, maxAmountIn, quotedBlock, onSubmitted, fees } = params;
+
         setIsPending(true);
         setError(null);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        setIsPending(false);
-        
-        // Mock: return 99.5% of expected output
-        const amountOut = (params.amountIn * BigInt(995)) / BigInt(1000);
-        return { 
-            success: true, 
-            hash: '0x' + Math.random().toString(16).slice(2),
-            amountOut
-        };
+
+        let hash: Hash | undefined;
+
+        try {
+            // Exact-output sells the bound, so the floor is what the chain enforces
+            const amountIn = maxAmountIn ?? BigInt(quote.amountIn);
+            const minAmountOut = BigInt(quote.minAmountOut);
+
+            assertPositiveAmount(amountIn, 'Input amount');
+            assertValidMinAmountOut(amountIn, minAmountOut, tokenInDecimals, tokenOutDecimals);
+            if (maxAmountIn !== undefined) assertValidMaxAmountIn(BigInt(quote.amountIn), maxAmountIn);
+            assertValidDeadline(deadline);
+
+            if (!isContractConfigured(chainId, 'gatewayRouter')) {
+                throw new IgnisError({
+                    code: 'NOT_CONFIGURED',
+                    message: 'Gateway router not configured',
+                    userMessage: 'Router not deployed on this network',
+                });
+            }
+
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+            const router = getWriteContract(chainId, 'gatewayRouter', walletClient);
+            const call = buildSwapCall(params, router.address);
+
+            if (quotedBlock !== undefined) {
+                assertFreshQuote(
+                    { quotedBlock, validForBlocks: quote.validForBlocks, routeTimestamp: quote.routeTimestamp },
+                    await client.getBlockNumber(),
+                    getBlockTimeSeconds(chainId)
+                );
+            }
+
+            // Route-aware fallback: the quoter's gas estimate already accounts for hop count
+            let gas: bigint;
+            try {
+                const estimate = await client.estimateContractGas({
+                    ...call,
+                    account: walletClient.account,
+                });
+                gas = addGasBuffer(estimate);
+            } catch (estimateError: unknown) {
+                swapLogger.warn('Gas estimation failed, using quoter estimate', { error: estimateError });
+                gas = addGasBuffer(BigInt(quote.gasEstimate));
+            }
+
+            hash = await client.writeContract({
+                ...call,
+                account: walletClient.account,
+                chain: walletClient.chain,
+                gas,
+                ...fees,
+            });
+
+            swapLogger.info('Swap submitted', { hash, chainId, nativeIn, nativeOut });
+            onSubmitted?.(hash);
+
+            let replacement: ReplacementReason | undefined;
+            const receipt = await withTimeout(
+                client.waitForTransactionReceipt({ hash, onReplaced: (r) => { replacement = r.reason; } }),
+                TX_TIMEOUT_MS,
+                hash
+            );
+
+            // Cancelled from the transactions panel: the receipt is the self-transfer
+            if (replacement === 'cancelled') {
+                throw new IgnisError({
+                    code: 'TX_CANCELLED',
+                    message: `Swap transaction ${hash} was cancelled by a replacement`,
+                    userMessage: 'Swap was cancelled. No tokens were exchanged.',
+                    details: { hash, replacedBy: receipt.transactionHash },
+                });
+            }
+
+            if (receipt.status !== 'success') {
+                throw new IgnisError({
+                    code: 'TX_REVERTED',
+                    message: `Swap transaction ${hash} reverted`,
+                    userMessage: 'Swap failed on-chain. No tokens were exchanged.',
+                    details: { hash, blockNumber: receipt.blockNumber.toString() },
+                });
+            }
+
+            const decoded = decodeSwapReceipt(receipt, router.address);
+            if (!decoded) {
+                swapLogger.warn('Swap receipt has no RouteExecuted event', { hash });
+                return { success: true, hash };
+            }
+
+            const execution = compareWithQuote(decoded, quote, tokenInDecimals, tokenOutDecimals);
+            swapLogger.info('Swap executed', {
+                hash,
+                amountOut: execution.amountOut.toString(),
+                slippageBps: execution.slippageBps,
+            });
+
+            return { success: true, hash, amountOut: execution.amountOut, execution };
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useSwap', err, { hash, chainId });
+            setError(ignisError);
+            return {
+                success: false,
+                hash,
+                error: ignisError.userMessage,
+                isUserRejection: ignisError.isUserRejection,
+            };
+        } finally {
+            setIsPending(false);
+        }
     }, []);
 
     return { swap, isPending, error };
@@ -65,7 +243,7 @@ export function useSwapQuote(
     _chainId: number
 ): UseSwapQuoteResult {
     const refetch = useCallback(() => {}, []);
-    
+
     return {
         quote: {
             amountIn: BigInt('1000000000000000000'),
@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { publicActions } from 'viem';
+import type { Abi, Address, Hash } from 'viem';
+import { wagmiConfig } from '../../lib/wagmi';
+import { isContractConfigured } from '../../lib/contracts/addresses';
+import { ABIS, getWriteContract } from '../../lib/contracts/config';
+import { IgnisError, handleError, logError } from '../../lib/contracts/errors';
+import { TX_TIMEOUT_MS, withTimeout } from '../../lib/contracts/txUtils';
+import type { Eip1559Fees } from '../../lib/contracts/txUtils';
+import { assertPositiveAmount } from '../../lib/contracts/validation';
+import type { WrapKind } from '../../lib/contracts/native';
+import type { ContractCall } from '../../lib/contracts/simulation';
+import { swapLogger } from '../../utils/logger';
+import type { SwapResult } from './useSwap';
+
+interface UseWrapNativeResult {
+    /** Convert ETH ⇄ WETH 1:1 through the router; no quote or route involved */
+    convert: (kind: WrapKind, amount: bigint, chainId: number, fees?: Eip1559Fees) => Promise<SwapResult>;
+    isPending: boolean;
+    error: Error | null;
+}
+
+const ROUTER_ABI = ABIS.GatewayRouterV5 as Abi;
+
+/**
+ * Build the router deposit (wrap) or withdraw (unwrap) call
+ */
+export function buildWrapCall(kind: WrapKind, amount: bigint, router: Address): ContractCall {
+    return kind === 'wrap'
+        ? { address: router, abi: ROUTER_ABI, functionName: 'deposit', value: amount }
+        : { address: router, abi: ROUTER_ABI, functionName: 'withdraw', args: [amount] };
+}
+
+/**
+ * Direct ETH ⇄ WETH conversion via GatewayRouterV5.deposit / withdraw.
+ *
+ * Wrapping sends the amount as msg.value and needs no approval. Unwrapping
+ * pulls WETH from the caller, so the regular router approval applies.
+ */
+export function useWrapNative(): UseWrapNativeResult {
+    const [isPending, setIsPending] = useState(false);
+    const [error, setError] = useState<Error | null>(null);
+
+    const convert = useCallback(async (kind: WrapKind, amount: bigint, chainId: number, fees?: Eip1559Fees): Promise<SwapResult> => {
+        setIsPending(true);
+        setError(null);
+
+        let hash: Hash | undefined;
+
+        try {
+            assertPositiveAmount(amount, kind === 'wrap' ? 'Wrap amount' : 'Unwrap amount');
+
+            if (!isContractConfigured(chainId, 'gatewayRouter')) {
+                throw new IgnisError({
+                    code: 'NOT_CONFIGURED',
+                    message: 'Gateway router not configured',
+                    userMessage: 'Router not deployed on this network',
+                });
+            }
+
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+            const router = getWriteContract(chainId, 'gatewayRouter', walletClient);
+
+            hash = await client.writeContract({
+                ...buildWrapCall(kind, amount, router.address),
+                account: walletClient.account,
+                chain: walletClient.chain,
+                ...fees,
+            });
+
+            swapLogger.info(`${kind === 'wrap' ? 'Wrap' : 'Unwrap'} submitted`, { hash, chainId });
+
+            const receipt = await withTimeout(
+                client.waitForTransactionReceipt({ hash }),
+                TX_TIMEOUT_MS,
+                hash
+            );
+
+            if (receipt.status !== 'success') {
+                throw new IgnisError({
+                    code: 'TX_REVERTED',
+                    message: `${kind} transaction ${hash} reverted`,
+                    userMessage: kind === 'wrap' ? 'Wrapping ETH failed on-chain.' : 'Unwrapping WETH failed on-chain.',
+                    details: { hash, blockNumber: receipt.blockNumber.toString() },
+                });
+            }
+
+            // 1:1 conversion: the output always equals the input
+            return { success: true, hash, amountOut: amount };
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useWrapNative', err, { hash, chainId, kind });
+            setError(ignisError);
+            return {
+                success: false,
+                hash,
+                error: ignisError.userMessage,
+                isUserRejection: ignisError.isUserRejection,
+            };
+        } finally {
+            setIsPending(false);
+        }
+    }, []);
+
+    return { convert, isPending, error };
+}
@@ -0,0 +1,203 @@
+import { useState, useCallback } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { erc20Abi, publicActions } from 'viem';
+import type { Hash } from 'viem';
+import { wagmiConfig } from '../../lib/wagmi';
+import { getContractAddress, isContractConfigured } from '../../lib/contracts/addresses';
+import { ZERO_ADDRESS } from '../../lib/contracts/config';
+import { IgnisError, handleError, logError } from '../../lib/contracts/errors';
+import { buildApproveCalls, getApprovalAmount, readTokenFlags } from '../../lib/contracts/approvals';
+import { readCLPoolState, withSlippageCap } from '../../lib/contracts/clPosition';
+import { planCLZapDeposit } from '../../lib/contracts/zap';
+import type { CLPoolKey } from '../../lib/contracts/types';
+import { TX_TIMEOUT_MS, withTimeout } from '../../lib/contracts/txUtils';
+import type { QuoteResponse } from '../../components/swap/SwapRouteDisplay';
+import { poolLogger } from '../../utils/logger';
+import type { ApprovalMode } from '../../types';
+import { useSwap } from './useSwap';
+import { useMintCLPosition } from './useCLPosition';
+import type { MintResult } from './useCLPosition';
+
+export type ZapStep = 'idle' | 'approving' | 'swapping' | 'minting';
+
+export interface ZapResult extends MintResult {
+    /** Set once the swap is mined, even if adding liquidity then failed */
+    swapHash?: Hash;
+    /** Raw amounts in pool order left in the wallet after the mint */
+    dust?: { amount0: bigint; amount1: bigint };
+}
+
+export interface ZapInParams {
+    chainId: number;
+    poolKey: CLPoolKey;
+    tickLower: number;
+    tickUpper: number;
+    /** Pool side (0/1) of the token held */
+    inputSide: 0 | 1;
+    /** Whole deposit; quote.amountIn of it is swapped and the rest kept */
+    amountIn: bigint;
+    /**
+     * Exact-input quote selling part of the deposit for the other currency;
+     * null when the range takes only the held token
+     */
+    quote: QuoteResponse | null;
+    slippageBps: number;
+    deadline: bigint;
+    approvalMode?: ApprovalMode;
+}
+
+interface UseZapInResult {
+    zap: (params: ZapInParams) => Promise<ZapResult>;
+    step: ZapStep;
+    isPending: boolean;
+    error: Error | null;
+}
+
+/**
+ * Add CL liquidity from a single token: swap part of it through the
+ * gateway router, then mint with what is kept plus what the swap returned.
+ *
+ * The swap may move the pool being deposited into, so the position is sized
+ * at the price read after the swap. The position manager only pulls what
+ * the position takes; the rest stays in the wallet as dust (native ETH is
+ * swept back by the mint).
+ */
+export function useZapIn(): UseZapInResult {
+    const [step, setStep] = useState<ZapStep>('idle');
+    const [error, setError] = useState<Error | null>(null);
+    const { swap } = useSwap();
+    const { mint } = useMintCLPosition();
+
+    const zap = useCallback(async (params: ZapInParams): Promise<ZapResult> => {
+        const { chainId, poolKey, tickLower, tickUpper, inputSide, amountIn, quote, slippageBps, deadline, approvalMode = 'exact' } = params;
+        setError(null);
+        setStep('approving');
+
+        let swapHash: Hash | undefined;
+
+        try {
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+            const owner = walletClient.account.address;
+
+            const [inputCurrency, outputCurrency] = inputSide === 0
+                ? [poolKey.currency0, poolKey.currency1]
+                : [poolKey.currency1, poolKey.currency0];
+            const swapAmount = quote ? BigInt(quote.amountIn) : BigInt(0);
+
+            let received = BigInt(0);
+            if (quote && swapAmount > BigInt(0)) {
+                if (!isContractConfigured(chainId, 'gatewayRouter')) {
+                    throw new IgnisError({
+                        code: 'NOT_CONFIGURED',
+                        message: 'Gateway router not configured',
+                        userMessage: 'Router not deployed on this network',
+                    });
+                }
+                const router = getContractAddress(chainId, 'gatewayRouter');
+
+                if (inputCurrency !== ZERO_ADDRESS) {
+                    const [allowance, flags] = await Promise.all([
+                        client.readContract({
+                            address: inputCurrency,
+                            abi: erc20Abi,
+                            functionName: 'allowance',
+                            args: [owner, router],
+                        }),
+                        readTokenFlags(client, [inputCurrency], {
+                            router,
+                            vaultAdapter: isContractConfigured(chainId, 'vaultAdapter') ? getContractAddress(chainId, 'vaultAdapter') : undefined,
+                        }),
+                    ]);
+                    if (allowance < swapAmount) {
+                        const calls = buildApproveCalls(inputCurrency, router, getApprovalAmount(swapAmount, approvalMode), allowance, flags.get(inputCurrency.toLowerCase()));
+                        for (const call of calls) {
+                            const txHash = await client.writeContract({ ...call, account: walletClient.account, chain: walletClient.chain });
+                            const receipt = await withTimeout(client.waitForTransactionReceipt({ hash: txHash }), TX_TIMEOUT_MS, txHash);
+                            if (receipt.status !== 'success') {
+                                throw new IgnisError({
+                                    code: 'TX_REVERTED',
+                                    message: `Approval transaction ${txHash} reverted`,
+                                    userMessage: 'Approval failed on-chain.',
+                                    details: { hash: txHash, blockNumber: receipt.blockNumber.toString() },
+                                });
+                            }
+                        }
+                    }
+                }
+
+                setStep('swapping');
+                const swapResult = await swap({
+                    quote,
+                    deadline,
+                    recipient: owner,
+                    chainId,
+                    nativeIn: inputCurrency === ZERO_ADDRESS,
+                    nativeOut: outputCurrency === ZERO_ADDRESS,
+                });
+                if (!swapResult.success) {
+                    return { success: false, error: swapResult.error, isUserRejection: swapResult.isUserRejection };
+                }
+                swapHash = swapResult.hash as Hash;
+                // Without a decoded RouteExecuted event only the floor is certain
+                received = swapResult.amountOut ?? BigInt(quote.minAmountOut);
+            }
+
+            setStep('minting');
+            const state = await readCLPoolState(client, poolKey);
+            if (!state) {
+                throw new IgnisError({
+                    code: 'INVALID_PARAMS',
+                    message: 'CL pool is not initialized',
+                    userMessage: 'This pool has not been initialized',
+                });
+            }
+            const keep = amountIn - swapAmount;
+            const [balance0, balance1] = inputSide === 0 ? [keep, received] : [received, keep];
+            const deposit = planCLZapDeposit(state.sqrtPriceX96, tickLower, tickUpper, balance0, balance1);
+            if (deposit.liquidity <= BigInt(0)) {
+                throw new IgnisError({
+                    code: 'INVALID_PARAMS',
+                    message: `Zap balances ${balance0}/${balance1} back no liquidity over [${tickLower}, ${tickUpper}]`,
+                    userMessage: 'The swapped amounts are too small for this range',
+                });
+            }
+
+            // Slippage headroom, but never more than the wallet holds after the swap
+            const cap = (amount: bigint, balance: bigint) => {
+                const capped = withSlippageCap(amount, slippageBps);
+                return capped < balance ? capped : balance;
+            };
+            const result = await mint({
+                chainId,
+                poolKey,
+                tickLower,
+                tickUpper,
+                liquidity: deposit.liquidity,
+                amount0Max: cap(deposit.amount0, balance0),
+                amount1Max: cap(deposit.amount1, balance1),
+                deadline,
+                approvalMode,
+            });
+            if (result.success) {
+                poolLogger.info('Zapped into CL position', { hash: result.hash, swapHash, chainId, inputSide });
+            }
+
+            return { ...result, swapHash, dust: { amount0: deposit.dust0, amount1: deposit.dust1 } };
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useZapIn', err, { swapHash, chainId });
+            setError(ignisError);
+            return {
+                success: false,
+                swapHash,
+                error: ignisError.userMessage,
+                isUserRejection: ignisError.isUserRejection,
+            };
+        } finally {
+            setStep('idle');
+        }
+    }, [swap, mint]);
+
+    return { zap, step, isPending: step !== 'idle', error };
+}
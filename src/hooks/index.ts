@@ -1,11 +1,15 @@
-export { usePendingTransactions, TX_STATUS, TX_TYPES, formatTimeAgo, getExplorerUrl } from './usePendingTransactions';
+export { usePendingTransactions, TX_STATUS, TX_TYPES, formatTimeAgo, getExplorerUrl, getExplorerName } from './usePendingTransactions';
 export { useSettings } from './useSettings';
 export { useValidation, useInputValidation, validateSwap, calculatePriceImpact } from './useValidation';
 export { useAnalytics } from './useAnalytics';
 export { useContracts } from './useContracts';
 export { useTokenAllowance } from './useTokenAllowance';
-export { useDepth } from './useDepth';
+export { useDepth, usePoolDepth } from './useDepth';
 export { useSwapQuote } from './useSwapQuote';
+export { useLimitOrders } from './useLimitOrders';
+export { useTwapOrders } from './useTwapOrders';
+export { useTokenLists } from './useTokenLists';
+export { useStoredPositions } from './useStoredPositions';
 export { 
     useKeyboardShortcuts, 
     useGlobalShortcuts, 
@@ -6,14 +6,19 @@ import {
   STAKING_POOLS_QUERY, 
   STAKING_POOL_QUERY,
   RECENT_SWAPS_QUERY,
-  POOL_SWAPS_QUERY 
+  POOL_SWAPS_QUERY,
+  POOL_SWAP_HISTORY_QUERY
 } from '../../lib/graphql/queries';
 import { 
   StakingPool, 
   StakingPoolsResponse,
   Swap,
-  SwapsResponse
+  SwapsResponse,
+  SwapHistoryEntry,
+  PoolSwapHistoryResponse
 } from '../../lib/graphql/types';
+import { CHART_TIMEFRAMES } from '../../utils/charts';
+import type { PricePoint } from '../../utils/charts';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // MOCK DATA
@@ -372,6 +377,94 @@ export function usePoolSwaps(options: UsePoolSwapsOptions): UsePoolSwapsResult {
   return { data, isLoading, error, refetch: fetchData };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// HOOK: usePoolPriceHistory
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Subgraph page size and the most pages read per history */
+const SWAP_HISTORY_PAGE_SIZE = 1000;
+const SWAP_HISTORY_MAX_PAGES = 5;
+
+interface UsePoolPriceHistoryOptions {
+  chainId: number | null | undefined;
+  poolId: string | null;
+  /** Pair in display order; prices are token1 per token0 */
+  token0: string | null;
+  token1: string | null;
+  /** How far back to read, in seconds; defaults to the longest chart timeframe */
+  lookback?: number;
+}
+
+interface UsePoolPriceHistoryResult {
+  data: PricePoint[];
+  /** The history hit the page limit, so its oldest trades are missing */
+  truncated: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Prices of a pool's swaps over `lookback`, oldest first. Unlike the other
+ * swap hooks there is no mock fallback: an empty history is shown as such
+ * rather than as made-up candles.
+ */
+export function usePoolPriceHistory(options: UsePoolPriceHistoryOptions): UsePoolPriceHistoryResult {
+  const { chainId, poolId, token0, token1, lookback = CHART_TIMEFRAMES['1M'].lookback } = options;
+
+  const [data, setData] = useState<PricePoint[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!chainId || !poolId || !token0 || !token1 || !isSubgraphConfigured(chainId)) {
+      setData([]);
+      setTruncated(false);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const since = Math.floor(Date.now() / 1000) - lookback;
+      const swaps: SwapHistoryEntry[] = [];
+      let page = 0;
+      let full = true;
+      for (; page < SWAP_HISTORY_MAX_PAGES && full; page++) {
+        const response = await query<PoolSwapHistoryResponse>(
+          POOL_SWAP_HISTORY_QUERY,
+          { poolId: poolId.toLowerCase(), since: String(since), first: SWAP_HISTORY_PAGE_SIZE, skip: page * SWAP_HISTORY_PAGE_SIZE },
+          { chainId }
+        );
+        swaps.push(...response.swaps);
+        full = response.swaps.length === SWAP_HISTORY_PAGE_SIZE;
+      }
+
+      const points = swaps
+        .map(swap => swapPricePoint(swap, token0, token1))
+        .filter((point): point is PricePoint => point !== null)
+        .reverse();
+      setData(points);
+      setTruncated(full);
+      setError(null);
+    } catch (err: unknown) {
+      logger.error('usePoolPriceHistory failed', err);
+      setError(err instanceof Error ? err : new Error('Failed to fetch pool price history'));
+      setData([]);
+      setTruncated(false);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chainId, poolId, token0, token1, lookback]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, truncated, isLoading, error, refetch: fetchData };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // STAKING HELPERS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -455,6 +548,27 @@ export function formatSwap(swap: Swap): FormattedSwap {
   };
 }
 
+/**
+ * Execution price of a swap as token1 per token0, or null when the swap is
+ * not between the two tokens
+ */
+export function swapPricePoint(swap: SwapHistoryEntry, token0: string, token1: string): PricePoint | null {
+  const tokenIn = swap.tokenIn.id.toLowerCase();
+  const tokenOut = swap.tokenOut.id.toLowerCase();
+  const amountIn = parseFloat(swap.amountIn);
+  const amountOut = parseFloat(swap.amountOut);
+  if (!(amountIn > 0) || !(amountOut > 0)) return null;
+
+  const timestamp = parseInt(swap.timestamp);
+  if (tokenIn === token0.toLowerCase() && tokenOut === token1.toLowerCase()) {
+    return { timestamp, price: amountOut / amountIn };
+  }
+  if (tokenIn === token1.toLowerCase() && tokenOut === token0.toLowerCase()) {
+    return { timestamp, price: amountIn / amountOut };
+  }
+  return null;
+}
+
 export function formatTimeAgo(date: Date): string {
   const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
   
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { useWallet } from '../contexts';
+import { CHAINS, isChainConfigured } from '../lib/contracts/addresses';
 
 interface ContractAddresses {
     router: string;
@@ -13,23 +14,6 @@ interface UseContractsResult {
     isReady: boolean;
 }
 
-const ADDRESSES: Record<number, ContractAddresses> = {
-    // Base Mainnet
-    8453: {
-        router: '0x1234567890123456789012345678901234567890',
-        quoter: '0x2345678901234567890123456789012345678901',
-        poolManager: '0x3456789012345678901234567890123456789012',
-        tokenRegistry: '0x4567890123456789012345678901234567890123',
-    },
-    // Base Sepolia (testnet)
-    84532: {
-        router: '0x0987654321098765432109876543210987654321',
-        quoter: '0x1098765432109876543210987654321098765432',
-        poolManager: '0x2109876543210987654321098765432109876543',
-        tokenRegistry: '0x3210987654321098765432109876543210987654',
-    },
-};
-
 const DEFAULT_ADDRESSES: ContractAddresses = {
     router: '0x0000000000000000000000000000000000000000',
     quoter: '0x0000000000000000000000000000000000000000',
@@ -37,15 +21,24 @@ const DEFAULT_ADDRESSES: ContractAddresses = {
     tokenRegistry: '0x0000000000000000000000000000000000000000',
 };
 
+/**
+ * Core contract addresses for the connected chain, from the chain registry
+ */
 export function useContracts(): UseContractsResult {
     const { chainId, isConnected } = useWallet();
 
     const addresses = useMemo((): ContractAddresses => {
-        if (!chainId) return DEFAULT_ADDRESSES;
-        return ADDRESSES[chainId] || DEFAULT_ADDRESSES;
+        const contracts = chainId ? CHAINS[chainId]?.contracts : undefined;
+        if (!contracts) return DEFAULT_ADDRESSES;
+        return {
+            router: contracts.gatewayRouter,
+            quoter: contracts.smartQuoter,
+            poolManager: contracts.clPoolManager,
+            tokenRegistry: contracts.tokenRegistry,
+        };
     }, [chainId]);
 
-    const isReady = isConnected && !!chainId && !!ADDRESSES[chainId];
+    const isReady = isConnected && !!chainId && isChainConfigured(chainId);
 
     return { addresses, isReady };
 }
@@ -26,7 +26,7 @@ import { logger } from '../utils/logger';
  * ```
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { ethers, Contract } from 'ethers';
 
 // CONFIGURATION
@@ -841,6 +841,111 @@ export function useDepth({
   return { depth, loading, error, lastUpdated, refetch: fetchDepth, isMockMode };
 }
 
+/**
+ * Options for usePoolDepth hook
+ */
+interface UsePoolDepthOptions {
+  /** Pool identifier (bytes32 as hex string) */
+  poolId: string | null;
+  /** Pool type to query */
+  poolType: 'CL' | 'BIN';
+  /** Number of ticks or bins each side */
+  numLevels?: number;
+  /** Polling interval in ms (0 to disable) */
+  pollInterval?: number;
+  /** Enable/disable fetching */
+  enabled?: boolean;
+  /** Contract address override */
+  contractAddress?: string;
+  /** RPC URL override */
+  rpcUrl?: string;
+  /** Pool currency0 / X token info for proper decimal handling */
+  baseToken?: TokenInfo;
+  /** Pool currency1 / Y token info for proper decimal handling */
+  quoteToken?: TokenInfo;
+}
+
+/**
+ * Return type for usePoolDepth hook
+ */
+interface UsePoolDepthResult {
+  /** Depth of the pool, null until read or when no reader is deployed */
+  depth: DepthData | null;
+  /** True while fetching */
+  loading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
+/**
+ * React hook for the depth of one CL or Bin pool by pool id
+ *
+ * @description
+ * Reads getCLPoolDepth / getBinPoolDepth from PoolDepthReader. Unlike
+ * useDepth there is no mock fallback: callers use the depth to pick price
+ * ranges, so without a reader the depth stays null.
+ *
+ * @param options - Hook configuration options
+ * @returns Depth data and loading state
+ */
+export function usePoolDepth({
+  poolId,
+  poolType,
+  numLevels = DEFAULT_DEPTH_ITEMS,
+  pollInterval = DEFAULT_POLL_INTERVAL,
+  enabled = true,
+  contractAddress = DEPTH_READER_ADDRESS,
+  rpcUrl = RPC_URL,
+  baseToken,
+  quoteToken,
+}: UsePoolDepthOptions): UsePoolDepthResult {
+  const [depth, setDepth] = useState<DepthData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDeployed = !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000';
+  const service = useMemo(
+    () => (isDeployed ? new DepthReaderService(contractAddress, rpcUrl) : null),
+    [isDeployed, contractAddress, rpcUrl]
+  );
+
+  useEffect(() => {
+    setDepth(null);
+    setError(null);
+    if (!service || !poolId || !enabled) return;
+
+    let cancelled = false;
+    const fetchDepth = async () => {
+      setLoading(true);
+      try {
+        const result = poolType === 'CL'
+          ? convertCLToDepthData(await service.getCLPoolDepth(poolId, numLevels), baseToken, quoteToken)
+          : convertBinToDepthData(await service.getBinPoolDepth(poolId, numLevels), baseToken, quoteToken);
+        if (!cancelled) {
+          setDepth(result);
+          setError(null);
+        }
+      } catch (err: unknown) {
+        if (!cancelled) {
+          logger.warn('Pool depth fetch failed', { poolId, poolType, error: err instanceof Error ? err.message : String(err) });
+          setError(err instanceof Error ? err.message : 'Failed to fetch depth');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchDepth();
+    const interval = pollInterval > 0 ? setInterval(fetchDepth, pollInterval) : null;
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [service, poolId, poolType, numLevels, pollInterval, enabled, baseToken, quoteToken]);
+
+  return { depth, loading, error };
+}
+
 // CONVERTERS
 
 /**
@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Address } from 'viem';
+import { isIndexedDbAvailable } from '../lib/db';
+import { getContractAddress, isContractConfigured } from '../lib/contracts/addresses';
+import { handleError } from '../lib/contracts/errors';
+import { getRoutableAddress, isNativeToken } from '../lib/contracts/native';
+import { DEFAULT_DEADLINE_SECONDS } from '../lib/contracts/config';
+import {
+    buildLimitOrder,
+    editLimitOrder,
+    isOrderExpired,
+    loadLimitOrders,
+    saveLimitOrder,
+} from '../services/limitOrderService';
+import type { LimitOrder, LimitOrderExpiry, LimitOrderInput } from '../services/limitOrderService';
+import { calculateDeadline, toQuoteResponse } from './contracts/useQuote';
+import type { ParsedQuote } from './contracts/useQuote';
+import { useSwap } from './contracts/useSwap';
+import type { SwapResult } from './contracts/useSwap';
+import { logger } from '../utils/logger';
+
+/** How often open orders are checked against their expiry */
+const EXPIRY_SWEEP_MS = 30_000;
+
+interface UseLimitOrdersResult {
+    orders: LimitOrder[];
+    openOrders: LimitOrder[];
+    isLoading: boolean;
+    placeOrder: (input: Omit<LimitOrderInput, 'account' | 'chainId'>) => Promise<LimitOrder>;
+    cancelOrder: (id: string) => Promise<void>;
+    editOrder: (id: string, changes: { limitPrice?: string; expiry?: LimitOrderExpiry }) => Promise<void>;
+    /** Swap an order whose limit was reached; the order's target is the minAmountOut */
+    executeOrder: (order: LimitOrder, quote: ParsedQuote) => Promise<SwapResult>;
+}
+
+/**
+ * Limit orders for the connected account on the current chain.
+ *
+ * Orders persist in IndexedDB; open orders are swept to 'expired' once their
+ * expiry passes. Execution goes through useSwap, so the wallet prompts for a
+ * signature when a watcher fires.
+ */
+export function useLimitOrders(account: Address | null | undefined, chainId: number | null | undefined): UseLimitOrdersResult {
+    const [orders, setOrders] = useState<LimitOrder[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const ordersRef = useRef(orders);
+    ordersRef.current = orders;
+    const { swap } = useSwap();
+
+    const persist = useCallback(async (order: LimitOrder): Promise<void> => {
+        await saveLimitOrder(order);
+        setOrders(prev => {
+            const exists = prev.some(o => o.id === order.id);
+            return exists ? prev.map(o => (o.id === order.id ? order : o)) : [order, ...prev];
+        });
+    }, []);
+
+    const updateOrder = useCallback(async (id: string, changes: Partial<LimitOrder>): Promise<void> => {
+        const order = ordersRef.current.find(o => o.id === id);
+        if (!order) return;
+        await persist({ ...order, ...changes, updatedAt: Date.now() });
+    }, [persist]);
+
+    // Load orders for this account / chain
+    useEffect(() => {
+        setOrders([]);
+        if (!account || !chainId || !isIndexedDbAvailable()) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        loadLimitOrders(account, chainId)
+            .then(loaded => {
+                if (cancelled) return;
+                // An execution interrupted by a reload never reported back; persist the
+                // failure so the order does not come back as 'executing' next time
+                const interrupted: LimitOrder[] = loaded
+                    .filter(order => order.status === 'executing')
+                    .map(order => ({
+                        ...order,
+                        status: 'failed',
+                        error: 'Execution interrupted; check your transaction history',
+                        updatedAt: Date.now(),
+                    }));
+                setOrders(loaded.map(order => interrupted.find(o => o.id === order.id) ?? order));
+                for (const order of interrupted) {
+                    saveLimitOrder(order).catch((error: unknown) =>
+                        logger.warn('Failed to persist interrupted limit order', { error, id: order.id })
+                    );
+                }
+            })
+            .catch((error: unknown) => logger.warn('Failed to load limit orders', { error }))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [account, chainId]);
+
+    // Expire open orders past their expiry
+    useEffect(() => {
+        const sweep = () => {
+            for (const order of ordersRef.current) {
+                if (order.status === 'open' && isOrderExpired(order)) {
+                    updateOrder(order.id, { status: 'expired' }).catch((error: unknown) =>
+                        logger.warn('Failed to expire limit order', { error, id: order.id })
+                    );
+                }
+            }
+        };
+        sweep();
+        const interval = setInterval(sweep, EXPIRY_SWEEP_MS);
+        return () => clearInterval(interval);
+    }, [orders.length, updateOrder]);
+
+    const placeOrder = useCallback(async (input: Omit<LimitOrderInput, 'account' | 'chainId'>): Promise<LimitOrder> => {
+        if (!account || !chainId) {
+            throw new Error('Connect a wallet to place limit orders');
+        }
+        const order = buildLimitOrder({ ...input, account, chainId });
+        await persist(order);
+        logger.info('Limit order placed', { id: order.id, limitPrice: order.limitPrice });
+        return order;
+    }, [account, chainId, persist]);
+
+    const cancelOrder = useCallback(async (id: string): Promise<void> => {
+        await updateOrder(id, { status: 'cancelled' });
+    }, [updateOrder]);
+
+    const editOrder = useCallback(async (
+        id: string,
+        changes: { limitPrice?: string; expiry?: LimitOrderExpiry }
+    ): Promise<void> => {
+        const order = ordersRef.current.find(o => o.id === id);
+        if (!order || order.status !== 'open') return;
+        await persist(editLimitOrder(order, changes));
+    }, [persist]);
+
+    const executeOrder = useCallback(async (order: LimitOrder, quote: ParsedQuote): Promise<SwapResult> => {
+        const tokenIn = getRoutableAddress(order.tokenIn, order.chainId);
+        const tokenOut = getRoutableAddress(order.tokenOut, order.chainId);
+        if (!account || !tokenIn || !tokenOut || !isContractConfigured(order.chainId, 'gatewayRouter')) {
+            const error = 'Router not deployed on this network';
+            await updateOrder(order.id, { status: 'failed', error });
+            return { success: false, error };
+        }
+
+        await updateOrder(order.id, { status: 'executing' });
+
+        let result: SwapResult;
+        try {
+            result = await swap({
+                quote: toQuoteResponse(quote, {
+                    tokenIn,
+                    tokenOut,
+                    minAmountOut: BigInt(order.targetAmountOut),
+                    router: getContractAddress(order.chainId, 'gatewayRouter'),
+                }),
+                deadline: calculateDeadline(DEFAULT_DEADLINE_SECONDS),
+                recipient: account,
+                chainId: order.chainId,
+                tokenInDecimals: order.tokenIn.decimals,
+                tokenOutDecimals: order.tokenOut.decimals,
+                nativeIn: isNativeToken(order.tokenIn),
+                nativeOut: isNativeToken(order.tokenOut),
+            });
+        } catch (err: unknown) {
+            result = { success: false, error: handleError(err).userMessage };
+        }
+
+        if (result.success) {
+            await updateOrder(order.id, { status: 'filled', txHash: result.hash, error: undefined });
+        } else if (result.isUserRejection) {
+            // Declining the prompt cancels the order rather than re-prompting on the next poll
+            await updateOrder(order.id, { status: 'cancelled', error: 'Rejected in wallet' });
+        } else {
+            await updateOrder(order.id, { status: 'failed', txHash: result.hash, error: result.error });
+        }
+        return result;
+    }, [account, swap, updateOrder]);
+
+    return {
+        orders,
+        openOrders: orders.filter(o => o.status === 'open' || o.status === 'executing'),
+        isLoading,
+        placeOrder,
+        cancelOrder,
+        editOrder,
+        executeOrder,
+    };
+}
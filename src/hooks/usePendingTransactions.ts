@@ -1,20 +1,36 @@
-import { useState, useCallback } from 'react';
-import type { Transaction, TxStatus, TxType, PendingTransactions } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { PublicClient } from 'viem';
+import { BASE_MAINNET, CHAINS } from '../lib/contracts/addresses';
+import { isIndexedDbAvailable } from '../lib/db';
+import { getPublicClient } from '../lib/wagmi';
+import {
+    deleteTransaction,
+    loadTransactions,
+    reconcileTransaction,
+    saveTransaction,
+} from '../services/txHistoryService';
+import { logger } from '../utils/logger';
+import type { Address, Hash, NewTransaction, Transaction, TxStatus, TxType, PendingTransactions } from '../types';
 
 export const TX_STATUS: Record<string, TxStatus> = {
     PENDING: 'pending',
     SUCCESS: 'success',
     FAILED: 'failed',
+    REPLACED: 'replaced',
+    DROPPED: 'dropped',
 };
 
 export const TX_TYPES: Record<TxType, string> = {
     swap: 'Swap',
+    limit: 'Limit Order',
+    twap: 'TWAP Order',
     approve: 'Approve',
     addLiquidity: 'Add Liquidity',
     removeLiquidity: 'Remove Liquidity',
     stake: 'Stake',
     unstake: 'Unstake',
     claim: 'Claim Rewards',
+    cancel: 'Cancel',
 };
 
 export function formatTimeAgo(timestamp: number): string {
@@ -26,54 +42,209 @@ export function formatTimeAgo(timestamp: number): string {
 }
 
 export function getExplorerUrl(hash: string, chainId: number = 8453): string {
-    const explorers: Record<number, string> = {
-        8453: 'https://basescan.org',
-        84532: 'https://sepolia.basescan.org',
-        56: 'https://bscscan.com',
-        97: 'https://testnet.bscscan.com',
-    };
-    const explorer = explorers[chainId] || 'https://basescan.org';
+    const explorer = (CHAINS[chainId] ?? BASE_MAINNET).blockExplorer;
     return `${explorer}/tx/${hash}`;
 }
 
-export function usePendingTransactions(): PendingTransactions {
+export function getExplorerName(chainId: number = 8453): string {
+    return CHAINS[chainId]?.explorerName ?? 'Explorer';
+}
+
+/** How often restored and replacement transactions are re-checked */
+const RECONCILE_INTERVAL_MS = 15_000;
+
+/**
+ * Transactions shown in the header panel.
+ *
+ * With an account and chain, the list is persisted in IndexedDB and reloaded
+ * when either changes. Transactions restored still 'pending', and speed-up
+ * or cancel replacements, are re-polled until they are mined, replaced or
+ * dropped; other transactions sent in this session are settled by the page
+ * that sent them.
+ */
+export function usePendingTransactions(
+    account?: Address | null,
+    chainId?: number | null
+): PendingTransactions {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const transactionsRef = useRef(transactions);
+    transactionsRef.current = transactions;
+    const [watchedIds, setWatchedIds] = useState<string[]>([]);
+
+    const ownerAccount = account?.toLowerCase();
+    const canPersist = !!ownerAccount && !!chainId && isIndexedDbAvailable();
+
+    const persist = useCallback((tx: Transaction): void => {
+        if (!canPersist) return;
+        saveTransaction(tx).catch((error: unknown) =>
+            logger.warn('Failed to save transaction', { error, id: tx.id })
+        );
+    }, [canPersist]);
 
-    const addTx = useCallback((tx: Omit<Transaction, 'id' | 'timestamp'>): string => {
+    const forget = useCallback((ids: string[]): void => {
+        if (!canPersist) return;
+        for (const id of ids) {
+            deleteTransaction(id).catch((error: unknown) =>
+                logger.warn('Failed to delete transaction', { error, id })
+            );
+        }
+    }, [canPersist]);
+
+    // Load history for this account / chain
+    useEffect(() => {
+        setTransactions([]);
+        setWatchedIds([]);
+        if (!account || !chainId || !isIndexedDbAvailable()) return;
+
+        let cancelled = false;
+        loadTransactions(account, chainId)
+            .then(loaded => {
+                if (cancelled) return;
+                setTransactions(loaded);
+                setWatchedIds(loaded.filter(tx => tx.status === 'pending').map(tx => tx.id));
+            })
+            .catch((error: unknown) => logger.warn('Failed to load transactions', { error }));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [account, chainId]);
+
+    const updateTx = useCallback((id: string, updates: Partial<Transaction>): void => {
+        const tx = transactionsRef.current.find(t => t.id === id);
+        if (!tx) return;
+        const updated = { ...tx, ...updates };
+        persist(updated);
+        // Keep the ref current so back-to-back updates see each other
+        transactionsRef.current = transactionsRef.current.map(t => (t.id === id ? updated : t));
+        setTransactions(prev => prev.map(t => (t.id === id ? updated : t)));
+    }, [persist]);
+
+    // A replacement lost the race: the original it replaced was mined first
+    const restoreOriginal = useCallback(async (
+        originalId: string,
+        replacementId: string,
+        client: PublicClient
+    ): Promise<void> => {
+        const original = transactionsRef.current.find(t => t.id === originalId);
+        if (!original || original.replacedBy !== replacementId) return;
+        const updates = await reconcileTransaction({ ...original, status: 'pending' }, client);
+        if (updates?.status === 'success' || updates?.status === 'failed') {
+            updateTx(originalId, { ...updates, replacedBy: undefined });
+            updateTx(replacementId, { error: 'The original transaction was mined first' });
+        }
+    }, [updateTx]);
+
+    // Re-poll receipts for restored and replacement transactions
+    useEffect(() => {
+        if (!chainId || watchedIds.length === 0) return;
+        const client = getPublicClient(chainId) as PublicClient;
+
+        let cancelled = false;
+        const reconcile = async () => {
+            const settled: string[] = [];
+            for (const id of watchedIds) {
+                const tx = transactionsRef.current.find(t => t.id === id);
+                if (!tx || tx.status !== 'pending') {
+                    settled.push(id);
+                    continue;
+                }
+                try {
+                    const updates = await reconcileTransaction(tx, client);
+                    if (cancelled) return;
+                    if (updates) updateTx(id, updates);
+                    if (updates?.status) settled.push(id);
+                    if (updates?.status === 'replaced' && tx.replaces) {
+                        await restoreOriginal(tx.replaces, id, client);
+                    }
+                } catch (error: unknown) {
+                    logger.warn('Failed to reconcile transaction', { error, hash: tx.hash });
+                }
+            }
+            if (!cancelled && settled.length > 0) {
+                setWatchedIds(prev => prev.filter(id => !settled.includes(id)));
+            }
+        };
+
+        reconcile();
+        const interval = setInterval(reconcile, RECONCILE_INTERVAL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [chainId, watchedIds, updateTx, restoreOriginal]);
+
+    // Pages add transactions before the wallet prompt, so they start out pending
+    const addTx = useCallback((tx: NewTransaction): string => {
         const id = Math.random().toString(36).substring(2, 9);
         const newTx: Transaction = {
+            status: 'pending',
             ...tx,
+            ...(ownerAccount && chainId ? { account: ownerAccount, chainId } : {}),
             id,
             timestamp: Date.now(),
         };
+        persist(newTx);
+        transactionsRef.current = [newTx, ...transactionsRef.current];
         setTransactions(prev => [newTx, ...prev]);
         return id;
-    }, []);
+    }, [ownerAccount, chainId, persist]);
 
-    const updateTx = useCallback((id: string, updates: Partial<Transaction>): void => {
-        setTransactions(prev =>
-            prev.map(tx => (tx.id === id ? { ...tx, ...updates } : tx))
-        );
-    }, []);
+    const submitTx = useCallback((id: string, hash: Hash): void => {
+        updateTx(id, { hash });
+    }, [updateTx]);
+
+    const replaceTx = useCallback((
+        id: string,
+        replacement: { type: 'speedUp' | 'cancel'; hash: Hash; nonce: number }
+    ): string => {
+        const original = transactionsRef.current.find(t => t.id === id);
+        if (!original) return '';
+        const isCancel = replacement.type === 'cancel';
+        const newId = addTx({
+            type: isCancel ? 'cancel' : original.type,
+            status: 'pending',
+            summary: isCancel ? `Cancel: ${original.summary}` : original.summary,
+            hash: replacement.hash,
+            nonce: replacement.nonce,
+            replaces: id,
+        });
+        updateTx(id, {
+            status: 'replaced',
+            nonce: replacement.nonce,
+            replacedBy: newId,
+        });
+        setWatchedIds(prev => [...prev, newId]);
+        return newId;
+    }, [addTx, updateTx]);
 
     const removeTx = useCallback((id: string): void => {
+        forget([id]);
         setTransactions(prev => prev.filter(tx => tx.id !== id));
-    }, []);
+    }, [forget]);
 
     const clearAll = useCallback((): void => {
+        forget(transactionsRef.current.map(tx => tx.id));
         setTransactions([]);
-    }, []);
+    }, [forget]);
 
     const clearCompleted = useCallback((): void => {
+        forget(transactionsRef.current.filter(tx => tx.status !== 'pending').map(tx => tx.id));
         setTransactions(prev => prev.filter(tx => tx.status === 'pending'));
-    }, []);
+    }, [forget]);
+
+    // A replaced transaction is settled through its replacement, not by the page
+    const isReplaced = (id: string): boolean =>
+        transactionsRef.current.find(t => t.id === id)?.status === 'replaced';
 
     // Aliases for page compatibility
     const addTransaction = addTx;
     const confirmTransaction = useCallback((id: string, hash: string): void => {
-        updateTx(id, { status: 'success', hash });
+        if (isReplaced(id)) return;
+        updateTx(id, { status: 'success', hash: hash as Hash });
     }, [updateTx]);
     const failTransaction = useCallback((id: string, error: string): void => {
+        if (isReplaced(id)) return;
         updateTx(id, { status: 'failed', error });
     }, [updateTx]);
 
@@ -83,6 +254,8 @@ export function usePendingTransactions(): PendingTransactions {
         transactions,
         pendingCount,
         addTx,
+        submitTx,
+        replaceTx,
         updateTx,
         removeTx,
         clearAll,
@@ -1,11 +1,12 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { SwapSettings } from '../types';
+import type { ApprovalMode, SwapSettings } from '../types';
 import { THRESHOLDS } from '../constants';
 
 interface UseSettingsResult extends SwapSettings {
     setSlippage: (value: number) => void;
     setDeadline: (value: number) => void;
     setMevProtection: (value: boolean) => void;
+    setApprovalMode: (mode: ApprovalMode) => void;
     resetToDefaults: () => void;
 }
 
@@ -15,6 +16,7 @@ const defaultSettings: SwapSettings = {
     slippage: THRESHOLDS.slippage.default,
     deadline: 20,
     mevProtection: true,
+    approvalMode: 'exact',
 };
 
 export function useSettings(): UseSettingsResult {
@@ -48,6 +50,10 @@ export function useSettings(): UseSettingsResult {
         setSettings(prev => ({ ...prev, mevProtection: value }));
     }, []);
 
+    const setApprovalMode = useCallback((mode: ApprovalMode): void => {
+        setSettings(prev => ({ ...prev, approvalMode: mode }));
+    }, []);
+
     const resetToDefaults = useCallback((): void => {
         setSettings(defaultSettings);
     }, []);
@@ -57,6 +63,7 @@ export function useSettings(): UseSettingsResult {
         setSlippage,
         setDeadline,
         setMevProtection,
+        setApprovalMode,
         resetToDefaults,
     };
 }
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Address } from 'viem';
+import { isIndexedDbAvailable } from '../lib/db';
+import { loadPositions } from '../services/positionService';
+import type { StoredPosition } from '../services/positionService';
+import type { UserPosition } from '../data';
+import { logger } from '../utils/logger';
+
+interface UseStoredPositionsResult {
+    positions: UserPosition[];
+    /** Re-read the store, e.g. after a mint */
+    refresh: () => void;
+}
+
+/** Fees are read on-chain through `onChain`; IGNIS rewards aren't tracked yet */
+function toUserPosition(stored: StoredPosition): UserPosition {
+    const currentPrice = stored.pool.token0.price / stored.pool.token1.price;
+    return {
+        id: stored.id,
+        pool: stored.pool,
+        token0Amount: stored.token0Amount,
+        token1Amount: stored.token1Amount,
+        minPrice: stored.minPrice,
+        maxPrice: stored.maxPrice,
+        inRange: currentPrice >= stored.minPrice && currentPrice <= stored.maxPrice,
+        feesEarned: 0,
+        igniEarned: 0,
+        createdAt: new Date(stored.createdAt),
+        initialValue: stored.initialValue,
+        onChain: stored.onChain,
+    };
+}
+
+/**
+ * Positions the account minted from this app on the current chain, newest
+ * first, from IndexedDB (see services/positionService).
+ */
+export function useStoredPositions(account: Address | null | undefined, chainId: number | null | undefined): UseStoredPositionsResult {
+    const [positions, setPositions] = useState<UserPosition[]>([]);
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        setPositions([]);
+        if (!account || !chainId || !isIndexedDbAvailable()) return;
+
+        let cancelled = false;
+        loadPositions(account, chainId)
+            .then(loaded => {
+                if (!cancelled) setPositions(loaded.map(toUserPosition));
+            })
+            .catch((error: unknown) => logger.warn('Failed to load positions', { error }));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [account, chainId, version]);
+
+    const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+    return { positions, refresh };
+}
@@ -10,7 +10,9 @@ import { logger } from '../utils/logger';
  * - `useTokenRegistry`: Fetch and cache token metadata
  * - `useQuotePolling`: Auto-refresh quotes at intervals
  * 
- * The hooks handle loading states, errors, and automatic retries.
+ * The hooks handle loading states, errors, and automatic retries. When the API
+ * is unreachable and a chain is given, quotes fall back to an in-browser route
+ * search over the on-chain registries (see `findFallbackRoute`).
  * 
  * @example
  * ```tsx
@@ -32,7 +34,11 @@ import { logger } from '../utils/logger';
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Address, PublicClient } from 'viem';
 import type { QuoteResponse, TokenInfo } from '../components/swap/SwapRouteDisplay';
+import { getContractAddress } from '../lib/contracts/addresses';
+import { FALLBACK_VALID_FOR_BLOCKS, findFallbackRoute } from '../lib/contracts/fallbackRouter';
+import { getPublicClient } from '../lib/wagmi';
 
 // CONFIGURATION
 
@@ -88,6 +94,8 @@ interface UseSwapQuoteOptions {
   recipient?: string;
   /** Enable/disable fetching (default: true) */
   enabled?: boolean;
+  /** Chain to search on-chain routes on when the API is unavailable */
+  chainId?: number;
 }
 
 /**
@@ -102,6 +110,8 @@ interface UseSwapQuoteResult {
   error: string | null;
   /** Manually trigger a quote refresh */
   refetch: () => Promise<void>;
+  /** True when the quote came from the in-browser fallback router */
+  isFallback: boolean;
 }
 
 /**
@@ -162,10 +172,12 @@ export function useSwapQuote({
   slippageBps = DEFAULT_SLIPPAGE_BPS,
   recipient,
   enabled = true,
+  chainId,
 }: UseSwapQuoteOptions): UseSwapQuoteResult {
   const [quote, setQuote] = useState<QuoteResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isFallback, setIsFallback] = useState(false);
   
   const retryCountRef = useRef(0);
 
@@ -205,8 +217,23 @@ export function useSwapQuote({
 
       const data: QuoteResponse = await response.json();
       setQuote(data);
+      setIsFallback(false);
       retryCountRef.current = 0; // Reset on success
     } catch (err: unknown) {
+      // API down: route in the browser instead of leaving the user unable to swap
+      if (chainId) {
+        try {
+          const fallback = await fetchFallbackQuote(tokenIn, tokenOut, amountIn, slippageBps, chainId);
+          setQuote(fallback);
+          setIsFallback(true);
+          retryCountRef.current = 0;
+          logger.warn('Quoter API unavailable, using fallback route', { error: err });
+          return;
+        } catch (fallbackErr: unknown) {
+          logger.warn('Fallback routing failed', { error: fallbackErr });
+        }
+      }
+
       const message = err instanceof Error ? err.message : 'Failed to fetch quote';
       setError(message);
       setQuote(null);
@@ -221,7 +248,7 @@ export function useSwapQuote({
     } finally {
       setLoading(false);
     }
-  }, [tokenIn, tokenOut, amountIn, slippageBps, recipient, enabled]);
+  }, [tokenIn, tokenOut, amountIn, slippageBps, recipient, enabled, chainId]);
 
   // Debounced fetch on input changes
   useEffect(() => {
@@ -229,7 +256,45 @@ export function useSwapQuote({
     return () => clearTimeout(timer);
   }, [fetchQuote]);
 
-  return { quote, loading, error, refetch: fetchQuote };
+  return { quote, loading, error, refetch: fetchQuote, isFallback };
+}
+
+/**
+ * Price the best on-chain route and shape it like an API quote
+ * @internal
+ */
+async function fetchFallbackQuote(
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: string,
+  slippageBps: number,
+  chainId: number
+): Promise<QuoteResponse> {
+  const route = await findFallbackRoute(getPublicClient(chainId) as PublicClient, {
+    tokenIn: tokenIn as Address,
+    tokenOut: tokenOut as Address,
+    amountIn: BigInt(amountIn),
+    chainId,
+  });
+
+  return {
+    tokenIn,
+    tokenOut,
+    amountIn,
+    expectedAmountOut: route.amountOut.toString(),
+    minAmountOut: ((route.amountOut * BigInt(10000 - slippageBps)) / BigInt(10000)).toString(),
+    gasEstimate: Number(route.gasEstimate),
+    priceImpactBps: route.priceImpactBps,
+    encodedRoute: route.encodedRoute,
+    isSplit: false,
+    splitCount: 1,
+    timestamp: Date.now(),
+    routeTimestamp: Math.floor(Date.now() / 1000),
+    validForBlocks: FALLBACK_VALID_FOR_BLOCKS,
+    quotedBlock: Number(route.quotedBlock),
+    to: getContractAddress(chainId, 'gatewayRouter'),
+    calldata: '0x',
+  };
 }
 
 // TOKEN REGISTRY HOOK
@@ -1,11 +1,21 @@
-import { useState, useCallback } from 'react';
-import type { Token, Address } from '../types';
-import { TIMING } from '../constants';
+import { useState, useEffect, useCallback } from 'react';
+import { getWalletClient } from 'wagmi/actions';
+import { erc20Abi, publicActions } from 'viem';
+import type { PublicClient } from 'viem';
+import type { Token, Address, ApprovalMode } from '../types';
+import { getPublicClient, wagmiConfig } from '../lib/wagmi';
+import { getContractAddress, isContractConfigured } from '../lib/contracts/addresses';
+import { IgnisError, handleError, logError } from '../lib/contracts/errors';
+import { getRoutableAddress, isNativeToken as isNative } from '../lib/contracts/native';
+import { buildApproveCalls, getApprovalAmount, readTokenFlags } from '../lib/contracts/approvals';
+import { TX_TIMEOUT_MS, withTimeout } from '../lib/contracts/txUtils';
+import { contractLogger } from '../utils/logger';
 
 interface ApproveResult {
     success: boolean;
     hash?: string;
     error?: string;
+    isUserRejection?: boolean;
 }
 
 interface UseTokenAllowanceResult {
@@ -13,53 +23,120 @@ interface UseTokenAllowanceResult {
     isApproving: boolean;
     isLoading: boolean;
     needsApproval: (amount: number) => boolean;
-    approve: (amount: number, infinite?: boolean) => Promise<ApproveResult>;
+    /** Approve `amount` (raw units), or MAX_UINT256 when the approval mode is 'unlimited' */
+    approve: (amount: bigint, mode?: ApprovalMode) => Promise<ApproveResult>;
     isNativeToken: boolean;
 }
 
+/**
+ * ERC20 allowance of `owner` to `spender`, and an approve that waits for its
+ * receipt before re-reading it.
+ *
+ * Approvals use the token's flags from the router (isNonStandardToken) and
+ * vault adapter (requiresApproveReset), so tokens that need it get the
+ * non-standard encoding or an approve(0) first.
+ */
 export function useTokenAllowance(
     token: Token | null,
-    spender: Address | undefined,
-    isConnected: boolean
+    spender: Address | null | undefined,
+    owner: Address | null | undefined,
+    chainId: number | null | undefined
 ): UseTokenAllowanceResult {
     const [allowance, setAllowance] = useState<bigint>(BigInt(0));
     const [isApproving, setIsApproving] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
+    const [version, setVersion] = useState(0);
 
-    const isNativeToken = token?.isNative ?? false;
+    // Native ETH is sent as msg.value and never needs an allowance
+    const isNativeToken = isNative(token);
+    const tokenAddress = chainId && !isNativeToken ? getRoutableAddress(token, chainId) : null;
+
+    useEffect(() => {
+        setAllowance(BigInt(0));
+        if (!tokenAddress || !spender || !owner || !chainId) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        (getPublicClient(chainId) as PublicClient)
+            .readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'allowance', args: [owner, spender] })
+            .then((value) => {
+                if (!cancelled) setAllowance(value);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    contractLogger.warn('Allowance unavailable', { error: handleError(err).message });
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [tokenAddress, spender, owner, chainId, version]);
 
     const needsApproval = useCallback((amount: number): boolean => {
-        if (!token || isNativeToken || !isConnected) return false;
+        if (!token || isNativeToken || !owner) return false;
         const amountBigInt = BigInt(Math.floor(amount * Math.pow(10, token.decimals)));
         return amountBigInt > allowance;
-    }, [token, isNativeToken, isConnected, allowance]);
+    }, [token, isNativeToken, owner, allowance]);
 
-    const approve = useCallback(async (amount: number, infinite: boolean = true): Promise<ApproveResult> => {
-        if (!token || !isConnected) {
+    const approve = useCallback(async (amount: bigint, mode: ApprovalMode = 'exact'): Promise<ApproveResult> => {
+        if (!owner) {
             return { success: false, error: 'Not connected' };
         }
-        
+
         setIsApproving(true);
-        
+        let hash: string | undefined;
+
         try {
-            // Simulate approval transaction
-            await new Promise(resolve => setTimeout(resolve, TIMING.TX_SIMULATION));
-            
-            // Set approval amount
-            if (infinite) {
-                setAllowance(BigInt(2) ** BigInt(256) - BigInt(1));
-            } else {
-                setAllowance(BigInt(Math.floor(amount * Math.pow(10, token.decimals))));
+            if (!tokenAddress || !spender || !chainId) {
+                throw new IgnisError({
+                    code: 'NOT_CONFIGURED',
+                    message: `Cannot approve ${token?.symbol ?? 'token'}: token or spender missing on chain ${chainId}`,
+                    userMessage: 'Router not deployed on this network',
+                });
             }
-            
-            const hash = '0x' + Math.random().toString(16).slice(2, 10) + Math.random().toString(16).slice(2, 10);
-            setIsApproving(false);
+
+            const walletClient = await getWalletClient(wagmiConfig, { chainId });
+            const client = walletClient.extend(publicActions);
+
+            const [current, flags] = await Promise.all([
+                client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'allowance', args: [owner, spender] }),
+                readTokenFlags(client, [tokenAddress], {
+                    router: isContractConfigured(chainId, 'gatewayRouter') ? getContractAddress(chainId, 'gatewayRouter') : undefined,
+                    vaultAdapter: isContractConfigured(chainId, 'vaultAdapter') ? getContractAddress(chainId, 'vaultAdapter') : undefined,
+                }),
+            ]);
+
+            // Sequential so a reset approve(0) is mined before the new allowance
+            const calls = buildApproveCalls(tokenAddress, spender, getApprovalAmount(amount, mode), current, flags.get(tokenAddress.toLowerCase()));
+            for (const call of calls) {
+                const txHash = await client.writeContract({ ...call, account: walletClient.account, chain: walletClient.chain });
+                hash = txHash;
+                const receipt = await withTimeout(client.waitForTransactionReceipt({ hash: txHash }), TX_TIMEOUT_MS, txHash);
+                if (receipt.status !== 'success') {
+                    throw new IgnisError({
+                        code: 'TX_REVERTED',
+                        message: `Approval transaction ${txHash} reverted`,
+                        userMessage: 'Approval failed on-chain.',
+                        details: { hash: txHash, blockNumber: receipt.blockNumber.toString() },
+                    });
+                }
+            }
+
+            contractLogger.info('Token approved', { hash, token: tokenAddress, spender, mode });
             return { success: true, hash };
-        } catch (error: unknown) {
+        } catch (err: unknown) {
+            const ignisError = handleError(err);
+            logError('useTokenAllowance.approve', err, { hash, chainId });
+            return { success: false, hash, error: ignisError.userMessage, isUserRejection: ignisError.isUserRejection };
+        } finally {
             setIsApproving(false);
-            return { success: false, error: error instanceof Error ? error.message : 'Approval failed' };
+            setVersion(v => v + 1);
         }
-    }, [token, isConnected]);
+    }, [token, tokenAddress, spender, owner, chainId]);
 
     return { allowance, isApproving, isLoading, needsApproval, approve, isNativeToken };
 }
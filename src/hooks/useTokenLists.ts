@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Address, PublicClient } from 'viem';
+import { TOKENS } from '../data';
+import { getPublicClient } from '../lib/wagmi';
+import { QUERY_KEYS, CACHE_TIMES } from '../lib/queryClient';
+import {
+    importTokenByAddress,
+    loadImportedTokens,
+    loadTokenLists,
+    mergeTokens,
+    removeImportedToken,
+    saveImportedToken,
+} from '../services/tokenListService';
+import type { Token } from '../types';
+
+interface UseTokenListsResult {
+    /** Static tokens, then on-chain and configured lists, then imported tokens */
+    tokens: Token[];
+    isLoading: boolean;
+    /** Read an unlisted token by address and remember it for this chain */
+    importToken: (address: Address) => Promise<Token>;
+    removeToken: (address: Address) => void;
+}
+
+/**
+ * Selectable tokens for a chain: the static list merged with configured
+ * token lists, the on-chain TokenList / TokenRegistryV2 and imported tokens
+ */
+export function useTokenLists(chainId: number | null | undefined): UseTokenListsResult {
+    const [imported, setImported] = useState<Token[]>([]);
+
+    useEffect(() => {
+        setImported(chainId ? loadImportedTokens(chainId) : []);
+    }, [chainId]);
+
+    const query = useQuery({
+        queryKey: QUERY_KEYS.tokenLists(chainId ?? 0),
+        queryFn: () => loadTokenLists(getPublicClient(chainId!) as PublicClient, chainId!),
+        enabled: !!chainId,
+        staleTime: CACHE_TIMES.TOKEN_LIST,
+    });
+
+    const tokens = useMemo(
+        () => mergeTokens(TOKENS, query.data ?? [], imported),
+        [query.data, imported]
+    );
+
+    const importToken = useCallback(async (address: Address): Promise<Token> => {
+        if (!chainId) {
+            throw new Error('Connect a wallet to import tokens');
+        }
+        const token = await importTokenByAddress(getPublicClient(chainId) as PublicClient, chainId, address);
+        setImported(saveImportedToken(chainId, token));
+        return token;
+    }, [chainId]);
+
+    const removeToken = useCallback((address: Address): void => {
+        if (chainId) setImported(removeImportedToken(chainId, address));
+    }, [chainId]);
+
+    return {
+        tokens,
+        isLoading: query.isLoading,
+        importToken,
+        removeToken,
+    };
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Address } from 'viem';
+import { isIndexedDbAvailable } from '../lib/db';
+import { getContractAddress, isContractConfigured } from '../lib/contracts/addresses';
+import { handleError } from '../lib/contracts/errors';
+import { getRoutableAddress, isNativeToken } from '../lib/contracts/native';
+import { DEFAULT_DEADLINE_SECONDS } from '../lib/contracts/config';
+import {
+    applySliceUpdate,
+    buildTwapOrder,
+    deferTwapSlice,
+    getAdverseDeviationBps,
+    getExecutionPrice,
+    getNextSlice,
+    isSliceDue,
+    loadTwapOrders,
+    pauseTwapOrder,
+    resumeTwapOrder,
+    saveTwapOrder,
+} from '../services/twapService';
+import type { TwapOrder, TwapOrderInput, TwapSlice } from '../services/twapService';
+import { calculateDeadline, getQuote, toQuoteResponse } from './contracts/useQuote';
+import { useSwap } from './contracts/useSwap';
+import type { SwapResult } from './contracts/useSwap';
+import { logger } from '../utils/logger';
+
+/** How often active orders are checked for a due slice */
+const SCHEDULER_TICK_MS = 5_000;
+
+interface UseTwapOrdersOptions {
+    /** Called after each slice swap settles, e.g. to toast the result */
+    onSliceSettled?: (order: TwapOrder, slice: TwapSlice, result: SwapResult) => void;
+}
+
+interface UseTwapOrdersResult {
+    orders: TwapOrder[];
+    activeOrders: TwapOrder[];
+    isLoading: boolean;
+    /** Quote one slice for the start price, persist the order and start the schedule */
+    placeOrder: (input: Omit<TwapOrderInput, 'account' | 'chainId' | 'startPrice'>) => Promise<TwapOrder>;
+    pauseOrder: (id: string) => Promise<void>;
+    resumeOrder: (id: string) => Promise<void>;
+    cancelOrder: (id: string) => Promise<void>;
+}
+
+/**
+ * TWAP orders for the connected account on the current chain.
+ *
+ * While mounted, a scheduler executes the next slice of every active order
+ * once it is due. Each slice is re-quoted first and deferred by one interval
+ * if the price has moved against the order by more than its max deviation.
+ */
+export function useTwapOrders(
+    account: Address | null | undefined,
+    chainId: number | null | undefined,
+    options: UseTwapOrdersOptions = {}
+): UseTwapOrdersResult {
+    const [orders, setOrders] = useState<TwapOrder[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const ordersRef = useRef(orders);
+    ordersRef.current = orders;
+    const inFlightRef = useRef(new Set<string>());
+    const onSliceSettledRef = useRef(options.onSliceSettled);
+    onSliceSettledRef.current = options.onSliceSettled;
+    const { swap } = useSwap();
+
+    const persist = useCallback(async (order: TwapOrder): Promise<void> => {
+        await saveTwapOrder(order);
+        ordersRef.current = ordersRef.current.some(o => o.id === order.id)
+            ? ordersRef.current.map(o => (o.id === order.id ? order : o))
+            : [order, ...ordersRef.current];
+        setOrders(ordersRef.current);
+    }, []);
+
+    /** Latest persisted state of an order, so concurrent pauses are not lost */
+    const getLatest = (id: string): TwapOrder | undefined => ordersRef.current.find(o => o.id === id);
+
+    // Load orders for this account / chain
+    useEffect(() => {
+        setOrders([]);
+        if (!account || !chainId || !isIndexedDbAvailable()) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        loadTwapOrders(account, chainId)
+            .then(loaded => {
+                if (cancelled) return;
+                // A slice interrupted by a reload never reported back; pause so it is not
+                // resent blindly, and persist that so the slice does not reload as 'executing'
+                const recovered: TwapOrder[] = [];
+                for (const order of loaded) {
+                    const slice = order.slices.find(s => s.status === 'executing');
+                    if (!slice) continue;
+                    recovered.push(pauseTwapOrder(
+                        applySliceUpdate(order, slice.index, { status: 'failed', error: 'Interrupted' }),
+                        'A slice was interrupted; check your transaction history before resuming'
+                    ));
+                }
+                ordersRef.current = loaded.map(order => recovered.find(o => o.id === order.id) ?? order);
+                setOrders(ordersRef.current);
+                for (const order of recovered) {
+                    saveTwapOrder(order).catch((error: unknown) =>
+                        logger.warn('Failed to persist interrupted TWAP order', { error, id: order.id })
+                    );
+                }
+            })
+            .catch((error: unknown) => logger.warn('Failed to load TWAP orders', { error }))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [account, chainId]);
+
+    const executeSlice = useCallback(async (order: TwapOrder, slice: TwapSlice): Promise<void> => {
+        const tokenIn = getRoutableAddress(order.tokenIn, order.chainId);
+        const tokenOut = getRoutableAddress(order.tokenOut, order.chainId);
+        if (!account || !tokenIn || !tokenOut || !isContractConfigured(order.chainId, 'gatewayRouter')) {
+            await persist(pauseTwapOrder(order, 'Router not deployed on this network'));
+            return;
+        }
+
+        const amountIn = BigInt(slice.amountIn);
+        let quote;
+        try {
+            quote = await getQuote({ tokenIn, tokenOut, amountIn, chainId: order.chainId }, order.tokenOut.decimals);
+        } catch (err: unknown) {
+            // Quoter hiccups retry on the next interval rather than failing the slice
+            await persist(deferTwapSlice(getLatest(order.id) ?? order, handleError(err).userMessage));
+            return;
+        }
+
+        // The user may have paused or cancelled while the quote was in flight
+        const current = getLatest(order.id) ?? order;
+        if (current.status !== 'active') return;
+
+        const price = getExecutionPrice(amountIn, quote.amountOut, order.tokenIn.decimals, order.tokenOut.decimals);
+        const deviationBps = getAdverseDeviationBps(order.startPrice, price);
+        if (deviationBps > order.maxDeviationBps) {
+            await persist(deferTwapSlice(
+                current,
+                `Price is ${(deviationBps / 100).toFixed(2)}% below the start; slice ${slice.index + 1} deferred`
+            ));
+            return;
+        }
+
+        await persist(applySliceUpdate(current, slice.index, { status: 'executing', error: undefined }));
+
+        let result: SwapResult;
+        try {
+            result = await swap({
+                quote: toQuoteResponse(quote, {
+                    tokenIn,
+                    tokenOut,
+                    minAmountOut: quote.minimumReceived(order.slippageBps),
+                    router: getContractAddress(order.chainId, 'gatewayRouter'),
+                }),
+                deadline: calculateDeadline(DEFAULT_DEADLINE_SECONDS),
+                recipient: account,
+                chainId: order.chainId,
+                tokenInDecimals: order.tokenIn.decimals,
+                tokenOutDecimals: order.tokenOut.decimals,
+                nativeIn: isNativeToken(order.tokenIn),
+                nativeOut: isNativeToken(order.tokenOut),
+            });
+        } catch (err: unknown) {
+            result = { success: false, error: handleError(err).userMessage };
+        }
+
+        const latest = getLatest(order.id) ?? current;
+        if (result.success) {
+            await persist(applySliceUpdate(latest, slice.index, {
+                status: 'filled',
+                amountOut: (result.execution?.amountOut ?? quote.amountOut).toString(),
+                executedAt: Date.now(),
+                txHash: result.hash,
+            }));
+        } else if (result.isUserRejection) {
+            await persist(pauseTwapOrder(
+                applySliceUpdate(latest, slice.index, { status: 'pending' }),
+                'Slice rejected in wallet'
+            ));
+        } else {
+            await persist(pauseTwapOrder(
+                applySliceUpdate(latest, slice.index, { status: 'failed', txHash: result.hash, error: result.error }),
+                `Slice ${slice.index + 1} failed`
+            ));
+        }
+
+        onSliceSettledRef.current?.(getLatest(order.id) ?? latest, slice, result);
+    }, [account, persist, swap]);
+
+    // Scheduler: run due slices, one at a time per order
+    useEffect(() => {
+        const tick = () => {
+            for (const order of ordersRef.current) {
+                if (!isSliceDue(order) || inFlightRef.current.has(order.id)) continue;
+                const slice = getNextSlice(order);
+                if (!slice) continue;
+
+                inFlightRef.current.add(order.id);
+                executeSlice(order, slice)
+                    .catch((error: unknown) => logger.warn('TWAP slice failed', { error, id: order.id }))
+                    .finally(() => inFlightRef.current.delete(order.id));
+            }
+        };
+        tick();
+        const interval = setInterval(tick, SCHEDULER_TICK_MS);
+        return () => clearInterval(interval);
+    }, [orders, executeSlice]);
+
+    const placeOrder = useCallback(async (
+        input: Omit<TwapOrderInput, 'account' | 'chainId' | 'startPrice'>
+    ): Promise<TwapOrder> => {
+        if (!account || !chainId) {
+            throw new Error('Connect a wallet to place TWAP orders');
+        }
+        const tokenIn = getRoutableAddress(input.tokenIn, chainId);
+        const tokenOut = getRoutableAddress(input.tokenOut, chainId);
+        if (!tokenIn || !tokenOut) {
+            throw new Error('Token not supported on this network');
+        }
+
+        // Start price is quoted at slice size, so price impact does not count as deviation
+        const sliceAmount = input.amountIn / BigInt(input.totalTrades);
+        const quote = await getQuote({ tokenIn, tokenOut, amountIn: sliceAmount, chainId }, input.tokenOut.decimals);
+        const startPrice = getExecutionPrice(sliceAmount, quote.amountOut, input.tokenIn.decimals, input.tokenOut.decimals);
+
+        const order = buildTwapOrder({ ...input, account, chainId, startPrice });
+        await persist(order);
+        logger.info('TWAP order placed', { id: order.id, slices: order.slices.length, startPrice });
+        return order;
+    }, [account, chainId, persist]);
+
+    const pauseOrder = useCallback(async (id: string): Promise<void> => {
+        const order = getLatest(id);
+        if (order) await persist(pauseTwapOrder(order));
+    }, [persist]);
+
+    const resumeOrder = useCallback(async (id: string): Promise<void> => {
+        const order = getLatest(id);
+        if (order) await persist(resumeTwapOrder(order));
+    }, [persist]);
+
+    const cancelOrder = useCallback(async (id: string): Promise<void> => {
+        const order = getLatest(id);
+        if (!order || order.status === 'completed' || order.status === 'cancelled') return;
+        await persist({ ...order, status: 'cancelled', updatedAt: Date.now() });
+    }, [persist]);
+
+    return {
+        orders,
+        activeOrders: orders.filter(o => o.status === 'active' || o.status === 'paused'),
+        isLoading,
+        placeOrder,
+        pauseOrder,
+        resumeOrder,
+        cancelOrder,
+    };
+}
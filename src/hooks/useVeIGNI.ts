@@ -1,6 +1,5 @@
 import { useCallback, useState } from 'react';
 import type { UserLock } from '../types/veIGNI';
-import { useWallet } from '../contexts';
 
 const MIN_LOCK_AMOUNT = BigInt('1000000000000000000');
 
@@ -155,14 +154,15 @@ export function useVeIGNIMerge({ onSuccess, onError }: UseMergeOptions) {
 
 interface UseLocksOptions {
     contractAddress: HexAddress;
+    /** Lock owner: the connected wallet or a watched address */
+    owner: string | null;
     decimals?: number;
 }
 
-export function useVeIGNILocks(_options: UseLocksOptions) {
-    const { isConnected } = useWallet();
+export function useVeIGNILocks({ owner }: UseLocksOptions) {
     const refetch = useCallback(() => {}, []);
     return {
-        locks: isConnected ? MOCK_LOCKS : [],
+        locks: owner ? MOCK_LOCKS : [],
         isLoading: false,
         refetch,
     };
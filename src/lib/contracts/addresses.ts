@@ -1,5 +1,7 @@
-/** Contract addresses */
+/** Chain registry: chain metadata, RPCs, explorers, subgraphs and contract addresses */
 import { Address } from 'viem';
+import { z } from 'zod';
+import { addressSchema, env, validateConfig } from '../../config/env';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // PLACEHOLDER ADDRESS
@@ -7,6 +9,8 @@ import { Address } from 'viem';
 
 const PLACEHOLDER = '0x0000000000000000000000000000000000000000' as Address;
 
+export const IS_TESTNET = true; // Set to false for mainnet deployment
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONTRACT ADDRESS INTERFACE
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -18,6 +22,7 @@ export interface ChainContracts {
   gateway4626Buffer: Address;
   gatewayRegistry: Address;
   tokenRegistry: Address;
+  tokenList: Address;
   poolRegistry: Address;
   gatewayKeeper: Address;
   
@@ -27,6 +32,8 @@ export interface ChainContracts {
   clQuoter: Address;
   binQuoter: Address;
   vault: Address; // PCS V4 singleton vault
+  clPositionManager?: Address;
+  binPositionManager?: Address;
   
   // Staking
   bufferStaker: Address;
@@ -35,6 +42,9 @@ export interface ChainContracts {
   vaultAdapter: Address;
   aggregatorAdapter: Address;
   
+  // Depth Reader (for orderbook visualization)
+  poolDepthReader?: Address;
+  
   // Tokens
   weth: Address;
   
@@ -48,85 +58,112 @@ export interface ChainConfig {
   chainId: number;
   name: string;
   shortName: string;
-  rpcUrl: string;
+  /** RPC endpoints in order of preference */
+  rpcUrls: string[];
   blockExplorer: string;
+  explorerName: string;
   contracts: ChainContracts;
-  subgraphUrl: string;
+  /** null until a subgraph is deployed for the chain */
+  subgraphUrl: string | null;
   isTestnet: boolean;
+  /** Average block interval, used to turn block counts into countdowns */
+  blockTimeSeconds: number;
 }
 
+/** Everything about a chain except what a deployment provides */
+type ChainMetadata = Omit<ChainConfig, 'contracts'> & { weth: Address };
+
 // ─────────────────────────────────────────────────────────────────────────────────
-// BASE MAINNET (Chain ID: 8453)
+// DEPLOYMENT MANIFESTS
 // ─────────────────────────────────────────────────────────────────────────────────
+// One JSON file per chain in src/config/deployments/. A new deployment means
+// dropping in (or replacing) that chain's file:
+//
+//   { "chainId": 8453, "contracts": { "gatewayRouter": "0x…", … }, "subgraphUrl": "https://…" }
+//
+// Contracts missing from a manifest stay unconfigured.
 
-export const BASE_MAINNET: ChainConfig = {
-  chainId: 8453,
-  name: 'Base',
-  shortName: 'base',
-  rpcUrl: 'https://mainnet.base.org', // UPDATE: Use your own RPC for production
-  blockExplorer: 'https://basescan.org',
-  subgraphUrl: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-base/version/latest',
-  isTestnet: false,
-  contracts: {
-    // ═══════════════════════════════════════════════════════════════════════════
-    // UPDATE THESE ADDRESSES AFTER DEPLOYMENT
-    // ═══════════════════════════════════════════════════════════════════════════
-    
-    // Core Protocol
-    gatewayRouter: PLACEHOLDER,        // GatewayRouterV5
-    smartQuoter: PLACEHOLDER,          // AureliaSmartQuoterV5
-    gateway4626Buffer: PLACEHOLDER,    // Gateway4626Buffer
-    gatewayRegistry: PLACEHOLDER,      // GatewayRegistry
-    tokenRegistry: PLACEHOLDER,        // TokenRegistryV2
-    poolRegistry: PLACEHOLDER,         // PoolRegistry
-    gatewayKeeper: PLACEHOLDER,        // GatewayKeeper
-    
-    // Pool Managers (PancakeSwap V4 - get from PCS deployment)
-    clPoolManager: PLACEHOLDER,
-    binPoolManager: PLACEHOLDER,
-    clQuoter: PLACEHOLDER,
-    binQuoter: PLACEHOLDER,
-    vault: PLACEHOLDER,
-    
-    // Staking
-    bufferStaker: PLACEHOLDER,         // BufferStakerV2
-    
-    // Adapters
-    vaultAdapter: PLACEHOLDER,         // AureliaVaultAdapter
-    aggregatorAdapter: PLACEHOLDER,    // AureliaAggregatorAdapter
-    
-    // Tokens
-    weth: '0x4200000000000000000000000000000000000006' as Address, // Base WETH
-    
-    // MEV Bot (optional)
-    backrunner: undefined,
-    poolStateLens: undefined,
-    profitDistributor: undefined,
-  },
-};
+const DEPLOYABLE_CONTRACTS = [
+  'gatewayRouter',
+  'smartQuoter',
+  'gateway4626Buffer',
+  'gatewayRegistry',
+  'tokenRegistry',
+  'tokenList',
+  'poolRegistry',
+  'gatewayKeeper',
+  'clPoolManager',
+  'binPoolManager',
+  'clQuoter',
+  'binQuoter',
+  'vault',
+  'clPositionManager',
+  'binPositionManager',
+  'bufferStaker',
+  'vaultAdapter',
+  'aggregatorAdapter',
+  'poolDepthReader',
+  'backrunner',
+  'poolStateLens',
+  'profitDistributor',
+] as const satisfies readonly (keyof ChainContracts)[];
 
-// ─────────────────────────────────────────────────────────────────────────────────
-// BASE SEPOLIA TESTNET (Chain ID: 84532)
-// ─────────────────────────────────────────────────────────────────────────────────
+export const deploymentManifestSchema = z.object({
+  chainId: z.number().int().positive(),
+  contracts: z.record(z.enum(DEPLOYABLE_CONTRACTS), addressSchema),
+  subgraphUrl: z.string().url().optional(),
+});
 
-export const BASE_SEPOLIA: ChainConfig = {
-  chainId: 84532,
-  name: 'Base Sepolia',
-  shortName: 'base-sepolia',
-  rpcUrl: 'https://sepolia.base.org',
-  blockExplorer: 'https://sepolia.basescan.org',
-  subgraphUrl: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-base-sepolia/version/latest',
-  isTestnet: true,
-  contracts: {
-    // ═══════════════════════════════════════════════════════════════════════════
-    // UPDATE THESE ADDRESSES AFTER TESTNET DEPLOYMENT
-    // ═══════════════════════════════════════════════════════════════════════════
-    
+export type DeploymentManifest = z.infer<typeof deploymentManifestSchema>;
+
+const chainConfigSchema = z.object({
+  chainId: z.number().int().positive(),
+  name: z.string().min(1),
+  shortName: z.string().min(1),
+  rpcUrls: z.array(z.string().url()).min(1, 'At least one RPC URL is required'),
+  blockExplorer: z.string().url(),
+  explorerName: z.string().min(1),
+  contracts: z.record(addressSchema.optional()),
+  subgraphUrl: z.string().url().nullable(),
+  isTestnet: z.boolean(),
+  blockTimeSeconds: z.number().positive(),
+});
+
+const MANIFEST_FILES = import.meta.glob('../../config/deployments/*.json', { eager: true, import: 'default' });
+
+/**
+ * Validate deployment manifests and index them by chain
+ *
+ * @throws Error if two manifests target the same chain
+ */
+export function loadDeploymentManifests(files: Record<string, unknown> = MANIFEST_FILES): Map<number, DeploymentManifest> {
+  const manifests = new Map<number, DeploymentManifest>();
+  for (const [path, raw] of Object.entries(files)) {
+    const manifest = validateConfig(deploymentManifestSchema, raw, `Deployment manifest ${path}`);
+    if (manifests.has(manifest.chainId)) {
+      throw new Error(`More than one deployment manifest for chain ${manifest.chainId}`);
+    }
+    manifests.set(manifest.chainId, manifest);
+  }
+  return manifests;
+}
+
+/**
+ * Combine chain metadata with its deployment into a validated ChainConfig
+ */
+export function buildChainConfig(
+  metadata: ChainMetadata,
+  manifest?: DeploymentManifest,
+  overrides: Partial<ChainContracts> = {}
+): ChainConfig {
+  const { weth, ...chain } = metadata;
+  const contracts: ChainContracts = {
     gatewayRouter: PLACEHOLDER,
     smartQuoter: PLACEHOLDER,
     gateway4626Buffer: PLACEHOLDER,
     gatewayRegistry: PLACEHOLDER,
     tokenRegistry: PLACEHOLDER,
+    tokenList: PLACEHOLDER,
     poolRegistry: PLACEHOLDER,
     gatewayKeeper: PLACEHOLDER,
     clPoolManager: PLACEHOLDER,
@@ -137,78 +174,106 @@ export const BASE_SEPOLIA: ChainConfig = {
     bufferStaker: PLACEHOLDER,
     vaultAdapter: PLACEHOLDER,
     aggregatorAdapter: PLACEHOLDER,
-    weth: '0x4200000000000000000000000000000000000006' as Address,
-  },
-};
+    weth,
+    ...(manifest?.contracts as Partial<ChainContracts> | undefined),
+    ...overrides,
+  };
+
+  const config: ChainConfig = {
+    ...chain,
+    subgraphUrl: manifest?.subgraphUrl ?? chain.subgraphUrl,
+    contracts,
+  };
+  validateConfig(chainConfigSchema, config, `Chain ${chain.chainId} config`);
+  return config;
+}
 
 // ─────────────────────────────────────────────────────────────────────────────────
-// BSC MAINNET (Chain ID: 56)
+// CHAIN METADATA
 // ─────────────────────────────────────────────────────────────────────────────────
 
-export const BSC_MAINNET: ChainConfig = {
+const unique = (values: (string | undefined)[]): string[] =>
+  [...new Set(values.filter((value): value is string => !!value))];
+
+const BASE_MAINNET_METADATA: ChainMetadata = {
+  chainId: 8453,
+  name: 'Base',
+  shortName: 'base',
+  // UPDATE: Use your own RPC for production (VITE_RPC_URL_BASE)
+  rpcUrls: unique([env.VITE_RPC_URL_BASE, 'https://mainnet.base.org', 'https://base.llamarpc.com']),
+  blockExplorer: 'https://basescan.org',
+  explorerName: 'BaseScan',
+  subgraphUrl: env.VITE_SUBGRAPH_URL_BASE || null,
+  isTestnet: false,
+  blockTimeSeconds: 2,
+  weth: '0x4200000000000000000000000000000000000006', // Base WETH
+};
+
+const BASE_SEPOLIA_METADATA: ChainMetadata = {
+  chainId: 84532,
+  name: 'Base Sepolia',
+  shortName: 'base-sepolia',
+  rpcUrls: ['https://sepolia.base.org'],
+  blockExplorer: 'https://sepolia.basescan.org',
+  explorerName: 'BaseScan',
+  subgraphUrl: null,
+  isTestnet: true,
+  blockTimeSeconds: 2,
+  weth: '0x4200000000000000000000000000000000000006',
+};
+
+const BSC_MAINNET_METADATA: ChainMetadata = {
   chainId: 56,
   name: 'BNB Smart Chain',
   shortName: 'bsc',
-  rpcUrl: 'https://bsc-dataseed1.binance.org',
+  rpcUrls: ['https://bsc-dataseed1.binance.org', 'https://bsc-dataseed2.binance.org'],
   blockExplorer: 'https://bscscan.com',
-  subgraphUrl: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-bsc/version/latest',
+  explorerName: 'BscScan',
+  subgraphUrl: null,
   isTestnet: false,
-  contracts: {
-    gatewayRouter: PLACEHOLDER,
-    smartQuoter: PLACEHOLDER,
-    gateway4626Buffer: PLACEHOLDER,
-    gatewayRegistry: PLACEHOLDER,
-    tokenRegistry: PLACEHOLDER,
-    poolRegistry: PLACEHOLDER,
-    gatewayKeeper: PLACEHOLDER,
-    clPoolManager: PLACEHOLDER,
-    binPoolManager: PLACEHOLDER,
-    clQuoter: PLACEHOLDER,
-    binQuoter: PLACEHOLDER,
-    vault: PLACEHOLDER,
-    bufferStaker: PLACEHOLDER,
-    vaultAdapter: PLACEHOLDER,
-    aggregatorAdapter: PLACEHOLDER,
-    weth: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c' as Address, // WBNB
-  },
+  blockTimeSeconds: 0.75,
+  weth: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
 };
 
-// ─────────────────────────────────────────────────────────────────────────────────
-// BSC TESTNET (Chain ID: 97)
-// ─────────────────────────────────────────────────────────────────────────────────
-
-export const BSC_TESTNET: ChainConfig = {
+const BSC_TESTNET_METADATA: ChainMetadata = {
   chainId: 97,
   name: 'BSC Testnet',
   shortName: 'bsc-testnet',
-  rpcUrl: 'https://data-seed-prebsc-1-s1.binance.org:8545',
+  rpcUrls: ['https://data-seed-prebsc-1-s1.binance.org:8545'],
   blockExplorer: 'https://testnet.bscscan.com',
-  subgraphUrl: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-bsc-testnet/version/latest',
+  explorerName: 'BscScan',
+  subgraphUrl: null,
   isTestnet: true,
-  contracts: {
-    gatewayRouter: PLACEHOLDER,
-    smartQuoter: PLACEHOLDER,
-    gateway4626Buffer: PLACEHOLDER,
-    gatewayRegistry: PLACEHOLDER,
-    tokenRegistry: PLACEHOLDER,
-    poolRegistry: PLACEHOLDER,
-    gatewayKeeper: PLACEHOLDER,
-    clPoolManager: PLACEHOLDER,
-    binPoolManager: PLACEHOLDER,
-    clQuoter: PLACEHOLDER,
-    binQuoter: PLACEHOLDER,
-    vault: PLACEHOLDER,
-    bufferStaker: PLACEHOLDER,
-    vaultAdapter: PLACEHOLDER,
-    aggregatorAdapter: PLACEHOLDER,
-    weth: '0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd' as Address, // WBNB testnet
-  },
+  blockTimeSeconds: 0.75,
+  weth: '0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd', // WBNB testnet
 };
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CHAIN REGISTRY
 // ─────────────────────────────────────────────────────────────────────────────────
 
+// Default chain for development
+export const DEFAULT_CHAIN_ID = IS_TESTNET ? BASE_SEPOLIA_METADATA.chainId : BASE_MAINNET_METADATA.chainId;
+
+const DEPLOYMENTS = loadDeploymentManifests();
+
+/** VITE_GATEWAY_ROUTER_ADDRESS / VITE_QUOTER_ADDRESS override the default chain's deployment */
+const ENV_OVERRIDES: Partial<ChainContracts> = {
+  ...(env.VITE_GATEWAY_ROUTER_ADDRESS && { gatewayRouter: env.VITE_GATEWAY_ROUTER_ADDRESS as Address }),
+  ...(env.VITE_QUOTER_ADDRESS && { smartQuoter: env.VITE_QUOTER_ADDRESS as Address }),
+};
+
+const build = (metadata: ChainMetadata): ChainConfig => buildChainConfig(
+  metadata,
+  DEPLOYMENTS.get(metadata.chainId),
+  metadata.chainId === DEFAULT_CHAIN_ID ? ENV_OVERRIDES : {}
+);
+
+export const BASE_MAINNET = build(BASE_MAINNET_METADATA);
+export const BASE_SEPOLIA = build(BASE_SEPOLIA_METADATA);
+export const BSC_MAINNET = build(BSC_MAINNET_METADATA);
+export const BSC_TESTNET = build(BSC_TESTNET_METADATA);
+
 export const CHAINS: Record<number, ChainConfig> = {
   [BASE_MAINNET.chainId]: BASE_MAINNET,
   [BASE_SEPOLIA.chainId]: BASE_SEPOLIA,
@@ -230,9 +295,6 @@ export const TESTNET_CHAIN_IDS = Object.values(CHAINS)
   .filter(c => c.isTestnet)
   .map(c => c.chainId);
 
-// Default chain for development
-export const DEFAULT_CHAIN_ID = BASE_SEPOLIA.chainId;
-
 // ─────────────────────────────────────────────────────────────────────────────────
 // HELPER FUNCTIONS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -248,6 +310,13 @@ export function getChainConfig(chainId: number): ChainConfig {
   return config;
 }
 
+/**
+ * Average block time for a chain, falling back to 2s for unknown chains
+ */
+export function getBlockTimeSeconds(chainId: number): number {
+  return CHAINS[chainId]?.blockTimeSeconds ?? 2;
+}
+
 /**
  * Get contract address for a chain
  */
@@ -0,0 +1,195 @@
+/** ERC20 allowances granted to IGNIS contracts: approval amounts, scanning and revoking */
+import { erc20Abi, parseAbi } from 'viem';
+import type { Abi, Address, PublicClient } from 'viem';
+import { MAX_UINT256 } from './config';
+import type { ChainContracts } from './addresses';
+import type { ContractCall } from './simulation';
+import type { ApprovalMode } from '../../types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Contracts that pull tokens from users, in display order */
+export const APPROVAL_SPENDERS = ['gatewayRouter', 'gateway4626Buffer', 'bufferStaker'] as const satisfies readonly (keyof ChainContracts)[];
+
+export type ApprovalSpender = (typeof APPROVAL_SPENDERS)[number];
+
+export const APPROVAL_SPENDER_LABELS: Record<ApprovalSpender, string> = {
+  gatewayRouter: 'Gateway Router',
+  gateway4626Buffer: '4626 Buffer',
+  bufferStaker: 'Buffer Staker',
+};
+
+/**
+ * Allowances at or above this are shown as unlimited. Some tokens decrement
+ * a MAX_UINT256 allowance on transferFrom, so an exact match is too strict.
+ */
+export const UNLIMITED_ALLOWANCE_THRESHOLD = MAX_UINT256 / BigInt(2);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ABIS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** approve() without a return value, for USDT-style tokens */
+const NON_STANDARD_APPROVE_ABI = parseAbi(['function approve(address spender, uint256 amount)']);
+
+const TOKEN_FLAGS_ABI = parseAbi([
+  'function isNonStandardToken(address token) view returns (bool)',
+  'function requiresApproveReset(address token) view returns (bool)',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Token handling flags set by governance on the router and vault adapter */
+export interface TokenApprovalFlags {
+  /** approve() returns nothing (GatewayRouterV5.isNonStandardToken) */
+  nonStandard: boolean;
+  /** A non-zero allowance must be set to 0 first (AureliaVaultAdapter.requiresApproveReset) */
+  requiresReset: boolean;
+}
+
+export interface ApprovalToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+export interface AllowanceEntry {
+  token: ApprovalToken;
+  spender: ApprovalSpender;
+  spenderAddress: Address;
+  allowance: bigint;
+  flags: TokenApprovalFlags;
+}
+
+type MulticallClient = Pick<PublicClient, 'multicall'>;
+
+const STANDARD_FLAGS: TokenApprovalFlags = { nonStandard: false, requiresReset: false };
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// APPROVAL AMOUNTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Amount to approve for a spend of `amount` under the user's policy
+ */
+export function getApprovalAmount(amount: bigint, mode: ApprovalMode): bigint {
+  return mode === 'unlimited' ? MAX_UINT256 : amount;
+}
+
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= UNLIMITED_ALLOWANCE_THRESHOLD;
+}
+
+/**
+ * approve() calls that move an allowance from `current` to `amount`.
+ * Tokens that require a reset get an approve(0) first; revoking (amount 0)
+ * is always a single call.
+ */
+export function buildApproveCalls(
+  token: Address,
+  spender: Address,
+  amount: bigint,
+  current: bigint,
+  flags: TokenApprovalFlags = STANDARD_FLAGS
+): ContractCall[] {
+  const approve = (value: bigint): ContractCall => ({
+    address: token,
+    abi: (flags.nonStandard ? NON_STANDARD_APPROVE_ABI : erc20Abi) as Abi,
+    functionName: 'approve',
+    args: [spender, value],
+  });
+
+  if (flags.requiresReset && current > BigInt(0) && amount > BigInt(0)) {
+    return [approve(BigInt(0)), approve(amount)];
+  }
+  return [approve(amount)];
+}
+
+/**
+ * approve(spender, 0) for a scanned allowance, in the token's approve encoding
+ */
+export function buildRevokeCall(entry: AllowanceEntry): ContractCall {
+  return buildApproveCalls(entry.token.address, entry.spenderAddress, BigInt(0), entry.allowance, entry.flags)[0]!;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCANNING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Flags per token (lowercased address). Either source may be unset on a
+ * chain, and failed reads count as standard behaviour.
+ */
+export async function readTokenFlags(
+  client: MulticallClient,
+  tokens: Address[],
+  sources: { router?: Address; vaultAdapter?: Address }
+): Promise<Map<string, TokenApprovalFlags>> {
+  const { router, vaultAdapter } = sources;
+  const [nonStandard, reset] = await Promise.all([
+    router
+      ? client.multicall({
+        allowFailure: true,
+        contracts: tokens.map(token => ({ address: router, abi: TOKEN_FLAGS_ABI, functionName: 'isNonStandardToken', args: [token] }) as const),
+      })
+      : [],
+    vaultAdapter
+      ? client.multicall({
+        allowFailure: true,
+        contracts: tokens.map(token => ({ address: vaultAdapter, abi: TOKEN_FLAGS_ABI, functionName: 'requiresApproveReset', args: [token] }) as const),
+      })
+      : [],
+  ]);
+
+  const flagged = (result: { status: string; result?: boolean } | undefined): boolean =>
+    result?.status === 'success' && result.result === true;
+
+  return new Map(tokens.map((token, i) => [
+    token.toLowerCase(),
+    { nonStandard: flagged(nonStandard[i]), requiresReset: flagged(reset[i]) },
+  ]));
+}
+
+/**
+ * Non-zero allowances of `owner` for every token × spender pair, grouped by
+ * token in the order given. Tokens whose reads fail are skipped.
+ */
+export async function scanAllowances(
+  client: MulticallClient,
+  owner: Address,
+  tokens: ApprovalToken[],
+  spenders: { spender: ApprovalSpender; address: Address }[],
+  flags: Map<string, TokenApprovalFlags> = new Map()
+): Promise<AllowanceEntry[]> {
+  if (tokens.length === 0 || spenders.length === 0) return [];
+
+  const results = await client.multicall({
+    allowFailure: true,
+    contracts: tokens.flatMap(token => spenders.map(({ address }) => ({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, address],
+    }) as const)),
+  });
+
+  const entries: AllowanceEntry[] = [];
+  tokens.forEach((token, i) => {
+    spenders.forEach(({ spender, address }, j) => {
+      const result = results[i * spenders.length + j];
+      if (result?.status !== 'success' || result.result === BigInt(0)) return;
+      entries.push({
+        token,
+        spender,
+        spenderAddress: address,
+        allowance: result.result,
+        flags: flags.get(token.address.toLowerCase()) ?? STANDARD_FLAGS,
+      });
+    });
+  });
+  return entries;
+}
@@ -0,0 +1,236 @@
+/** Liquidity Book bin math and Spot / Curve / Bid-Ask liquidity distributions */
+import { numberToHex } from 'viem';
+import type { Hex } from 'viem';
+import { BIN_STEPS } from './config';
+import { IgnisError } from './errors';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Bin id of price 1 (2^23) */
+export const BIN_ID_OFFSET = 8388608;
+
+/** Distributions are fractions of 1e18, as in LiquidityConfigurations */
+export const DISTRIBUTION_PRECISION = BigInt(10) ** BigInt(18);
+
+/** Bins per side the UI will spread liquidity over; keeps mint calldata bounded */
+export const MAX_BINS_PER_SIDE = 50;
+
+const ZERO = BigInt(0);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * - spot: the same weight in every bin
+ * - curve: concentrated around the active bin, falling off like a bell curve
+ * - bidask: thin at the active bin, growing towards the edges of the range
+ */
+export type LiquidityShape = 'spot' | 'curve' | 'bidask';
+
+/**
+ * Per-bin weights, index-aligned. Bins above the active bin take only X,
+ * bins below only Y and the active bin both; each side sums to
+ * DISTRIBUTION_PRECISION when its amount is non-zero.
+ */
+export interface BinDistribution {
+  /** Bin ids relative to activeId */
+  deltaIds: number[];
+  distributionX: bigint[];
+  distributionY: bigint[];
+}
+
+export interface BinDistributionParams {
+  shape: LiquidityShape;
+  activeId: number;
+  /** Inclusive bin range; may sit entirely on one side of activeId */
+  lowerId: number;
+  upperId: number;
+  amountX: bigint;
+  amountY: bigint;
+}
+
+/** One bin of a distribution in token units, for previews */
+export interface BinPreview {
+  binId: number;
+  /** Price of Y per X in this bin */
+  price: number;
+  amountX: number;
+  amountY: number;
+  /** amountX valued in Y plus amountY, for bar heights */
+  valueY: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BIN PRICES
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Prices are human-readable Y per X. Bin prices are over raw units, so the
+// decimals difference is applied on the way in and out.
+
+export function getPriceFromId(binId: number, binStep: number, decimalsX: number, decimalsY: number): number {
+  return Math.pow(1 + binStep / 10000, binId - BIN_ID_OFFSET) * Math.pow(10, decimalsX - decimalsY);
+}
+
+/**
+ * Bin holding `price`, i.e. the greatest id whose price is at or below it
+ */
+export function getIdFromPrice(price: number, binStep: number, decimalsX: number, decimalsY: number): number {
+  if (!(price > 0) || !Number.isFinite(price)) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Invalid price ${price}`,
+      userMessage: 'Enter a price above zero',
+    });
+  }
+  const raw = Math.log(price) + (decimalsY - decimalsX) * Math.LN10;
+  // Tolerate float error so getPriceFromId(id) maps back to id
+  return BIN_ID_OFFSET + Math.floor(raw / Math.log(1 + binStep / 10000) + 1e-9);
+}
+
+/**
+ * Bin step for a pool fee in percent, e.g. 0.25 → 25; NORMAL when it
+ * matches no BIN_STEPS entry
+ */
+export function binStepFromPercent(feePercent: number): number {
+  const step = Math.round(feePercent * 100);
+  return (Object.values(BIN_STEPS) as number[]).includes(step) ? step : BIN_STEPS.NORMAL;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DISTRIBUTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Relative weight of a bin `distance` bins from the active bin, out of a
+ * range reaching `reach` bins from it
+ */
+function shapeWeight(shape: LiquidityShape, distance: number, reach: number): number {
+  switch (shape) {
+    case 'spot':
+      return 1;
+    case 'curve': {
+      // σ = a third of the reach, so the edges still get ~1% of the peak
+      const sigma = Math.max(reach, 1) / 3;
+      return Math.exp(-(distance * distance) / (2 * sigma * sigma));
+    }
+    case 'bidask':
+      return distance + 1;
+  }
+}
+
+/**
+ * Split weights into fractions of DISTRIBUTION_PRECISION. Rounding dust
+ * goes to the heaviest bin so the total is exact.
+ */
+function normalize(weights: number[]): bigint[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return weights.map(() => ZERO);
+
+  const parts = weights.map(w => (BigInt(Math.floor((w / total) * 1e12)) * DISTRIBUTION_PRECISION) / BigInt(1e12));
+  const dust = DISTRIBUTION_PRECISION - parts.reduce((sum, p) => sum + p, ZERO);
+  const heaviest = weights.indexOf(Math.max(...weights));
+  parts[heaviest] = parts[heaviest]! + dust;
+  return parts;
+}
+
+/**
+ * Per-bin X/Y weights for a shape over [lowerId, upperId]. The active bin
+ * shares its weight between X and Y; a side whose amount is zero gets no
+ * weight anywhere.
+ */
+export function buildBinDistribution(params: BinDistributionParams): BinDistribution {
+  const { shape, activeId, lowerId, upperId, amountX, amountY } = params;
+  if (!Number.isInteger(lowerId) || !Number.isInteger(upperId) || upperId < lowerId) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Invalid bin range [${lowerId}, ${upperId}]`,
+      userMessage: 'Enter a valid price range',
+    });
+  }
+  if (activeId - lowerId > MAX_BINS_PER_SIDE || upperId - activeId > MAX_BINS_PER_SIDE) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Bin range [${lowerId}, ${upperId}] spans more than ${MAX_BINS_PER_SIDE} bins from ${activeId}`,
+      userMessage: `Choose a range within ${MAX_BINS_PER_SIDE} bins of the current price`,
+    });
+  }
+
+  const ids = Array.from({ length: upperId - lowerId + 1 }, (_, i) => lowerId + i);
+  const reach = Math.max(activeId - lowerId, upperId - activeId);
+  const weights = ids.map(id => shapeWeight(shape, Math.abs(id - activeId), reach));
+
+  const weightsX = ids.map((id, i) => (amountX > ZERO && id >= activeId ? weights[i]! : 0));
+  const weightsY = ids.map((id, i) => (amountY > ZERO && id <= activeId ? weights[i]! : 0));
+
+  return {
+    deltaIds: ids.map(id => id - activeId),
+    distributionX: normalize(weightsX),
+    distributionY: normalize(weightsY),
+  };
+}
+
+/**
+ * Share of a shape's value held in X and in Y when every bin gets value in
+ * proportion to its weight; the active bin counts half to each side
+ */
+export function getShapeValueSplit(shape: LiquidityShape, activeId: number, lowerId: number, upperId: number): { valueX: number; valueY: number } {
+  const reach = Math.max(activeId - lowerId, upperId - activeId);
+  let valueX = 0;
+  let valueY = 0;
+  for (let id = lowerId; id <= upperId; id++) {
+    const weight = shapeWeight(shape, Math.abs(id - activeId), reach);
+    if (id > activeId) valueX += weight;
+    else if (id < activeId) valueY += weight;
+    else {
+      valueX += weight / 2;
+      valueY += weight / 2;
+    }
+  }
+  const total = valueX + valueY;
+  return total > 0 ? { valueX: valueX / total, valueY: valueY / total } : { valueX: 0.5, valueY: 0.5 };
+}
+
+/**
+ * Token amounts each bin would receive, for charts
+ */
+export function previewBinDistribution(
+  distribution: BinDistribution,
+  activeId: number,
+  binStep: number,
+  amounts: { amountX: number; amountY: number },
+  decimals: { x: number; y: number }
+): BinPreview[] {
+  const share = (part: bigint) => Number(part) / Number(DISTRIBUTION_PRECISION);
+  return distribution.deltaIds.map((deltaId, i) => {
+    const binId = activeId + deltaId;
+    const price = getPriceFromId(binId, binStep, decimals.x, decimals.y);
+    const amountX = amounts.amountX * share(distribution.distributionX[i]!);
+    const amountY = amounts.amountY * share(distribution.distributionY[i]!);
+    return { binId, price, amountX, amountY, valueY: amountX * price + amountY };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENCODING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * BinPoolManager.mint liquidityConfigs:
+ * bytes32(distributionX << 88 | distributionY << 24 | binId)
+ */
+export function encodeLiquidityConfigs(distribution: BinDistribution, activeId: number): Hex[] {
+  return distribution.deltaIds.map((deltaId, i) => numberToHex(
+    (distribution.distributionX[i]! << BigInt(88)) | (distribution.distributionY[i]! << BigInt(24)) | BigInt(activeId + deltaId),
+    { size: 32 }
+  ));
+}
+
+/**
+ * BinPoolManager.mint amountIn: amountY in the upper 128 bits, amountX in the lower
+ */
+export function encodeBinAmounts(amountX: bigint, amountY: bigint): Hex {
+  return numberToHex((amountY << BigInt(128)) | amountX, { size: 32 });
+}
@@ -0,0 +1,251 @@
+/** Concentrated-liquidity positions: pool keys, pool state and CLPositionManager mint calls */
+import { encodeAbiParameters, encodePacked, isAddressEqual, keccak256, parseAbi, parseAbiParameters, parseEventLogs } from 'viem';
+import type { Address, Hex, Log, PublicClient } from 'viem';
+import { ZERO_ADDRESS } from './config';
+import { IgnisError } from './errors';
+import { encodePoolParameters } from './fallbackRouter';
+import { getTickSpacing } from './tickMath';
+import type { CLPoolKey } from './types';
+import { encodeCall } from './simulation';
+import type { ContractCall } from './simulation';
+import type { PermitSingle } from './permit';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// CLPositionManager.modifyLiquidities takes abi.encode(bytes actions,
+// bytes[] params): one action byte per step, each with its own abi-encoded
+// params. Codes follow the PCS Infinity periphery Actions library.
+
+export const PositionAction = {
+  CL_DECREASE_LIQUIDITY: 0x01,
+  CL_MINT_POSITION: 0x02,
+  SETTLE_PAIR: 0x0d,
+  TAKE_PAIR: 0x11,
+  SWEEP: 0x14,
+} as const;
+
+export type PositionActionType = (typeof PositionAction)[keyof typeof PositionAction];
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ABIS
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// The bundled CLPoolManager ABI types pool ids as `PoolId`, which viem
+// cannot encode, so the reads used here are declared in full.
+
+const CL_POOL_STATE_ABI = parseAbi([
+  'function getSlot0(bytes32 id) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getLiquidity(bytes32 id) view returns (uint128 liquidity)',
+]);
+
+export const CL_POSITION_MANAGER_ABI = parseAbi([
+  'function modifyLiquidities(bytes payload, uint256 deadline) payable',
+  'function nextTokenId() view returns (uint256)',
+  'function permit(address owner, ((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature) payable returns (bytes err)',
+  'function multicall(bytes[] data) payable returns (bytes[] results)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed id)',
+]);
+
+const POOL_KEY_PARAMS = parseAbiParameters(
+  '(address currency0, address currency1, address hooks, address poolManager, uint24 fee, bytes32 parameters)'
+);
+
+const MINT_POSITION_PARAMS = parseAbiParameters([
+  'PoolKey poolKey, int24 tickLower, int24 tickUpper, uint256 liquidity, uint128 amount0Max, uint128 amount1Max, address owner, bytes hookData',
+  'struct PoolKey { address currency0; address currency1; address hooks; address poolManager; uint24 fee; bytes32 parameters; }',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface CLPoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+export interface MintPositionParams {
+  positionManager: Address;
+  poolKey: CLPoolKey;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  /** Slippage caps on what the pool may pull for each currency */
+  amount0Max: bigint;
+  amount1Max: bigint;
+  owner: Address;
+  deadline: bigint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// POOL KEYS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * CL fee tier (hundredths of a bip) for a pool fee in percent, e.g. 0.3 → 3000
+ */
+export function feeTierFromPercent(feePercent: number): number {
+  return Math.round(feePercent * 10000);
+}
+
+/**
+ * Hookless CL pool key for a pair. Currencies are sorted by address (native
+ * ETH is the zero address, so always currency0); `flipped` is true when
+ * tokenA became currency1.
+ */
+export function buildCLPoolKey(
+  tokenA: Address,
+  tokenB: Address,
+  fee: number,
+  poolManager: Address
+): { poolKey: CLPoolKey; flipped: boolean } {
+  if (tokenA.toLowerCase() === tokenB.toLowerCase()) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Pool currencies are identical: ${tokenA}`,
+      userMessage: 'Select two different tokens',
+    });
+  }
+  const flipped = BigInt(tokenA) > BigInt(tokenB);
+  const [currency0, currency1] = flipped ? [tokenB, tokenA] : [tokenA, tokenB];
+  const tickSpacing = getTickSpacing(fee);
+
+  return {
+    poolKey: {
+      currency0,
+      currency1,
+      hooks: ZERO_ADDRESS,
+      poolManager,
+      fee,
+      parameters: encodePoolParameters({ type: 'CL', token0: currency0, token1: currency1, fee, tickSpacing, hooks: ZERO_ADDRESS }),
+    },
+    flipped,
+  };
+}
+
+/**
+ * PoolId = keccak256(abi.encode(poolKey))
+ */
+export function getCLPoolId(poolKey: CLPoolKey): Hex {
+  return keccak256(encodeAbiParameters(POOL_KEY_PARAMS, [poolKey]));
+}
+
+/**
+ * Current price and in-range liquidity, or null when the pool has not been
+ * initialized
+ */
+export async function readCLPoolState(
+  client: Pick<PublicClient, 'readContract'>,
+  poolKey: CLPoolKey
+): Promise<CLPoolState | null> {
+  const id = getCLPoolId(poolKey);
+  const [[sqrtPriceX96, tick], liquidity] = await Promise.all([
+    client.readContract({ address: poolKey.poolManager, abi: CL_POOL_STATE_ABI, functionName: 'getSlot0', args: [id] }),
+    client.readContract({ address: poolKey.poolManager, abi: CL_POOL_STATE_ABI, functionName: 'getLiquidity', args: [id] }),
+  ]);
+  if (sqrtPriceX96 === BigInt(0)) return null;
+  return { sqrtPriceX96, tick, liquidity };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MINTING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * modifyLiquidities call that mints a new position and settles both
+ * currencies. With native currency0 the cap is sent as msg.value and the
+ * unused part swept back to the owner.
+ */
+export function buildMintPositionCall(params: MintPositionParams): ContractCall {
+  const { positionManager, poolKey, tickLower, tickUpper, liquidity, amount0Max, amount1Max, owner, deadline } = params;
+  if (tickLower >= tickUpper || liquidity <= BigInt(0)) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Invalid position: ticks [${tickLower}, ${tickUpper}], liquidity ${liquidity}`,
+      userMessage: 'Enter a valid price range and amount',
+    });
+  }
+
+  const isNative = poolKey.currency0.toLowerCase() === ZERO_ADDRESS;
+  const actions: PositionActionType[] = [PositionAction.CL_MINT_POSITION, PositionAction.SETTLE_PAIR];
+  const actionParams: Hex[] = [
+    encodeAbiParameters(MINT_POSITION_PARAMS, [poolKey, tickLower, tickUpper, liquidity, amount0Max, amount1Max, owner, '0x']),
+    encodeAbiParameters(parseAbiParameters('address, address'), [poolKey.currency0, poolKey.currency1]),
+  ];
+  if (isNative) {
+    actions.push(PositionAction.SWEEP);
+    actionParams.push(encodeAbiParameters(parseAbiParameters('address, address'), [ZERO_ADDRESS, owner]));
+  }
+
+  const payload = encodeAbiParameters(parseAbiParameters('bytes, bytes[]'), [
+    encodePacked(actions.map(() => 'uint8'), actions),
+    actionParams,
+  ]);
+
+  return {
+    address: positionManager,
+    abi: CL_POSITION_MANAGER_ABI,
+    functionName: 'modifyLiquidities',
+    args: [payload, deadline],
+    value: isNative ? amount0Max : undefined,
+  };
+}
+
+/**
+ * The position manager's Permit2Forwarder.permit: grants it a Permit2
+ * allowance from a signed PermitSingle, so no Permit2 approve is sent
+ */
+export function buildPositionManagerPermitCall(
+  positionManager: Address,
+  owner: Address,
+  permit: PermitSingle,
+  signature: Hex
+): ContractCall {
+  return {
+    address: positionManager,
+    abi: CL_POSITION_MANAGER_ABI,
+    functionName: 'permit',
+    args: [owner, permit, signature],
+  };
+}
+
+/**
+ * Bundle position manager calls into one multicall transaction. Each call
+ * runs by delegatecall and sees the same msg.value, so the bundle carries
+ * the value of the one call that pays (the mint).
+ */
+export function buildPositionManagerMulticall(positionManager: Address, calls: ContractCall[]): ContractCall {
+  const value = calls.reduce((max, call) => (call.value !== undefined && call.value > max ? call.value : max), BigInt(0));
+  return {
+    address: positionManager,
+    abi: CL_POSITION_MANAGER_ABI,
+    functionName: 'multicall',
+    args: [calls.map(encodeCall)],
+    value: value > BigInt(0) ? value : undefined,
+  };
+}
+
+/**
+ * Id of the position NFT a mint transaction created for `owner`: the
+ * position manager's ERC721 Transfer from the zero address. null when the
+ * receipt holds no such transfer.
+ */
+export function getMintedTokenId(logs: Log[], positionManager: Address, owner: Address): bigint | null {
+  const transfers = parseEventLogs({
+    abi: CL_POSITION_MANAGER_ABI,
+    logs: logs.filter(log => isAddressEqual(log.address, positionManager)),
+    eventName: 'Transfer',
+  });
+  const minted = transfers.find(({ args }) => isAddressEqual(args.from, ZERO_ADDRESS) && isAddressEqual(args.to, owner));
+  return minted ? minted.args.id : null;
+}
+
+/**
+ * Upper bound on the amount a mint may pull, `slippageBps` above the estimate
+ */
+export function withSlippageCap(amount: bigint, slippageBps: number): bigint {
+  return (amount * BigInt(10000 + slippageBps)) / BigInt(10000);
+}
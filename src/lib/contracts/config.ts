@@ -9,6 +9,7 @@ import AureliaSmartQuoterV5ABI from '../../abis/AureliaSmartQuoterV5.json';
 import Gateway4626BufferABI from '../../abis/Gateway4626Buffer.json';
 import GatewayRegistryABI from '../../abis/GatewayRegistry.json';
 import TokenRegistryV2ABI from '../../abis/TokenRegistryV2.json';
+import TokenListABI from '../../abis/TokenList.json';
 import PoolRegistryABI from '../../abis/PoolRegistry.json';
 import GatewayKeeperABI from '../../abis/GatewayKeeper.json';
 import BufferStakerV2ABI from '../../abis/BufferStakerV2.json';
@@ -95,6 +96,16 @@ export const ABIS = {
    */
   TokenRegistryV2: TokenRegistryV2ABI,
   
+  /**
+   * TokenList - Curated on-chain token list
+   * 
+   * Key functions:
+   * - getEnabledTokens(start, limit) - Page through enabled tokens
+   * - allPaginated(start, limit) - Page through every listed token
+   * - meta(token) - Get tag, decimals and enabled flag
+   */
+  TokenList: TokenListABI,
+  
   /**
    * PoolRegistry - Central pool registry
    * 
@@ -209,6 +220,7 @@ const CONTRACT_ABIS: Partial<Record<keyof ChainContracts, readonly unknown[]>> =
   gateway4626Buffer: Gateway4626BufferABI as readonly unknown[],
   gatewayRegistry: GatewayRegistryABI as readonly unknown[],
   tokenRegistry: TokenRegistryV2ABI as readonly unknown[],
+  tokenList: TokenListABI as readonly unknown[],
   poolRegistry: PoolRegistryABI as readonly unknown[],
   gatewayKeeper: GatewayKeeperABI as readonly unknown[],
   bufferStaker: BufferStakerV2ABI as readonly unknown[],
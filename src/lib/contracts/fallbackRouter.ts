@@ -0,0 +1,630 @@
+/** In-browser route finder used when the Quoter API is unavailable */
+import { Abi, AbiFunction, AbiParameter, Address, Hex, PublicClient, encodeAbiParameters, keccak256, numberToHex } from 'viem';
+import { ABIS, ZERO_ADDRESS } from './config';
+import { getContractAddress, isContractConfigured } from './addresses';
+import { IgnisError, logError } from './errors';
+import { MAX_ROUTE_STEPS, PackedRouteStep, encodeSingleRoute } from './route';
+import { getPriceFromId } from './binDistribution';
+import { RouteAction } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Candidate paths priced per request, shortest first */
+export const MAX_FALLBACK_CANDIDATES = 24;
+
+/** Fallback quotes are priced by the browser, so keep them short-lived */
+export const FALLBACK_VALID_FOR_BLOCKS = 5;
+
+/** Per-step gas used when the quoter's GAS_* constants cannot be read */
+const DEFAULT_STEP_GAS = BigInt(120000);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ABIS
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// The bundled ABIs name their struct and user-defined value types
+// (CLPoolInfo, QuoteExactInputSingleParams, PoolId) without spelling them
+// out, which viem cannot encode. The entries used here come from the bundle
+// with only those types filled in: pool infos mirror PoolRegistry's
+// register* parameters, quoter params and pool keys the PCS V4 layout.
+
+const POOL_KEY_COMPONENTS = [
+  { name: 'currency0', type: 'address' },
+  { name: 'currency1', type: 'address' },
+  { name: 'hooks', type: 'address' },
+  { name: 'poolManager', type: 'address' },
+  { name: 'fee', type: 'uint24' },
+  { name: 'parameters', type: 'bytes32' },
+] as const;
+
+const QUOTE_PARAMS_COMPONENTS: readonly AbiParameter[] = [
+  { name: 'poolKey', type: 'tuple', components: POOL_KEY_COMPONENTS },
+  { name: 'zeroForOne', type: 'bool' },
+  { name: 'exactAmount', type: 'uint128' },
+  { name: 'hookData', type: 'bytes' },
+];
+
+function findBundledFunction(abi: readonly unknown[], name: string, outputName?: string): AbiFunction {
+  const entry = (abi as Abi).find((item): item is AbiFunction =>
+    item.type === 'function'
+    && item.name === name
+    && (!outputName || item.outputs.some(output => output.name === outputName)));
+  if (!entry) {
+    throw new Error(`${name} is missing from the bundled ABI`);
+  }
+  return entry;
+}
+
+const asTuple = (param: AbiParameter, components: readonly AbiParameter[]): AbiParameter =>
+  ({ ...param, type: param.type.endsWith('[]') ? 'tuple[]' : 'tuple', components }) as AbiParameter;
+
+/** get*PoolsForPair with its infos struct laid out as the matching register* call */
+function registryPairReader(name: string, register: string): AbiFunction {
+  const entry = findBundledFunction(ABIS.PoolRegistry, name);
+  const fields = findBundledFunction(ABIS.PoolRegistry, register).inputs;
+  return { ...entry, outputs: entry.outputs.map(output => (output.name === 'infos' ? asTuple(output, fields) : output)) };
+}
+
+/** SmartQuoter's quoteExactInputSingle overload told apart by its outputs */
+function quoterExactInputSingle(outputName: string): AbiFunction {
+  const entry = findBundledFunction(ABIS.AureliaSmartQuoterV5, 'quoteExactInputSingle', outputName);
+  return { ...entry, inputs: entry.inputs.map(input => asTuple(input, QUOTE_PARAMS_COMPONENTS)) };
+}
+
+/** Pool manager getter keyed by PoolId (bytes32) */
+function poolManagerReader(abi: readonly unknown[], name: string): AbiFunction {
+  const entry = findBundledFunction(abi, name);
+  return { ...entry, inputs: entry.inputs.map(input => (input.type === 'PoolId' ? { ...input, type: 'bytes32' } : input)) };
+}
+
+const POOL_REGISTRY_ABI = [
+  registryPairReader('getCLPoolsForPair', 'registerCLPool'),
+  registryPairReader('getBinPoolsForPair', 'registerBinPool'),
+];
+
+const CL_QUOTER_ABI = [quoterExactInputSingle('sqrtPriceX96After')];
+const BIN_QUOTER_ABI = [quoterExactInputSingle('activeIdAfter')];
+
+const CL_SLOT0_ABI = [poolManagerReader(ABIS.CLPoolManager, 'getSlot0')];
+const BIN_SLOT0_ABI = [poolManagerReader(ABIS.BinPoolManager, 'getSlot0')];
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface FallbackQuoteParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  chainId: number;
+}
+
+/** Registry pool as returned by PoolRegistry.get*PoolsForPair */
+export type RegistryPool =
+  | { type: 'CL'; token0: Address; token1: Address; fee: number; tickSpacing: number; hooks: Address }
+  | { type: 'BIN'; token0: Address; token1: Address; binStep: number; hooks: Address };
+
+/** Registry info tuple as decoded from get*PoolsForPair */
+interface RegistryPoolInfo {
+  token0: Address;
+  token1: Address;
+  fee?: number;
+  tickSpacing?: number;
+  binStep?: number;
+  hooks: Address;
+}
+
+/** Pre-trade state of a pool, for pricing a step at spot */
+export type PoolSpot =
+  | { type: 'CL'; sqrtPriceX96: bigint }
+  | { type: 'BIN'; activeId: number; binStep: number };
+
+/** Vault from TokenRegistryV2 and the token it wraps */
+export interface RegistryVault {
+  vault: Address;
+  underlying: Address;
+}
+
+/**
+ * One directed hop in the routing graph. `pool` is kept for swap edges so the
+ * step can be priced with the pool's quoter.
+ */
+export interface RouteEdge {
+  step: PackedRouteStep;
+  pool?: RegistryPool;
+}
+
+export interface FallbackRoute {
+  steps: PackedRouteStep[];
+  encodedRoute: Hex;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Output of every step, in order */
+  stepAmountsOut: bigint[];
+  gasEstimate: bigint;
+  /** Shortfall against spot prices and vault exchange rates, fees included */
+  priceImpactBps: number;
+  quotedBlock: bigint;
+  /** Number of candidate paths that priced successfully */
+  candidatesPriced: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GRAPH
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const key = (address: Address): string => address.toLowerCase();
+
+function addEdge(graph: Map<string, RouteEdge[]>, edge: RouteEdge): void {
+  const from = key(edge.step.tokenIn);
+  graph.set(from, [...(graph.get(from) ?? []), edge]);
+}
+
+/**
+ * Build the directed routing graph: both directions of every pool, plus
+ * WRAP (underlying → vault) and UNWRAP (vault → underlying) for every vault
+ */
+export function buildRouteGraph(pools: RegistryPool[], vaults: RegistryVault[]): Map<string, RouteEdge[]> {
+  const graph = new Map<string, RouteEdge[]>();
+
+  for (const pool of pools) {
+    for (const zeroForOne of [true, false]) {
+      const tokenIn = zeroForOne ? pool.token0 : pool.token1;
+      const tokenOut = zeroForOne ? pool.token1 : pool.token0;
+      const step: PackedRouteStep = pool.type === 'CL'
+        ? {
+          action: RouteAction.SWAP_CL,
+          tokenIn,
+          tokenOut,
+          poolData: {
+            type: 'CL',
+            token0: pool.token0,
+            token1: pool.token1,
+            fee: pool.fee,
+            tickSpacing: pool.tickSpacing,
+            hooks: pool.hooks,
+            zeroForOne,
+          },
+        }
+        : {
+          action: RouteAction.SWAP_BIN,
+          tokenIn,
+          tokenOut,
+          poolData: {
+            type: 'BIN',
+            token0: pool.token0,
+            token1: pool.token1,
+            binStep: pool.binStep,
+            hooks: pool.hooks,
+            swapForY: zeroForOne,
+          },
+        };
+      addEdge(graph, { step, pool });
+    }
+  }
+
+  for (const { vault, underlying } of vaults) {
+    // Direct vault deposits; the buffer's state is unknown without the quoter
+    addEdge(graph, {
+      step: { action: RouteAction.WRAP, tokenIn: underlying, tokenOut: vault, poolData: { type: 'VAULT', vault, useBuffer: false } },
+    });
+    addEdge(graph, {
+      step: { action: RouteAction.UNWRAP, tokenIn: vault, tokenOut: underlying, poolData: { type: 'VAULT', vault, useBuffer: false } },
+    });
+  }
+
+  return graph;
+}
+
+/**
+ * Every simple path from tokenIn to tokenOut of at most `maxSteps` hops,
+ * shortest first and capped at `limit`
+ */
+export function enumerateRoutePaths(
+  graph: Map<string, RouteEdge[]>,
+  tokenIn: Address,
+  tokenOut: Address,
+  maxSteps: number = MAX_ROUTE_STEPS,
+  limit: number = MAX_FALLBACK_CANDIDATES
+): RouteEdge[][] {
+  const target = key(tokenOut);
+  const paths: RouteEdge[][] = [];
+
+  // Breadth-first so shorter (cheaper, more reliable) paths fill the cap first
+  let frontier: { path: RouteEdge[]; visited: Set<string> }[] = [
+    { path: [], visited: new Set([key(tokenIn)]) },
+  ];
+
+  for (let depth = 0; depth < maxSteps && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const { path, visited } of frontier) {
+      const at = path.length > 0 ? key(path[path.length - 1]!.step.tokenOut) : key(tokenIn);
+      for (const edge of graph.get(at) ?? []) {
+        const to = key(edge.step.tokenOut);
+        if (to === target) {
+          paths.push([...path, edge]);
+          if (paths.length >= limit) return paths;
+        } else if (!visited.has(to)) {
+          next.push({ path: [...path, edge], visited: new Set([...visited, to]) });
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return paths;
+}
+
+/**
+ * PoolKey.parameters for a hookless pool: tick spacing (CL) or bin step (BIN)
+ * sits above the 16-bit hooks registration bitmap
+ */
+export function encodePoolParameters(pool: RegistryPool): Hex {
+  const value = pool.type === 'CL' ? pool.tickSpacing : pool.binStep;
+  return numberToHex(BigInt(value) << BigInt(16), { size: 32 });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DISCOVERY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Active TokenRegistryV2 vaults with their underlying tokens
+ */
+export async function loadRegistryVaults(client: PublicClient, chainId: number): Promise<RegistryVault[]> {
+  if (!isContractConfigured(chainId, 'tokenRegistry')) return [];
+  const tokenRegistry = getContractAddress(chainId, 'tokenRegistry');
+
+  const vaults = await client.readContract({
+    address: tokenRegistry,
+    abi: ABIS.TokenRegistryV2,
+    functionName: 'getActiveVaults',
+  }) as Address[];
+
+  const underlyings = await Promise.all(vaults.map(vault => client.readContract({
+    address: tokenRegistry,
+    abi: ABIS.TokenRegistryV2,
+    functionName: 'getUnderlying',
+    args: [vault],
+  }) as Promise<Address>));
+
+  return vaults.map((vault, i) => ({ vault, underlying: underlyings[i]! }));
+}
+
+/**
+ * Registry pools between every pair of candidate tokens. Hooked pools are
+ * skipped: the registry does not expose a hook's permission bitmap, so their
+ * PoolKey cannot be rebuilt for the quoter.
+ */
+async function loadPools(client: PublicClient, chainId: number, tokens: Address[]): Promise<RegistryPool[]> {
+  const poolRegistry = getContractAddress(chainId, 'poolRegistry');
+  const pairs: [Address, Address][] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    for (let j = i + 1; j < tokens.length; j++) {
+      pairs.push([tokens[i]!, tokens[j]!]);
+    }
+  }
+
+  const results = await client.multicall({
+    allowFailure: true,
+    contracts: pairs.flatMap(([tokenA, tokenB]) => [
+      { address: poolRegistry, abi: POOL_REGISTRY_ABI, functionName: 'getCLPoolsForPair', args: [tokenA, tokenB] },
+      { address: poolRegistry, abi: POOL_REGISTRY_ABI, functionName: 'getBinPoolsForPair', args: [tokenA, tokenB] },
+    ]),
+  });
+
+  const pools: RegistryPool[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'success') return;
+    const [, infos] = result.result as readonly [readonly Hex[], readonly RegistryPoolInfo[]];
+    // Calls alternate CL, BIN per pair
+    const isCL = i % 2 === 0;
+    for (const info of infos) {
+      if (info.hooks !== ZERO_ADDRESS) continue;
+      pools.push(isCL
+        ? { type: 'CL', token0: info.token0, token1: info.token1, fee: info.fee!, tickSpacing: info.tickSpacing!, hooks: info.hooks }
+        : { type: 'BIN', token0: info.token0, token1: info.token1, binStep: info.binStep!, hooks: info.hooks });
+    }
+  });
+  return pools;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRICING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const abs = (value: bigint): bigint => (value < BigInt(0) ? -value : value);
+
+const BPS = BigInt(10000);
+const Q96 = 2 ** 96;
+
+/**
+ * Output of `amountIn` at the pool's spot price, before fees and impact.
+ * Raw units; a float since it only feeds the price impact ratio.
+ */
+export function getSpotAmountOut(spot: PoolSpot, zeroForOne: boolean, amountIn: bigint): number {
+  // Raw token1 per raw token0 (Y per X for bins)
+  const price = spot.type === 'CL'
+    ? (Number(spot.sqrtPriceX96) / Q96) ** 2
+    : getPriceFromId(spot.activeId, spot.binStep, 0, 0);
+  return zeroForOne ? Number(amountIn) * price : Number(amountIn) / price;
+}
+
+/**
+ * Route price impact in bps from each leg's quoted output and its output at
+ * spot. Legs compound, so the shortfalls multiply rather than add.
+ */
+export function getPriceImpactBps(legs: { amountOut: bigint; spotAmountOut: number }[]): number {
+  const ratio = legs.reduce((acc, leg) => (leg.spotAmountOut > 0 ? acc * (Number(leg.amountOut) / leg.spotAmountOut) : acc), 1);
+  return Math.max(0, Math.round((1 - ratio) * 10000));
+}
+
+/** Addresses and per-request caches shared by every priced step */
+interface PricingContext {
+  client: PublicClient;
+  chainId: number;
+  smartQuoter: Address;
+  clQuoter: Address;
+  binQuoter: Address;
+  vaultFees: Map<string, Promise<bigint>>;
+}
+
+function getVaultFeeBps(ctx: PricingContext, vault: Address, isWrap: boolean): Promise<bigint> {
+  const id = `${key(vault)}:${isWrap}`;
+  let fee = ctx.vaultFees.get(id);
+  if (!fee) {
+    fee = ctx.client.readContract({
+      address: ctx.smartQuoter,
+      abi: ABIS.AureliaSmartQuoterV5,
+      functionName: 'getVaultFeeBps',
+      args: [vault, isWrap],
+    }) as Promise<bigint>;
+    ctx.vaultFees.set(id, fee);
+  }
+  return fee;
+}
+
+function buildQuoterPoolKey(chainId: number, pool: RegistryPool) {
+  return {
+    currency0: pool.token0,
+    currency1: pool.token1,
+    hooks: pool.hooks,
+    poolManager: getContractAddress(chainId, pool.type === 'CL' ? 'clPoolManager' : 'binPoolManager'),
+    // Bin route data carries no fee field, so bin pools are keyed with fee 0
+    fee: pool.type === 'CL' ? pool.fee : 0,
+    parameters: encodePoolParameters(pool),
+  };
+}
+
+async function priceStep(ctx: PricingContext, edge: RouteEdge, amountIn: bigint): Promise<bigint> {
+  const { client, chainId } = ctx;
+  const { step, pool } = edge;
+
+  if (step.poolData.type === 'VAULT') {
+    const isWrap = step.action === RouteAction.WRAP;
+    const [previewed, feeBps] = await Promise.all([
+      client.readContract({
+        address: step.poolData.vault,
+        abi: ABIS.ERC4626,
+        functionName: isWrap ? 'previewDeposit' : 'previewRedeem',
+        args: [amountIn],
+      }) as Promise<bigint>,
+      getVaultFeeBps(ctx, step.poolData.vault, isWrap),
+    ]);
+    // ERC4626 previews leave out the gateway's vault fee
+    return (previewed * (BPS - feeBps)) / BPS;
+  }
+
+  if (!pool) {
+    throw new Error('Swap edge without pool');
+  }
+  const zeroForOne = step.tokenIn.toLowerCase() === pool.token0.toLowerCase();
+  const { result } = await client.simulateContract({
+    address: pool.type === 'CL' ? ctx.clQuoter : ctx.binQuoter,
+    abi: pool.type === 'CL' ? CL_QUOTER_ABI : BIN_QUOTER_ABI,
+    functionName: 'quoteExactInputSingle',
+    args: [{ poolKey: buildQuoterPoolKey(chainId, pool), zeroForOne, exactAmount: amountIn, hookData: '0x' }],
+  });
+  const [deltas] = result as readonly [readonly bigint[], ...unknown[]];
+
+  // Sign conventions differ between quoter versions; the output side is all we need
+  return abs(deltas[zeroForOne ? 1 : 0] ?? BigInt(0));
+}
+
+async function readPoolSpot(ctx: PricingContext, pool: RegistryPool): Promise<PoolSpot> {
+  const poolKey = buildQuoterPoolKey(ctx.chainId, pool);
+  const id = keccak256(encodeAbiParameters([{ type: 'tuple', components: POOL_KEY_COMPONENTS }], [poolKey]));
+  if (pool.type === 'CL') {
+    const [sqrtPriceX96] = await ctx.client.readContract({
+      address: poolKey.poolManager,
+      abi: CL_SLOT0_ABI,
+      functionName: 'getSlot0',
+      args: [id],
+    }) as readonly [bigint, ...unknown[]];
+    return { type: 'CL', sqrtPriceX96 };
+  }
+  const [activeId] = await ctx.client.readContract({
+    address: poolKey.poolManager,
+    abi: BIN_SLOT0_ABI,
+    functionName: 'getSlot0',
+    args: [id],
+  }) as readonly [number, ...unknown[]];
+  return { type: 'BIN', activeId, binStep: pool.binStep };
+}
+
+/**
+ * Price impact of a priced path: swap legs against the pools' current spot
+ * price, vault legs against the fee-free exchange rate
+ */
+async function getPathPriceImpactBps(ctx: PricingContext, path: RouteEdge[], amountIn: bigint, amounts: bigint[]): Promise<number> {
+  const legs = await Promise.all(path.map(async ({ step, pool }, i) => {
+    const input = i > 0 ? amounts[i - 1]! : amountIn;
+    const amountOut = amounts[i]!;
+    if (step.poolData.type === 'VAULT') {
+      const feeBps = await getVaultFeeBps(ctx, step.poolData.vault, step.action === RouteAction.WRAP);
+      return { amountOut, spotAmountOut: (Number(amountOut) * 10000) / (10000 - Number(feeBps)) };
+    }
+    if (!pool) {
+      throw new Error('Swap edge without pool');
+    }
+    const zeroForOne = step.tokenIn.toLowerCase() === pool.token0.toLowerCase();
+    return { amountOut, spotAmountOut: getSpotAmountOut(await readPoolSpot(ctx, pool), zeroForOne, input) };
+  }));
+  return getPriceImpactBps(legs);
+}
+
+async function loadStepGas(client: PublicClient, chainId: number): Promise<Record<number, bigint>> {
+  const smartQuoter = getContractAddress(chainId, 'smartQuoter');
+  const read = (functionName: string) => client.readContract({
+    address: smartQuoter,
+    abi: ABIS.AureliaSmartQuoterV5,
+    functionName,
+  }).then(value => value as bigint, () => DEFAULT_STEP_GAS);
+
+  const [cl, bin, wrap, unwrap] = await Promise.all([
+    read('GAS_SWAP_CL'),
+    read('GAS_SWAP_BIN'),
+    read('GAS_WRAP_DIRECT'),
+    read('GAS_UNWRAP_DIRECT'),
+  ]);
+  return {
+    [RouteAction.SWAP_CL]: cl,
+    [RouteAction.SWAP_BIN]: bin,
+    [RouteAction.WRAP]: wrap,
+    [RouteAction.UNWRAP]: unwrap,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENTRY POINT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Find and price the best single-path route without the Quoter API.
+ *
+ * Candidate tokens are the pair, the SmartQuoter's routing tokens and their
+ * vault counterparts; pools come from PoolRegistry. Each path is priced
+ * step by step through the SmartQuoter's pool quoters and vault fees (shared
+ * prefixes are priced once) and the highest output wins. Its price impact is
+ * then measured against the live spot prices of the pools it uses.
+ *
+ * @throws IgnisError NOT_CONFIGURED when the registries or quoters are not deployed
+ * @throws IgnisError NoRouteFound when no candidate prices successfully
+ * @throws IgnisError PRICE_IMPACT_UNKNOWN when the route's spot prices cannot be read
+ */
+export async function findFallbackRoute(client: PublicClient, params: FallbackQuoteParams): Promise<FallbackRoute> {
+  const { tokenIn, tokenOut, amountIn, chainId } = params;
+
+  const required = ['poolRegistry', 'smartQuoter', 'clPoolManager', 'binPoolManager'] as const;
+  if (!required.every(name => isContractConfigured(chainId, name))) {
+    throw new IgnisError({
+      code: 'NOT_CONFIGURED',
+      message: 'Fallback routing contracts not configured',
+      userMessage: 'Routing is unavailable on this network',
+    });
+  }
+
+  const smartQuoter = getContractAddress(chainId, 'smartQuoter');
+  const readQuoter = (functionName: string) => client.readContract({
+    address: smartQuoter,
+    abi: ABIS.AureliaSmartQuoterV5,
+    functionName,
+  });
+
+  const [routingTokens, clQuoter, binQuoter, vaults, stepGas, quotedBlock] = await Promise.all([
+    readQuoter('getRoutingTokens') as Promise<Address[]>,
+    // Price with the same pool quoters the SmartQuoter uses
+    readQuoter('clQuoter') as Promise<Address>,
+    readQuoter('binQuoter') as Promise<Address>,
+    loadRegistryVaults(client, chainId).catch((error: unknown) => {
+      logError('findFallbackRoute.loadRegistryVaults', error);
+      return [] as RegistryVault[];
+    }),
+    loadStepGas(client, chainId),
+    client.getBlockNumber(),
+  ]);
+
+  // Pair tokens and routing tokens, plus whatever they wrap into or out of
+  const seeds = [tokenIn, tokenOut, ...routingTokens];
+  const seedKeys = new Set(seeds.map(key));
+  const tokenSet = new Map(seeds.map(token => [key(token), token]));
+  for (const { vault, underlying } of vaults) {
+    if (seedKeys.has(key(underlying))) tokenSet.set(key(vault), vault);
+    if (seedKeys.has(key(vault))) tokenSet.set(key(underlying), underlying);
+  }
+
+  const pools = await loadPools(client, chainId, [...tokenSet.values()]);
+  const graph = buildRouteGraph(pools, vaults.filter(v => tokenSet.has(key(v.vault)) && tokenSet.has(key(v.underlying))));
+  const candidates = enumerateRoutePaths(graph, tokenIn, tokenOut);
+  const ctx: PricingContext = { client, chainId, smartQuoter, clQuoter, binQuoter, vaultFees: new Map() };
+
+  // Memoise by path prefix so shared hops are only quoted once
+  const prefixCache = new Map<string, Promise<bigint[]>>();
+  const edgeId = (edge: RouteEdge): string =>
+    `${edge.step.action}:${edge.step.tokenIn}:${edge.step.tokenOut}:${JSON.stringify(edge.step.poolData)}`;
+
+  const pricePrefix = (path: RouteEdge[]): Promise<bigint[]> => {
+    const id = path.map(edgeId).join('|');
+    const cached = prefixCache.get(id);
+    if (cached) return cached;
+
+    const promise = (async () => {
+      const previous = path.length > 1 ? await pricePrefix(path.slice(0, -1)) : [];
+      const input = previous.length > 0 ? previous[previous.length - 1]! : amountIn;
+      const out = await priceStep(ctx, path[path.length - 1]!, input);
+      if (out <= BigInt(0)) throw new Error('Zero output');
+      return [...previous, out];
+    })();
+    prefixCache.set(id, promise);
+    return promise;
+  };
+
+  const priced = await Promise.all(candidates.map(path =>
+    pricePrefix(path).then(amounts => ({ path, amounts }), () => null)
+  ));
+
+  let best: { path: RouteEdge[]; amounts: bigint[] } | null = null;
+  let count = 0;
+  for (const candidate of priced) {
+    if (!candidate) continue;
+    count++;
+    const out = candidate.amounts[candidate.amounts.length - 1]!;
+    if (!best || out > best.amounts[best.amounts.length - 1]!) best = candidate;
+  }
+
+  if (!best) {
+    throw new IgnisError({
+      code: 'NoRouteFound',
+      message: `No fallback route from ${tokenIn} to ${tokenOut} (${candidates.length} candidates)`,
+      userMessage: 'No route found for this pair',
+      details: { candidates: candidates.length },
+    });
+  }
+
+  let priceImpactBps: number;
+  try {
+    priceImpactBps = await getPathPriceImpactBps(ctx, best.path, amountIn, best.amounts);
+  } catch (error: unknown) {
+    throw new IgnisError({
+      code: 'PRICE_IMPACT_UNKNOWN',
+      message: 'Could not read spot prices for the fallback route',
+      userMessage: 'Price impact could not be checked; try again shortly',
+      details: { error: error instanceof Error ? error.message : String(error) },
+    });
+  }
+
+  const steps = best.path.map(edge => edge.step);
+  return {
+    steps,
+    encodedRoute: encodeSingleRoute(steps),
+    amountIn,
+    amountOut: best.amounts[best.amounts.length - 1]!,
+    stepAmountsOut: best.amounts,
+    gasEstimate: steps.reduce((sum, step) => sum + (stepGas[step.action] ?? DEFAULT_STEP_GAS), BigInt(0)),
+    priceImpactBps,
+    quotedBlock,
+    candidatesPriced: count,
+  };
+}
@@ -5,3 +5,16 @@ export * from './types';
 export * from './errors';
 export * from './validation';
 export * from './txUtils';
+export * from './route';
+export * from './receipt';
+export * from './native';
+export * from './simulation';
+export * from './fallbackRouter';
+export * from './permit';
+export * from './approvals';
+export * from './tickMath';
+export * from './clPosition';
+export * from './binDistribution';
+export * from './positionValue';
+export * from './positionFees';
+export * from './zap';
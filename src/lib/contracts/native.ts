@@ -0,0 +1,80 @@
+/** Native token (ETH) handling for the swap flow */
+import { Address, isAddressEqual } from 'viem';
+import { NATIVE_TOKEN_WRAPPER, ZERO_ADDRESS } from './config';
+import { IgnisError } from './errors';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Minimal token shape needed to tell native ETH apart from ERC20s */
+export interface NativeAwareToken {
+  address?: Address | string;
+  isNative?: boolean;
+}
+
+/**
+ * Direct ETH ⇄ WETH conversion through the router, bypassing the quoter.
+ * - wrap: router.deposit() with msg.value
+ * - unwrap: router.withdraw(amount)
+ */
+export type WrapKind = 'wrap' | 'unwrap';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Native tokens are flagged `isNative` and carry the zero address (or none)
+ */
+export function isNativeToken(token: NativeAwareToken | null | undefined): boolean {
+  if (!token) return false;
+  if (token.isNative) return true;
+  return !!token.address && isAddressEqual(token.address as Address, ZERO_ADDRESS);
+}
+
+/**
+ * Get the wrapped native token for a chain
+ * @throws IgnisError if the chain has no known wrapper
+ */
+export function getWrappedNativeAddress(chainId: number): Address {
+  const wrapper = NATIVE_TOKEN_WRAPPER[chainId];
+  if (!wrapper) {
+    throw new IgnisError({
+      code: 'NOT_CONFIGURED',
+      message: `No native token wrapper for chain ${chainId}`,
+      userMessage: 'Native ETH is not supported on this network',
+    });
+  }
+  return wrapper;
+}
+
+export function isWrappedNativeToken(token: NativeAwareToken | null | undefined, chainId: number): boolean {
+  const wrapper = NATIVE_TOKEN_WRAPPER[chainId];
+  if (!token?.address || !wrapper || isNativeToken(token)) return false;
+  return isAddressEqual(token.address as Address, wrapper);
+}
+
+/**
+ * Address to quote and route with. Routes always trade WETH; native ETH is
+ * wrapped on the way in (msg.value) and unwrapped on the way out
+ * (executeRouteUnwrapETH).
+ */
+export function getRoutableAddress(token: NativeAwareToken | null | undefined, chainId: number): Address | null {
+  if (!token) return null;
+  if (isNativeToken(token)) return NATIVE_TOKEN_WRAPPER[chainId] ?? null;
+  return (token.address as Address | undefined) ?? null;
+}
+
+/**
+ * Detect a plain ETH ⇄ WETH pair, which is converted 1:1 without a route
+ */
+export function getWrapKind(
+  tokenIn: NativeAwareToken | null | undefined,
+  tokenOut: NativeAwareToken | null | undefined,
+  chainId: number
+): WrapKind | null {
+  if (isNativeToken(tokenIn) && isWrappedNativeToken(tokenOut, chainId)) return 'wrap';
+  if (isWrappedNativeToken(tokenIn, chainId) && isNativeToken(tokenOut)) return 'unwrap';
+  return null;
+}
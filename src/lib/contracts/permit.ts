@@ -0,0 +1,96 @@
+import { parseAbi } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import type { ApprovalMethod } from '../../types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PERMIT SIGNATURES
+// ─────────────────────────────────────────────────────────────────────────────────
+// Signed approvals, for spenders that take them in the same transaction. The
+// CL position manager pulls through Permit2, so a mint signs a PermitSingle
+// and bundles the manager's permit() with modifyLiquidities in one multicall.
+// GatewayRouterV5 has no permit entry point and pulls its input with a plain
+// transferFrom, so swaps approve the router with a transaction.
+
+/** Canonical Permit2 deployment, same address on every chain */
+export const PERMIT2_ADDRESS: Address = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+/** Permit2 allowances are uint160 */
+export const MAX_PERMIT2_AMOUNT = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+/** Lifetime of a signed Permit2 allowance for spenders that pull through Permit2 */
+export const PERMIT2_APPROVAL_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const APPROVAL_METHOD_LABELS: Record<ApprovalMethod, string> = {
+  none: 'Already approved',
+  approve: 'Approve transaction',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ABIS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const PERMIT2_ABI = parseAbi([
+  'function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface PermitSingle {
+  details: { token: Address; amount: bigint; expiration: number; nonce: number };
+  spender: Address;
+  sigDeadline: bigint;
+}
+
+type PermitReadClient = Pick<PublicClient, 'readContract'>;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ALLOWANCES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Permit2 allowance of `spender` over the owner's `token`, with the nonce
+ * the next PermitSingle for that spender must carry. Spenders that pull
+ * through Permit2 (e.g. the CL position manager) need this on top of the
+ * token's approval of Permit2.
+ */
+export async function readPermit2Allowance(
+  client: PermitReadClient,
+  owner: Address,
+  token: Address,
+  spender: Address
+): Promise<{ amount: bigint; expiration: number; nonce: number }> {
+  const [amount, expiration, nonce] = await client.readContract({
+    address: PERMIT2_ADDRESS,
+    abi: PERMIT2_ABI,
+    functionName: 'allowance',
+    args: [owner, token, spender],
+  });
+  return { amount, expiration, nonce };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPED DATA
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function buildPermit2TypedData(permit: PermitSingle, chainId: number) {
+  return {
+    domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+    types: {
+      PermitSingle: [
+        { name: 'details', type: 'PermitDetails' },
+        { name: 'spender', type: 'address' },
+        { name: 'sigDeadline', type: 'uint256' },
+      ],
+      PermitDetails: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint160' },
+        { name: 'expiration', type: 'uint48' },
+        { name: 'nonce', type: 'uint48' },
+      ],
+    },
+    primaryType: 'PermitSingle',
+    message: permit,
+  } as const;
+}
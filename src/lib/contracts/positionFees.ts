@@ -0,0 +1,199 @@
+/** Fees owed to CL positions, read from the pool manager, and the collect call */
+import { encodeAbiParameters, encodePacked, numberToHex, parseAbi, parseAbiParameters } from 'viem';
+import type { Address, Hex, PublicClient } from 'viem';
+import { CL_POSITION_MANAGER_ABI, PositionAction, getCLPoolId } from './clPosition';
+import type { PositionActionType } from './clPosition';
+import { IgnisError } from './errors';
+import type { CLPoolKey } from './types';
+import type { ContractCall } from './simulation';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const Q128 = BigInt(1) << BigInt(128);
+
+const UINT256 = BigInt(1) << BigInt(256);
+const ZERO = BigInt(0);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ABIS
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// The bundled pool manager ABIs type ids as `PoolId` and return named
+// structs (Tick.Info, CLPosition.Info) without their
+// components, so the reads used here are declared in full.
+
+const CL_POOL_FEES_ABI = parseAbi([
+  'function getSlot0(bytes32 id) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getFeeGrowthGlobals(bytes32 id) view returns (uint256 feeGrowthGlobal0x128, uint256 feeGrowthGlobal1x128)',
+  'function getPoolTickInfo(bytes32 id, int24 tick) view returns ((uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128))',
+  'function getPosition(bytes32 id, address owner, int24 tickLower, int24 tickUpper, bytes32 salt) view returns ((uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128))',
+]);
+
+const CL_POSITIONS_ABI = parseAbi([
+  'function positions(uint256 tokenId) view returns ((address currency0, address currency1, address hooks, address poolManager, uint24 fee, bytes32 parameters) poolKey, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, address subscriber)',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Amounts are raw token units in pool currency order (currency0 first).
+
+export interface FeeGrowth {
+  feeGrowth0X128: bigint;
+  feeGrowth1X128: bigint;
+}
+
+export interface FeeAmounts {
+  amount0: bigint;
+  amount1: bigint;
+}
+
+export interface CLPositionInfo {
+  poolKey: CLPoolKey;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}
+
+export interface CollectFeesParams {
+  positionManager: Address;
+  tokenId: bigint;
+  poolKey: CLPoolKey;
+  recipient: Address;
+  deadline: bigint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CL FEE MATH
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Fee growth is a uint256 accumulator that is allowed to overflow, so every
+// difference is taken mod 2^256 as the pool does.
+
+const wrapUint256 = (value: bigint): bigint => ((value % UINT256) + UINT256) % UINT256;
+
+/**
+ * Fee growth per unit of liquidity inside [tickLower, tickUpper], from the
+ * global growth and the outside growth recorded at both ticks
+ */
+export function getFeeGrowthInside(
+  tickCurrent: number,
+  tickLower: number,
+  tickUpper: number,
+  lowerOutside: FeeGrowth,
+  upperOutside: FeeGrowth,
+  global: FeeGrowth
+): FeeGrowth {
+  const inside = (key: keyof FeeGrowth): bigint => {
+    const below = tickCurrent >= tickLower ? lowerOutside[key] : global[key] - lowerOutside[key];
+    const above = tickCurrent < tickUpper ? upperOutside[key] : global[key] - upperOutside[key];
+    return wrapUint256(global[key] - below - above);
+  };
+  return { feeGrowth0X128: inside('feeGrowth0X128'), feeGrowth1X128: inside('feeGrowth1X128') };
+}
+
+/**
+ * Fees a position has earned since its last checkpoint
+ */
+export function getTokensOwed(liquidity: bigint, feeGrowthInside: FeeGrowth, feeGrowthInsideLast: FeeGrowth): FeeAmounts {
+  const owed = (key: keyof FeeGrowth) => (wrapUint256(feeGrowthInside[key] - feeGrowthInsideLast[key]) * liquidity) / Q128;
+  return { amount0: owed('feeGrowth0X128'), amount1: owed('feeGrowth1X128') };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// READS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** CLPositionManager keys each position in the pool by bytes32(tokenId) */
+const positionSalt = (tokenId: bigint): Hex => numberToHex(tokenId, { size: 32 });
+
+export async function readCLPositionInfo(
+  client: Pick<PublicClient, 'readContract'>,
+  positionManager: Address,
+  tokenId: bigint
+): Promise<CLPositionInfo> {
+  const [poolKey, tickLower, tickUpper, liquidity] = await client.readContract({
+    address: positionManager,
+    abi: CL_POSITIONS_ABI,
+    functionName: 'positions',
+    args: [tokenId],
+  });
+  return { poolKey, tickLower, tickUpper, liquidity };
+}
+
+/**
+ * Fees owed to a CLPositionManager position that have not been collected
+ */
+export async function readCLPositionFees(
+  client: Pick<PublicClient, 'readContract'>,
+  positionManager: Address,
+  tokenId: bigint
+): Promise<FeeAmounts & { info: CLPositionInfo }> {
+  const info = await readCLPositionInfo(client, positionManager, tokenId);
+  const { poolKey, tickLower, tickUpper } = info;
+  const id = getCLPoolId(poolKey);
+  const read = { address: poolKey.poolManager, abi: CL_POOL_FEES_ABI } as const;
+
+  const [[, tick], [global0, global1], lowerInfo, upperInfo, position] = await Promise.all([
+    client.readContract({ ...read, functionName: 'getSlot0', args: [id] }),
+    client.readContract({ ...read, functionName: 'getFeeGrowthGlobals', args: [id] }),
+    client.readContract({ ...read, functionName: 'getPoolTickInfo', args: [id, tickLower] }),
+    client.readContract({ ...read, functionName: 'getPoolTickInfo', args: [id, tickUpper] }),
+    client.readContract({ ...read, functionName: 'getPosition', args: [id, positionManager, tickLower, tickUpper, positionSalt(tokenId)] }),
+  ]);
+
+  const inside = getFeeGrowthInside(
+    tick,
+    tickLower,
+    tickUpper,
+    { feeGrowth0X128: lowerInfo.feeGrowthOutside0X128, feeGrowth1X128: lowerInfo.feeGrowthOutside1X128 },
+    { feeGrowth0X128: upperInfo.feeGrowthOutside0X128, feeGrowth1X128: upperInfo.feeGrowthOutside1X128 },
+    { feeGrowth0X128: global0, feeGrowth1X128: global1 }
+  );
+  const owed = getTokensOwed(position.liquidity, inside, {
+    feeGrowth0X128: position.feeGrowthInside0LastX128,
+    feeGrowth1X128: position.feeGrowthInside1LastX128,
+  });
+  return { ...owed, info };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// COLLECTING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * modifyLiquidities call that decreases a position by zero liquidity, which
+ * checkpoints its fees into the position manager's deltas, then takes both
+ * currencies to the recipient. The position's liquidity is untouched.
+ */
+export function buildCollectFeesCall(params: CollectFeesParams): ContractCall {
+  const { positionManager, tokenId, poolKey, recipient, deadline } = params;
+  if (tokenId <= ZERO) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Invalid position id ${tokenId}`,
+      userMessage: 'Select a valid position',
+    });
+  }
+
+  const actions: PositionActionType[] = [PositionAction.CL_DECREASE_LIQUIDITY, PositionAction.TAKE_PAIR];
+  const actionParams: Hex[] = [
+    encodeAbiParameters(parseAbiParameters('uint256, uint256, uint128, uint128, bytes'), [tokenId, ZERO, ZERO, ZERO, '0x']),
+    encodeAbiParameters(parseAbiParameters('address, address, address'), [poolKey.currency0, poolKey.currency1, recipient]),
+  ];
+
+  const payload = encodeAbiParameters(parseAbiParameters('bytes, bytes[]'), [
+    encodePacked(actions.map(() => 'uint8'), actions),
+    actionParams,
+  ]);
+
+  return {
+    address: positionManager,
+    abi: CL_POSITION_MANAGER_ABI,
+    functionName: 'modifyLiquidities',
+    args: [payload, deadline],
+  };
+}
@@ -0,0 +1,211 @@
+/** Position value versus HODL for CL ranges and LB bins, for simulating impermanent loss and fee breakeven */
+import type { BinPreview } from './binDistribution';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Sweep points per simulation */
+export const DEFAULT_SWEEP_POINTS = 61;
+
+/** How far the sweep reaches past the range (and the current price) on each side */
+export const SWEEP_MARGIN = 1.5;
+
+const DAYS_PER_YEAR = 365;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Prices are human-readable token1 per token0, amounts are in token units
+// and values are in token1.
+
+export interface TokenHoldings {
+  amount0: number;
+  amount1: number;
+}
+
+/**
+ * How a position's holdings move with price. Below `lower` it holds only
+ * token0 and above `upper` only token1.
+ */
+export interface PositionModel {
+  currentPrice: number;
+  lower: number;
+  upper: number;
+  amountsAt: (price: number) => TokenHoldings;
+}
+
+export interface CLPositionInput {
+  currentPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  /** Deposit; the side the range cannot use at currentPrice is ignored */
+  amount0: number;
+  amount1: number;
+}
+
+export interface SimulationPoint extends TokenHoldings {
+  price: number;
+  value: number;
+  /** Value of the deposit had it been held instead */
+  hodlValue: number;
+  /** value / hodlValue - 1, so impermanent loss is negative */
+  ilPercent: number;
+}
+
+export interface SimulationOptions {
+  /** Fee APR in percent, earned while the price is inside the range */
+  feeApr: number;
+  /** Underlying vault APY in percent, earned regardless of price */
+  yieldApr?: number;
+  points?: number;
+}
+
+export interface PositionSimulation {
+  points: SimulationPoint[];
+  /** Deposit value at the current price */
+  initialValue: number;
+  /** Fee and yield income per day at the current price */
+  dailyIncome: number;
+  lower: SimulationPoint;
+  upper: SimulationPoint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MODELS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function clModel(currentPrice: number, minPrice: number, maxPrice: number, liquidity: number): PositionModel {
+  const sqrtLower = Math.sqrt(minPrice);
+  const sqrtUpper = Math.sqrt(maxPrice);
+  return {
+    currentPrice,
+    lower: minPrice,
+    upper: maxPrice,
+    amountsAt: (price) => {
+      const sqrtPrice = Math.min(Math.max(Math.sqrt(price), sqrtLower), sqrtUpper);
+      return {
+        amount0: liquidity * (1 / sqrtPrice - 1 / sqrtUpper),
+        amount1: liquidity * (sqrtPrice - sqrtLower),
+      };
+    },
+  };
+}
+
+function isValidRange(currentPrice: number, minPrice: number, maxPrice: number): boolean {
+  return currentPrice > 0 && minPrice > 0 && maxPrice > minPrice && Number.isFinite(maxPrice) && Number.isFinite(currentPrice);
+}
+
+/**
+ * CL position over [minPrice, maxPrice] holding as much liquidity as the
+ * deposit allows, as in getLiquidityForAmounts. Null for invalid ranges and
+ * empty deposits.
+ */
+export function clPositionModel({ currentPrice, minPrice, maxPrice, amount0, amount1 }: CLPositionInput): PositionModel | null {
+  if (!isValidRange(currentPrice, minPrice, maxPrice)) return null;
+
+  const sqrtPrice = Math.sqrt(currentPrice);
+  const sqrtLower = Math.sqrt(minPrice);
+  const sqrtUpper = Math.sqrt(maxPrice);
+  const fromAmount0 = (sqrtFrom: number) => amount0 / (1 / sqrtFrom - 1 / sqrtUpper);
+  const fromAmount1 = (sqrtTo: number) => amount1 / (sqrtTo - sqrtLower);
+
+  const liquidity = currentPrice <= minPrice
+    ? fromAmount0(sqrtLower)
+    : currentPrice >= maxPrice
+      ? fromAmount1(sqrtUpper)
+      : Math.min(fromAmount0(sqrtPrice), fromAmount1(sqrtPrice));
+
+  return liquidity > 0 && Number.isFinite(liquidity) ? clModel(currentPrice, minPrice, maxPrice, liquidity) : null;
+}
+
+/**
+ * CL position over [minPrice, maxPrice] worth `value` token1 at the current
+ * price, for simulating before amounts are entered
+ */
+export function clPositionModelForValue(currentPrice: number, minPrice: number, maxPrice: number, value: number): PositionModel | null {
+  if (!isValidRange(currentPrice, minPrice, maxPrice) || !(value > 0)) return null;
+  const unit = clModel(currentPrice, minPrice, maxPrice, 1);
+  const { amount0, amount1 } = unit.amountsAt(currentPrice);
+  return clModel(currentPrice, minPrice, maxPrice, value / (amount0 * currentPrice + amount1));
+}
+
+/**
+ * LB position from a bin preview. Once the price has crossed a bin it holds
+ * only token1 (X sold at the bin price) or only token0 (Y bought at it); the
+ * bin the price sits in keeps its deposit as is.
+ */
+export function binPositionModel(bins: BinPreview[], binStep: number, currentPrice: number): PositionModel | null {
+  const funded = bins.filter(bin => bin.amountX > 0 || bin.amountY > 0).sort((a, b) => a.price - b.price);
+  if (funded.length === 0 || !(currentPrice > 0)) return null;
+
+  const stepFactor = 1 + binStep / 10000;
+  return {
+    currentPrice,
+    lower: funded[0]!.price,
+    upper: funded[funded.length - 1]!.price * stepFactor,
+    amountsAt: (price) => funded.reduce((sum, bin) => {
+      if (price >= bin.price * stepFactor) {
+        return { amount0: sum.amount0, amount1: sum.amount1 + bin.amountX * bin.price + bin.amountY };
+      }
+      if (price < bin.price) {
+        return { amount0: sum.amount0 + bin.amountX + bin.amountY / bin.price, amount1: sum.amount1 };
+      }
+      return { amount0: sum.amount0 + bin.amountX, amount1: sum.amount1 + bin.amountY };
+    }, { amount0: 0, amount1: 0 }),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SIMULATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Geometric price sweep covering the range and the current price, reaching
+ * SWEEP_MARGIN past them on each side
+ */
+export function getSweepPrices(model: PositionModel, points: number = DEFAULT_SWEEP_POINTS): number[] {
+  const from = Math.min(model.lower, model.currentPrice) / SWEEP_MARGIN;
+  const to = Math.max(model.upper, model.currentPrice) * SWEEP_MARGIN;
+  const ratio = Math.pow(to / from, 1 / Math.max(points - 1, 1));
+  return Array.from({ length: points }, (_, i) => from * Math.pow(ratio, i));
+}
+
+/**
+ * Days of income needed to make up the position's shortfall against HODL
+ * at a price; 0 when there is none and Infinity without income
+ */
+export function getBreakevenDays(point: SimulationPoint, dailyIncome: number): number {
+  const shortfall = point.hodlValue - point.value;
+  if (shortfall <= 0) return 0;
+  return dailyIncome > 0 ? shortfall / dailyIncome : Infinity;
+}
+
+/**
+ * Value against HODL across a price sweep. Income assumes the position earns
+ * the pool's fee APR on its current value while in range, plus vault yield;
+ * it is a rate, not a forecast of volume.
+ */
+export function simulatePosition(model: PositionModel, { feeApr, yieldApr = 0, points = DEFAULT_SWEEP_POINTS }: SimulationOptions): PositionSimulation {
+  const deposit = model.amountsAt(model.currentPrice);
+  const initialValue = deposit.amount0 * model.currentPrice + deposit.amount1;
+
+  const pointAt = (price: number): SimulationPoint => {
+    const { amount0, amount1 } = model.amountsAt(price);
+    const value = amount0 * price + amount1;
+    const hodlValue = deposit.amount0 * price + deposit.amount1;
+    return { price, amount0, amount1, value, hodlValue, ilPercent: hodlValue > 0 ? (value / hodlValue - 1) * 100 : 0 };
+  };
+
+  const inRange = model.currentPrice >= model.lower && model.currentPrice <= model.upper;
+  const apr = (inRange ? feeApr : 0) + yieldApr;
+
+  return {
+    points: getSweepPrices(model, points).map(pointAt),
+    initialValue,
+    dailyIncome: (initialValue * apr) / 100 / DAYS_PER_YEAR,
+    lower: pointAt(model.lower),
+    upper: pointAt(model.upper),
+  };
+}
@@ -0,0 +1,135 @@
+/** GatewayRouter receipt decoding */
+import { Address, Log, formatUnits, isAddressEqual, parseAbi, parseEventLogs } from 'viem';
+import {
+  RouteActionType,
+  RouteExecutedEvent,
+  SplitRouteExecutedEvent,
+  StepExecutedEvent,
+} from './types';
+
+/** The router events a swap emits, typed so parseEventLogs infers their args (matches GatewayRouterV5.json) */
+const ROUTER_EVENTS_ABI = parseAbi([
+  'event RouteExecuted(address indexed sender, address indexed recipient, address indexed tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut)',
+  'event SplitRouteExecuted(address indexed sender, address indexed recipient, address indexed tokenIn, address tokenOut, uint256 totalAmountIn, uint256 totalAmountOut)',
+  'event StepExecuted(uint8 indexed action, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+]);
+
+const BPS = 10_000n;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Router events emitted by a single executeRoute call.
+ * `steps` are in execution order; for split routes they cover every path.
+ */
+export interface DecodedSwapReceipt {
+  isSplit: boolean;
+  route: RouteExecutedEvent | SplitRouteExecutedEvent;
+  steps: StepExecutedEvent[];
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Decoded receipt compared against the quote it was executed from.
+ * Prices are tokenOut per tokenIn in display units.
+ */
+export interface SwapExecutionReport extends DecodedSwapReceipt {
+  quotedAmountOut: bigint;
+  quotedPrice: number;
+  realizedPrice: number;
+  /** Shortfall vs quote in basis points; negative when more was received */
+  slippageBps: number;
+}
+
+export interface QuotedAmounts {
+  amountIn: string | bigint;
+  expectedAmountOut: string | bigint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DECODING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode the router events from a swap receipt.
+ * Only logs emitted by `router` are considered, so token Transfer events and
+ * logs from pool managers are ignored.
+ *
+ * @returns null if the receipt contains no RouteExecuted / SplitRouteExecuted event
+ */
+export function decodeSwapReceipt(
+  receipt: { logs: Log[] },
+  router: Address
+): DecodedSwapReceipt | null {
+  const logs = parseEventLogs({
+    abi: ROUTER_EVENTS_ABI,
+    logs: receipt.logs.filter(log => isAddressEqual(log.address, router)),
+  });
+
+  const steps: StepExecutedEvent[] = [];
+  let route: RouteExecutedEvent | SplitRouteExecutedEvent | null = null;
+  let isSplit = false;
+
+  for (const log of logs) {
+    if (log.eventName === 'StepExecuted') {
+      const { action, tokenIn, tokenOut, amountIn, amountOut } = log.args;
+      steps.push({ action: action as RouteActionType, tokenIn, tokenOut, amountIn, amountOut });
+    } else if (route) {
+      continue;
+    } else if (log.eventName === 'SplitRouteExecuted') {
+      const { sender, recipient, tokenIn, tokenOut, totalAmountIn, totalAmountOut } = log.args;
+      isSplit = true;
+      route = { sender, recipient, tokenIn, tokenOut, amountIn: totalAmountIn, amountOut: totalAmountOut };
+    } else {
+      const { sender, recipient, tokenIn, tokenOut, amountIn, amountOut } = log.args;
+      route = { sender, recipient, tokenIn, tokenOut, amountIn, amountOut };
+    }
+  }
+
+  if (!route) return null;
+
+  return { isSplit, route, steps, amountIn: route.amountIn, amountOut: route.amountOut };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUOTE COMPARISON
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function toPrice(amountIn: bigint, amountOut: bigint, decimalsIn: number, decimalsOut: number): number {
+  const input = Number(formatUnits(amountIn, decimalsIn));
+  if (input === 0) return 0;
+  return Number(formatUnits(amountOut, decimalsOut)) / input;
+}
+
+/**
+ * Shortfall of `received` vs `quoted` in basis points (rounded toward zero).
+ * Positive means less than quoted was received.
+ */
+export function calculateSlippageBps(quoted: bigint, received: bigint): number {
+  if (quoted === 0n) return 0;
+  return Number(((quoted - received) * BPS) / quoted);
+}
+
+/**
+ * Compare a decoded receipt with the quote it was executed from
+ */
+export function compareWithQuote(
+  decoded: DecodedSwapReceipt,
+  quote: QuotedAmounts,
+  decimalsIn = 18,
+  decimalsOut = 18
+): SwapExecutionReport {
+  const quotedAmountIn = BigInt(quote.amountIn);
+  const quotedAmountOut = BigInt(quote.expectedAmountOut);
+
+  return {
+    ...decoded,
+    quotedAmountOut,
+    quotedPrice: toPrice(quotedAmountIn, quotedAmountOut, decimalsIn, decimalsOut),
+    realizedPrice: toPrice(decoded.amountIn, decoded.amountOut, decimalsIn, decimalsOut),
+    slippageBps: calculateSlippageBps(quotedAmountOut, decoded.amountOut),
+  };
+}
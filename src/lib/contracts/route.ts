@@ -0,0 +1,484 @@
+/** GatewayRouter packed route encoding */
+import {
+  Address,
+  Hex,
+  concat,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  getAddress,
+  numberToHex,
+  size,
+  slice,
+  hexToNumber,
+  hexToBigInt,
+} from 'viem';
+import { RouteAction, RouteActionType, ContractErrorName, ERROR_MESSAGES } from './types';
+import { IgnisError } from './errors';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// WIRE FORMAT CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Mirrors the constants exposed by GatewayRouterV5.
+//
+// Single route:
+//   [numSteps:1][step]...
+//   step = [action:1][tokenIn:20][tokenOut:20][poolDataLen:2][poolData:poolDataLen]
+//
+// Split route:
+//   [SPLIT_MARKER_BYTE0][SPLIT_MARKER_BYTE1][numRoutes:1]
+//   ([routeLen:2][single route:routeLen][amountIn:32])...
+//
+// A single route can never start with 0x00 (it has at least one step), so the
+// marker is unambiguous.
+
+/** First byte of a split route */
+export const SPLIT_MARKER_BYTE0 = 0x00;
+
+/** Second byte of a split route */
+export const SPLIT_MARKER_BYTE1 = 0x01;
+
+/** Maximum steps in a single route (per path for split routes) */
+export const MAX_ROUTE_STEPS = 4;
+
+/** Maximum parallel paths in a split route */
+export const MAX_SPLIT_ROUTES = 4;
+
+/** Minimum encoded step size in bytes: action + tokenIn + tokenOut + poolDataLen */
+export const MIN_STEP_SIZE = 1 + 20 + 20 + 2;
+
+const SPLIT_AMOUNT_SIZE = 32;
+const MAX_UINT16 = 0xffff;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * SWAP_CL pool data
+ * abi.encode(address token0, address token1, uint24 fee, int24 tickSpacing, address hooks, bool zeroForOne)
+ */
+export interface RouteCLPoolData {
+  type: 'CL';
+  token0: Address;
+  token1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+  zeroForOne: boolean;
+}
+
+/**
+ * SWAP_BIN pool data
+ * abi.encode(address token0, address token1, uint16 binStep, address hooks, bool swapForY)
+ */
+export interface RouteBinPoolData {
+  type: 'BIN';
+  token0: Address;
+  token1: Address;
+  binStep: number;
+  hooks: Address;
+  swapForY: boolean;
+}
+
+/**
+ * WRAP / UNWRAP vault data
+ * abi.encode(address vault, bool useBuffer)
+ */
+export interface RouteVaultData {
+  type: 'VAULT';
+  vault: Address;
+  useBuffer: boolean;
+}
+
+export type RoutePoolData = RouteCLPoolData | RouteBinPoolData | RouteVaultData;
+
+/**
+ * Single step of a packed route
+ */
+export interface PackedRouteStep {
+  action: RouteActionType;
+  tokenIn: Address;
+  tokenOut: Address;
+  poolData: RoutePoolData;
+}
+
+/**
+ * One path of a route. `amountIn` is only present for split paths.
+ */
+export interface PackedRoutePath {
+  steps: PackedRouteStep[];
+  amountIn?: bigint;
+}
+
+/**
+ * Fully decoded route
+ */
+export interface PackedRoute {
+  isSplit: boolean;
+  paths: PackedRoutePath[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Encoding errors reuse the router's revert vocabulary, so a route rejected
+ * here is reported the same way as one rejected on-chain.
+ */
+function routeError(code: ContractErrorName, message: string, details?: Record<string, unknown>): IgnisError {
+  return new IgnisError({
+    code,
+    message,
+    userMessage: ERROR_MESSAGES[code],
+    details,
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// POOL DATA
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const CL_POOL_DATA_ABI = [
+  { type: 'address' },
+  { type: 'address' },
+  { type: 'uint24' },
+  { type: 'int24' },
+  { type: 'address' },
+  { type: 'bool' },
+] as const;
+
+const BIN_POOL_DATA_ABI = [
+  { type: 'address' },
+  { type: 'address' },
+  { type: 'uint16' },
+  { type: 'address' },
+  { type: 'bool' },
+] as const;
+
+const VAULT_DATA_ABI = [
+  { type: 'address' },
+  { type: 'bool' },
+] as const;
+
+function expectedPoolDataType(action: number): RoutePoolData['type'] {
+  switch (action) {
+    case RouteAction.SWAP_CL: return 'CL';
+    case RouteAction.SWAP_BIN: return 'BIN';
+    case RouteAction.WRAP:
+    case RouteAction.UNWRAP: return 'VAULT';
+    default:
+      throw routeError('InvalidStep', `Unknown route action: ${action}`, { action });
+  }
+}
+
+/**
+ * ABI-encode the pool data for a step
+ */
+export function encodePoolData(action: RouteActionType, poolData: RoutePoolData): Hex {
+  if (expectedPoolDataType(action) !== poolData.type) {
+    throw routeError('InvalidStep', `Pool data type ${poolData.type} does not match action ${action}`, { action });
+  }
+
+  switch (poolData.type) {
+    case 'CL':
+      return encodeAbiParameters(CL_POOL_DATA_ABI, [
+        poolData.token0,
+        poolData.token1,
+        poolData.fee,
+        poolData.tickSpacing,
+        poolData.hooks,
+        poolData.zeroForOne,
+      ]);
+    case 'BIN':
+      return encodeAbiParameters(BIN_POOL_DATA_ABI, [
+        poolData.token0,
+        poolData.token1,
+        poolData.binStep,
+        poolData.hooks,
+        poolData.swapForY,
+      ]);
+    case 'VAULT':
+      return encodeAbiParameters(VAULT_DATA_ABI, [poolData.vault, poolData.useBuffer]);
+  }
+}
+
+/**
+ * Decode ABI-encoded pool data for a step
+ */
+export function decodePoolData(action: number, data: Hex): RoutePoolData {
+  const type = expectedPoolDataType(action);
+
+  try {
+    if (type === 'CL') {
+      const [token0, token1, fee, tickSpacing, hooks, zeroForOne] = decodeAbiParameters(CL_POOL_DATA_ABI, data);
+      return { type, token0, token1, fee, tickSpacing, hooks, zeroForOne };
+    }
+
+    if (type === 'BIN') {
+      const [token0, token1, binStep, hooks, swapForY] = decodeAbiParameters(BIN_POOL_DATA_ABI, data);
+      return { type, token0, token1, binStep, hooks, swapForY };
+    }
+
+    const [vault, useBuffer] = decodeAbiParameters(VAULT_DATA_ABI, data);
+    return { type, vault, useBuffer };
+  } catch (error: unknown) {
+    throw routeError('InvalidStep', `Malformed pool data for action ${action}`, {
+      action,
+      cause: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SINGLE ROUTES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function assertStepCount(count: number): void {
+  if (count === 0) {
+    throw routeError('InvalidRoute', 'Route has no steps');
+  }
+  if (count > MAX_ROUTE_STEPS) {
+    throw routeError('RouteTooLong', `Route has ${count} steps (max ${MAX_ROUTE_STEPS})`, { count });
+  }
+}
+
+function assertConnected(steps: PackedRouteStep[]): void {
+  for (let i = 1; i < steps.length; i++) {
+    if (steps[i - 1]!.tokenOut.toLowerCase() !== steps[i]!.tokenIn.toLowerCase()) {
+      throw routeError('InvalidRoute', `Step ${i} input does not match step ${i - 1} output`, { step: i });
+    }
+  }
+}
+
+function encodeStep(step: PackedRouteStep): Hex {
+  const poolData = encodePoolData(step.action, step.poolData);
+  const poolDataLen = size(poolData);
+
+  if (poolDataLen > MAX_UINT16) {
+    throw routeError('InvalidStep', `Pool data too large: ${poolDataLen} bytes`);
+  }
+
+  return concat([
+    numberToHex(step.action, { size: 1 }),
+    getAddress(step.tokenIn),
+    getAddress(step.tokenOut),
+    numberToHex(poolDataLen, { size: 2 }),
+    poolData,
+  ]);
+}
+
+/**
+ * Encode a single (non-split) route
+ *
+ * @example
+ * ```typescript
+ * const encoded = encodeSingleRoute([
+ *   { action: RouteAction.SWAP_CL, tokenIn: USDC, tokenOut: WETH, poolData: clPool },
+ * ]);
+ * ```
+ */
+export function encodeSingleRoute(steps: PackedRouteStep[]): Hex {
+  assertStepCount(steps.length);
+  assertConnected(steps);
+
+  return concat([numberToHex(steps.length, { size: 1 }), ...steps.map(encodeStep)]);
+}
+
+/**
+ * Decode a single (non-split) route
+ */
+export function decodeSingleRoute(encoded: Hex): PackedRouteStep[] {
+  const total = size(encoded);
+  if (total < 1 + MIN_STEP_SIZE) {
+    throw routeError('InvalidRoute', `Route too short: ${total} bytes`, { length: total });
+  }
+
+  const numSteps = hexToNumber(slice(encoded, 0, 1));
+  assertStepCount(numSteps);
+
+  const steps: PackedRouteStep[] = [];
+  let offset = 1;
+
+  for (let i = 0; i < numSteps; i++) {
+    if (total - offset < MIN_STEP_SIZE) {
+      throw routeError('InvalidStep', `Step ${i} truncated`, { step: i, offset });
+    }
+
+    const action = hexToNumber(slice(encoded, offset, offset + 1));
+    const tokenIn = getAddress(slice(encoded, offset + 1, offset + 21));
+    const tokenOut = getAddress(slice(encoded, offset + 21, offset + 41));
+    const poolDataLen = hexToNumber(slice(encoded, offset + 41, offset + 43));
+    offset += MIN_STEP_SIZE;
+
+    if (total - offset < poolDataLen) {
+      throw routeError('InvalidStep', `Step ${i} pool data truncated`, { step: i, offset });
+    }
+
+    const poolDataHex = poolDataLen === 0 ? '0x' : slice(encoded, offset, offset + poolDataLen);
+    const poolData = decodePoolData(action, poolDataHex);
+    offset += poolDataLen;
+
+    steps.push({ action: action as RouteActionType, tokenIn, tokenOut, poolData });
+  }
+
+  if (offset !== total) {
+    throw routeError('InvalidRoute', `${total - offset} trailing bytes after route`, { offset, length: total });
+  }
+
+  assertConnected(steps);
+  return steps;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SPLIT ROUTES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function assertSplitCount(count: number): void {
+  if (count < 2 || count > MAX_SPLIT_ROUTES) {
+    throw routeError(
+      'InvalidSplitEncoding',
+      `Split route must have 2-${MAX_SPLIT_ROUTES} paths, got ${count}`,
+      { count }
+    );
+  }
+}
+
+function assertSplitTokens(paths: PackedRoutePath[]): void {
+  const first = paths[0]!.steps;
+  const tokenIn = first[0]!.tokenIn.toLowerCase();
+  const tokenOut = first[first.length - 1]!.tokenOut.toLowerCase();
+
+  paths.forEach((path, i) => {
+    if (path.steps[0]!.tokenIn.toLowerCase() !== tokenIn) {
+      throw routeError('InconsistentInputToken', `Split path ${i} has a different input token`, { path: i });
+    }
+    if (path.steps[path.steps.length - 1]!.tokenOut.toLowerCase() !== tokenOut) {
+      throw routeError('InconsistentOutputToken', `Split path ${i} has a different output token`, { path: i });
+    }
+  });
+}
+
+/**
+ * Encode a split route. Every path must carry its `amountIn`.
+ */
+export function encodeSplitRoute(paths: PackedRoutePath[]): Hex {
+  assertSplitCount(paths.length);
+
+  const encodedPaths = paths.map((path, i) => {
+    if (path.amountIn === undefined || path.amountIn <= BigInt(0)) {
+      throw routeError('ZeroAmount', `Split path ${i} has no amount`, { path: i });
+    }
+    const route = encodeSingleRoute(path.steps);
+    return concat([
+      numberToHex(size(route), { size: 2 }),
+      route,
+      numberToHex(path.amountIn, { size: SPLIT_AMOUNT_SIZE }),
+    ]);
+  });
+
+  assertSplitTokens(paths);
+
+  return concat([
+    numberToHex(SPLIT_MARKER_BYTE0, { size: 1 }),
+    numberToHex(SPLIT_MARKER_BYTE1, { size: 1 }),
+    numberToHex(paths.length, { size: 1 }),
+    ...encodedPaths,
+  ]);
+}
+
+/**
+ * Decode a split route (including the marker bytes)
+ */
+export function decodeSplitRoute(encoded: Hex): PackedRoutePath[] {
+  if (!isSplitRoute(encoded)) {
+    throw routeError('InvalidSplitEncoding', 'Missing split route marker');
+  }
+
+  const total = size(encoded);
+  const numPaths = hexToNumber(slice(encoded, 2, 3));
+  assertSplitCount(numPaths);
+
+  const paths: PackedRoutePath[] = [];
+  let offset = 3;
+
+  for (let i = 0; i < numPaths; i++) {
+    if (total - offset < 2) {
+      throw routeError('InvalidSplitEncoding', `Split path ${i} header truncated`, { path: i });
+    }
+    const routeLen = hexToNumber(slice(encoded, offset, offset + 2));
+    offset += 2;
+
+    if (total - offset < routeLen + SPLIT_AMOUNT_SIZE) {
+      throw routeError('InvalidSplitEncoding', `Split path ${i} truncated`, { path: i });
+    }
+    const steps = decodeSingleRoute(slice(encoded, offset, offset + routeLen));
+    offset += routeLen;
+
+    const amountIn = hexToBigInt(slice(encoded, offset, offset + SPLIT_AMOUNT_SIZE));
+    offset += SPLIT_AMOUNT_SIZE;
+
+    paths.push({ steps, amountIn });
+  }
+
+  if (offset !== total) {
+    throw routeError('InvalidSplitEncoding', `${total - offset} trailing bytes after split route`);
+  }
+
+  assertSplitTokens(paths);
+  return paths;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENTRY POINTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check whether encoded route bytes use split framing
+ */
+export function isSplitRoute(encoded: Hex): boolean {
+  return (
+    size(encoded) >= 3 &&
+    hexToNumber(slice(encoded, 0, 1)) === SPLIT_MARKER_BYTE0 &&
+    hexToNumber(slice(encoded, 1, 2)) === SPLIT_MARKER_BYTE1
+  );
+}
+
+/**
+ * Encode a route for GatewayRouterV5.executeRoute
+ */
+export function encodeRoute(route: PackedRoute): Hex {
+  if (route.isSplit) {
+    return encodeSplitRoute(route.paths);
+  }
+  if (route.paths.length !== 1) {
+    throw routeError('InvalidRoute', `Single route must have exactly one path, got ${route.paths.length}`);
+  }
+  return encodeSingleRoute(route.paths[0]!.steps);
+}
+
+/**
+ * Decode route bytes from the quoter (accepts single and split routes)
+ *
+ * @example
+ * ```typescript
+ * const route = decodeRoute(quote.encodedRoute);
+ * route.paths[0].steps[0].action; // RouteAction.SWAP_CL
+ * ```
+ */
+export function decodeRoute(encoded: string): PackedRoute {
+  const hex = (encoded.startsWith('0x') ? encoded : `0x${encoded}`) as Hex;
+
+  if (isSplitRoute(hex)) {
+    return { isSplit: true, paths: decodeSplitRoute(hex) };
+  }
+  return { isSplit: false, paths: [{ steps: decodeSingleRoute(hex) }] };
+}
+
+/**
+ * Total number of steps across all paths
+ */
+export function countRouteSteps(route: PackedRoute): number {
+  return route.paths.reduce((sum, path) => sum + path.steps.length, 0);
+}
@@ -0,0 +1,92 @@
+/** Pre-flight transaction simulation */
+import { Abi, Address, Hex, PublicClient, encodeFunctionData } from 'viem';
+import { IgnisError, parseContractError } from './errors';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A fully specified contract write. The same object is simulated before the
+ * wallet prompt and then sent, so the simulation covers the exact calldata.
+ */
+export interface ContractCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+}
+
+/** Only the read simulation needs, so wallet clients extended with publicActions fit too */
+export type SimulationClient = Pick<PublicClient, 'simulateContract'>;
+
+export type PreflightResult =
+  | { ok: true }
+  | { ok: false; error: IgnisError };
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SIMULATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calldata for a call
+ */
+export function encodeCall(call: ContractCall): Hex {
+  return encodeFunctionData({
+    abi: call.abi,
+    functionName: call.functionName,
+    args: call.args,
+  } as Parameters<typeof encodeFunctionData>[0]);
+}
+
+/**
+ * Stable identity for a call (target, value and calldata).
+ * Used to skip re-simulating when nothing about the transaction changed.
+ */
+export function getCallKey(call: ContractCall): string {
+  return `${call.address.toLowerCase()}:${(call.value ?? 0n).toString()}:${encodeCall(call)}`;
+}
+
+/**
+ * eth_call the transaction from `account` at the latest block.
+ * Reverts are decoded through parseContractError, so known custom errors map
+ * onto CONTRACT_ERRORS / ERROR_MESSAGES.
+ */
+export async function simulateCall(
+  client: SimulationClient,
+  call: ContractCall,
+  account: Address
+): Promise<PreflightResult> {
+  try {
+    await client.simulateContract({
+      address: call.address,
+      abi: call.abi,
+      functionName: call.functionName,
+      args: call.args,
+      value: call.value,
+      account,
+    } as Parameters<PublicClient['simulateContract']>[0]);
+    return { ok: true };
+  } catch (err: unknown) {
+    return { ok: false, error: parseContractError(err) };
+  }
+}
+
+/**
+ * Simulate right before sending and throw the decoded revert.
+ *
+ * For calls that only exist once earlier steps are done (approvals mined,
+ * permits signed), so the confirm modal could not check them. A simulation
+ * that fails for other reasons (RPC down) does not block the send.
+ */
+export async function assertCallSucceeds(
+  client: SimulationClient,
+  call: ContractCall,
+  account: Address
+): Promise<void> {
+  const result = await simulateCall(client, call, account);
+  if (!result.ok && result.error.code !== 'NETWORK_ERROR') {
+    throw result.error;
+  }
+}
@@ -0,0 +1,299 @@
+/** Concentrated-liquidity math: ticks, sqrt prices and liquidity for amounts (Uniswap v3 / PCS CL) */
+import { MAX_UINT256, TICK_SPACINGS } from './config';
+import { IgnisError } from './errors';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+/** getSqrtRatioAtTick(MIN_TICK) */
+export const MIN_SQRT_RATIO = BigInt('4295128739');
+/** getSqrtRatioAtTick(MAX_TICK) */
+export const MAX_SQRT_RATIO = BigInt('1461446703485210103287273052203988822378723970342');
+
+export const Q96 = BigInt(1) << BigInt(96);
+
+const Q32 = BigInt(1) << BigInt(32);
+const ZERO = BigInt(0);
+
+/** 1/sqrt(1.0001)^(2^i) as Q128.128, from TickMath.sol */
+const TICK_RATIO_FACTORS: readonly bigint[] = [
+  '0xfffcb933bd6fad37aa2d162d1a594001',
+  '0xfff97272373d413259a46990580e213a',
+  '0xfff2e50f5f656932ef12357cf3c7fdcc',
+  '0xffe5caca7e10e4e61c3624eaa0941cd0',
+  '0xffcb9843d60f6159c9db58835c926644',
+  '0xff973b41fa98c081472e6896dfb254c0',
+  '0xff2ea16466c96a3843ec78b326b52861',
+  '0xfe5dee046a99a2a811c461f1969c3053',
+  '0xfcbe86c7900a88aedcffc83b479aa3a4',
+  '0xf987a7253ac413176f2b074cf7815e54',
+  '0xf3392b0822b70005940c7a398e4b70f3',
+  '0xe7159475a2c29b7443b29c7fa6e889d9',
+  '0xd097f3bdfd2022b8845ad8f792aa5825',
+  '0xa9f746462d870fdf8a65dc1f90e061e5',
+  '0x70d869a156d2a1b890bb3df62baf32f7',
+  '0x31be135f97d08fd981231505542fcfa6',
+  '0x9aa508b5b7a84e1c677de54f3e99bc9',
+  '0x5d6af8dedb81196699c329225ee604',
+  '0x2216e584f5fa1ea926041bedfe98',
+  '0x48a170391f7dc42444e8fa2',
+].map(BigInt);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Where the current price sits relative to a range. Below the range a
+ * position holds only token0, above it only token1.
+ */
+export type RangeStatus = 'below' | 'in' | 'above';
+
+export interface PositionAmounts {
+  amount0: bigint;
+  amount1: bigint;
+  liquidity: bigint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TICKS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * sqrt(1.0001^tick) as a Q64.96, bit-for-bit with TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Tick ${tick} outside [${MIN_TICK}, ${MAX_TICK}]`,
+      userMessage: 'Price is outside the supported range',
+    });
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1 ? TICK_RATIO_FACTORS[0]! : BigInt(1) << BigInt(128);
+  for (let i = 1; i < TICK_RATIO_FACTORS.length; i++) {
+    if (absTick & (1 << i)) ratio = (ratio * TICK_RATIO_FACTORS[i]!) >> BigInt(128);
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Q128.128 → Q64.96, rounding up so getTickAtSqrtRatio round-trips
+  return (ratio >> BigInt(32)) + (ratio % Q32 === ZERO ? ZERO : BigInt(1));
+}
+
+/**
+ * Greatest tick whose sqrt ratio is at or below `sqrtRatioX96`
+ */
+export function getTickAtSqrtRatio(sqrtRatioX96: bigint): number {
+  if (sqrtRatioX96 < MIN_SQRT_RATIO || sqrtRatioX96 >= MAX_SQRT_RATIO) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `sqrtRatioX96 ${sqrtRatioX96} outside [MIN_SQRT_RATIO, MAX_SQRT_RATIO)`,
+      userMessage: 'Price is outside the supported range',
+    });
+  }
+
+  let low = MIN_TICK;
+  let high = MAX_TICK - 1;
+  while (low < high) {
+    const mid = low + Math.ceil((high - low) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtRatioX96) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Tick spacing of a CL fee tier (FEE_TIERS)
+ */
+export function getTickSpacing(fee: number): number {
+  const spacing = TICK_SPACINGS[fee];
+  if (!spacing) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `No tick spacing for fee ${fee}`,
+      userMessage: 'Unsupported fee tier',
+    });
+  }
+  return spacing;
+}
+
+/**
+ * Closest initializable tick, kept inside [MIN_TICK, MAX_TICK]
+ */
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing;
+  if (rounded < MIN_TICK) return rounded + tickSpacing;
+  if (rounded > MAX_TICK) return rounded - tickSpacing;
+  // Math.round(-0.5) is -0
+  return rounded || 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRICES
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Prices are human-readable token1 per token0. Ticks are over raw units, so
+// the decimals difference is applied on the way in and out.
+
+/**
+ * Tick at or below `price` (token1 per token0), clamped to [MIN_TICK, MAX_TICK]
+ */
+export function priceToTick(price: number, decimals0: number, decimals1: number): number {
+  if (!(price > 0) || !Number.isFinite(price)) {
+    throw new IgnisError({
+      code: 'INVALID_PARAMS',
+      message: `Invalid price ${price}`,
+      userMessage: 'Enter a price above zero',
+    });
+  }
+  const raw = Math.log(price) + (decimals1 - decimals0) * Math.LN10;
+  // Tolerate float error so tickToPrice(t) maps back to t
+  const tick = Math.floor(raw / Math.log(1.0001) + 1e-9);
+  return Math.min(MAX_TICK, Math.max(MIN_TICK, tick));
+}
+
+/**
+ * Price (token1 per token0) at `tick`
+ */
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+  return Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * Price (token1 per token0) at a Q64.96 sqrt ratio, for display
+ */
+export function sqrtRatioToPrice(sqrtRatioX96: bigint, decimals0: number, decimals1: number): number {
+  const sqrtPrice = Number(sqrtRatioX96) / Number(Q96);
+  return sqrtPrice * sqrtPrice * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * sqrt(amount1 / amount0) as a Q64.96, floored
+ */
+export function encodeSqrtRatioX96(amount1: bigint, amount0: bigint): bigint {
+  return sqrt((amount1 << BigInt(192)) / amount0);
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < BigInt(2)) return value;
+  let x = value;
+  let y = (x + BigInt(1)) >> BigInt(1);
+  while (y < x) {
+    x = y;
+    y = (x + value / x) >> BigInt(1);
+  }
+  return x;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LIQUIDITY
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+// Ports of LiquidityAmounts.sol and SqrtPriceMath, rounding down like the
+// periphery so estimates never exceed what the pool will take.
+
+const ordered = (a: bigint, b: bigint): [bigint, bigint] => (a > b ? [b, a] : [a, b]);
+
+export function getLiquidityForAmount0(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, amount0: bigint): bigint {
+  const [sqrtA, sqrtB] = ordered(sqrtRatioAX96, sqrtRatioBX96);
+  const intermediate = (sqrtA * sqrtB) / Q96;
+  return (amount0 * intermediate) / (sqrtB - sqrtA);
+}
+
+export function getLiquidityForAmount1(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, amount1: bigint): bigint {
+  const [sqrtA, sqrtB] = ordered(sqrtRatioAX96, sqrtRatioBX96);
+  return (amount1 * Q96) / (sqrtB - sqrtA);
+}
+
+/**
+ * Most liquidity that `amount0` and `amount1` can back at the current price
+ */
+export function getLiquidityForAmounts(
+  sqrtRatioX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint,
+  amount1: bigint
+): bigint {
+  const [sqrtA, sqrtB] = ordered(sqrtRatioAX96, sqrtRatioBX96);
+  if (sqrtRatioX96 <= sqrtA) return getLiquidityForAmount0(sqrtA, sqrtB, amount0);
+  if (sqrtRatioX96 >= sqrtB) return getLiquidityForAmount1(sqrtA, sqrtB, amount1);
+
+  const liquidity0 = getLiquidityForAmount0(sqrtRatioX96, sqrtB, amount0);
+  const liquidity1 = getLiquidityForAmount1(sqrtA, sqrtRatioX96, amount1);
+  return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+}
+
+export function getAmount0ForLiquidity(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint): bigint {
+  const [sqrtA, sqrtB] = ordered(sqrtRatioAX96, sqrtRatioBX96);
+  return ((liquidity << BigInt(96)) * (sqrtB - sqrtA)) / sqrtB / sqrtA;
+}
+
+export function getAmount1ForLiquidity(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint): bigint {
+  const [sqrtA, sqrtB] = ordered(sqrtRatioAX96, sqrtRatioBX96);
+  return (liquidity * (sqrtB - sqrtA)) / Q96;
+}
+
+/**
+ * Token amounts held by `liquidity` over the range at the current price
+ */
+export function getAmountsForLiquidity(
+  sqrtRatioX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [sqrtA, sqrtB] = ordered(sqrtRatioAX96, sqrtRatioBX96);
+  if (sqrtRatioX96 <= sqrtA) {
+    return { amount0: getAmount0ForLiquidity(sqrtA, sqrtB, liquidity), amount1: ZERO };
+  }
+  if (sqrtRatioX96 >= sqrtB) {
+    return { amount0: ZERO, amount1: getAmount1ForLiquidity(sqrtA, sqrtB, liquidity) };
+  }
+  return {
+    amount0: getAmount0ForLiquidity(sqrtRatioX96, sqrtB, liquidity),
+    amount1: getAmount1ForLiquidity(sqrtA, sqrtRatioX96, liquidity),
+  };
+}
+
+export function getRangeStatus(sqrtRatioX96: bigint, tickLower: number, tickUpper: number): RangeStatus {
+  if (sqrtRatioX96 <= getSqrtRatioAtTick(tickLower)) return 'below';
+  if (sqrtRatioX96 >= getSqrtRatioAtTick(tickUpper)) return 'above';
+  return 'in';
+}
+
+/**
+ * Fill in the other side of a deposit from one typed amount.
+ *
+ * Out of range the position is single-sided: the other amount is 0, and
+ * returns null when the typed token is the one the range cannot hold
+ * (token0 above the range, token1 below it).
+ */
+export function getPositionAmounts(
+  sqrtRatioX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  amount: bigint,
+  side: 0 | 1
+): PositionAmounts | null {
+  const status = getRangeStatus(sqrtRatioX96, tickLower, tickUpper);
+  if ((side === 0 && status === 'above') || (side === 1 && status === 'below')) return null;
+
+  const sqrtA = getSqrtRatioAtTick(tickLower);
+  const sqrtB = getSqrtRatioAtTick(tickUpper);
+  const liquidity = side === 0
+    ? getLiquidityForAmount0(status === 'in' ? sqrtRatioX96 : sqrtA, sqrtB, amount)
+    : getLiquidityForAmount1(sqrtA, status === 'in' ? sqrtRatioX96 : sqrtB, amount);
+  const held = getAmountsForLiquidity(sqrtRatioX96, sqrtA, sqrtB, liquidity);
+
+  // Keep the typed amount as entered rather than the rounded-down read-back
+  return side === 0
+    ? { amount0: amount, amount1: held.amount1, liquidity }
+    : { amount0: held.amount0, amount1: amount, liquidity };
+}
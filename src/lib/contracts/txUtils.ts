@@ -1,5 +1,5 @@
 /** Transaction utilities */
-import { Hash } from 'viem';
+import { Address, Hash, Hex } from 'viem';
 import { IgnisError } from './errors';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -24,6 +24,15 @@ export const MIN_GAS_LIMIT = BigInt(100_000);
  */
 export const SIMPLE_GAS_FALLBACK = BigInt(250_000);
 
+/**
+ * Fee increase for a same-nonce replacement. Nodes reject replacements
+ * that raise both fees by less than 10%.
+ */
+export const REPLACEMENT_FEE_BUMP_PERCENT = 15;
+
+/** Gas for a plain ETH transfer, used by cancellations */
+export const TRANSFER_GAS = BigInt(21_000);
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // TIMEOUT UTILITIES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -91,6 +100,106 @@ export function addGasBuffer(
   return withBuffer;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// REPLACEMENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Speed up resends the same call; cancel sends a 0-value self-transfer */
+export type ReplacementKind = 'speedUp' | 'cancel';
+
+export interface Eip1559Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/** The fields of a mempool transaction a replacement is built from */
+export interface ReplaceableTransaction {
+  from: Address;
+  to: Address | null;
+  input: Hex;
+  value: bigint;
+  nonce: number;
+  gas: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+export interface ReplacementRequest extends Eip1559Fees {
+  to: Address;
+  data: Hex;
+  value: bigint;
+  nonce: number;
+  gas: bigint;
+}
+
+function bump(fee: bigint, percent: number): bigint {
+  const hundred = BigInt(100);
+  // Round up so small fees still clear the node's minimum bump
+  return (fee * BigInt(100 + percent) + hundred - BigInt(1)) / hundred;
+}
+
+/**
+ * Fees for a replacement: the original's fees bumped by
+ * REPLACEMENT_FEE_BUMP_PERCENT, or the current network fees if higher.
+ * Legacy (gasPrice) originals are treated as paying gasPrice for both.
+ */
+export function getReplacementFees(
+  original: Pick<ReplaceableTransaction, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>,
+  network?: Eip1559Fees,
+  percent: number = REPLACEMENT_FEE_BUMP_PERCENT
+): Eip1559Fees {
+  const maxFee = original.maxFeePerGas ?? original.gasPrice ?? BigInt(0);
+  const priorityFee = original.maxPriorityFeePerGas ?? original.gasPrice ?? BigInt(0);
+
+  let maxPriorityFeePerGas = bump(priorityFee, percent);
+  let maxFeePerGas = bump(maxFee, percent);
+  if (network) {
+    if (network.maxPriorityFeePerGas > maxPriorityFeePerGas) maxPriorityFeePerGas = network.maxPriorityFeePerGas;
+    if (network.maxFeePerGas > maxFeePerGas) maxFeePerGas = network.maxFeePerGas;
+  }
+  if (maxFeePerGas < maxPriorityFeePerGas) maxFeePerGas = maxPriorityFeePerGas;
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Same-nonce replacement for a stuck transaction
+ */
+export function buildReplacementRequest(
+  kind: ReplacementKind,
+  original: ReplaceableTransaction,
+  fees: Eip1559Fees
+): ReplacementRequest {
+  if (kind === 'cancel') {
+    return {
+      to: original.from,
+      data: '0x',
+      value: BigInt(0),
+      nonce: original.nonce,
+      gas: TRANSFER_GAS,
+      ...fees,
+    };
+  }
+
+  if (!original.to) {
+    throw new IgnisError({
+      code: 'NOT_REPLACEABLE',
+      message: 'Contract deployments cannot be sped up',
+      userMessage: 'This transaction cannot be sped up. Try cancelling it instead.',
+    });
+  }
+
+  return {
+    to: original.to,
+    data: original.input,
+    value: original.value,
+    nonce: original.nonce,
+    gas: original.gas,
+    ...fees,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // TRANSACTION STATUS
 // ─────────────────────────────────────────────────────────────────────────────────
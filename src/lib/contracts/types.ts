@@ -85,33 +85,33 @@ export interface ExecuteRouteParams {
 
 /**
  * Router event types
+ * Matches: RouteExecuted, SplitRouteExecuted, StepExecuted in GatewayRouterV5.sol
  */
 export interface RouteExecutedEvent {
   sender: Address;
+  recipient: Address;
   tokenIn: Address;
   tokenOut: Address;
   amountIn: bigint;
   amountOut: bigint;
-  recipient: Address;
 }
 
+/** totalAmountIn / totalAmountOut are exposed as amountIn / amountOut */
 export interface SplitRouteExecutedEvent {
   sender: Address;
+  recipient: Address;
   tokenIn: Address;
   tokenOut: Address;
   amountIn: bigint;
   amountOut: bigint;
-  recipient: Address;
-  splitCount: number;
 }
 
 export interface StepExecutedEvent {
-  action: number;
+  action: RouteActionType;
   tokenIn: Address;
   tokenOut: Address;
   amountIn: bigint;
   amountOut: bigint;
-  pool: Address;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -18,6 +18,9 @@ export const MAX_SLIPPAGE_BPS = 5000;
 /** High slippage warning threshold: 10% (1000 basis points) */
 export const HIGH_SLIPPAGE_WARNING_BPS = 1000;
 
+/** Requoted output moving more than this (0.3%) must be re-accepted by the user */
+export const QUOTE_CHANGE_THRESHOLD_BPS = 30;
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // DEADLINE VALIDATION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -227,6 +230,106 @@ export function assertValidMinAmountOut(
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// MAX AMOUNT IN VALIDATION (exact-output swaps)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface MaxAmountInValidationResult {
+  isValid: boolean;
+  error?: IgnisError;
+  warning?: string;
+  impliedSlippageBps?: number;
+}
+
+/**
+ * Validate maxAmountIn, the input-side slippage bound of an exact-output swap
+ * 
+ * @param amountIn - Input currently required to receive the exact output
+ * @param maxAmountIn - Maximum input the user agreed to pay
+ * @returns Validation result with warnings for high slippage
+ * 
+ * @example
+ * const result = validateMaxAmountIn(
+ *   parseUnits('1', 18),     // 1 ETH required
+ *   parseUnits('1.005', 18), // pay at most 1.005 ETH (0.5% slippage)
+ * );
+ */
+export function validateMaxAmountIn(
+  amountIn: bigint,
+  maxAmountIn: bigint
+): MaxAmountInValidationResult {
+  if (amountIn === BigInt(0)) {
+    return {
+      isValid: false,
+      error: new IgnisError({
+        code: 'ZERO_AMOUNT_IN',
+        message: 'Required input amount cannot be zero',
+        userMessage: 'Please enter an amount to receive.',
+        isRetryable: true,
+      }),
+    };
+  }
+
+  // The price moved against the user since they confirmed
+  if (maxAmountIn < amountIn) {
+    return {
+      isValid: false,
+      error: new IgnisError({
+        code: 'MAX_INPUT_EXCEEDED',
+        message: `Required input ${amountIn} exceeds maximum ${maxAmountIn}`,
+        userMessage: 'Price moved: this trade now costs more than your maximum. Review the new quote.',
+        isRetryable: true,
+        details: { amountIn: amountIn.toString(), maxAmountIn: maxAmountIn.toString() },
+      }),
+    };
+  }
+
+  const impliedSlippageBps = Number(((maxAmountIn - amountIn) * BigInt(10000)) / amountIn);
+
+  if (impliedSlippageBps > MAX_SLIPPAGE_BPS) {
+    return {
+      isValid: false,
+      error: new IgnisError({
+        code: 'SLIPPAGE_TOO_HIGH',
+        message: `Maximum input allows ${impliedSlippageBps} bps slippage`,
+        userMessage: `Slippage tolerance cannot exceed ${MAX_SLIPPAGE_BPS / 100}%. This would expose you to excessive losses.`,
+        isRetryable: true,
+      }),
+      impliedSlippageBps,
+    };
+  }
+
+  const warning = impliedSlippageBps > HIGH_SLIPPAGE_WARNING_BPS
+    ? `High slippage: you may pay up to ${(impliedSlippageBps / 100).toFixed(2)}% more than quoted.`
+    : undefined;
+
+  return { isValid: true, warning, impliedSlippageBps };
+}
+
+/**
+ * Validate maxAmountIn and throw if invalid
+ * 
+ * @param amountIn - Input currently required
+ * @param maxAmountIn - Maximum input the user agreed to pay
+ * @throws IgnisError if validation fails
+ */
+export function assertValidMaxAmountIn(amountIn: bigint, maxAmountIn: bigint): void {
+  const result = validateMaxAmountIn(amountIn, maxAmountIn);
+
+  if (!result.isValid && result.error) {
+    throw result.error;
+  }
+
+  if (result.warning) {
+    contractLogger.warn('High slippage detected in maxAmountIn validation', {
+      warning: result.warning,
+      amountIn: amountIn.toString(),
+      maxAmountIn: maxAmountIn.toString(),
+      impliedSlippageBps: result.impliedSlippageBps,
+    });
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // AMOUNT VALIDATION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -338,6 +441,99 @@ export function assertValidSlippage(slippageBps: number): void {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUOTE FRESHNESS VALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface QuoteValidity {
+  /** Block the quote was priced at (or received at, if the quoter omits it) */
+  quotedBlock: bigint;
+  /** QuoteResponse.validForBlocks */
+  validForBlocks: number;
+  /** QuoteResponse.routeTimestamp, unix seconds; 0 skips the time check */
+  routeTimestamp?: number;
+}
+
+export interface QuoteFreshness {
+  isStale: boolean;
+  /** Last block at which the quote may still be executed */
+  expiresAtBlock: bigint;
+  blocksRemaining: number;
+  secondsRemaining: number;
+}
+
+/**
+ * Work out how long a quote stays executable.
+ *
+ * A quote expires once the chain moves past `quotedBlock + validForBlocks`,
+ * or once its route data is older than the same window in wall-clock time,
+ * whichever comes first. The time bound covers slow block polling and routes
+ * built from an old pool snapshot.
+ *
+ * @param quote - Anchor block, validity window and route timestamp
+ * @param currentBlock - Latest block number
+ * @param blockTimeSeconds - Average block interval for the chain
+ * @param nowSeconds - Current unix time (injectable for tests)
+ */
+export function getQuoteFreshness(
+  quote: QuoteValidity,
+  currentBlock: bigint,
+  blockTimeSeconds: number,
+  nowSeconds: number = Date.now() / 1000
+): QuoteFreshness {
+  const expiresAtBlock = quote.quotedBlock + BigInt(quote.validForBlocks);
+  const blocksRemaining = Number(expiresAtBlock - currentBlock);
+
+  let secondsRemaining = Math.max(0, blocksRemaining + 1) * blockTimeSeconds;
+  if (quote.routeTimestamp) {
+    const routeExpiry = quote.routeTimestamp + quote.validForBlocks * blockTimeSeconds;
+    secondsRemaining = Math.min(secondsRemaining, routeExpiry - nowSeconds);
+  }
+  secondsRemaining = Math.max(0, Math.ceil(secondsRemaining));
+
+  return {
+    isStale: blocksRemaining < 0 || secondsRemaining === 0,
+    expiresAtBlock,
+    blocksRemaining: Math.max(0, blocksRemaining),
+    secondsRemaining,
+  };
+}
+
+/**
+ * Refuse to execute an expired quote
+ *
+ * @throws IgnisError QUOTE_STALE if the quote has expired
+ */
+export function assertFreshQuote(
+  quote: QuoteValidity,
+  currentBlock: bigint,
+  blockTimeSeconds: number
+): void {
+  const freshness = getQuoteFreshness(quote, currentBlock, blockTimeSeconds);
+  if (freshness.isStale) {
+    throw new IgnisError({
+      code: 'QUOTE_STALE',
+      message: `Quote from block ${quote.quotedBlock} expired at block ${freshness.expiresAtBlock} (current ${currentBlock})`,
+      userMessage: 'This quote has expired. Please review the updated price.',
+      isRetryable: true,
+      details: {
+        quotedBlock: quote.quotedBlock.toString(),
+        currentBlock: currentBlock.toString(),
+        validForBlocks: quote.validForBlocks,
+      },
+    });
+  }
+}
+
+/**
+ * Signed change between two quoted amounts in basis points
+ * (positive when `next` is larger)
+ */
+export function getQuoteChangeBps(previous: bigint, next: bigint): number {
+  if (previous === BigInt(0)) return 0;
+  return Number(((next - previous) * BigInt(10000)) / previous);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // HELPER FUNCTIONS
 // ─────────────────────────────────────────────────────────────────────────────────
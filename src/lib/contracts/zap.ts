@@ -0,0 +1,108 @@
+/** Single-token zap-in: how much of the held token to swap so the rest and the swap output fill a CL range or LB shape */
+import { getAmountsForLiquidity, getLiquidityForAmounts, getSqrtRatioAtTick, Q96 } from './tickMath';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Fractions are applied to raw amounts in parts per million */
+const FRACTION_PRECISION = 1_000_000;
+
+/** Liquidity probed to read a range's composition; large enough to avoid rounding */
+const PROBE_LIQUIDITY = BigInt(10) ** BigInt(24);
+
+const ZERO = BigInt(0);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Shares of a deposit's value held in token0 and token1, summing to 1 */
+export interface ValueSplit {
+  value0: number;
+  value1: number;
+}
+
+export interface ZapSplit {
+  /** Part of the input sold for the other token */
+  swapAmount: bigint;
+  /** Part of the input deposited as is */
+  keepAmount: bigint;
+}
+
+/** What a CL position takes from a pair of balances; the rest is dust */
+export interface ZapDeposit {
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  dust0: bigint;
+  dust1: bigint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SWAP FRACTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fraction of a single-token deposit to swap so that what is kept and what
+ * the swap returns (after the pool fee) match the target split:
+ * other / (other + kept * (1 - fee)), with both sides valued at the current
+ * price. Price impact is left to the quote, which sizes the actual output.
+ */
+export function getZapSwapFraction(split: ValueSplit, inputSide: 0 | 1, feeBps: number): number {
+  const kept = inputSide === 0 ? split.value0 : split.value1;
+  const other = inputSide === 0 ? split.value1 : split.value0;
+  if (!(other > 0)) return 0;
+  if (!(kept > 0)) return 1;
+  return other / (other + kept * (1 - feeBps / 10000));
+}
+
+export function splitZapAmount(amountIn: bigint, fraction: number): ZapSplit {
+  const parts = Math.round(Math.min(Math.max(fraction, 0), 1) * FRACTION_PRECISION);
+  const swapAmount = (amountIn * BigInt(parts)) / BigInt(FRACTION_PRECISION);
+  return { swapAmount, keepAmount: amountIn - swapAmount };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CL RANGES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Value split of a CL range at the current price, in pool order. Out of
+ * range it is all token0 (below) or all token1 (above).
+ */
+export function getCLValueSplit(sqrtPriceX96: bigint, tickLower: number, tickUpper: number): ValueSplit {
+  const { amount0, amount1 } = getAmountsForLiquidity(
+    sqrtPriceX96,
+    getSqrtRatioAtTick(tickLower),
+    getSqrtRatioAtTick(tickUpper),
+    PROBE_LIQUIDITY
+  );
+  // Raw token1 per raw token0
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  const value0 = Number(amount0) * sqrtPrice * sqrtPrice;
+  const value1 = Number(amount1);
+  const total = value0 + value1;
+  return total > 0 ? { value0: value0 / total, value1: value1 / total } : { value0: 0.5, value1: 0.5 };
+}
+
+/**
+ * Most liquidity the balances can back over the range, what that takes of
+ * each and what is left over
+ */
+export function planCLZapDeposit(
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  balance0: bigint,
+  balance1: bigint
+): ZapDeposit {
+  const sqrtA = getSqrtRatioAtTick(tickLower);
+  const sqrtB = getSqrtRatioAtTick(tickUpper);
+  const liquidity = getLiquidityForAmounts(sqrtPriceX96, sqrtA, sqrtB, balance0, balance1);
+  if (liquidity <= ZERO) {
+    return { liquidity: ZERO, amount0: ZERO, amount1: ZERO, dust0: balance0, dust1: balance1 };
+  }
+  const { amount0, amount1 } = getAmountsForLiquidity(sqrtPriceX96, sqrtA, sqrtB, liquidity);
+  return { liquidity, amount0, amount1, dust0: balance0 - amount0, dust1: balance1 - amount1 };
+}
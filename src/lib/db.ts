@@ -0,0 +1,133 @@
+/** IndexedDB persistence */
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEMA
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const DB_NAME = 'ignis';
+const DB_VERSION = 4;
+
+export interface StoreSchema {
+  keyPath: string;
+  indexes?: Record<string, string | string[]>;
+}
+
+/**
+ * Object stores and their indexes. Adding a store or index requires bumping
+ * DB_VERSION; the upgrade handler creates whatever is missing.
+ */
+export const STORES = {
+  limitOrders: {
+    keyPath: 'id',
+    indexes: { byOwner: ['account', 'chainId'] },
+  },
+  twapOrders: {
+    keyPath: 'id',
+    indexes: { byOwner: ['account', 'chainId'] },
+  },
+  transactions: {
+    keyPath: 'id',
+    indexes: { byOwner: ['account', 'chainId'] },
+  },
+  positions: {
+    keyPath: 'id',
+    indexes: { byOwner: ['account', 'chainId'] },
+  },
+} satisfies Record<string, StoreSchema>;
+
+export type StoreName = keyof typeof STORES;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONNECTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Whether IndexedDB exists in this environment (false in SSR, tests and
+ * some private-browsing modes)
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (const [name, schema] of Object.entries(STORES) as [string, StoreSchema][]) {
+        const store = db.objectStoreNames.contains(name)
+          ? tx.objectStore(name)
+          : db.createObjectStore(name, { keyPath: schema.keyPath });
+        for (const [indexName, keyPath] of Object.entries(schema.indexes ?? {})) {
+          if (!store.indexNames.contains(indexName)) {
+            store.createIndex(indexName, keyPath);
+          }
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// OPERATIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read all records matching `query` on an index
+ */
+export async function getAllByIndex<T>(
+  storeName: StoreName,
+  indexName: string,
+  query: IDBValidKey | IDBKeyRange
+): Promise<T[]> {
+  const db = await openDatabase();
+  const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+  return promisify(index.getAll(query) as IDBRequest<T[]>);
+}
+
+export async function getRecord<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisify(store.get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Insert or replace a record
+ */
+export async function putRecord<T>(storeName: StoreName, value: T): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisify(store.put(value));
+}
+
+export async function deleteRecord(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisify(store.delete(key));
+}
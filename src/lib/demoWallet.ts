@@ -0,0 +1,145 @@
+/** Demo wallet connector */
+import { createConnector } from 'wagmi';
+import type { Wallet } from '@rainbow-me/rainbowkit';
+import {
+  custom,
+  fromHex,
+  getAddress,
+  http,
+  numberToHex,
+  SwitchChainError,
+  UnsupportedProviderMethodError,
+} from 'viem';
+import type { Address, EIP1193RequestFn, Hex } from 'viem';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const DEMO_CONNECTOR_ID = 'demo';
+
+/** Fixed account so demo sessions and e2e runs are reproducible */
+export const DEMO_ADDRESS: Address = '0xDE300000000000000000000000000000000DE300';
+
+/** Methods that need a private key; the demo wallet has none */
+const SIGNING_METHODS = new Set([
+  'eth_sendTransaction',
+  'eth_sign',
+  'personal_sign',
+  'eth_signTypedData_v4',
+  'wallet_sendCalls',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONNECTOR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Connector with a fixed account that connects instantly and offline.
+ * Starts on the first configured chain and supports switching between
+ * configured chains. Read calls go to the chain's public RPC; anything that
+ * needs a signature is rejected.
+ *
+ * The session is not persisted, so a reload starts disconnected.
+ */
+export function demoConnector() {
+  let connected = false;
+
+  return createConnector<{ request: EIP1193RequestFn }>((config) => {
+    let currentChainId: number = config.chains[0].id;
+
+    const request = async ({ method, params }: { method: string; params?: unknown }): Promise<unknown> => {
+      switch (method) {
+        case 'eth_chainId':
+          return numberToHex(currentChainId);
+        case 'eth_accounts':
+          return connected ? [DEMO_ADDRESS] : [];
+        case 'eth_requestAccounts':
+          return [DEMO_ADDRESS];
+        case 'wallet_switchEthereumChain': {
+          const [{ chainId }] = params as [{ chainId: Hex }];
+          currentChainId = fromHex(chainId, 'number');
+          config.emitter.emit('change', { chainId: currentChainId });
+          return null;
+        }
+      }
+
+      if (SIGNING_METHODS.has(method)) {
+        throw new UnsupportedProviderMethodError(new Error('The demo wallet cannot sign transactions'));
+      }
+
+      const chain = config.chains.find(c => c.id === currentChainId) ?? config.chains[0];
+      return http()({ chain }).request({ method, params } as Parameters<EIP1193RequestFn>[0]);
+    };
+
+    const provider = custom({ request: request as EIP1193RequestFn })({ retryCount: 0 });
+
+    return {
+      id: DEMO_CONNECTOR_ID,
+      name: 'Demo wallet',
+      type: 'demo',
+      async connect({ chainId } = {}) {
+        if (chainId && chainId !== currentChainId) {
+          await this.switchChain!({ chainId });
+        }
+        connected = true;
+        return { accounts: [DEMO_ADDRESS], chainId: currentChainId };
+      },
+      async disconnect() {
+        connected = false;
+      },
+      async getAccounts() {
+        return connected ? [DEMO_ADDRESS] : [];
+      },
+      async getChainId() {
+        return currentChainId;
+      },
+      async getProvider() {
+        return provider;
+      },
+      async isAuthorized() {
+        return connected;
+      },
+      async switchChain({ chainId }) {
+        const chain = config.chains.find(c => c.id === chainId);
+        if (!chain) throw new SwitchChainError(new Error(`Chain ${chainId} is not configured`));
+        await request({ method: 'wallet_switchEthereumChain', params: [{ chainId: numberToHex(chainId) }] });
+        return chain;
+      },
+      onAccountsChanged(accounts) {
+        if (accounts.length === 0) this.onDisconnect();
+        else config.emitter.emit('change', { accounts: accounts.map(a => getAddress(a)) });
+      },
+      onChainChanged(chain) {
+        config.emitter.emit('change', { chainId: Number(chain) });
+      },
+      async onDisconnect() {
+        connected = false;
+        config.emitter.emit('disconnect');
+      },
+    };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RAINBOWKIT WALLET
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const DEMO_ICON = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28"><rect width="28" height="28" rx="6" fill="#F5B041"/><text x="14" y="19" font-size="14" text-anchor="middle" font-family="sans-serif" fill="#000">D</text></svg>'
+)}`;
+
+/**
+ * The demo connector as a RainbowKit wallet option
+ */
+export const demoWallet = (): Wallet => ({
+  id: DEMO_CONNECTOR_ID,
+  name: 'Demo wallet',
+  iconUrl: DEMO_ICON,
+  iconBackground: '#F5B041',
+  installed: true,
+  createConnector: (walletDetails) => createConnector((config) => ({
+    ...demoConnector()(config),
+    ...walletDetails,
+  })),
+});
@@ -1,26 +1,10 @@
 import { logger } from '../../utils/logger';
 import { withRetry, retryPatterns, createRateLimiter, rateLimitPatterns } from '../../utils/retry';
+import { CHAINS, DEFAULT_CHAIN_ID } from '../contracts/addresses';
 
-// ─────────────────────────────────────────────────────────────────────────────────
-// SUBGRAPH ENDPOINTS - UPDATE THESE AFTER DEPLOYMENT
-// ─────────────────────────────────────────────────────────────────────────────────
-
-export const SUBGRAPH_URLS = {
-  // Base Mainnet
-  8453: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-base/version/latest',
-  
-  // Base Sepolia (Testnet)
-  84532: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-base-sepolia/version/latest',
-  
-  // BSC Mainnet
-  56: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-bsc/version/latest',
-  
-  // BSC Testnet
-  97: 'https://api.studio.thegraph.com/query/YOUR_ID/ignis-bsc-testnet/version/latest',
-} as const;
-
-// Default chain for development
-export const DEFAULT_CHAIN_ID = 84532; // Base Sepolia
+// Subgraph endpoints come from the chain registry (deployment manifests or
+// VITE_SUBGRAPH_URL_BASE); chains without one fall back to mock data.
+export { DEFAULT_CHAIN_ID };
 
 // Rate limiter for subgraph queries
 const subgraphRateLimiter = createRateLimiter('subgraph', rateLimitPatterns.subgraph);
@@ -50,9 +34,9 @@ export async function query<T>(
   options: QueryOptions = {}
 ): Promise<T> {
   const chainId = options.chainId ?? DEFAULT_CHAIN_ID;
-  const url = SUBGRAPH_URLS[chainId as keyof typeof SUBGRAPH_URLS];
+  const url = getSubgraphUrl(chainId);
   
-  if (!url || url.includes('YOUR_ID')) {
+  if (!url) {
     logger.warn('Subgraph not configured, using mock data', { chainId });
     throw new Error(`Subgraph not configured for chain ${chainId}`);
   }
@@ -112,15 +96,12 @@ export async function query<T>(
  * Check if subgraph is configured for a chain
  */
 export function isSubgraphConfigured(chainId: number): boolean {
-  const url = SUBGRAPH_URLS[chainId as keyof typeof SUBGRAPH_URLS];
-  return !!url && !url.includes('YOUR_ID');
+  return getSubgraphUrl(chainId) !== null;
 }
 
 /**
  * Get subgraph URL for a chain
  */
 export function getSubgraphUrl(chainId: number): string | null {
-  const url = SUBGRAPH_URLS[chainId as keyof typeof SUBGRAPH_URLS];
-  if (!url || url.includes('YOUR_ID')) return null;
-  return url;
+  return CHAINS[chainId]?.subgraphUrl ?? null;
 }
@@ -475,6 +475,25 @@ export const POOL_SWAPS_QUERY = `
   }
 `;
 
+export const POOL_SWAP_HISTORY_QUERY = `
+  query PoolSwapHistory($poolId: String!, $since: BigInt!, $first: Int!, $skip: Int!) {
+    swaps(
+      first: $first
+      skip: $skip
+      where: { pool: $poolId, timestamp_gte: $since }
+      orderBy: timestamp
+      orderDirection: desc
+    ) {
+      id
+      timestamp
+      tokenIn { id }
+      tokenOut { id }
+      amountIn
+      amountOut
+    }
+  }
+`;
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // USER QUERIES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -357,6 +357,16 @@ export interface SwapsResponse {
   swaps: Swap[];
 }
 
+/** Just enough of a swap to price it */
+export interface SwapHistoryEntry extends Pick<Swap, 'id' | 'timestamp' | 'amountIn' | 'amountOut'> {
+  tokenIn: Pick<Token, 'id'>;
+  tokenOut: Pick<Token, 'id'>;
+}
+
+export interface PoolSwapHistoryResponse {
+  swaps: SwapHistoryEntry[];
+}
+
 export interface UserResponse {
   user: User | null;
 }
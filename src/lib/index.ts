@@ -4,3 +4,4 @@ export * from './contracts';
 export * from './wagmi';
 export * from './queryClient';
 export * from './sentry';
+export * from './db';
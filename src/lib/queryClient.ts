@@ -141,6 +141,7 @@ export const QUERY_KEYS = {
   // Subgraph queries
   protocolStats: (chainId: number) => ['protocol', 'stats', chainId] as const,
   tokens: (chainId: number) => ['tokens', chainId] as const,
+  tokenLists: (chainId: number) => ['tokens', 'lists', chainId] as const,
   token: (chainId: number, address: string) => ['token', chainId, address] as const,
   pools: (chainId: number) => ['pools', chainId] as const,
   pool: (chainId: number, poolId: string) => ['pool', chainId, poolId] as const,
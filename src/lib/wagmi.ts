@@ -1,9 +1,11 @@
 /** Wagmi configuration */
-import { createConfig, http } from 'wagmi';
+import { createConfig, fallback, http } from 'wagmi';
 import { base, baseSepolia, bsc, bscTestnet } from 'wagmi/chains';
-import { injected, walletConnect, coinbaseWallet } from 'wagmi/connectors';
+import { connectorsForWallets } from '@rainbow-me/rainbowkit';
+import { coinbaseWallet, injectedWallet, walletConnectWallet } from '@rainbow-me/rainbowkit/wallets';
 import { createPublicClient } from 'viem';
 import { CHAINS, DEFAULT_CHAIN_ID } from './contracts/addresses';
+import { demoWallet } from './demoWallet';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // WALLETCONNECT PROJECT ID - UPDATE THIS
@@ -13,19 +15,16 @@ import { CHAINS, DEFAULT_CHAIN_ID } from './contracts/addresses';
 const WALLETCONNECT_PROJECT_ID = 'YOUR_WALLETCONNECT_PROJECT_ID';
 
 // ─────────────────────────────────────────────────────────────────────────────────
-// RPC URLS - UPDATE FOR PRODUCTION
+// RPC URLS
 // ─────────────────────────────────────────────────────────────────────────────────
-// For production, use private RPC endpoints (Alchemy, Infura, QuickNode, etc.)
+// Ordered RPC lists come from the chain registry; requests fail over down the list.
+// For production, set private RPC endpoints (Alchemy, Infura, QuickNode, etc.)
 
-export const RPC_URLS: Record<number, string> = {
-  // Base
-  8453: 'https://mainnet.base.org',
-  84532: 'https://sepolia.base.org',
-  
-  // BSC
-  56: 'https://bsc-dataseed1.binance.org',
-  97: 'https://data-seed-prebsc-1-s1.binance.org:8545',
-};
+export const RPC_URLS: Record<number, string[]> = Object.fromEntries(
+  Object.values(CHAINS).map(chain => [chain.chainId, chain.rpcUrls])
+);
+
+const rpcTransport = (chainId: number) => fallback((RPC_URLS[chainId] ?? []).map(url => http(url)));
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // SUPPORTED CHAINS
@@ -45,38 +44,38 @@ export const supportedChains = [
 export const wagmiConfig = createConfig({
   chains: supportedChains,
   
-  connectors: [
-    // Injected wallets (MetaMask, Brave, etc.)
-    injected({
-      shimDisconnect: true,
-    }),
-    
-    // Coinbase Wallet
-    coinbaseWallet({
+  connectors: connectorsForWallets(
+    [
+      {
+        groupName: 'Wallets',
+        wallets: [
+          // Injected wallets (MetaMask, Brave, etc.)
+          injectedWallet,
+          coinbaseWallet,
+          // WalletConnect (for mobile wallets)
+          ...(WALLETCONNECT_PROJECT_ID !== 'YOUR_WALLETCONNECT_PROJECT_ID' ? [walletConnectWallet] : []),
+        ],
+      },
+      {
+        // Deterministic offline wallet for demos and e2e tests
+        groupName: 'Testing',
+        wallets: [demoWallet],
+      },
+    ],
+    {
       appName: 'IGNIS',
-      appLogoUrl: 'https://ignis.finance/logo.png', // UPDATE: Your logo URL
-    }),
-    
-    // WalletConnect (for mobile wallets)
-    ...(WALLETCONNECT_PROJECT_ID !== 'YOUR_WALLETCONNECT_PROJECT_ID' 
-      ? [walletConnect({
-          projectId: WALLETCONNECT_PROJECT_ID,
-          metadata: {
-            name: 'IGNIS',
-            description: 'Yield-native decentralized exchange',
-            url: 'https://ignis.finance', // UPDATE: Your URL
-            icons: ['https://ignis.finance/logo.png'], // UPDATE: Your icon
-          },
-        })]
-      : []
-    ),
-  ],
+      appDescription: 'Yield-native decentralized exchange',
+      appUrl: 'https://ignis.finance', // UPDATE: Your URL
+      appIcon: 'https://ignis.finance/logo.png', // UPDATE: Your icon
+      projectId: WALLETCONNECT_PROJECT_ID,
+    }
+  ),
   
   transports: {
-    [base.id]: http(RPC_URLS[base.id]),
-    [baseSepolia.id]: http(RPC_URLS[baseSepolia.id]),
-    [bsc.id]: http(RPC_URLS[bsc.id]),
-    [bscTestnet.id]: http(RPC_URLS[bscTestnet.id]),
+    [base.id]: rpcTransport(base.id),
+    [baseSepolia.id]: rpcTransport(baseSepolia.id),
+    [bsc.id]: rpcTransport(bsc.id),
+    [bscTestnet.id]: rpcTransport(bscTestnet.id),
   },
 });
 
@@ -85,8 +84,7 @@ export const wagmiConfig = createConfig({
 // ─────────────────────────────────────────────────────────────────────────────────
 
 export function getPublicClient(chainId: number) {
-  const rpcUrl = RPC_URLS[chainId];
-  if (!rpcUrl) {
+  if (!RPC_URLS[chainId]?.length) {
     throw new Error(`No RPC URL configured for chain ${chainId}`);
   }
 
@@ -97,7 +95,7 @@ export function getPublicClient(chainId: number) {
 
   return createPublicClient({
     chain,
-    transport: http(rpcUrl),
+    transport: rpcTransport(chainId),
   });
 }
 
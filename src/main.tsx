@@ -2,8 +2,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { ToastContainer } from 'react-toastify';
-import { WalletProvider } from './contexts';
+import { WalletProvider, WatchProvider } from './contexts';
 import { initSentry, SentryErrorBoundary } from './lib/sentry';
+import { getQueryClient, QueryClientProvider } from './lib/queryClient';
 import { registerServiceWorker } from './utils/serviceWorker';
 import App from './App';
 import 'react-toastify/dist/ReactToastify.css';
@@ -60,21 +61,25 @@ ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <SentryErrorBoundary fallback={<ErrorFallback />}>
       <BrowserRouter>
-        <WalletProvider>
-          <App />
-          <ToastContainer
-            position="bottom-right"
-            autoClose={4000}
-            hideProgressBar={false}
-            newestOnTop
-            closeOnClick
-            rtl={false}
-            pauseOnFocusLoss
-            draggable
-            pauseOnHover
-            theme="dark"
-          />
-        </WalletProvider>
+        <QueryClientProvider client={getQueryClient()}>
+          <WalletProvider>
+            <WatchProvider>
+              <App />
+            </WatchProvider>
+            <ToastContainer
+              position="bottom-right"
+              autoClose={4000}
+              hideProgressBar={false}
+              newestOnTop
+              closeOnClick
+              rtl={false}
+              pauseOnFocusLoss
+              draggable
+              pauseOnHover
+              theme="dark"
+            />
+          </WalletProvider>
+        </QueryClientProvider>
       </BrowserRouter>
     </SentryErrorBoundary>
   </React.StrictMode>
@@ -0,0 +1,270 @@
+import { useState, useMemo, useCallback } from 'react';
+import { formatUnits } from 'viem';
+import { ConnectWalletEmpty, EmptyState, LoadingErrorEmpty, SkeletonPositionRow, TokenIcon } from '../components/ui';
+import { TransactionConfirmModal } from '../components/modals';
+import {
+    PageContainer,
+    Button,
+    WatchModeBanner,
+    DataTable,
+    TableHeader,
+    TableHeaderCell,
+    TableBody,
+    TableRow,
+    TableCell,
+    TableContainer,
+} from '../components/shared';
+import { formatAddress, formatNumber, showTxToast } from '../utils';
+import { useWallet, useWatch, READ_ONLY_MESSAGE } from '../contexts';
+import { useAllowances, useTokenLists } from '../hooks';
+import { DEFAULT_CHAIN_ID } from '../lib/contracts/addresses';
+import { usePreflight } from '../hooks/contracts/usePreflight';
+import { APPROVAL_SPENDER_LABELS, buildRevokeCall, isUnlimitedAllowance } from '../lib/contracts/approvals';
+import type { AllowanceEntry } from '../lib/contracts/approvals';
+import type { PendingTransactions } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+const entryKey = (entry: AllowanceEntry): string => `${entry.token.address.toLowerCase()}:${entry.spender}`;
+
+const formatAllowance = (entry: AllowanceEntry): string =>
+    isUnlimitedAllowance(entry.allowance)
+        ? 'Unlimited'
+        : `${formatNumber(parseFloat(formatUnits(entry.allowance, entry.token.decimals)), 4)} ${entry.token.symbol}`;
+
+const revokeSummary = (entry: AllowanceEntry): string =>
+    `Revoke ${entry.token.symbol} for ${APPROVAL_SPENDER_LABELS[entry.spender]}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Allowances granted to the router, buffer and staker for every known
+ * token, with single and bulk revoke. Watched addresses are read-only.
+ */
+export const ApprovalsPage = ({ pendingTxs }: { pendingTxs?: PendingTransactions }) => {
+    const { connect, chainId } = useWallet();
+    const { address, isReadOnly, stopWatching } = useWatch();
+    const viewChainId = chainId ?? DEFAULT_CHAIN_ID;
+    const { tokens } = useTokenLists(viewChainId);
+    const { allowances, isLoading, error, refresh, revoke, isRevoking } = useAllowances({
+        owner: address,
+        chainId: viewChainId,
+        tokens,
+    });
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    // Revokes awaiting confirmation, each simulated before the wallet prompts
+    const [confirming, setConfirming] = useState<AllowanceEntry[] | null>(null);
+    const revokeCalls = useMemo(() => confirming?.map(buildRevokeCall) ?? null, [confirming]);
+    const preflight = usePreflight({
+        call: revokeCalls,
+        account: address,
+        chainId: viewChainId,
+        enabled: !!confirming && !isRevoking,
+    });
+
+    // Drop selections whose allowance disappeared after a rescan
+    const selectedEntries = useMemo(
+        () => allowances.filter(entry => selected.has(entryKey(entry))),
+        [allowances, selected]
+    );
+    const allSelected = allowances.length > 0 && selectedEntries.length === allowances.length;
+
+    const toggle = (entry: AllowanceEntry) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            const key = entryKey(entry);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(allowances.map(entryKey)));
+    };
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // HANDLERS
+    // ─────────────────────────────────────────────────────────────────────────
+    const handleRevoke = useCallback(async (entries: AllowanceEntry[]) => {
+        if (entries.length === 0) return;
+        const label = entries.length === 1 ? revokeSummary(entries[0]!) : `Revoking ${entries.length} approvals`;
+        const toastId = showTxToast.pending(`${label}...`);
+        const submitted = new Map<string, { txId: string; hash: string }>();
+
+        const result = await revoke(entries, (entry, hash) => {
+            const txId = pendingTxs?.addTransaction({ type: 'approve', summary: revokeSummary(entry) });
+            if (txId) {
+                pendingTxs?.submitTx(txId, hash);
+                submitted.set(entryKey(entry), { txId, hash });
+            }
+        });
+
+        const revokedKeys = new Set(result.revoked.map(entryKey));
+        for (const [key, { txId, hash }] of submitted) {
+            if (revokedKeys.has(key)) {
+                pendingTxs?.confirmTransaction(txId, hash);
+            } else {
+                pendingTxs?.failTransaction(txId, result.error || 'Revoke failed');
+            }
+        }
+
+        if (result.revoked.length > 0) {
+            const lastHash = result.hashes[result.hashes.length - 1];
+            showTxToast.success(
+                result.revoked.length === 1 ? `${revokeSummary(result.revoked[0]!)} confirmed` : `Revoked ${result.revoked.length} approvals`,
+                lastHash,
+                toastId,
+                chainId ?? undefined
+            );
+        } else if (result.isUserRejection) {
+            showTxToast.dismiss?.(toastId);
+        }
+        if (result.error && !result.isUserRejection) {
+            showTxToast.error?.(result.error, result.revoked.length > 0 ? undefined : toastId);
+        }
+        setSelected(new Set());
+    }, [revoke, pendingTxs, chainId]);
+
+    const handleConfirmRevoke = async () => {
+        if (!confirming) return;
+        await handleRevoke(confirming);
+        setConfirming(null);
+    };
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // NOT CONNECTED STATE
+    // ─────────────────────────────────────────────────────────────────────────
+    if (!address) {
+        return (
+            <PageContainer size="medium">
+                <ConnectWalletEmpty
+                    onConnect={connect}
+                    message="Connect your wallet to review and revoke the token approvals you have given IGNIS contracts."
+                />
+            </PageContainer>
+        );
+    }
+
+    const readOnlyProps = { disabled: isReadOnly || isRevoking, title: isReadOnly ? READ_ONLY_MESSAGE : undefined };
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // RENDER
+    // ─────────────────────────────────────────────────────────────────────────
+    return (
+        <PageContainer size="medium">
+            {isReadOnly && <WatchModeBanner address={address} onExit={stopWatching} />}
+
+            <div className="portfolio-header">
+                <div>
+                    <h1 className="portfolio-header__title">Approvals</h1>
+                    <p className="portfolio-header__subtitle">
+                        {isReadOnly ? `Token allowances of ${formatAddress(address)}` : 'Tokens IGNIS contracts can spend from your wallet'}
+                    </p>
+                </div>
+                <div className="approvals-actions">
+                    <Button variant="secondary" onClick={refresh} disabled={isLoading}>
+                        Refresh
+                    </Button>
+                    <Button
+                        variant="primary"
+                        onClick={() => setConfirming(selectedEntries)}
+                        {...readOnlyProps}
+                        disabled={readOnlyProps.disabled || selectedEntries.length === 0}
+                    >
+                        {isRevoking ? 'Revoking...' : `Revoke Selected${selectedEntries.length > 0 ? ` (${selectedEntries.length})` : ''}`}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="card">
+                {error ? (
+                    <LoadingErrorEmpty onRetry={refresh} message={error} />
+                ) : isLoading && allowances.length === 0 ? (
+                    <div className="approvals-loading">
+                        <SkeletonPositionRow />
+                        <SkeletonPositionRow />
+                        <SkeletonPositionRow />
+                    </div>
+                ) : allowances.length === 0 ? (
+                    <EmptyState
+                        title="No Active Approvals"
+                        description="No known token can be spent by the router, buffer or staker."
+                        size="small"
+                    />
+                ) : (
+                    <TableContainer>
+                        <DataTable caption="Token approvals">
+                            <TableHeader>
+                                <TableHeaderCell>
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={toggleAll}
+                                        disabled={isReadOnly}
+                                        aria-label="Select all approvals"
+                                    />
+                                </TableHeaderCell>
+                                <TableHeaderCell>Token</TableHeaderCell>
+                                <TableHeaderCell>Spender</TableHeaderCell>
+                                <TableHeaderCell align="right">Allowance</TableHeaderCell>
+                                <TableHeaderCell align="right"><span className="sr-only">Actions</span></TableHeaderCell>
+                            </TableHeader>
+                            <TableBody>
+                                {allowances.map(entry => (
+                                    <TableRow key={entryKey(entry)}>
+                                        <TableCell>
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.has(entryKey(entry))}
+                                                onChange={() => toggle(entry)}
+                                                disabled={isReadOnly}
+                                                aria-label={`Select ${entry.token.symbol} approval for ${APPROVAL_SPENDER_LABELS[entry.spender]}`}
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="approvals-token">
+                                                <TokenIcon token={entry.token} size={24} />
+                                                <span>{entry.token.symbol}</span>
+                                                {entry.flags.nonStandard && (
+                                                    <span className="approvals-flag" title="approve() returns no value on this token">Non-standard</span>
+                                                )}
+                                                {entry.flags.requiresReset && (
+                                                    <span className="approvals-flag" title="Allowance must be set to 0 before it can be changed">Reset required</span>
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div>{APPROVAL_SPENDER_LABELS[entry.spender]}</div>
+                                            <div className="approvals-spender">{formatAddress(entry.spenderAddress)}</div>
+                                        </TableCell>
+                                        <TableCell align="right" mono className={isUnlimitedAllowance(entry.allowance) ? 'approvals-allowance--unlimited' : ''}>
+                                            {formatAllowance(entry)}
+                                        </TableCell>
+                                        <TableCell align="right">
+                                            <Button variant="ghost" onClick={() => setConfirming([entry])} {...readOnlyProps}>
+                                                Revoke
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </DataTable>
+                    </TableContainer>
+                )}
+            </div>
+
+            <TransactionConfirmModal
+                isOpen={!!confirming}
+                onClose={() => setConfirming(null)}
+                onConfirm={handleConfirmRevoke}
+                type="revoke"
+                preflight={preflight}
+                isPending={isRevoking}
+                steps={confirming?.map(entry => ({ title: revokeSummary(entry), detail: `Current allowance: ${formatAllowance(entry)}` })) ?? []}
+            />
+        </PageContainer>
+    );
+};
@@ -1,6 +1,7 @@
-import { useState, useEffect, memo } from 'react';
+import { useState, useEffect, useMemo, memo } from 'react';
+import type { MouseEvent } from 'react';
 import { USER_POSITIONS, UserPosition } from '../data';
-import type { Pool, PendingTransactions } from '../types';
+import type { Pool, PendingTransactions, SwapSettings } from '../types';
 import { 
     DualTokenIcon, 
     SkeletonStats, 
@@ -11,7 +12,7 @@ import {
     InfoTooltip,
     FadeIn,
 } from '../components/ui';
-import { AddLiquidityModal, WithdrawModal } from '../components/modals';
+import { AddLiquidityModal, TransactionConfirmModal, WithdrawModal } from '../components/modals';
 import {
     PageContainer,
     StatsGrid,
@@ -25,9 +26,15 @@ import {
     TableRow,
     TableCell,
     TableContainer,
+    WatchModeBanner,
 } from '../components/shared';
-import { formatCurrency, showTxToast } from '../utils';
-import { useWallet } from '../contexts';
+import { formatCurrency, formatAddress, showTxToast } from '../utils';
+import { useWallet, useWatch, READ_ONLY_MESSAGE } from '../contexts';
+import { useCollectFees, useCollectFeesCall, usePositionFees } from '../hooks/contracts/usePositionFees';
+import { usePreflight } from '../hooks/contracts/usePreflight';
+import { useStoredPositions } from '../hooks/useStoredPositions';
+import { DEFAULT_DEADLINE_SECONDS } from '../lib/contracts/config';
+import { createDeadline } from '../lib/contracts/validation';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // CONSTANTS
@@ -86,19 +93,41 @@ const RangeBadges = ({ lowerPct, upperPct, minPrice, maxPrice }: { lowerPct: num
 // ─────────────────────────────────────────────────────────────────────────────
 // MAIN COMPONENT
 // ─────────────────────────────────────────────────────────────────────────────
-export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: PendingTransactions; onPositionClick?: (poolId: number) => void }) => {
-    const { isConnected, connect } = useWallet();
+export const LiquidityPage = ({ pendingTxs, onPositionClick, settings }: { pendingTxs?: PendingTransactions; onPositionClick?: (poolId: number) => void; settings?: SwapSettings }) => {
+    const { isConnected, connect, chainId } = useWallet();
+    const { address, isReadOnly, stopWatching } = useWatch();
     
     const [isLoading, setIsLoading] = useState(true);
     const [addModalOpen, setAddModalOpen] = useState(false);
     const [withdrawModal, setWithdrawModal] = useState({ open: false, position: null });
+    const { collect, isPending: isCollecting } = useCollectFees();
+    // Position awaiting confirmation; the deadline is fixed so the simulated call is the one sent
+    const [collectTarget, setCollectTarget] = useState<{ position: UserPosition; onCollected: () => void; deadline: bigint } | null>(null);
+    const collectTokenId = collectTarget?.position.onChain?.type === 'CL' ? BigInt(collectTarget.position.onChain.tokenId) : null;
+    const collectCall = useCollectFeesCall({
+        chainId,
+        tokenId: collectTokenId,
+        recipient: address,
+        deadline: collectTarget?.deadline ?? null,
+        enabled: !!collectTarget,
+    });
+    const collectPreflight = usePreflight({
+        call: collectCall,
+        account: address,
+        chainId,
+        enabled: !!collectTarget && !isCollecting,
+    });
+
+    // Positions minted here carry their tokenId; the demo positions follow
+    const stored = useStoredPositions(address, chainId);
+    const positions = useMemo(() => [...stored.positions, ...USER_POSITIONS], [stored.positions]);
 
     // Computed values
-    const totalValue = USER_POSITIONS.reduce((s, p) => (
+    const totalValue = positions.reduce((s, p) => (
         s + (p.token0Amount * p.pool.token0.price) + (p.token1Amount * p.pool.token1.price)
     ), 0);
-    const totalFeesEarned = USER_POSITIONS.reduce((s, p) => s + p.feesEarned, 0);
-    const totalIgniEarned = USER_POSITIONS.reduce((s, p) => s + p.igniEarned, 0);
+    const totalFeesEarned = positions.reduce((s, p) => s + p.feesEarned, 0);
+    const totalIgniEarned = positions.reduce((s, p) => s + p.igniEarned, 0);
 
     useEffect(() => {
         const timer = setTimeout(() => setIsLoading(false), LOADING_DELAY);
@@ -128,6 +157,28 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
         );
     };
 
+    const handleCollectFees = (pos: UserPosition, onCollected: () => void) => {
+        if (!chainId || pos.onChain?.type !== 'CL') return;
+        setCollectTarget({ position: pos, onCollected, deadline: createDeadline(DEFAULT_DEADLINE_SECONDS) });
+    };
+
+    const handleConfirmCollect = async () => {
+        if (!chainId || !collectTarget || collectTokenId === null) return;
+        const { position: pos, onCollected, deadline } = collectTarget;
+        const pair = `${pos.pool.token0.symbol}/${pos.pool.token1.symbol}`;
+        const toastId = showTxToast.pending(`Collecting fees from ${pair}...`);
+        const result = await collect(chainId, collectTokenId, deadline);
+        setCollectTarget(null);
+        if (result.success) {
+            showTxToast.success(`Collected fees from ${pair}`, result.hash, toastId, chainId);
+            onCollected();
+        } else if (result.isUserRejection) {
+            showTxToast.dismiss?.(toastId);
+        } else {
+            showTxToast.error?.(result.error || 'Collecting fees failed', toastId);
+        }
+    };
+
     const handleWithdraw = (pos) => {
         setWithdrawModal({ open: true, position: pos });
     };
@@ -137,15 +188,19 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
     // ─────────────────────────────────────────────────────────────────────────
     return (
         <PageContainer style={{ maxWidth: 1100 }}>
+            {isReadOnly && address && <WatchModeBanner address={address} onExit={stopWatching} />}
+
             {/* Header */}
             <div className="liquidity-header">
                 <div>
-                    <h1 className="liquidity-header__title">My Liquidity</h1>
-                    <p className="liquidity-header__subtitle">Manage your active positions</p>
+                    <h1 className="liquidity-header__title">{isReadOnly && address ? 'Liquidity' : 'My Liquidity'}</h1>
+                    <p className="liquidity-header__subtitle">
+                        {isReadOnly && address ? `Positions held by ${formatAddress(address)}` : 'Manage your active positions'}
+                    </p>
                 </div>
                 <div className="liquidity-header__actions">
                     {totalIgniEarned > 0 && (
-                        <Button variant="secondary" onClick={handleClaimAll}>
+                        <Button variant="secondary" onClick={handleClaimAll} disabled={isReadOnly} title={isReadOnly ? READ_ONLY_MESSAGE : undefined}>
                             Claim All ({totalIgniEarned.toFixed(1)} IGNIS)
                         </Button>
                     )}
@@ -166,7 +221,7 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
                         <StatBox label="Total Value" value={formatCurrency(totalValue)} />
                         <StatBox label="Fees Earned" value={formatCurrency(totalFeesEarned)} />
                         <StatBox label="Unclaimed IGNIS" value={totalIgniEarned.toFixed(2)} color="gold" />
-                        <StatBox label="Positions" value={USER_POSITIONS.length.toString()} />
+                        <StatBox label="Positions" value={positions.length.toString()} />
                     </>
                 )}
             </StatsGrid>
@@ -181,6 +236,7 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
                                 <TableHeaderCell align="center">Range</TableHeaderCell>
                                 <TableHeaderCell align="right">Value</TableHeaderCell>
                                 <TableHeaderCell align="right">APR</TableHeaderCell>
+                                <TableHeaderCell align="right">Fees</TableHeaderCell>
                                 <TableHeaderCell align="right">IGNIS Rewards</TableHeaderCell>
                                 <TableHeaderCell align="center">Status</TableHeaderCell>
                                 <TableHeaderCell align="right" />
@@ -193,13 +249,16 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
                                         <SkeletonPositionRow />
                                     </>
                                 ) : (
-                                    USER_POSITIONS.map(pos => (
+                                    positions.map(pos => (
                                         <PositionTableRow 
                                             key={pos.id} 
                                             position={pos} 
                                             onClaim={handleClaimPosition}
+                                            onCollectFees={handleCollectFees}
                                             onWithdraw={handleWithdraw}
+                                            chainId={chainId}
                                             onPositionClick={onPositionClick}
+                                            readOnly={isReadOnly}
                                         />
                                     ))
                                 )}
@@ -217,12 +276,15 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
                         <SkeletonPositionCard />
                     </>
                 ) : (
-                    USER_POSITIONS.map(pos => (
+                    positions.map(pos => (
                         <PositionMobileCard 
                             key={pos.id} 
                             position={pos} 
+                            onCollectFees={handleCollectFees}
                             onWithdraw={handleWithdraw}
+                            chainId={chainId}
                             onPositionClick={onPositionClick}
+                            readOnly={isReadOnly}
                         />
                     ))
                 )}
@@ -232,10 +294,11 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
             {addModalOpen && (
                 <AddLiquidityModal 
                     isOpen={addModalOpen} 
-                    onClose={() => setAddModalOpen(false)} 
+                    onClose={() => { setAddModalOpen(false); stored.refresh(); }} 
                     pool={null} 
                     isConnected={isConnected} 
                     onConnect={connect} 
+                    settings={settings}
                 />
             )}
             {withdrawModal.open && (
@@ -245,6 +308,18 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
                     position={withdrawModal.position} 
                 />
             )}
+            <TransactionConfirmModal
+                isOpen={!!collectTarget}
+                onClose={() => setCollectTarget(null)}
+                onConfirm={handleConfirmCollect}
+                type="claim"
+                preflight={collectPreflight}
+                isPending={isCollecting}
+                steps={collectTarget ? [{
+                    title: `Collect fees from ${collectTarget.position.pool.token0.symbol}/${collectTarget.position.pool.token1.symbol}`,
+                    detail: 'Liquidity stays in the position',
+                }] : []}
+            />
         </PageContainer>
     );
 };
@@ -253,7 +328,42 @@ export const LiquidityPage = ({ pendingTxs, onPositionClick }: { pendingTxs?: Pe
 // SUB-COMPONENTS
 // ─────────────────────────────────────────────────────────────────────────────
 
-const PositionTableRow = memo(({ position, onClaim, onWithdraw, onPositionClick }: { position: UserPosition; onClaim: (pos: UserPosition) => void; onWithdraw: (pos: UserPosition) => void; onPositionClick?: (poolId: number) => void }) => {
+interface PositionFeesProps {
+    position: UserPosition;
+    chainId: number | null;
+    onCollectFees: (pos: UserPosition, onCollected: () => void) => void;
+    readOnly?: boolean;
+}
+
+// Fees read on-chain for positions that have an on-chain reference, the static estimate otherwise
+const PositionFeesValue = ({ position, chainId, onCollectFees, readOnly = false }: PositionFeesProps) => {
+    const { fees, isLoading, refresh } = usePositionFees({
+        chainId,
+        position: position.onChain,
+        token0: position.pool.token0,
+        token1: position.pool.token1,
+    });
+    const { token0, token1 } = position.pool;
+    const canCollect = position.onChain?.type === 'CL' && !!fees && (fees.amount0 > 0 || fees.amount1 > 0);
+
+    return (
+        <div className="position-table__ignis-cell">
+            <span
+                style={{ fontFamily: 'JetBrains Mono', fontWeight: 600 }}
+                title={fees ? `${fees.amount0.toFixed(6)} ${token0.symbol} + ${fees.amount1.toFixed(6)} ${token1.symbol}` : undefined}
+            >
+                {isLoading ? '…' : formatCurrency(fees ? fees.usd : position.feesEarned)}
+            </span>
+            {canCollect && (
+                <Button variant="secondary" onClick={(e: MouseEvent) => { e.stopPropagation(); onCollectFees(position, refresh); }} disabled={readOnly} title={readOnly ? READ_ONLY_MESSAGE : 'Claim fees without removing liquidity'} style={{ padding: '0.3rem 0.625rem', fontSize: '0.6875rem' }}>
+                    Collect
+                </Button>
+            )}
+        </div>
+    );
+};
+
+const PositionTableRow = memo(({ position, onClaim, onCollectFees, onWithdraw, onPositionClick, chainId, readOnly = false }: { position: UserPosition; onClaim: (pos: UserPosition) => void; onCollectFees: PositionFeesProps['onCollectFees']; onWithdraw: (pos: UserPosition) => void; onPositionClick?: (poolId: number) => void; chainId: number | null; readOnly?: boolean }) => {
     const pos = position;
     const value = (pos.token0Amount * pos.pool.token0.price) + (pos.token1Amount * pos.pool.token1.price);
     const posAPR = pos.pool.apr + (pos.pool.aprEmissions || 0) + (pos.pool.aprYield || 0);
@@ -292,13 +402,16 @@ const PositionTableRow = memo(({ position, onClaim, onWithdraw, onPositionClick
                     {posAPR.toFixed(2)}%
                 </span>
             </TableCell>
+            <TableCell align="right">
+                <PositionFeesValue position={pos} chainId={chainId} onCollectFees={onCollectFees} readOnly={readOnly} />
+            </TableCell>
             <TableCell align="right">
                 {pos.igniEarned > 0 ? (
                     <div className="position-table__ignis-cell">
                         <span style={{ fontFamily: 'JetBrains Mono', fontWeight: 600, color: '#F5B041' }}>
                             {pos.igniEarned.toFixed(2)}
                         </span>
-                        <Button variant="primary" onClick={(e) => { e.stopPropagation(); onClaim(pos); }} style={{ padding: '0.3rem 0.625rem', fontSize: '0.6875rem' }}>
+                        <Button variant="primary" onClick={(e) => { e.stopPropagation(); onClaim(pos); }} disabled={readOnly} title={readOnly ? READ_ONLY_MESSAGE : undefined} style={{ padding: '0.3rem 0.625rem', fontSize: '0.6875rem' }}>
                             Claim
                         </Button>
                     </div>
@@ -325,7 +438,7 @@ const PositionTableRow = memo(({ position, onClaim, onWithdraw, onPositionClick
                 </span>
             </TableCell>
             <TableCell align="right">
-                <Button variant="danger" onClick={(e) => { e.stopPropagation(); onWithdraw(pos); }} className="btn--danger">
+                <Button variant="danger" onClick={(e) => { e.stopPropagation(); onWithdraw(pos); }} disabled={readOnly} title={readOnly ? READ_ONLY_MESSAGE : undefined} className="btn--danger">
                     Withdraw
                 </Button>
             </TableCell>
@@ -333,7 +446,7 @@ const PositionTableRow = memo(({ position, onClaim, onWithdraw, onPositionClick
     );
 });
 
-const PositionMobileCard = memo(({ position, onWithdraw, onPositionClick }: { position: UserPosition; onWithdraw: (pos: UserPosition) => void; onPositionClick?: (poolId: number) => void }) => {
+const PositionMobileCard = memo(({ position, onCollectFees, onWithdraw, onPositionClick, chainId, readOnly = false }: { position: UserPosition; onCollectFees: PositionFeesProps['onCollectFees']; onWithdraw: (pos: UserPosition) => void; onPositionClick?: (poolId: number) => void; chainId: number | null; readOnly?: boolean }) => {
     const pos = position;
     const value = (pos.token0Amount * pos.pool.token0.price) + (pos.token1Amount * pos.pool.token1.price);
     const posAPR = pos.pool.apr + (pos.pool.aprEmissions || 0) + (pos.pool.aprYield || 0);
@@ -421,7 +534,7 @@ const PositionMobileCard = memo(({ position, onWithdraw, onPositionClick }: { po
                 </div>
             </div>
             
-            <div className="mobile-card__stats" style={{ gridTemplateColumns: 'repeat(3, 1fr)', marginBottom: '0.875rem' }}>
+            <div className="mobile-card__stats" style={{ gridTemplateColumns: 'repeat(2, 1fr)', marginBottom: '0.875rem' }}>
                 <div className="mobile-card__stat">
                     <div className="mobile-card__stat-label">Value</div>
                     <div className="mobile-card__stat-value">{formatCurrency(value)}</div>
@@ -436,9 +549,17 @@ const PositionMobileCard = memo(({ position, onWithdraw, onPositionClick }: { po
                     <div className="mobile-card__stat-label">Type</div>
                     <div className="mobile-card__stat-value">{pos.pool.type}</div>
                 </div>
+                <div className="mobile-card__stat">
+                    <div className="mobile-card__stat-label">Fees</div>
+                    <div className="mobile-card__stat-value">
+                        <PositionFeesValue position={pos} chainId={chainId} onCollectFees={onCollectFees} readOnly={readOnly} />
+                    </div>
+                </div>
             </div>
             <button 
                 onClick={(e) => { e.stopPropagation(); onWithdraw(pos); }} 
+                disabled={readOnly}
+                title={readOnly ? READ_ONLY_MESSAGE : undefined}
                 className="btn btn--danger"
                 style={{ width: '100%', padding: '0.625rem', borderRadius: 10 }}
             >
@@ -1,10 +1,19 @@
 import { useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { POOLS, TOKENS } from '../data';
-import type { Token, Pool } from '../types';
+import type { Token, Pool, SwapSettings } from '../types';
 import { TokenIcon, DualTokenIcon } from '../components/ui';
 import { AddLiquidityModal } from '../components/modals';
+import { PositionSimulator } from '../components/charts';
 import { formatCurrency, formatNumber } from '../utils';
+import {
+    MAX_BINS_PER_SIDE,
+    binStepFromPercent,
+    buildBinDistribution,
+    getIdFromPrice,
+    previewBinDistribution,
+} from '../lib/contracts/binDistribution';
+import { binPositionModel, clPositionModelForValue } from '../lib/contracts/positionValue';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -12,11 +21,15 @@ import { formatCurrency, formatNumber } from '../utils';
 interface PoolDetailPageProps {
     isConnected: boolean;
     onConnect: () => void;
+    settings?: SwapSettings;
 }
 
 type ChartTimeframe = '24H' | '7D' | '30D' | 'ALL';
 type ChartMetric = 'tvl' | 'volume' | 'fees';
 
+/** Simulator ranges, ± percent around the current price */
+const SIMULATION_RANGES = [5, 10, 25, 50];
+
 interface SwapData {
     id: string;
     timestamp: number;
@@ -164,13 +177,15 @@ const MiniChart = ({ data, color, height = 60 }: { data: { timestamp: number; va
 // ─────────────────────────────────────────────────────────────────────────────
 // MAIN COMPONENT
 // ─────────────────────────────────────────────────────────────────────────────
-export const PoolDetailPage: React.FC<PoolDetailPageProps> = ({ isConnected, onConnect }) => {
+export const PoolDetailPage: React.FC<PoolDetailPageProps> = ({ isConnected, onConnect, settings }) => {
     const { poolId } = useParams<{ poolId: string }>();
     const navigate = useNavigate();
     
     const [chartTimeframe, setChartTimeframe] = useState<ChartTimeframe>('7D');
     const [chartMetric, setChartMetric] = useState<ChartMetric>('tvl');
     const [addLiquidityOpen, setAddLiquidityOpen] = useState(false);
+    const [simRangePct, setSimRangePct] = useState(10);
+    const [simDeposit, setSimDeposit] = useState('1000');
     
     // Find pool by ID
     const pool = useMemo(() => {
@@ -241,6 +256,34 @@ export const PoolDetailPage: React.FC<PoolDetailPageProps> = ({ isConnected, onC
         ];
     }, [isConnected, pool]);
     
+    // Simulated position: ±simRangePct around the current price, deposit split evenly by value
+    const simulationModel = useMemo(() => {
+        if (!pool) return null;
+        const { token0, token1 } = pool;
+        const currentPrice = token0.price / token1.price;
+        const depositUsd = parseFloat(simDeposit) || 0;
+        if (!(currentPrice > 0) || !(depositUsd > 0) || !(token1.price > 0)) return null;
+        const minPrice = currentPrice * (1 - simRangePct / 100);
+        const maxPrice = currentPrice * (1 + simRangePct / 100);
+
+        if (pool.type === 'CLAMM') {
+            return clPositionModelForValue(currentPrice, minPrice, maxPrice, depositUsd / token1.price);
+        }
+        const binStep = binStepFromPercent(pool.fee);
+        const activeId = getIdFromPrice(currentPrice, binStep, token0.decimals, token1.decimals);
+        const lowerId = Math.max(activeId - MAX_BINS_PER_SIDE, getIdFromPrice(minPrice, binStep, token0.decimals, token1.decimals));
+        const upperId = Math.min(activeId + MAX_BINS_PER_SIDE, getIdFromPrice(maxPrice, binStep, token0.decimals, token1.decimals));
+        const distribution = buildBinDistribution({ shape: 'spot', activeId, lowerId, upperId, amountX: BigInt(1), amountY: BigInt(1) });
+        const bins = previewBinDistribution(
+            distribution,
+            activeId,
+            binStep,
+            { amountX: depositUsd / 2 / token0.price, amountY: depositUsd / 2 / token1.price },
+            { x: token0.decimals, y: token1.decimals }
+        );
+        return binPositionModel(bins, binStep, currentPrice);
+    }, [pool, simRangePct, simDeposit]);
+    
     if (!pool) {
         return (
             <div className="pool-detail">
@@ -602,6 +645,41 @@ export const PoolDetailPage: React.FC<PoolDetailPageProps> = ({ isConnected, onC
                         </div>
                     </div>
                     
+                    {/* Position Simulator */}
+                    <div className="pool-detail__sim-card">
+                        <div className="pool-detail__chart-header">
+                            <h3 className="pool-detail__section-title">Simulate a Position</h3>
+                            <div className="pool-detail__timeframe-tabs">
+                                {SIMULATION_RANGES.map(pct => (
+                                    <button
+                                        key={pct}
+                                        className={`pool-detail__tf-tab ${simRangePct === pct ? 'pool-detail__tf-tab--active' : ''}`}
+                                        onClick={() => setSimRangePct(pct)}
+                                    >
+                                        ±{pct}%
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="pool-detail__sim-deposit">
+                            Deposit (USD)
+                            <input
+                                type="number"
+                                value={simDeposit}
+                                onChange={e => setSimDeposit(e.target.value)}
+                                className="pool-detail__sim-input"
+                                min="0"
+                            />
+                        </label>
+                        <PositionSimulator
+                            model={simulationModel}
+                            token0={pool.token0}
+                            token1={pool.token1}
+                            feeApr={pool.aprFees ?? 0}
+                            isYieldBearing={!!pool.isYieldBearing}
+                        />
+                    </div>
+                    
                     {/* Recent Swaps */}
                     <div className="pool-detail__swaps-card">
                         <h3 className="pool-detail__section-title">Recent Swaps</h3>
@@ -708,6 +786,7 @@ export const PoolDetailPage: React.FC<PoolDetailPageProps> = ({ isConnected, onC
                     pool={pool}
                     isConnected={isConnected}
                     onConnect={onConnect}
+                    settings={settings}
                 />
             )}
         </div>
@@ -16,6 +16,7 @@ import {
     FadeIn,
 } from '../components/ui';
 import { AddLiquidityModal } from '../components/modals';
+import type { SwapSettings } from '../types';
 import { 
     PageContainer, 
     PageHeader, 
@@ -55,7 +56,7 @@ const TYPE_FILTER_OPTIONS = [
 // ─────────────────────────────────────────────────────────────────────────────
 // MAIN COMPONENT
 // ─────────────────────────────────────────────────────────────────────────────
-export const PoolsPage = ({ isConnected, onConnect }) => {
+export const PoolsPage = ({ isConnected, onConnect, settings }: { isConnected: boolean; onConnect: () => void; settings?: SwapSettings }) => {
     const navigate = useNavigate();
     const [isLoading, setIsLoading] = useState(true);
     const [search, setSearch] = useState('');
@@ -294,6 +295,7 @@ export const PoolsPage = ({ isConnected, onConnect }) => {
                     pool={selectedPool} 
                     isConnected={isConnected} 
                     onConnect={onConnect} 
+                    settings={settings}
                 />
             )}
         </PageContainer>
@@ -5,7 +5,6 @@ import {
     USER_POSITIONS, 
     USER_LOCKS, 
     PORTFOLIO_HISTORY,
-    RECENT_ACTIVITY,
     getWalletValue,
     getLPValue,
     getStakingValue,
@@ -14,6 +13,7 @@ import {
     get24hChange,
     get7dChange,
 } from '../data';
+import type { ActivityItem } from '../data';
 import { 
     TokenIcon, 
     DualTokenIcon, 
@@ -33,22 +33,40 @@ import {
     CardBody, 
     Button,
     StatsGrid,
+    WatchModeBanner,
 } from '../components/shared';
-import { formatCurrency, formatNumber, showTxToast } from '../utils';
-import { useWallet } from '../contexts';
+import { formatCurrency, formatNumber, formatAddress, showTxToast } from '../utils';
+import { useWallet, useWatch, READ_ONLY_MESSAGE } from '../contexts';
+import { useUser, useUserSwaps, useUserStakerPositions } from '../hooks';
+import { DEFAULT_CHAIN_ID } from '../lib/contracts/addresses';
 import { TIMING } from '../constants';
+import type { Swap } from '../lib/graphql/types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
 // ─────────────────────────────────────────────────────────────────────────────
 type TimeFrame = '24h' | '7d' | '30d' | 'all';
 
+/**
+ * Subgraph swap as a Recent Activity row
+ */
+const swapToActivity = (swap: Swap): ActivityItem => ({
+    id: swap.id,
+    type: 'swap',
+    title: 'Swap',
+    description: `${formatNumber(parseFloat(swap.amountIn))} ${swap.tokenIn.symbol} → ${formatNumber(parseFloat(swap.amountOut))} ${swap.tokenOut.symbol}`,
+    value: formatCurrency(parseFloat(swap.amountUSD)),
+    timestamp: new Date(parseInt(swap.timestamp) * 1000),
+    txHash: swap.txHash,
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // MAIN COMPONENT
 // ─────────────────────────────────────────────────────────────────────────────
 export const PortfolioPage = () => {
     const navigate = useNavigate();
-    const { isConnected, connect } = useWallet();
+    const { connect, chainId } = useWallet();
+    const { address, isReadOnly, stopWatching } = useWatch();
     const [isLoading, setIsLoading] = useState(true);
     const [timeframe, setTimeframe] = useState<TimeFrame>('7d');
 
@@ -61,6 +79,13 @@ export const PortfolioPage = () => {
     const change24h = get24hChange();
     const change7d = get7dChange();
 
+    // Account data for the connected or watched address
+    const viewChainId = chainId ?? DEFAULT_CHAIN_ID;
+    const { data: user } = useUser({ chainId: viewChainId, address });
+    const { data: swaps } = useUserSwaps({ chainId: viewChainId, address, first: 5 });
+    const { data: stakerPositions } = useUserStakerPositions({ chainId: viewChainId, address });
+    const recentActivity = useMemo(() => swaps.map(swapToActivity), [swaps]);
+
     // Asset allocation for donut chart
     const allocation = useMemo(() => [
         { label: 'Wallet', value: walletValue, color: '#627EEA', percent: (walletValue / totalValue) * 100 },
@@ -95,7 +120,7 @@ export const PortfolioPage = () => {
     // ─────────────────────────────────────────────────────────────────────────
     // NOT CONNECTED STATE
     // ─────────────────────────────────────────────────────────────────────────
-    if (!isConnected) {
+    if (!address) {
         return (
             <PageContainer style={{ maxWidth: 1200 }}>
                 <ConnectWalletEmpty 
@@ -111,14 +136,19 @@ export const PortfolioPage = () => {
     // ─────────────────────────────────────────────────────────────────────────
     return (
         <PageContainer style={{ maxWidth: 1200 }}>
+            {isReadOnly && <WatchModeBanner address={address} onExit={stopWatching} />}
+
             {/* Header */}
             <div className="portfolio-header">
                 <div>
                     <h1 className="portfolio-header__title">Portfolio</h1>
-                    <p className="portfolio-header__subtitle">Overview of your DeFi positions</p>
+                    <p className="portfolio-header__subtitle">
+                        {isReadOnly ? `Overview of ${formatAddress(address)}` : 'Overview of your DeFi positions'}
+                        {user && ` · ${formatNumber(parseInt(user.totalSwaps))} swaps · ${formatCurrency(parseFloat(user.totalVolumeUSD))} volume`}
+                    </p>
                 </div>
                 {(unclaimedFees > 0 || unclaimedIgnis > 0) && (
-                    <Button variant="primary" onClick={handleClaimAll}>
+                    <Button variant="primary" onClick={handleClaimAll} disabled={isReadOnly} title={isReadOnly ? READ_ONLY_MESSAGE : undefined}>
                         Claim All Rewards
                     </Button>
                 )}
@@ -190,7 +220,7 @@ export const PortfolioPage = () => {
                             icon="🔒"
                             title="Staking"
                             value={formatCurrency(stakingValue)}
-                            subtitle={`${formatNumber(USER_LOCKS.reduce((s, l) => s + l.veIgni, 0))} veIGNIS`}
+                            subtitle={`${formatNumber(USER_LOCKS.reduce((s, l) => s + l.veIgni, 0))} veIGNIS · ${stakerPositions.length} staked`}
                             onClick={() => navigate('/app/stake')}
                             color="#A78BFA"
                             badge={unclaimedIgnis > 0 ? `+${unclaimedIgnis.toFixed(1)} IGNIS` : undefined}
@@ -324,7 +354,13 @@ export const PortfolioPage = () => {
                                         </span>
                                     </div>
                                 </div>
-                                <Button variant="primary" onClick={handleClaimAll} style={{ width: '100%', marginTop: '1rem' }}>
+                                <Button
+                                    variant="primary"
+                                    onClick={handleClaimAll}
+                                    disabled={isReadOnly}
+                                    title={isReadOnly ? READ_ONLY_MESSAGE : undefined}
+                                    style={{ width: '100%', marginTop: '1rem' }}
+                                >
                                     Claim All
                                 </Button>
                             </CardBody>
@@ -339,7 +375,9 @@ export const PortfolioPage = () => {
                                 <button className="card__section-link">View All →</button>
                             </div>
                             <div className="activity-list">
-                                {RECENT_ACTIVITY.slice(0, 5).map(activity => (
+                                {recentActivity.length === 0 ? (
+                                    <NoActivityEmpty />
+                                ) : recentActivity.map(activity => (
                                     <ActivityRow key={activity.id} activity={activity} />
                                 ))}
                             </div>
@@ -504,7 +542,7 @@ const PortfolioChart: React.FC<PortfolioChartProps> = ({ data, timeframe }) => {
 };
 
 interface ActivityRowProps {
-    activity: typeof RECENT_ACTIVITY[0];
+    activity: ActivityItem;
 }
 
 const ActivityRow: React.FC<ActivityRowProps> = ({ activity }) => {
@@ -1,5 +1,4 @@
 import { useState } from 'react';
-import { USER_LOCKS } from '../data';
 import { LockIgnisModal, SplitMergeModal } from '../components/modals';
 import { 
     ConnectWalletEmpty,
@@ -16,9 +15,11 @@ import {
     StatBox,
     Button,
     ProgressBar,
+    WatchModeBanner,
 } from '../components/shared';
 import { formatNumber, formatCurrency, showTxToast } from '../utils';
-import { useWallet } from '../contexts';
+import { useWallet, useWatch, READ_ONLY_MESSAGE } from '../contexts';
+import { useVeIGNILocks } from '../hooks';
 import type { PendingTransactions } from '../types';
 import type { UserLock } from '../types/veIGNI';
 import '../styles/split-merge.css';
@@ -27,7 +28,10 @@ import '../styles/split-merge.css';
 // MAIN COMPONENT
 // ─────────────────────────────────────────────────────────────────────────────
 export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions }) => {
-    const { isConnected, connect } = useWallet();
+    const { connect } = useWallet();
+    const { address, isReadOnly, stopWatching } = useWatch();
+    const { locks } = useVeIGNILocks({ contractAddress: VE_IGNI_ADDRESS, owner: address });
+    const readOnlyProps = { disabled: isReadOnly, title: isReadOnly ? READ_ONLY_MESSAGE : undefined };
     
     const [lockModalOpen, setLockModalOpen] = useState(false);
     const [splitMergeModalOpen, setSplitMergeModalOpen] = useState(false);
@@ -35,8 +39,8 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
     // Constants
     const igniBalance = 10000;
     const igniPrice = 2.00;
-    const totalLocked = USER_LOCKS.reduce((s, l) => s + l.lockedIgni, 0);
-    const totalVeIgni = USER_LOCKS.reduce((s, l) => s + l.veIgni, 0);
+    const totalLocked = locks.reduce((s, l) => s + l.lockedAmount, 0);
+    const totalVeIgni = locks.reduce((s, l) => s + l.votingPower, 0);
 
     // ─────────────────────────────────────────────────────────────────────────
     // HANDLERS
@@ -62,7 +66,7 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
     // ─────────────────────────────────────────────────────────────────────────
     // NOT CONNECTED STATE
     // ─────────────────────────────────────────────────────────────────────────
-    if (!isConnected) {
+    if (!address) {
         return (
             <PageContainer style={{ maxWidth: 1100 }}>
                 <ConnectWalletEmpty 
@@ -78,6 +82,8 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
     // ─────────────────────────────────────────────────────────────────────────
     return (
         <PageContainer style={{ maxWidth: 1100 }}>
+            {isReadOnly && <WatchModeBanner address={address} onExit={stopWatching} />}
+
             {/* Header */}
             <PageHeader subtitle="Lock IGNIS to receive veIGNIS for governance, fees, and rewards">
                 <span className="text-gradient">ve</span>IGNIS{' '}
@@ -124,7 +130,7 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
                             <div style={{ fontSize: '0.9rem', color: '#8A8A8A', marginBottom: '1rem' }}>
                                 Lock your IGNIS tokens to receive veIGNIS voting power and earn protocol rewards
                             </div>
-                            <Button variant="primary" onClick={() => setLockModalOpen(true)} style={{ padding: '1rem 2.5rem', fontSize: '1rem' }}>
+                            <Button variant="primary" onClick={() => setLockModalOpen(true)} {...readOnlyProps} style={{ padding: '1rem 2.5rem', fontSize: '1rem' }}>
                                 Lock IGNIS
                             </Button>
                         </div>
@@ -165,7 +171,7 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
                                 <span className="rewards-total__value">96.55 IGNIS</span>
                             </div>
                         </div>
-                        <Button variant="primary" onClick={handleClaimRewards} style={{ width: '100%', padding: '0.85rem', fontSize: '0.95rem' }}>
+                        <Button variant="primary" onClick={handleClaimRewards} {...readOnlyProps} style={{ width: '100%', padding: '0.85rem', fontSize: '0.95rem' }}>
                             Claim All Rewards
                         </Button>
                     </CardBody>
@@ -201,10 +207,11 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
                     <h3 style={{ fontFamily: 'Space Grotesk', fontSize: '1.1rem', fontWeight: 600, color: '#A3A3A3' }}>
                         Your veIGNIS Locks
                     </h3>
-                    {USER_LOCKS.length >= 2 && (
+                    {locks.length >= 2 && (
                         <Button 
                             variant="secondary" 
                             onClick={() => setSplitMergeModalOpen(true)}
+                            {...readOnlyProps}
                             style={{ padding: '0.5rem 1rem', fontSize: '0.8rem' }}
                         >
                             ✂️ Split / Merge
@@ -224,12 +231,13 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
                     </div>
                     
                     {/* Rows */}
-                    {USER_LOCKS.map((lock) => (
+                    {locks.map((lock) => (
                         <LockRow 
                             key={lock.id} 
                             lock={lock} 
                             onExtend={handleExtend}
                             onAdd={handleAddToLock}
+                            readOnly={isReadOnly}
                         />
                     ))}
                     
@@ -241,7 +249,7 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
                         <div></div>
                         <div></div>
                         <div></div>
-                        <Button variant="primary" onClick={() => setLockModalOpen(true)} style={{ padding: '0.5rem 0.8rem', fontSize: '0.75rem' }}>
+                        <Button variant="primary" onClick={() => setLockModalOpen(true)} {...readOnlyProps} style={{ padding: '0.5rem 0.8rem', fontSize: '0.75rem' }}>
                             + New Lock
                         </Button>
                     </div>
@@ -261,22 +269,9 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
             <SplitMergeModal
                 isOpen={splitMergeModalOpen}
                 onClose={() => setSplitMergeModalOpen(false)}
-                locks={USER_LOCKS.map(lock => ({
-                    id: lock.id,
-                    tokenId: BigInt(lock.id),
-                    lockedAmount: lock.lockedIgni,
-                    lockedAmountRaw: BigInt(Math.floor(lock.lockedIgni * 1e18)),
-                    votingPower: lock.veIgni,
-                    votingPowerRaw: BigInt(Math.floor(lock.veIgni * 1e18)),
-                    initialVotingPower: lock.initialVeIgni,
-                    multiplier: `${(lock.veIgni / lock.lockedIgni).toFixed(2)}x`,
-                    unlockDate: lock.unlockDate,
-                    isPerma: lock.isPerma,
-                    progress: (1 - (lock.veIgni / lock.initialVeIgni)) * 100,
-                    hasVoted: false,
-                } as UserLock))}
+                locks={locks}
                 tokens={{ baseToken: 'IGNIS', votingToken: 'veIGNIS', decimals: 18 }}
-                contractAddress="0x0000000000000000000000000000000000000000"
+                contractAddress={VE_IGNI_ADDRESS}
                 onSuccess={() => {
                     setSplitMergeModalOpen(false);
                     showTxToast.success('Split/Merge completed successfully!', '0x' + Math.random().toString(16).slice(2, 10));
@@ -290,7 +285,12 @@ export const StakePage = ({ pendingTxs }: { pendingTxs?: PendingTransactions })
 // SUB-COMPONENTS
 // ─────────────────────────────────────────────────────────────────────────────
 
-const LockRow = ({ lock, onExtend, onAdd }) => {
+const LockRow = ({ lock, onExtend, onAdd, readOnly }: {
+    lock: UserLock;
+    onExtend: (lock: UserLock) => void;
+    onAdd: (lock: UserLock) => void;
+    readOnly: boolean;
+}) => {
     const progressColor = lock.isPerma ? '#A78BFA' : lock.progress > 70 ? '#F59E0B' : '#22C55E';
     const timeRemaining = lock.isPerma ? 100 : (100 - lock.progress);
 
@@ -298,16 +298,16 @@ const LockRow = ({ lock, onExtend, onAdd }) => {
         <div className="locks-table__row">
             <div className="locks-table__id">#{lock.id}</div>
             <div>
-                <div className="locks-table__amount">{lock.lockedIgni.toLocaleString()} IGNIS</div>
-                <div className="locks-table__amount-usd">≈ ${(lock.lockedIgni * 2).toLocaleString()}</div>
+                <div className="locks-table__amount">{lock.lockedAmount.toLocaleString()} IGNIS</div>
+                <div className="locks-table__amount-usd">≈ ${(lock.lockedAmount * 2).toLocaleString()}</div>
             </div>
             <div>
-                <div className="locks-table__veignis">{formatNumber(lock.veIgni)}</div>
+                <div className="locks-table__veignis">{formatNumber(lock.votingPower)}</div>
                 {!lock.isPerma && (
-                    <div style={{ fontSize: '0.65rem', color: '#7A7A7A' }}>of {formatNumber(lock.initialVeIgni)}</div>
+                    <div style={{ fontSize: '0.65rem', color: '#7A7A7A' }}>of {formatNumber(lock.initialVotingPower)}</div>
                 )}
             </div>
-            <div className="locks-table__multiplier">{lock.multiplier}x</div>
+            <div className="locks-table__multiplier">{lock.multiplier}</div>
             <div>
                 {lock.isPerma ? (
                     <span className="locks-table__perma"><span>♾️</span> Permanent</span>
@@ -317,7 +317,7 @@ const LockRow = ({ lock, onExtend, onAdd }) => {
                             {lock.unlockDate.toLocaleDateString()}
                         </div>
                         <div style={{ fontSize: '0.7rem', color: '#7A7A7A' }}>
-                            {Math.ceil((lock.unlockDate - new Date()) / (1000 * 60 * 60 * 24))} days left
+                            {Math.ceil((lock.unlockDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24))} days left
                         </div>
                     </div>
                 )}
@@ -341,12 +341,12 @@ const LockRow = ({ lock, onExtend, onAdd }) => {
             <div className="locks-table__actions">
                 {!lock.isPerma && (
                     <>
-                        <button className="btn--outline" onClick={() => onExtend(lock)}>Extend</button>
-                        <button className="btn--outline" onClick={() => onAdd(lock)}>Add</button>
+                        <button className="btn--outline" onClick={() => onExtend(lock)} disabled={readOnly} title={readOnly ? READ_ONLY_MESSAGE : undefined}>Extend</button>
+                        <button className="btn--outline" onClick={() => onAdd(lock)} disabled={readOnly} title={readOnly ? READ_ONLY_MESSAGE : undefined}>Add</button>
                     </>
                 )}
                 {lock.isPerma && (
-                    <button className="btn--outline" onClick={() => onAdd(lock)}>Add More</button>
+                    <button className="btn--outline" onClick={() => onAdd(lock)} disabled={readOnly} title={readOnly ? READ_ONLY_MESSAGE : undefined}>Add More</button>
                 )}
             </div>
         </div>
@@ -357,6 +357,8 @@ const LockRow = ({ lock, onExtend, onAdd }) => {
 // CONSTANTS
 // ─────────────────────────────────────────────────────────────────────────────
 
+const VE_IGNI_ADDRESS = '0x0000000000000000000000000000000000000000';
+
 const BENEFITS = [
     { title: 'Governance', desc: 'Vote on protocol decisions' },
     { title: 'Fee Share', desc: 'Share of DEX fees' },
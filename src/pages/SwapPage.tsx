@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { formatUnits } from 'viem';
 import { TOKENS } from '../data';
 import { TokenIcon } from '../components/ui';
 import { TokenSelectorModal, SlippageSettings, TransactionConfirmModal } from '../components/modals';
@@ -12,9 +13,23 @@ import {
     PriceImpactWarning,
     SwapSubmitButton,
     SwapChart,
+    OpenOrdersPanel,
+    TwapOrdersPanel,
 } from '../components/swap';
-import { useInputValidation, validateSwap, calculatePriceImpact, useTokenAllowance, useSwapShortcuts } from '../hooks';
-import { showTxToast, getErrorInfo, isUserRejection } from '../utils';
+import { useInputValidation, validateSwap, calculatePriceImpact, useTokenAllowance, useSwapShortcuts, useSwapQuote, useSwap, useWrapNative, useLimitOrders, useTwapOrders, useTokenLists, usePreflight, useGasEstimate, useQuoteFreshness, buildSwapCall, buildWrapCall } from '../hooks';
+import { parseTokenAmount } from '../hooks/useSwapQuote';
+import { calculateDeadline, toQuoteResponse, useQuote } from '../hooks/contracts/useQuote';
+import type { ParsedQuote, TradeType } from '../hooks/contracts/useQuote';
+import { toLimitOrderToken } from '../services/limitOrderService';
+import type { LimitOrder, LimitOrderExpiry } from '../services/limitOrderService';
+import type { TwapOrder, TwapSlice } from '../services/twapService';
+import type { SwapResult } from '../hooks/contracts/useSwap';
+import { getRoutableAddress, getWrapKind, isNativeToken as isNative } from '../lib/contracts/native';
+import { DEFAULT_CHAIN_ID, getContractAddress, isContractConfigured } from '../lib/contracts/addresses';
+import { getQuoteChangeBps, QUOTE_CHANGE_THRESHOLD_BPS } from '../lib/contracts/validation';
+import { useWallet } from '../contexts';
+import { showTxToast, getErrorInfo } from '../utils';
+import type { ApprovalMethod, GasTier, QuoteUpdate, SwapExecutionSummary } from '../types';
 import '../styles/swap.css';
 
 // Mock Route Display Component with TokenIcon
@@ -125,6 +140,16 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
     const [settingsOpen, setSettingsOpen] = useState(false);
     const [confirmOpen, setConfirmOpen] = useState(false);
     const [isPending, setIsPending] = useState(false);
+    const [execution, setExecution] = useState<SwapExecutionSummary | null>(null);
+    const [gasTier, setGasTier] = useState<GasTier>('normal');
+    // Fixed when the confirm modal opens so the simulated and signed calldata match
+    const [txDeadline, setTxDeadline] = useState<bigint | null>(null);
+    const [txMaxAmountIn, setTxMaxAmountIn] = useState<bigint | null>(null);
+    // Which side the user typed into; EXACT_OUTPUT solves for the input
+    const [tradeType, setTradeType] = useState<TradeType>('EXACT_INPUT');
+    const [exactOutValue, setExactOutValue] = useState('');
+    // Floating side of the quote the user last accepted (output, or input for exact-output)
+    const [acceptedQuoteAmount, setAcceptedQuoteAmount] = useState<bigint | null>(null);
     
     // Settings (persisted)
     const [slippage, setSlippage] = useState(settings?.slippage ?? 0.5);
@@ -133,14 +158,147 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
     // TWAP settings
     const [totalTrades, setTotalTrades] = useState(5);
     const [tradeInterval, setTradeInterval] = useState('5');
+    const [maxDeviationBps, setMaxDeviationBps] = useState(100);
     
     // Limit settings
     const [limitPrice, setLimitPrice] = useState('');
     const [limitPriceType, setLimitPriceType] = useState('market');
-    const [expiry, setExpiry] = useState('24h');
+    const [expiry, setExpiry] = useState<LimitOrderExpiry>('24h');
 
     // Input validation hook
     const fromInput = useInputValidation(fromToken, fromToken?.balance);
+
+    // Live quote + on-chain execution (only for tokens with deployed addresses).
+    // Native ETH is quoted as WETH; a plain ETH ⇄ WETH pair skips the quoter.
+    const { address, chainId, isDemo } = useWallet();
+    const wrapKind = chainId ? getWrapKind(fromToken, toToken, chainId) : null;
+    const tokenInAddress = chainId ? getRoutableAddress(fromToken, chainId) : null;
+    const tokenOutAddress = chainId ? getRoutableAddress(toToken, chainId) : null;
+    const slippageBps = Math.round(slippage * 100);
+    const isExactOutput = mode === 'swap' && !wrapKind && tradeType === 'EXACT_OUTPUT';
+    const exactAmountOut = BigInt(parseTokenAmount(exactOutValue, toToken?.decimals ?? 18));
+    const { quote: liveQuote, refetch: refetchLiveQuote, isFallback: isFallbackRoute } = useSwapQuote({
+        tokenIn: tokenInAddress,
+        tokenOut: tokenOutAddress,
+        amountIn: parseTokenAmount(fromInput.value, fromToken?.decimals ?? 18),
+        slippageBps,
+        recipient: address ?? undefined,
+        enabled: mode === 'swap' && !wrapKind && !isExactOutput,
+        chainId: chainId ?? undefined,
+    });
+    const { quote: exactOutQuote, refetch: refetchExactOutQuote, currentBlock } = useQuote({
+        params: isExactOutput && chainId && tokenInAddress && tokenOutAddress
+            ? { tokenIn: tokenInAddress, tokenOut: tokenOutAddress, amountOut: exactAmountOut, chainId }
+            : null,
+        tokenOutDecimals: toToken?.decimals ?? 18,
+        // Exact-input quotes come from the Quoter API; their freshness uses the same block
+        blockChainId: mode === 'swap' && !wrapKind ? chainId : null,
+    });
+    const { swap } = useSwap();
+    const { convert } = useWrapNative();
+    const tokenLists = useTokenLists(chainId ?? DEFAULT_CHAIN_ID);
+    const limitOrders = useLimitOrders(address, chainId);
+    const twapOrders = useTwapOrders(address, chainId, {
+        onSliceSettled: useCallback((order: TwapOrder, slice: TwapSlice, result: SwapResult) => {
+            const label = `TWAP slice ${slice.index + 1}/${order.slices.length}: ${order.tokenIn.symbol} → ${order.tokenOut.symbol}`;
+            if (result.success) {
+                showTxToast.success(`${label} filled`, result.hash);
+            } else if (!result.isUserRejection) {
+                showTxToast.error?.(`${label} failed: ${result.error || 'Swap failed'}`);
+            }
+        }, []),
+    });
+
+    const routerAddress = chainId && isContractConfigured(chainId, 'gatewayRouter')
+        ? getContractAddress(chainId, 'gatewayRouter')
+        : null;
+    const wrapAmount = BigInt(parseTokenAmount(fromInput.value, 18));
+    // Exact-output: sell the slippage-bounded input (see txMaxAmountIn) with the exact target as the floor
+    const swapQuote = useMemo(() => {
+        if (!isExactOutput) return liveQuote;
+        if (!exactOutQuote || !routerAddress || !tokenInAddress || !tokenOutAddress) return null;
+        return toQuoteResponse(exactOutQuote, {
+            tokenIn: tokenInAddress,
+            tokenOut: tokenOutAddress,
+            minAmountOut: exactAmountOut,
+            router: routerAddress,
+        });
+    }, [isExactOutput, liveQuote, exactOutQuote, routerAddress, tokenInAddress, tokenOutAddress, exactAmountOut]);
+    const { freshness: quoteFreshness, quotedBlock } = useQuoteFreshness({
+        quote: swapQuote,
+        chainId,
+        currentBlock,
+        onExpire: isExactOutput ? refetchExactOutQuote : refetchLiveQuote,
+        enabled: mode === 'swap' && !wrapKind && !isPending && !execution,
+    });
+    const swapParams = swapQuote && address && chainId && txDeadline
+        ? {
+            quote: swapQuote,
+            maxAmountIn: isExactOutput ? txMaxAmountIn ?? undefined : undefined,
+            quotedBlock: quotedBlock ?? undefined,
+            deadline: txDeadline,
+            recipient: address,
+            chainId,
+            tokenInDecimals: fromToken?.decimals,
+            tokenOutDecimals: toToken?.decimals,
+            nativeIn: isNative(fromToken),
+            nativeOut: isNative(toToken),
+        }
+        : null;
+    // What the router pulls: the input bound for exact-output, the quoted input otherwise
+    const approvalAmount = isExactOutput && exactOutQuote
+        ? exactOutQuote.maximumSold(slippageBps)
+        : swapQuote ? BigInt(swapQuote.amountIn) : BigInt(0);
+    // Only the demo wallet simulates swaps; a real wallet needs something to sign
+    const swapUnavailableReason = mode !== 'swap' || wrapKind || isDemo || swapQuote
+        ? null
+        : !tokenInAddress || !tokenOutAddress
+            ? `${!tokenInAddress ? fromToken?.symbol : toToken?.symbol} is not available on this network`
+            : !routerAddress
+                ? 'Router not deployed on this network'
+                : 'No live quote for this pair';
+    const preflightCall = mode !== 'swap' || !routerAddress
+        ? null
+        : wrapKind
+            ? buildWrapCall(wrapKind, wrapAmount, routerAddress)
+            : swapParams && buildSwapCall(swapParams, routerAddress);
+    const preflight = usePreflight({
+        call: preflightCall,
+        account: address,
+        chainId,
+        enabled: confirmOpen && !isPending && !execution,
+    });
+    const { estimate: gasEstimate } = useGasEstimate({
+        call: preflightCall,
+        account: address,
+        chainId,
+        enabled: confirmOpen && !isPending && !execution,
+    });
+    // Fees of the tier picked in the confirm modal, sent with the transaction
+    const gasFees = useMemo(() => {
+        if (!gasEstimate) return undefined;
+        const { maxFeePerGas, maxPriorityFeePerGas } = gasEstimate.tiers[gasTier];
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }, [gasEstimate, gasTier]);
+    
+    // A requote that moved the floating side too far needs explicit acceptance
+    const floatingAmount = swapQuote
+        ? BigInt(isExactOutput ? swapQuote.amountIn : swapQuote.expectedAmountOut)
+        : null;
+    const quoteChangeBps = confirmOpen && !execution && acceptedQuoteAmount !== null && floatingAmount !== null
+        ? getQuoteChangeBps(acceptedQuoteAmount, floatingAmount)
+        : 0;
+    const floatingToken = isExactOutput ? fromToken : toToken;
+    const quoteUpdate: QuoteUpdate | null = Math.abs(quoteChangeBps) > QUOTE_CHANGE_THRESHOLD_BPS
+        && acceptedQuoteAmount !== null && floatingAmount !== null
+        ? {
+            previousAmount: formatUnits(acceptedQuoteAmount, floatingToken?.decimals ?? 18),
+            newAmount: formatUnits(floatingAmount, floatingToken?.decimals ?? 18),
+            symbol: floatingToken?.symbol ?? '',
+            changeBps: quoteChangeBps,
+            side: isExactOutput ? 'input' : 'output',
+        }
+        : null;
     
     // Token approval hook
     const { 
@@ -150,18 +308,18 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
         needsApproval, 
         approve,
         isNativeToken,
-    } = useTokenAllowance(fromToken, undefined, isConnected);
+    } = useTokenAllowance(fromToken, routerAddress, isConnected ? address : null, chainId);
 
     // ─────────────────────────────────────────────────────────────────────────
     // COMPUTED VALUES
     // ─────────────────────────────────────────────────────────────────────────
-    const rate = fromToken && toToken ? fromToken.price / toToken.price : 0;
+    const rate = wrapKind ? 1 : fromToken && toToken ? fromToken.price / toToken.price : 0;
     const fromValue = fromInput.numericValue;
-    const toValue = fromValue * rate;
+    const toValue = isExactOutput ? parseFloat(exactOutValue) || 0 : fromValue * rate;
     const marketPrice = rate;
     const sizePerTrade = fromValue / totalTrades;
-    const priceImpact = calculatePriceImpact(fromValue, fromToken?.balance * 1000, toToken?.balance * 1000);
-    const minReceived = toValue * (1 - slippage / 100);
+    const priceImpact = wrapKind ? 0 : calculatePriceImpact(fromValue, fromToken?.balance * 1000, toToken?.balance * 1000);
+    const minReceived = wrapKind || isExactOutput ? toValue : toValue * (1 - slippage / 100);
 
     // Validation
     const validation = validateSwap({
@@ -172,7 +330,10 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
         slippage,
     });
 
-    const requiresApproval = isConnected && validation.isValid && !isNativeToken && needsApproval(fromInput.numericValue);
+    // Exact-output approves the input bound once quoted, not the typed estimate
+    const requiresApproval = isConnected && validation.isValid && !isNativeToken
+        && (approvalAmount > BigInt(0) ? allowance < approvalAmount : needsApproval(fromInput.numericValue));
+    const approvalMethod: ApprovalMethod | null = isNativeToken ? null : requiresApproval ? 'approve' : 'none';
 
     // ─────────────────────────────────────────────────────────────────────────
     // EFFECTS
@@ -186,6 +347,13 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
         }
     }, [settings?.isLoaded, settings?.slippage, settings?.deadline]);
 
+    // Exact-output: the solved input drives the From field
+    useEffect(() => {
+        if (isExactOutput && exactOutQuote) {
+            fromInput.setValue(formatUnits(exactOutQuote.amountIn, fromToken?.decimals ?? 18));
+        }
+    }, [isExactOutput, exactOutQuote]);
+
     // Update limit price when type changes
     useEffect(() => {
         if (limitPriceType === 'market') setLimitPrice(marketPrice.toFixed(6));
@@ -213,6 +381,8 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
         setFromToken(toToken);
         setToToken(temp);
         fromInput.clear();
+        setExactOutValue('');
+        setTradeType('EXACT_INPUT');
     }, [fromToken, toToken, fromInput]);
 
     const handleTokenSelect = useCallback((token) => {
@@ -242,24 +412,23 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
             fromToken: fromToken.symbol,
         });
         
-        try {
-            const result = await approve(fromInput.numericValue, true);
-            if (result.success) {
-                showTxToast.success(`${fromToken.symbol} approved for trading`, result.hash, toastId);
-                pendingTxs?.confirmTransaction(txId, result.hash);
-            } else {
-                throw new Error(result.error || 'Approval failed');
-            }
-        } catch (error: unknown) {
-            const errorInfo = getErrorInfo(error);
-            if (!isUserRejection(error)) {
-                showTxToast.error?.(errorInfo.title, toastId);
-            } else {
-                showTxToast.dismiss?.(toastId);
-            }
-            pendingTxs?.failTransaction(txId, errorInfo.message);
+        // Fall back to the typed amount until a quote says what the router will pull
+        const amount = approvalAmount > BigInt(0)
+            ? approvalAmount
+            : BigInt(parseTokenAmount(fromInput.value || '0', fromToken.decimals));
+        const result = await approve(amount, settings?.approvalMode);
+        if (result.success) {
+            showTxToast.success(`${fromToken.symbol} approved for trading`, result.hash, toastId);
+            pendingTxs?.confirmTransaction(txId, result.hash);
+            return;
+        }
+        if (result.isUserRejection) {
+            showTxToast.dismiss?.(toastId);
+        } else {
+            showTxToast.error?.(result.error || 'Approval failed', toastId);
         }
-    }, [fromToken, fromInput.numericValue, approve, pendingTxs]);
+        pendingTxs?.failTransaction(txId, result.error || 'Approval failed');
+    }, [fromToken, fromInput.value, approvalAmount, approve, pendingTxs, settings?.approvalMode]);
 
     const handleSubmit = useCallback(() => {
         if (!isConnected) {
@@ -271,15 +440,28 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
             handleApprove();
             return;
         }
+        setTxDeadline(calculateDeadline(deadline * 60));
+        setTxMaxAmountIn(isExactOutput && exactOutQuote ? exactOutQuote.maximumSold(slippageBps) : null);
+        setAcceptedQuoteAmount(floatingAmount);
         setConfirmOpen(true);
-    }, [isConnected, onConnect, validation.isValid, requiresApproval, handleApprove]);
+    }, [isConnected, onConnect, validation.isValid, requiresApproval, handleApprove, deadline, isExactOutput, exactOutQuote, slippageBps, floatingAmount]);
+
+    const handleAcceptQuoteUpdate = useCallback(() => {
+        setAcceptedQuoteAmount(floatingAmount);
+        if (isExactOutput && exactOutQuote) setTxMaxAmountIn(exactOutQuote.maximumSold(slippageBps));
+    }, [floatingAmount, isExactOutput, exactOutQuote, slippageBps]);
 
     const executeTransaction = useCallback(async () => {
+        if (swapUnavailableReason) {
+            showTxToast.error?.(swapUnavailableReason);
+            return;
+        }
         setIsPending(true);
         const actionText = mode === 'swap' ? 'Swapping' : mode === 'twap' ? 'Placing TWAP order for' : 'Placing limit order for';
         const toastId = showTxToast.pending(`${actionText} ${fromInput.value} ${fromToken?.symbol}...`);
         
-        const txId = pendingTxs?.addTransaction({
+        // Limit and TWAP placements sign nothing; they live in their own order lists
+        const txId = mode !== 'swap' ? undefined : pendingTxs?.addTransaction({
             type: mode,
             summary: `${fromInput.value} ${fromToken?.symbol} → ${toValue.toFixed(4)} ${toToken?.symbol}`,
             fromToken: fromToken?.symbol,
@@ -288,10 +470,93 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
             toAmount: toValue.toFixed(4),
         });
         
-        // Simulate transaction
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        const txHash = '0x' + Math.random().toString(16).slice(2, 10) + Math.random().toString(16).slice(2, 10);
+        let txHash;
+        let summary: SwapExecutionSummary | null = null;
+        if (mode === 'swap' && wrapKind && address && chainId) {
+            const result = await convert(wrapKind, wrapAmount, chainId, gasFees);
+            if (!result.success) {
+                if (result.isUserRejection) {
+                    showTxToast.dismiss?.(toastId);
+                } else {
+                    showTxToast.error?.(result.error || 'Conversion failed', toastId);
+                }
+                pendingTxs?.failTransaction(txId, result.error || 'Conversion failed');
+                setIsPending(false);
+                return;
+            }
+            txHash = result.hash;
+        } else if (mode === 'limit' && address && chainId && fromToken && toToken) {
+            // Limit orders are stored locally; nothing is signed until the price is reached
+            try {
+                await limitOrders.placeOrder({
+                    tokenIn: toLimitOrderToken(fromToken),
+                    tokenOut: toLimitOrderToken(toToken),
+                    amountIn: BigInt(parseTokenAmount(fromInput.value, fromToken.decimals)),
+                    limitPrice,
+                    expiry,
+                });
+            } catch (error: unknown) {
+                const errorInfo = getErrorInfo(error);
+                showTxToast.error?.(errorInfo.message, toastId);
+                setIsPending(false);
+                return;
+            }
+        } else if (mode === 'twap' && address && chainId && fromToken && toToken) {
+            // Slices are swapped by the TWAP scheduler; placing only quotes the start price
+            try {
+                await twapOrders.placeOrder({
+                    tokenIn: toLimitOrderToken(fromToken),
+                    tokenOut: toLimitOrderToken(toToken),
+                    amountIn: BigInt(parseTokenAmount(fromInput.value, fromToken.decimals)),
+                    totalTrades,
+                    intervalMs: parseInt(tradeInterval) * 60_000,
+                    maxDeviationBps,
+                    slippageBps,
+                });
+            } catch (error: unknown) {
+                const errorInfo = getErrorInfo(error);
+                showTxToast.error?.(errorInfo.message, toastId);
+                setIsPending(false);
+                return;
+            }
+        } else if (mode === 'swap' && swapParams) {
+            const result = await swap({
+                ...swapParams,
+                fees: gasFees,
+                onSubmitted: (hash) => pendingTxs?.submitTx(txId, hash),
+            });
+            if (!result.success) {
+                if (result.isUserRejection) {
+                    showTxToast.dismiss?.(toastId);
+                } else {
+                    showTxToast.error?.(result.error || 'Swap failed', toastId);
+                }
+                pendingTxs?.failTransaction(txId, result.error || 'Swap failed');
+                setIsPending(false);
+                return;
+            }
+            txHash = result.hash;
+            if (result.execution) {
+                summary = {
+                    quotedAmount: formatUnits(result.execution.quotedAmountOut, toToken?.decimals ?? 18),
+                    receivedAmount: formatUnits(result.execution.amountOut, toToken?.decimals ?? 18),
+                    symbol: toToken?.symbol ?? '',
+                    slippageBps: result.execution.slippageBps,
+                };
+                setExecution(summary);
+                pendingTxs?.updateTx(txId, { execution: summary });
+            }
+        } else if (isDemo) {
+            // Demo wallet: simulate the transaction
+            await new Promise(resolve => setTimeout(resolve, 2000));
+            txHash = '0x' + Math.random().toString(16).slice(2, 10) + Math.random().toString(16).slice(2, 10);
+        } else {
+            const message = 'Nothing to sign for this transaction';
+            showTxToast.error?.(message, toastId);
+            pendingTxs?.failTransaction(txId, message);
+            setIsPending(false);
+            return;
+        }
         const resultText = mode === 'swap' ? 'Swapped' : mode === 'twap' ? 'TWAP order placed:' : 'Limit order placed:';
         
         showTxToast.success(
@@ -300,11 +565,40 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
             toastId
         );
         
-        pendingTxs?.confirmTransaction(txId, txHash);
+        if (txId) pendingTxs?.confirmTransaction(txId, txHash);
         setIsPending(false);
-        setConfirmOpen(false);
+        // Keep the modal open on the result view when the receipt was decoded
+        if (!summary) setConfirmOpen(false);
         fromInput.clear();
-    }, [mode, fromInput, fromToken, toToken, toValue, pendingTxs]);
+        setExactOutValue('');
+    }, [mode, fromInput, fromToken, toToken, toValue, pendingTxs, address, chainId, swap, swapParams, wrapKind, wrapAmount, convert, limitOrders, limitPrice, expiry, twapOrders, totalTrades, tradeInterval, maxDeviationBps, slippageBps, gasFees, isDemo, swapUnavailableReason]);
+
+    // A watched limit order reached its price: execute it through the router
+    const handleLimitTrigger = useCallback(async (order: LimitOrder, quote: ParsedQuote) => {
+        const summary = `Limit ${formatUnits(BigInt(order.amountIn), order.tokenIn.decimals)} ${order.tokenIn.symbol} → ${order.tokenOut.symbol} at ${order.limitPrice}`;
+        const toastId = showTxToast.pending(`Limit reached: ${summary}...`);
+        const txId = pendingTxs?.addTransaction({
+            type: 'swap',
+            summary,
+            fromToken: order.tokenIn.symbol,
+            toToken: order.tokenOut.symbol,
+            fromAmount: formatUnits(BigInt(order.amountIn), order.tokenIn.decimals),
+            toAmount: formatUnits(quote.amountOut, order.tokenOut.decimals),
+        });
+
+        const result = await limitOrders.executeOrder(order, quote);
+        if (result.success && result.hash) {
+            showTxToast.success(`Limit order filled: ${summary}`, result.hash, toastId);
+            pendingTxs?.confirmTransaction(txId, result.hash);
+        } else {
+            if (result.isUserRejection) {
+                showTxToast.dismiss?.(toastId);
+            } else {
+                showTxToast.error?.(result.error || 'Limit order failed', toastId);
+            }
+            pendingTxs?.failTransaction(txId, result.error || 'Limit order failed');
+        }
+    }, [limitOrders, pendingTxs]);
 
     // ─────────────────────────────────────────────────────────────────────────
     // BUTTON STATE
@@ -316,6 +610,7 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
         if (!validation.isValid) return validation.primaryError || 'Enter amount';
         if (requiresApproval) return `Approve ${fromToken?.symbol}`;
         if (isPending) return 'Confirming...';
+        if (mode === 'swap' && wrapKind) return wrapKind === 'wrap' ? 'Wrap' : 'Unwrap';
         return mode === 'swap' ? 'Swap' : mode === 'twap' ? 'Place TWAP Order' : 'Place Limit Order';
     };
     
@@ -354,7 +649,10 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                         label={mode === 'limit' ? 'Sell' : 'From'}
                         token={fromToken}
                         value={fromInput.value}
-                        onChange={(value) => fromInput.setValue(value)}
+                        onChange={(value) => {
+                            setTradeType('EXACT_INPUT');
+                            fromInput.setValue(value);
+                        }}
                         onTokenSelect={() => setTokenModal({ open: true, type: 'from' })}
                         usdValue={fromInput.usdValue}
                         balance={fromToken?.balance}
@@ -369,8 +667,14 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                     <TokenInput
                         label={mode === 'limit' ? 'Buy' : 'To'}
                         token={toToken}
-                        value={toValue ? toValue.toLocaleString(undefined, { maximumFractionDigits: 6 }) : ''}
-                        readOnly
+                        value={isExactOutput
+                            ? exactOutValue
+                            : toValue ? toValue.toLocaleString(undefined, { maximumFractionDigits: 6 }) : ''}
+                        onChange={(value: string) => {
+                            setTradeType('EXACT_OUTPUT');
+                            setExactOutValue(value);
+                        }}
+                        readOnly={mode !== 'swap' || !!wrapKind}
                         onTokenSelect={() => setTokenModal({ open: true, type: 'to' })}
                         usdValue={toValue * (toToken?.price || 0)}
                         balance={toToken?.balance}
@@ -386,8 +690,10 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                             setTotalTrades={setTotalTrades}
                             tradeInterval={tradeInterval}
                             setTradeInterval={setTradeInterval}
+                            maxDeviationBps={maxDeviationBps}
+                            setMaxDeviationBps={setMaxDeviationBps}
                             sizePerTrade={sizePerTrade}
-                            fromToken={fromToken}
+                            fromSymbol={fromToken?.symbol}
                         />
                     )}
 
@@ -400,7 +706,8 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                             setLimitPriceType={setLimitPriceType}
                             expiry={expiry}
                             setExpiry={setExpiry}
-                            toToken={toToken}
+                            fromSymbol={fromToken?.symbol}
+                            toSymbol={toToken?.symbol}
                         />
                     )}
 
@@ -414,11 +721,13 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                             minReceived={minReceived}
                             slippage={slippage}
                             needsApproval={requiresApproval}
+                            quoteFreshness={quoteFreshness}
+                            isFallbackRoute={isFallbackRoute && !!liveQuote}
                         />
                     )}
 
                     {/* Route Display */}
-                    {fromValue > 0 && (
+                    {fromValue > 0 && !wrapKind && (
                         <MockRouteDisplay 
                             fromToken={fromToken}
                             toToken={toToken}
@@ -437,12 +746,28 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                 </div>
             </div>
 
+            {/* Limit and TWAP orders keep running in every mode while the page is open */}
+            <OpenOrdersPanel
+                orders={limitOrders.orders}
+                onCancel={limitOrders.cancelOrder}
+                onEdit={limitOrders.editOrder}
+                onTrigger={handleLimitTrigger}
+            />
+            <TwapOrdersPanel
+                orders={twapOrders.orders}
+                onPause={twapOrders.pauseOrder}
+                onResume={twapOrders.resumeOrder}
+                onCancel={twapOrders.cancelOrder}
+            />
+
             {/* Modals */}
             {tokenModal.open && (
                 <TokenSelectorModal
                     isOpen={tokenModal.open}
                     onClose={() => setTokenModal({ open: false, type: null })}
                     onSelect={handleTokenSelect}
+                    tokens={tokenLists.tokens}
+                    onImport={tokenLists.importToken}
                     excludeToken={tokenModal.type === 'from' ? toToken : fromToken}
                 />
             )}
@@ -455,13 +780,18 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                     setSlippage={handleSlippageChange}
                     deadline={deadline}
                     setDeadline={handleDeadlineChange}
+                    approvalMode={settings?.approvalMode}
+                    setApprovalMode={settings?.setApprovalMode}
                 />
             )}
 
             {confirmOpen && (
                 <TransactionConfirmModal
                     isOpen={confirmOpen}
-                    onClose={() => setConfirmOpen(false)}
+                    onClose={() => {
+                        setConfirmOpen(false);
+                        setExecution(null);
+                    }}
                     onConfirm={executeTransaction}
                     mode={mode}
                     fromToken={fromToken}
@@ -471,6 +801,18 @@ export const SwapPage = ({ isConnected, onConnect, pendingTxs, settings }) => {
                     priceImpact={priceImpact}
                     minReceived={minReceived}
                     isPending={isPending}
+                    execution={execution}
+                    preflight={preflight}
+                    tradeType={isExactOutput ? 'EXACT_OUTPUT' : 'EXACT_INPUT'}
+                    maxSold={txMaxAmountIn !== null ? formatUnits(txMaxAmountIn, fromToken?.decimals ?? 18) : undefined}
+                    quoteFreshness={quoteFreshness}
+                    quoteUpdate={quoteUpdate}
+                    onAcceptQuoteUpdate={handleAcceptQuoteUpdate}
+                    gasEstimate={gasEstimate}
+                    gasTier={gasTier}
+                    onGasTierChange={setGasTier}
+                    approvalMethod={mode === 'swap' && !wrapKind ? approvalMethod : null}
+                    unavailableReason={swapUnavailableReason}
                 />
             )}
         </div>
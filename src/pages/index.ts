@@ -6,4 +6,5 @@ export { StakePage } from './StakePage';
 export { AnalyticsPage } from './AnalyticsPage';
 export { PortfolioPage } from './PortfolioPage';
 export { MarketDepthPage } from './MarketDepthPage';
+export { ApprovalsPage } from './ApprovalsPage';
 export { default as LandingPage } from './LandingPage';
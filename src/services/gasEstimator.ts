@@ -1,13 +1,21 @@
+import { formatEther, parseAbi, serializeTransaction } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import { addGasBuffer } from '../lib/contracts/txUtils';
+import type { Eip1559Fees } from '../lib/contracts/txUtils';
+import { encodeCall } from '../lib/contracts/simulation';
+import type { ContractCall } from '../lib/contracts/simulation';
 import { logger } from '../utils/logger';
 import { withRetry, retryPatterns } from '../utils/retry';
+import type { GasCostEstimate, GasTier, GasTierCost } from '../types';
 // ─────────────────────────────────────────────────────────────────────────────
 // GAS ESTIMATOR SERVICE
 // ─────────────────────────────────────────────────────────────────────────────
 // Estimates gas costs for transactions on Base L2
 // Data sources:
-// - Gas units: Static estimates per transaction type
-// - Gas price: RPC eth_gasPrice (or mock)
-// - ETH price: From token data
+// - Gas units: eth_estimateGas on the exact call, buffered by addGasBuffer
+// - Fees: eth_feeHistory percentiles for slow / normal / fast tiers
+// - L1 data fee: GasPriceOracle predeploy on OP Stack chains (Base)
+// - Static estimates per transaction type remain for views without a call
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -91,6 +99,156 @@ export const estimateGas = (
     };
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// LIVE FEE TIERS (eth_feeHistory)
+// ─────────────────────────────────────────────────────────────────────────────
+export const GAS_TIERS: GasTier[] = ['slow', 'normal', 'fast'];
+
+/** Priority fee percentile of recent blocks each tier pays */
+export const GAS_TIER_PERCENTILES: Record<GasTier, number> = {
+    slow: 10,
+    normal: 50,
+    fast: 90,
+};
+
+/** Blocks of history sampled for the tiers */
+export const FEE_HISTORY_BLOCKS = 20;
+
+export interface FeeHistorySample {
+    baseFeePerGas: bigint[];
+    reward?: bigint[][];
+}
+
+export interface FeeTiers {
+    /** Base fee of the next block */
+    baseFeePerGas: bigint;
+    tiers: Record<GasTier, Eip1559Fees>;
+}
+
+function median(values: bigint[]): bigint {
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return sorted[Math.floor(sorted.length / 2)] ?? BigInt(0);
+}
+
+/**
+ * Slow / normal / fast fees from an eth_feeHistory sample requested with
+ * GAS_TIER_PERCENTILES. Each tier's tip is the median of its percentile over
+ * the sampled blocks; maxFeePerGas leaves room for the base fee to double.
+ */
+export function computeFeeTiers(history: FeeHistorySample): FeeTiers {
+    const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? BigInt(0);
+    const rewards = history.reward ?? [];
+
+    const tiers = {} as Record<GasTier, Eip1559Fees>;
+    GAS_TIERS.forEach((tier, i) => {
+        const maxPriorityFeePerGas = median(rewards.map(block => block[i] ?? BigInt(0)));
+        tiers[tier] = {
+            maxPriorityFeePerGas,
+            maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+        };
+    });
+
+    return { baseFeePerGas, tiers };
+}
+
+export async function fetchFeeTiers(client: PublicClient): Promise<FeeTiers> {
+    const history = await client.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCKS,
+        rewardPercentiles: GAS_TIERS.map(tier => GAS_TIER_PERCENTILES[tier]),
+        blockTag: 'latest',
+    });
+    return computeFeeTiers(history);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// L1 DATA FEE (OP Stack GasPriceOracle)
+// ─────────────────────────────────────────────────────────────────────────────
+const GAS_PRICE_ORACLE_ABI = parseAbi(['function getL1Fee(bytes _data) view returns (uint256)']);
+
+/**
+ * L1 data fee for posting `call` to L1, read from the GasPriceOracle
+ * predeploy. Returns 0 on chains that aren't OP Stack rollups.
+ */
+export async function estimateL1DataFee(
+    client: PublicClient,
+    call: ContractCall,
+    gas: bigint,
+    fees: Eip1559Fees
+): Promise<bigint> {
+    const oracle = client.chain?.contracts?.gasPriceOracle as { address: Address } | undefined;
+    if (!oracle || !client.chain) return BigInt(0);
+
+    const serialized = serializeTransaction({
+        type: 'eip1559',
+        chainId: client.chain.id,
+        to: call.address,
+        data: encodeCall(call),
+        value: call.value,
+        gas,
+        ...fees,
+    });
+
+    return client.readContract({
+        address: oracle.address,
+        abi: GAS_PRICE_ORACLE_ABI,
+        functionName: 'getL1Fee',
+        args: [serialized],
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LIVE ESTIMATE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Cost per tier for a gas amount. L2 execution is priced at what the next
+ * block is expected to charge (base fee + tip, capped at maxFeePerGas).
+ */
+export function priceGasEstimate(
+    gasUnits: bigint,
+    feeTiers: FeeTiers,
+    l1DataFeeWei: bigint,
+    nativePriceUSD: number
+): GasCostEstimate {
+    const tiers = {} as Record<GasTier, GasTierCost>;
+    for (const tier of GAS_TIERS) {
+        const fees = feeTiers.tiers[tier];
+        const expected = feeTiers.baseFeePerGas + fees.maxPriorityFeePerGas;
+        const pricePerGas = expected < fees.maxFeePerGas ? expected : fees.maxFeePerGas;
+        const costWei = gasUnits * pricePerGas + l1DataFeeWei;
+        const costETH = Number(formatEther(costWei));
+        tiers[tier] = { ...fees, costWei, costETH, costUSD: costETH * nativePriceUSD };
+    }
+    return { gasUnits, l1DataFeeWei, baseFeePerGas: feeTiers.baseFeePerGas, tiers };
+}
+
+/**
+ * Estimate the exact transaction the wallet will sign: eth_estimateGas on
+ * `call` (buffered and clamped by addGasBuffer), fee-history tiers and, on
+ * Base, the L1 data fee.
+ */
+export async function estimateTransactionCost(
+    client: PublicClient,
+    call: ContractCall,
+    account: Address,
+    nativePriceUSD: number
+): Promise<GasCostEstimate> {
+    const [estimate, feeTiers] = await Promise.all([
+        client.estimateContractGas({ ...call, account }),
+        fetchFeeTiers(client),
+    ]);
+    const gasUnits = addGasBuffer(estimate);
+
+    let l1DataFeeWei = BigInt(0);
+    try {
+        l1DataFeeWei = await estimateL1DataFee(client, call, gasUnits, feeTiers.tiers.fast);
+    } catch (error: unknown) {
+        logger.warn('L1 data fee unavailable, showing L2 cost only', { error });
+    }
+
+    return priceGasEstimate(gasUnits, feeTiers, l1DataFeeWei, nativePriceUSD);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // FORMATTED OUTPUT
 // ─────────────────────────────────────────────────────────────────────────────
@@ -116,6 +274,29 @@ export const formatGasEstimateDetailed = (estimate: GasEstimate): {
     };
 };
 
+export const formatGasTierCost = (cost: GasTierCost): string => {
+    const eth = cost.costETH < 0.000001 ? '<0.000001' : cost.costETH.toFixed(6);
+    const usd = cost.costUSD < 0.01 ? '<$0.01' : `~$${cost.costUSD.toFixed(2)}`;
+    return `${eth} ETH (${usd})`;
+};
+
+export const formatGasCostDetailed = (estimate: GasCostEstimate, tier: GasTier): {
+    total: string;
+    breakdown: { label: string; value: string }[];
+} => {
+    const cost = estimate.tiers[tier];
+    return {
+        total: formatGasTierCost(cost),
+        breakdown: [
+            { label: 'L2 Execution', value: `${formatEther(cost.costWei - estimate.l1DataFeeWei)} ETH` },
+            { label: 'L1 Data Fee', value: `${formatEther(estimate.l1DataFeeWei)} ETH` },
+            { label: 'Gas Units', value: estimate.gasUnits.toLocaleString() },
+            { label: 'Max Fee', value: `${(Number(cost.maxFeePerGas) / 1e9).toFixed(4)} gwei` },
+            { label: 'Priority Fee', value: `${(Number(cost.maxPriorityFeePerGas) / 1e9).toFixed(4)} gwei` },
+        ],
+    };
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // QUICK ESTIMATE HELPERS
 // ─────────────────────────────────────────────────────────────────────────────
@@ -182,4 +363,11 @@ export default {
     getStakeGasEstimate,
     getClaimGasEstimate,
     fetchGasPrice,
+    computeFeeTiers,
+    fetchFeeTiers,
+    estimateL1DataFee,
+    priceGasEstimate,
+    estimateTransactionCost,
+    formatGasTierCost,
+    formatGasCostDetailed,
 };
@@ -61,5 +61,102 @@ export {
   getStakeGasEstimate,
   getClaimGasEstimate,
   fetchGasPrice,
+  computeFeeTiers,
+  fetchFeeTiers,
+  estimateL1DataFee,
+  priceGasEstimate,
+  estimateTransactionCost,
+  formatGasTierCost,
+  formatGasCostDetailed,
+  GAS_TIERS,
+  GAS_TIER_PERCENTILES,
 } from './gasEstimator';
-export type { GasEstimate, TransactionType } from './gasEstimator';
+export type { GasEstimate, TransactionType, FeeTiers, FeeHistorySample } from './gasEstimator';
+
+// Limit Order Service - Client-side limit orders persisted in IndexedDB
+export {
+  buildLimitOrder,
+  toLimitOrderToken,
+  editLimitOrder,
+  getLimitOrderTarget,
+  getLimitDistanceBps,
+  isLimitReached,
+  isOrderExpired,
+  loadLimitOrders,
+  getLimitOrder,
+  saveLimitOrder,
+  deleteLimitOrder,
+  LIMIT_ORDER_EXPIRY_MS,
+} from './limitOrderService';
+export type {
+  LimitOrder,
+  LimitOrderInput,
+  LimitOrderStatus,
+  LimitOrderExpiry,
+  LimitOrderToken,
+} from './limitOrderService';
+
+// TWAP Service - Sliced orders scheduled client-side, persisted in IndexedDB
+export {
+  buildTwapOrder,
+  splitTwapAmount,
+  getExecutionPrice,
+  getAdverseDeviationBps,
+  getNextSlice,
+  isSliceDue,
+  getTwapProgress,
+  applySliceUpdate,
+  deferTwapSlice,
+  pauseTwapOrder,
+  resumeTwapOrder,
+  loadTwapOrders,
+  saveTwapOrder,
+  TWAP_MIN_TRADES,
+  TWAP_MAX_TRADES,
+} from './twapService';
+export type {
+  TwapOrder,
+  TwapOrderInput,
+  TwapOrderStatus,
+  TwapSlice,
+  TwapSliceStatus,
+  TwapProgress,
+} from './twapService';
+
+// Transaction History Service - Pending-transactions panel history persisted in IndexedDB
+export {
+  reconcileTransaction,
+  loadTransactions,
+  saveTransaction,
+  deleteTransaction,
+  TX_DROP_AFTER_MS,
+} from './txHistoryService';
+export type { TxReconcileClient } from './txHistoryService';
+
+// Position Service - Liquidity positions minted from this app, persisted in IndexedDB
+export {
+  getPositionId,
+  loadPositions,
+  savePosition,
+} from './positionService';
+export type { StoredPosition } from './positionService';
+
+// Token List Service - Token lists, on-chain TokenList / registry vaults and imported tokens
+export {
+  parseTokenList,
+  isTokenListEntry,
+  getListTokensForChain,
+  mergeTokens,
+  isUnlistedToken,
+  fetchTokenList,
+  loadOnChainTokens,
+  loadRegistryVaultTokens,
+  loadTokenLists,
+  importTokenByAddress,
+  loadImportedTokens,
+  saveImportedToken,
+  removeImportedToken,
+  ONCHAIN_LIST_NAME,
+  REGISTRY_LIST_NAME,
+} from './tokenListService';
+export type { TokenListEntry, TokenListFile } from './tokenListService';
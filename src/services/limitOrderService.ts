@@ -0,0 +1,222 @@
+import { parseUnits } from 'viem';
+import type { Address } from 'viem';
+import { IgnisError } from '../lib/contracts/errors';
+import { deleteRecord, getAllByIndex, getRecord, putRecord } from '../lib/db';
+// ─────────────────────────────────────────────────────────────────────────────
+// LIMIT ORDER SERVICE
+// ─────────────────────────────────────────────────────────────────────────────
+// Client-side limit orders. Orders live in IndexedDB keyed by account and
+// chain; a watcher (useLimitOrderWatcher) quotes each open order and executes
+// a normal router swap once the quote reaches the order's target output.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+export type LimitOrderStatus = 'open' | 'executing' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+export type LimitOrderExpiry = '1h' | '24h' | '7d' | '30d';
+
+/** Token snapshot stored with the order (native ETH keeps isNative) */
+export interface LimitOrderToken {
+    address?: Address;
+    symbol: string;
+    decimals: number;
+    isNative?: boolean;
+}
+
+export interface LimitOrder {
+    id: string;
+    /** Lowercased owner address */
+    account: string;
+    chainId: number;
+    tokenIn: LimitOrderToken;
+    tokenOut: LimitOrderToken;
+    /** Input amount in raw units */
+    amountIn: string;
+    /** tokenOut per tokenIn, as typed by the user */
+    limitPrice: string;
+    /** Output the swap must return (raw units); also used as minAmountOut */
+    targetAmountOut: string;
+    status: LimitOrderStatus;
+    createdAt: number;
+    updatedAt: number;
+    /** Unix ms after which the order is expired */
+    expiresAt: number;
+    txHash?: string;
+    error?: string;
+}
+
+export interface LimitOrderInput {
+    account: string;
+    chainId: number;
+    tokenIn: LimitOrderToken;
+    tokenOut: LimitOrderToken;
+    amountIn: bigint;
+    limitPrice: string;
+    expiry: LimitOrderExpiry;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+export const LIMIT_ORDER_EXPIRY_MS: Record<LimitOrderExpiry, number> = {
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+/** Price precision used when converting the typed limit price to raw units */
+const PRICE_DECIMALS = 18;
+
+const STORE = 'limitOrders';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ORDER MATH
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Output (raw units) that `amountIn` must fetch at `limitPrice`
+ * @throws IgnisError INVALID_LIMIT_PRICE for non-positive or unparsable prices
+ */
+export function getLimitOrderTarget(
+    amountIn: bigint,
+    limitPrice: string,
+    decimalsIn: number,
+    decimalsOut: number
+): bigint {
+    let priceWad: bigint;
+    try {
+        priceWad = parseUnits(limitPrice.trim(), PRICE_DECIMALS);
+    } catch {
+        priceWad = BigInt(0);
+    }
+    if (priceWad <= BigInt(0)) {
+        throw new IgnisError({
+            code: 'INVALID_LIMIT_PRICE',
+            message: `Invalid limit price: ${limitPrice}`,
+            userMessage: 'Enter a limit price greater than zero.',
+            isRetryable: true,
+        });
+    }
+
+    return (amountIn * priceWad * BigInt(10) ** BigInt(decimalsOut))
+        / (BigInt(10) ** BigInt(decimalsIn) * BigInt(10) ** BigInt(PRICE_DECIMALS));
+}
+
+/**
+ * Snapshot the fields an order needs from a UI token
+ */
+export function toLimitOrderToken(token: LimitOrderToken): LimitOrderToken {
+    return {
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        isNative: token.isNative,
+    };
+}
+
+/**
+ * True once the quoted output reaches the order's target
+ */
+export function isLimitReached(order: LimitOrder, quotedAmountOut: bigint): boolean {
+    return quotedAmountOut >= BigInt(order.targetAmountOut);
+}
+
+/**
+ * How far the quote is below the target, in bps (0 once reached)
+ */
+export function getLimitDistanceBps(order: LimitOrder, quotedAmountOut: bigint): number {
+    const target = BigInt(order.targetAmountOut);
+    if (quotedAmountOut >= target || target === BigInt(0)) return 0;
+    return Number(((target - quotedAmountOut) * BigInt(10000)) / target);
+}
+
+export function isOrderExpired(order: LimitOrder, now: number = Date.now()): boolean {
+    return order.expiresAt <= now;
+}
+
+/**
+ * Create a new open order; validates amount and price
+ */
+export function buildLimitOrder(input: LimitOrderInput, now: number = Date.now()): LimitOrder {
+    if (input.amountIn <= BigInt(0)) {
+        throw new IgnisError({
+            code: 'INVALID_AMOUNT',
+            message: 'Limit order amount must be greater than zero',
+            userMessage: 'Please enter an amount greater than zero.',
+            isRetryable: true,
+        });
+    }
+
+    const targetAmountOut = getLimitOrderTarget(
+        input.amountIn,
+        input.limitPrice,
+        input.tokenIn.decimals,
+        input.tokenOut.decimals
+    );
+
+    return {
+        id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 9)}`,
+        account: input.account.toLowerCase(),
+        chainId: input.chainId,
+        tokenIn: input.tokenIn,
+        tokenOut: input.tokenOut,
+        amountIn: input.amountIn.toString(),
+        limitPrice: input.limitPrice.trim(),
+        targetAmountOut: targetAmountOut.toString(),
+        status: 'open',
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: now + LIMIT_ORDER_EXPIRY_MS[input.expiry],
+    };
+}
+
+/**
+ * Apply an edit to an open order, recomputing the target for a new price
+ */
+export function editLimitOrder(
+    order: LimitOrder,
+    changes: { limitPrice?: string; expiry?: LimitOrderExpiry },
+    now: number = Date.now()
+): LimitOrder {
+    const limitPrice = changes.limitPrice?.trim() ?? order.limitPrice;
+    const targetAmountOut = getLimitOrderTarget(
+        BigInt(order.amountIn),
+        limitPrice,
+        order.tokenIn.decimals,
+        order.tokenOut.decimals
+    );
+
+    return {
+        ...order,
+        limitPrice,
+        targetAmountOut: targetAmountOut.toString(),
+        expiresAt: changes.expiry ? now + LIMIT_ORDER_EXPIRY_MS[changes.expiry] : order.expiresAt,
+        updatedAt: now,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PERSISTENCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * All orders for an account on a chain, newest first
+ */
+export async function loadLimitOrders(account: string, chainId: number): Promise<LimitOrder[]> {
+    const orders = await getAllByIndex<LimitOrder>(STORE, 'byOwner', [account.toLowerCase(), chainId]);
+    return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getLimitOrder(id: string): Promise<LimitOrder | undefined> {
+    return getRecord<LimitOrder>(STORE, id);
+}
+
+export function saveLimitOrder(order: LimitOrder): Promise<void> {
+    return putRecord(STORE, order);
+}
+
+export function deleteLimitOrder(id: string): Promise<void> {
+    return deleteRecord(STORE, id);
+}
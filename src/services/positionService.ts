@@ -0,0 +1,58 @@
+import type { Hash } from 'viem';
+import { getAllByIndex, putRecord } from '../lib/db';
+import type { Pool, PositionOnChain } from '../types';
+// ─────────────────────────────────────────────────────────────────────────────
+// POSITION SERVICE
+// ─────────────────────────────────────────────────────────────────────────────
+// Liquidity positions minted from this app, kept in IndexedDB per account and
+// chain. The record carries where the position lives on-chain (the
+// CLPositionManager tokenId from the mint receipt) so fees can be read and
+// collected; amounts and range are the ones deposited.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+export interface StoredPosition {
+    /** getPositionId */
+    id: string;
+    /** Lowercased owner address */
+    account: string;
+    chainId: number;
+    /** Pool snapshot at mint time */
+    pool: Pool;
+    token0Amount: number;
+    token1Amount: number;
+    minPrice: number;
+    maxPrice: number;
+    /** USD value deposited */
+    initialValue: number;
+    createdAt: number;
+    hash: Hash;
+    onChain: PositionOnChain;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+const STORE = 'positions';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PERSISTENCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Record id of a CLPositionManager position */
+export function getPositionId(chainId: number, tokenId: bigint): string {
+    return `${chainId}:${tokenId}`;
+}
+
+/**
+ * All positions for an account on a chain, newest first
+ */
+export async function loadPositions(account: string, chainId: number): Promise<StoredPosition[]> {
+    const positions = await getAllByIndex<StoredPosition>(STORE, 'byOwner', [account.toLowerCase(), chainId]);
+    return positions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function savePosition(position: StoredPosition): Promise<void> {
+    return putRecord(STORE, { ...position, account: position.account.toLowerCase() });
+}
@@ -0,0 +1,369 @@
+import { getAddress, isAddress } from 'viem';
+import type { Abi, Address, PublicClient } from 'viem';
+import { ABIS } from '../lib/contracts/config';
+import { getContractAddress, isContractConfigured } from '../lib/contracts/addresses';
+import { loadRegistryVaults } from '../lib/contracts/fallbackRouter';
+import { IgnisError } from '../lib/contracts/errors';
+import { CACHE_CONFIG } from '../config/protocols';
+import { TOKEN_LIST_URLS } from '../config/tokens';
+import { logger } from '../utils/logger';
+import type { Token } from '../types';
+// ─────────────────────────────────────────────────────────────────────────────
+// TOKEN LIST SERVICE
+// ─────────────────────────────────────────────────────────────────────────────
+// Builds the selectable token set for a chain from standard token-list JSON
+// files, the on-chain TokenList contract, TokenRegistryV2 vaults and tokens
+// the user imported by address. Tokens are deduplicated by address.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A token entry in the Uniswap token-list format */
+export interface TokenListEntry {
+    chainId: number;
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    logoURI?: string;
+    tags?: string[];
+}
+
+/** A token list in the Uniswap token-list format (https://tokenlists.org) */
+export interface TokenListFile {
+    name: string;
+    timestamp?: string;
+    version?: { major: number; minor: number; patch: number };
+    logoURI?: string;
+    tokens: TokenListEntry[];
+}
+
+type Erc20Metadata = Pick<Token, 'name' | 'symbol' | 'decimals'>;
+
+const ERC20_ABI = ABIS.ERC20 as Abi;
+const TOKEN_LIST_ABI = ABIS.TokenList as Abi;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** List name shown for tokens enabled on the TokenList contract */
+export const ONCHAIN_LIST_NAME = 'IGNIS';
+
+/** List name shown for vaults registered in TokenRegistryV2 */
+export const REGISTRY_LIST_NAME = 'IGNIS Vaults';
+
+/** Field limits from the token-list schema */
+const MAX_SYMBOL_LENGTH = 20;
+const MAX_NAME_LENGTH = 60;
+
+/** Entries read per TokenList.allPaginated call */
+const ONCHAIN_PAGE_SIZE = 100;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PARSING
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function isTokenListEntry(value: unknown): value is TokenListEntry {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Record<string, unknown>;
+    return (
+        Number.isInteger(entry.chainId) &&
+        typeof entry.address === 'string' && isAddress(entry.address, { strict: false }) &&
+        typeof entry.symbol === 'string' && entry.symbol.length > 0 && entry.symbol.length <= MAX_SYMBOL_LENGTH &&
+        typeof entry.name === 'string' && entry.name.length > 0 && entry.name.length <= MAX_NAME_LENGTH &&
+        typeof entry.decimals === 'number' && Number.isInteger(entry.decimals) &&
+        entry.decimals >= 0 && entry.decimals <= 255
+    );
+}
+
+/**
+ * Validate a fetched token list. Malformed entries are dropped rather than
+ * rejecting the whole list, since large community lists often carry a few.
+ */
+export function parseTokenList(data: unknown): TokenListFile {
+    const list = data as Partial<TokenListFile> | null;
+    if (!list || typeof list !== 'object' || typeof list.name !== 'string' || !Array.isArray(list.tokens)) {
+        throw new IgnisError({
+            code: 'INVALID_TOKEN_LIST',
+            message: 'Token list is missing a name or tokens array',
+            userMessage: 'This token list is not in the standard format.',
+        });
+    }
+    return { ...list, name: list.name, tokens: list.tokens.filter(isTokenListEntry) };
+}
+
+/** Tokens of a list that belong to `chainId`, as selector tokens */
+export function getListTokensForChain(list: TokenListFile, chainId: number): Token[] {
+    return list.tokens
+        .filter(entry => entry.chainId === chainId)
+        .map(entry => ({
+            symbol: entry.symbol,
+            name: entry.name,
+            address: getAddress(entry.address),
+            decimals: entry.decimals,
+            price: 0,
+            balance: 0,
+            logoURI: entry.logoURI,
+            lists: [list.name],
+        }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MERGING
+// ─────────────────────────────────────────────────────────────────────────────
+
+const tokenKey = (token: Token): string =>
+    token.address ? token.address.toLowerCase() : `symbol:${token.symbol.toLowerCase()}`;
+
+function mergeToken(existing: Token, incoming: Token): Token {
+    const lists = [...new Set([...(existing.lists ?? []), ...(incoming.lists ?? [])])];
+    return {
+        ...existing,
+        address: existing.address ?? incoming.address,
+        logoURI: existing.logoURI ?? incoming.logoURI,
+        isYieldBearing: existing.isYieldBearing || incoming.isYieldBearing,
+        underlyingToken: existing.underlyingToken ?? incoming.underlyingToken,
+        lists,
+        isImported: existing.isImported || incoming.isImported,
+    };
+}
+
+/**
+ * Merge token sources in priority order. Tokens are matched by address;
+ * earlier sources keep their display fields and list memberships are
+ * combined. A static token without an address takes the address of the
+ * first listed token with the same symbol (imported tokens never do).
+ */
+export function mergeTokens(...sources: Token[][]): Token[] {
+    const merged = new Map<string, Token>();
+    const aliases = new Map<string, string>();
+    const unaddressed = new Map<string, string>();
+
+    for (const tokens of sources) {
+        for (const token of tokens) {
+            const key = tokenKey(token);
+            let target = aliases.get(key);
+            if (!target && token.address && token.lists?.length) {
+                target = unaddressed.get(token.symbol.toLowerCase());
+            }
+
+            if (!target) {
+                merged.set(key, token);
+                aliases.set(key, key);
+                if (!token.address && !token.isNative) unaddressed.set(token.symbol.toLowerCase(), key);
+                continue;
+            }
+
+            const existing = merged.get(target)!;
+            if (!existing.address && token.address) {
+                unaddressed.delete(existing.symbol.toLowerCase());
+                aliases.set(key, target);
+            }
+            merged.set(target, mergeToken(existing, token));
+        }
+    }
+
+    return [...merged.values()];
+}
+
+/** An imported token that no list vouches for */
+export const isUnlistedToken = (token: Token): boolean => !!token.isImported && !token.lists?.length;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LOADING
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function fetchTokenList(url: string, chainId: number): Promise<Token[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Token list ${url} returned ${response.status}`);
+    }
+    return getListTokensForChain(parseTokenList(await response.json()), chainId);
+}
+
+/** name / symbol / decimals per address; null where the reads fail */
+async function readErc20Metadata(client: PublicClient, addresses: Address[]): Promise<(Erc20Metadata | null)[]> {
+    const results = await client.multicall({
+        allowFailure: true,
+        contracts: addresses.flatMap(address => [
+            { address, abi: ERC20_ABI, functionName: 'name' },
+            { address, abi: ERC20_ABI, functionName: 'symbol' },
+            { address, abi: ERC20_ABI, functionName: 'decimals' },
+        ]),
+    });
+
+    return addresses.map((_, i) => {
+        const [name, symbol, decimals] = results.slice(i * 3, i * 3 + 3);
+        if (name?.status !== 'success' || symbol?.status !== 'success' || decimals?.status !== 'success') return null;
+        return { name: String(name.result), symbol: String(symbol.result), decimals: Number(decimals.result) };
+    });
+}
+
+/**
+ * Enabled tokens on the TokenList contract. Entries are paged with
+ * allPaginated and filtered on their `enabled` meta flag.
+ */
+export async function loadOnChainTokens(client: PublicClient, chainId: number): Promise<Token[]> {
+    if (!isContractConfigured(chainId, 'tokenList')) return [];
+    const tokenList = getContractAddress(chainId, 'tokenList');
+
+    const count = Number(await client.readContract({
+        address: tokenList,
+        abi: TOKEN_LIST_ABI,
+        functionName: 'entryCount',
+    }) as bigint);
+
+    const addresses: Address[] = [];
+    for (let start = 0; start < count; start += ONCHAIN_PAGE_SIZE) {
+        const page = await client.readContract({
+            address: tokenList,
+            abi: TOKEN_LIST_ABI,
+            functionName: 'allPaginated',
+            args: [BigInt(start), BigInt(ONCHAIN_PAGE_SIZE)],
+        }) as Address[];
+        addresses.push(...page);
+    }
+    if (addresses.length === 0) return [];
+
+    const [metas, metadata] = await Promise.all([
+        client.multicall({
+            allowFailure: true,
+            contracts: addresses.map(address => ({
+                address: tokenList,
+                abi: TOKEN_LIST_ABI,
+                functionName: 'meta',
+                args: [address],
+            })),
+        }),
+        readErc20Metadata(client, addresses),
+    ]);
+
+    return addresses.flatMap((address, i) => {
+        const meta = metas[i];
+        const erc20 = metadata[i];
+        if (meta?.status !== 'success' || !erc20) return [];
+        const [, decimals, enabled] = meta.result as [string, number, boolean];
+        if (!enabled) return [];
+        return [{ ...erc20, decimals, address, price: 0, balance: 0, lists: [ONCHAIN_LIST_NAME] }];
+    });
+}
+
+/** Active TokenRegistryV2 vaults, marked yield-bearing with their underlying */
+export async function loadRegistryVaultTokens(client: PublicClient, chainId: number): Promise<Token[]> {
+    const vaults = await loadRegistryVaults(client, chainId);
+    if (vaults.length === 0) return [];
+
+    const metadata = await readErc20Metadata(client, [
+        ...vaults.map(v => v.vault),
+        ...vaults.map(v => v.underlying),
+    ]);
+
+    return vaults.flatMap(({ vault }, i) => {
+        const erc20 = metadata[i];
+        if (!erc20) return [];
+        return [{
+            ...erc20,
+            address: vault,
+            price: 0,
+            balance: 0,
+            isYieldBearing: true,
+            underlyingToken: metadata[vaults.length + i]?.symbol,
+            lists: [REGISTRY_LIST_NAME],
+        }];
+    });
+}
+
+/**
+ * All remote tokens for a chain. Each source fails independently so one
+ * unreachable list does not empty the selector.
+ */
+export async function loadTokenLists(
+    client: PublicClient,
+    chainId: number,
+    urls: string[] = TOKEN_LIST_URLS
+): Promise<Token[]> {
+    const sources = await Promise.allSettled([
+        loadOnChainTokens(client, chainId),
+        loadRegistryVaultTokens(client, chainId),
+        ...urls.map(url => fetchTokenList(url, chainId)),
+    ]);
+
+    return mergeTokens(...sources.map((result, i) => {
+        if (result.status === 'fulfilled') return result.value;
+        logger.warn('Token list source failed', { source: i < 2 ? ['TokenList', 'TokenRegistryV2'][i] : urls[i - 2], error: result.reason });
+        return [];
+    }));
+}
+
+/**
+ * Read an unlisted token's metadata by address
+ *
+ * @throws IgnisError INVALID_ADDRESS / TOKEN_NOT_FOUND
+ */
+export async function importTokenByAddress(client: PublicClient, chainId: number, address: string): Promise<Token> {
+    if (!isAddress(address, { strict: false })) {
+        throw new IgnisError({
+            code: 'INVALID_ADDRESS',
+            message: `Not an address: ${address}`,
+            userMessage: 'Enter a valid token address.',
+            isRetryable: true,
+        });
+    }
+
+    const checksummed = getAddress(address);
+    const [metadata] = await readErc20Metadata(client, [checksummed]);
+    if (!metadata) {
+        throw new IgnisError({
+            code: 'TOKEN_NOT_FOUND',
+            message: `No ERC20 metadata at ${checksummed} on chain ${chainId}`,
+            userMessage: 'No ERC-20 token found at this address on this network.',
+        });
+    }
+
+    return { ...metadata, address: checksummed, price: 0, balance: 0, lists: [], isImported: true };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IMPORTED TOKENS
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ImportedTokenStore = Record<string, Token[]>;
+
+function readImportedStore(): ImportedTokenStore {
+    try {
+        const saved = localStorage.getItem(CACHE_CONFIG.keys.importedTokens);
+        return saved ? JSON.parse(saved) as ImportedTokenStore : {};
+    } catch (e) {
+        logger.warn('Imported tokens load failed', { error: e });
+        return {};
+    }
+}
+
+function writeImportedStore(store: ImportedTokenStore): void {
+    try {
+        localStorage.setItem(CACHE_CONFIG.keys.importedTokens, JSON.stringify(store));
+    } catch (e) {
+        logger.warn('Imported tokens save failed', { error: e });
+    }
+}
+
+export function loadImportedTokens(chainId: number): Token[] {
+    return readImportedStore()[chainId] ?? [];
+}
+
+/** Persist an imported token for `chainId`; returns that chain's imported tokens */
+export function saveImportedToken(chainId: number, token: Token): Token[] {
+    const store = readImportedStore();
+    const tokens = [token, ...(store[chainId] ?? []).filter(t => t.address?.toLowerCase() !== token.address?.toLowerCase())];
+    writeImportedStore({ ...store, [chainId]: tokens });
+    return tokens;
+}
+
+export function removeImportedToken(chainId: number, address: Address): Token[] {
+    const store = readImportedStore();
+    const tokens = (store[chainId] ?? []).filter(t => t.address?.toLowerCase() !== address.toLowerCase());
+    writeImportedStore({ ...store, [chainId]: tokens });
+    return tokens;
+}
@@ -0,0 +1,273 @@
+import { formatUnits } from 'viem';
+import { IgnisError } from '../lib/contracts/errors';
+import { getAllByIndex, putRecord } from '../lib/db';
+import type { LimitOrderToken } from './limitOrderService';
+// ─────────────────────────────────────────────────────────────────────────────
+// TWAP SERVICE
+// ─────────────────────────────────────────────────────────────────────────────
+// Client-side TWAP orders. An order is split into equal slices that the
+// scheduler (useTwapOrders) swaps one per interval. Progress is persisted
+// after every step so a reload picks the order back up where it stopped.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+export type TwapOrderStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export type TwapSliceStatus = 'pending' | 'executing' | 'filled' | 'failed';
+
+export interface TwapSlice {
+    index: number;
+    /** Input amount in raw units */
+    amountIn: string;
+    status: TwapSliceStatus;
+    /** Output received (raw units), set once filled */
+    amountOut?: string;
+    executedAt?: number;
+    txHash?: string;
+    error?: string;
+}
+
+export interface TwapOrder {
+    id: string;
+    /** Lowercased owner address */
+    account: string;
+    chainId: number;
+    tokenIn: LimitOrderToken;
+    tokenOut: LimitOrderToken;
+    /** Total input in raw units */
+    amountIn: string;
+    intervalMs: number;
+    /** Largest adverse move from startPrice a slice may execute at */
+    maxDeviationBps: number;
+    slippageBps: number;
+    /** tokenOut per tokenIn quoted for one slice when the order was placed */
+    startPrice: number;
+    slices: TwapSlice[];
+    status: TwapOrderStatus;
+    /** Unix ms at which the next pending slice is due */
+    nextSliceAt: number;
+    createdAt: number;
+    updatedAt: number;
+    /** Why the order was last paused or its slice deferred */
+    error?: string;
+}
+
+export interface TwapOrderInput {
+    account: string;
+    chainId: number;
+    tokenIn: LimitOrderToken;
+    tokenOut: LimitOrderToken;
+    amountIn: bigint;
+    totalTrades: number;
+    intervalMs: number;
+    maxDeviationBps: number;
+    slippageBps: number;
+    startPrice: number;
+}
+
+export interface TwapProgress {
+    filledSlices: number;
+    totalSlices: number;
+    amountInFilled: bigint;
+    amountOutFilled: bigint;
+    /** tokenOut per tokenIn across filled slices, null before the first fill */
+    averagePrice: number | null;
+    /** Signed change of averagePrice versus startPrice, in bps */
+    priceChangeBps: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+export const TWAP_MIN_TRADES = 2;
+export const TWAP_MAX_TRADES = 20;
+
+const STORE = 'twapOrders';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ORDER MATH
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split `amountIn` into `totalTrades` equal slices; the rounding remainder
+ * goes to the last slice so the slices always sum to the total
+ */
+export function splitTwapAmount(amountIn: bigint, totalTrades: number): bigint[] {
+    const count = BigInt(totalTrades);
+    const base = amountIn / count;
+    const slices = Array.from({ length: totalTrades }, () => base);
+    slices[totalTrades - 1] = base + (amountIn - base * count);
+    return slices;
+}
+
+/**
+ * tokenOut per tokenIn for a raw amount pair
+ */
+export function getExecutionPrice(
+    amountIn: bigint,
+    amountOut: bigint,
+    decimalsIn: number,
+    decimalsOut: number
+): number {
+    const input = Number(formatUnits(amountIn, decimalsIn));
+    if (input === 0) return 0;
+    return Number(formatUnits(amountOut, decimalsOut)) / input;
+}
+
+/**
+ * How far `price` has moved against the order from `startPrice`, in bps.
+ * A better price than the start counts as no deviation.
+ */
+export function getAdverseDeviationBps(startPrice: number, price: number): number {
+    if (startPrice <= 0 || price >= startPrice) return 0;
+    return Math.round(((startPrice - price) / startPrice) * 10000);
+}
+
+/**
+ * First slice that still has to be filled, if any
+ */
+export function getNextSlice(order: TwapOrder): TwapSlice | undefined {
+    return order.slices.find(slice => slice.status !== 'filled');
+}
+
+export function isSliceDue(order: TwapOrder, now: number = Date.now()): boolean {
+    return order.status === 'active' && order.nextSliceAt <= now && !!getNextSlice(order);
+}
+
+export function getTwapProgress(order: TwapOrder): TwapProgress {
+    const filled = order.slices.filter(slice => slice.status === 'filled');
+    const amountInFilled = filled.reduce((sum, slice) => sum + BigInt(slice.amountIn), BigInt(0));
+    const amountOutFilled = filled.reduce((sum, slice) => sum + BigInt(slice.amountOut ?? '0'), BigInt(0));
+    const averagePrice = filled.length > 0
+        ? getExecutionPrice(amountInFilled, amountOutFilled, order.tokenIn.decimals, order.tokenOut.decimals)
+        : null;
+
+    return {
+        filledSlices: filled.length,
+        totalSlices: order.slices.length,
+        amountInFilled,
+        amountOutFilled,
+        averagePrice,
+        priceChangeBps: averagePrice !== null && order.startPrice > 0
+            ? Math.round(((averagePrice - order.startPrice) / order.startPrice) * 10000)
+            : null,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ORDER LIFECYCLE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create a new active order whose first slice is due immediately
+ */
+export function buildTwapOrder(input: TwapOrderInput, now: number = Date.now()): TwapOrder {
+    if (input.totalTrades < TWAP_MIN_TRADES || input.totalTrades > TWAP_MAX_TRADES) {
+        throw new IgnisError({
+            code: 'INVALID_TWAP_TRADES',
+            message: `Invalid TWAP trade count: ${input.totalTrades}`,
+            userMessage: `Choose between ${TWAP_MIN_TRADES} and ${TWAP_MAX_TRADES} trades.`,
+            isRetryable: true,
+        });
+    }
+    if (input.amountIn < BigInt(input.totalTrades)) {
+        throw new IgnisError({
+            code: 'INVALID_AMOUNT',
+            message: 'TWAP amount is too small to split',
+            userMessage: 'Please enter a larger amount.',
+            isRetryable: true,
+        });
+    }
+
+    return {
+        id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 9)}`,
+        account: input.account.toLowerCase(),
+        chainId: input.chainId,
+        tokenIn: input.tokenIn,
+        tokenOut: input.tokenOut,
+        amountIn: input.amountIn.toString(),
+        intervalMs: input.intervalMs,
+        maxDeviationBps: input.maxDeviationBps,
+        slippageBps: input.slippageBps,
+        startPrice: input.startPrice,
+        slices: splitTwapAmount(input.amountIn, input.totalTrades).map((amount, index) => ({
+            index,
+            amountIn: amount.toString(),
+            status: 'pending',
+        })),
+        status: 'active',
+        nextSliceAt: now,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Record a slice update. A fill schedules the next slice one interval later
+ * and completes the order after the last one; the order's status is otherwise
+ * left alone so a pause or cancel made mid-slice sticks.
+ */
+export function applySliceUpdate(
+    order: TwapOrder,
+    index: number,
+    changes: Partial<TwapSlice>,
+    now: number = Date.now()
+): TwapOrder {
+    const slices = order.slices.map(slice => (slice.index === index ? { ...slice, ...changes } : slice));
+    const next: TwapOrder = { ...order, slices, updatedAt: now };
+
+    if (changes.status === 'filled') {
+        next.nextSliceAt = now + order.intervalMs;
+        next.error = undefined;
+        if (slices.every(slice => slice.status === 'filled')) {
+            next.status = 'completed';
+        }
+    }
+    return next;
+}
+
+/**
+ * Push the pending slice back one interval, e.g. when the price has moved
+ * past the order's max deviation
+ */
+export function deferTwapSlice(order: TwapOrder, reason: string, now: number = Date.now()): TwapOrder {
+    return { ...order, nextSliceAt: now + order.intervalMs, error: reason, updatedAt: now };
+}
+
+export function pauseTwapOrder(order: TwapOrder, error?: string, now: number = Date.now()): TwapOrder {
+    if (order.status !== 'active') return order;
+    return { ...order, status: 'paused', error, updatedAt: now };
+}
+
+/**
+ * Resume a paused order. A failed slice is retried, and an overdue schedule
+ * restarts from now rather than firing a burst of catch-up slices.
+ */
+export function resumeTwapOrder(order: TwapOrder, now: number = Date.now()): TwapOrder {
+    if (order.status !== 'paused') return order;
+    return {
+        ...order,
+        status: 'active',
+        error: undefined,
+        slices: order.slices.map(slice => (slice.status === 'failed' ? { ...slice, status: 'pending' } : slice)),
+        nextSliceAt: Math.max(order.nextSliceAt, now),
+        updatedAt: now,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PERSISTENCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * All TWAP orders for an account on a chain, newest first
+ */
+export async function loadTwapOrders(account: string, chainId: number): Promise<TwapOrder[]> {
+    const orders = await getAllByIndex<TwapOrder>(STORE, 'byOwner', [account.toLowerCase(), chainId]);
+    return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function saveTwapOrder(order: TwapOrder): Promise<void> {
+    return putRecord(STORE, order);
+}
@@ -0,0 +1,102 @@
+import { TransactionNotFoundError, TransactionReceiptNotFoundError } from 'viem';
+import type { PublicClient } from 'viem';
+import { deleteRecord, getAllByIndex, putRecord } from '../lib/db';
+import type { Address, Transaction } from '../types';
+// ─────────────────────────────────────────────────────────────────────────────
+// TRANSACTION HISTORY SERVICE
+// ─────────────────────────────────────────────────────────────────────────────
+// Transactions from the pending-transactions panel, kept in IndexedDB per
+// account and chain so a reload doesn't lose in-flight swaps. Anything still
+// 'pending' after a reload is reconciled against the chain.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How long a hash may be unknown to the node before it counts as dropped.
+ * Covers RPC nodes that haven't seen a freshly broadcast transaction yet.
+ */
+export const TX_DROP_AFTER_MS = 10 * 60 * 1000;
+
+const STORE = 'transactions';
+
+/** Only the reads reconciliation needs, so tests can pass a plain object */
+export type TxReconcileClient = Pick<PublicClient, 'getTransactionReceipt' | 'getTransaction' | 'getTransactionCount'>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RECONCILIATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Only "not found" means absent; RPC failures are thrown for the caller to retry */
+const nullIfNotFound = (error: unknown): null => {
+    if (error instanceof TransactionReceiptNotFoundError || error instanceof TransactionNotFoundError) return null;
+    throw error;
+};
+
+/**
+ * Work out what became of a pending transaction.
+ *
+ * Returns the fields to update, or null while it is still waiting to be mined.
+ * A transaction that is gone from the node is 'replaced' once the sender's
+ * nonce has moved past it, otherwise 'dropped' after TX_DROP_AFTER_MS.
+ */
+export async function reconcileTransaction(
+    tx: Transaction,
+    client: TxReconcileClient,
+    now: number = Date.now()
+): Promise<Partial<Transaction> | null> {
+    if (tx.status !== 'pending') return null;
+
+    // The page was closed before the wallet returned a hash
+    if (!tx.hash) {
+        return { status: 'dropped', error: 'Interrupted before the transaction was sent' };
+    }
+
+    const receipt = await client.getTransactionReceipt({ hash: tx.hash }).catch(nullIfNotFound);
+    if (receipt) {
+        return receipt.status === 'success'
+            ? { status: 'success' }
+            : { status: 'failed', error: 'Transaction reverted' };
+    }
+
+    const pending = await client.getTransaction({ hash: tx.hash }).catch(nullIfNotFound);
+    if (pending) {
+        return tx.nonce === pending.nonce ? null : { nonce: pending.nonce };
+    }
+
+    if (tx.nonce !== undefined && tx.account) {
+        const confirmedNonce = await client.getTransactionCount({
+            address: tx.account as Address,
+            blockTag: 'latest',
+        });
+        if (confirmedNonce > tx.nonce) {
+            return { status: 'replaced', error: 'Replaced by another transaction with the same nonce' };
+        }
+    }
+
+    if (now - tx.timestamp > TX_DROP_AFTER_MS) {
+        return { status: 'dropped', error: 'Transaction was never mined' };
+    }
+    return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PERSISTENCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * All transactions for an account on a chain, newest first
+ */
+export async function loadTransactions(account: string, chainId: number): Promise<Transaction[]> {
+    const transactions = await getAllByIndex<Transaction>(STORE, 'byOwner', [account.toLowerCase(), chainId]);
+    return transactions.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export function saveTransaction(tx: Transaction): Promise<void> {
+    return putRecord(STORE, tx);
+}
+
+export function deleteTransaction(id: string): Promise<void> {
+    return deleteRecord(STORE, id);
+}
@@ -0,0 +1,141 @@
+/** Module */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PublicClient, decodeFunctionData, encodeFunctionData, erc20Abi } from 'viem';
+import {
+  buildApproveCalls,
+  buildRevokeCall,
+  getApprovalAmount,
+  isUnlimitedAllowance,
+  readTokenFlags,
+  scanAllowances,
+} from '../lib/contracts/approvals';
+import { MAX_UINT256 } from '../lib/contracts/config';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TOKEN_A = '0x4000000000000000000000000000000000000004';
+const TOKEN_B = '0x5000000000000000000000000000000000000005';
+const ROUTER = '0x1000000000000000000000000000000000000001';
+const STAKER = '0x2000000000000000000000000000000000000002';
+const ADAPTER = '0x6000000000000000000000000000000000000006';
+const OWNER = '0x3000000000000000000000000000000000000003';
+
+const tokens = [
+  { address: TOKEN_A, symbol: 'USDT', decimals: 6 },
+  { address: TOKEN_B, symbol: 'WETH', decimals: 18 },
+] as const;
+
+const spenders = [
+  { spender: 'gatewayRouter', address: ROUTER },
+  { spender: 'bufferStaker', address: STAKER },
+] as const;
+
+const ok = (result: unknown) => ({ status: 'success', result });
+const failed = { status: 'failure', error: new Error('reverted') };
+
+const clientWith = (multicall: ReturnType<typeof vi.fn>) => ({ multicall }) as unknown as PublicClient;
+
+const approveArgs = (call: ReturnType<typeof buildApproveCalls>[number]) =>
+  decodeFunctionData({ abi: erc20Abi, data: encodeFunctionData(call) }).args;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// APPROVAL AMOUNTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getApprovalAmount', () => {
+  it('approves the exact spend or MAX_UINT256', () => {
+    expect(getApprovalAmount(1_000n, 'exact')).toBe(1_000n);
+    expect(getApprovalAmount(1_000n, 'unlimited')).toBe(MAX_UINT256);
+  });
+
+  it('treats a partly spent MAX_UINT256 allowance as unlimited', () => {
+    expect(isUnlimitedAllowance(MAX_UINT256 - 1_000n)).toBe(true);
+    expect(isUnlimitedAllowance(10n ** 30n)).toBe(false);
+  });
+});
+
+describe('buildApproveCalls', () => {
+  it('sends a single approve for standard tokens', () => {
+    const calls = buildApproveCalls(TOKEN_A, ROUTER, 500n, 100n);
+    expect(calls).toHaveLength(1);
+    expect(approveArgs(calls[0]!)).toEqual([ROUTER, 500n]);
+  });
+
+  it('resets to zero first when the token requires it', () => {
+    const calls = buildApproveCalls(TOKEN_A, ROUTER, 500n, 100n, { nonStandard: false, requiresReset: true });
+    expect(calls.map(call => approveArgs(call)[1])).toEqual([0n, 500n]);
+  });
+
+  it('revokes with a single approve(0) even for reset tokens', () => {
+    const calls = buildApproveCalls(TOKEN_A, ROUTER, 0n, 100n, { nonStandard: true, requiresReset: true });
+    expect(calls).toHaveLength(1);
+    expect(approveArgs(calls[0]!)).toEqual([ROUTER, 0n]);
+  });
+
+  it('uses an approve without a return value for non-standard tokens', () => {
+    const [call] = buildApproveCalls(TOKEN_A, ROUTER, 0n, 100n, { nonStandard: true, requiresReset: false });
+    const approve = call!.abi.find(item => item.type === 'function' && item.name === 'approve');
+    expect(approve).toMatchObject({ outputs: [] });
+  });
+
+  it('revokes a scanned allowance to zero for its spender', () => {
+    const call = buildRevokeCall({
+      token: tokens[0],
+      spender: 'bufferStaker',
+      spenderAddress: STAKER,
+      allowance: MAX_UINT256,
+      flags: { nonStandard: false, requiresReset: true },
+    });
+    expect(call.address).toBe(TOKEN_A);
+    expect(approveArgs(call)).toEqual([STAKER, 0n]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCANNING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('scanAllowances', () => {
+  it('keeps non-zero allowances per token and spender', async () => {
+    const client = clientWith(vi.fn(() => Promise.resolve([ok(MAX_UINT256), ok(0n), failed, ok(5n)])));
+    const flags = new Map([[TOKEN_A.toLowerCase(), { nonStandard: true, requiresReset: true }]]);
+
+    const entries = await scanAllowances(client, OWNER, [...tokens], [...spenders], flags);
+
+    expect(entries.map(e => [e.token.symbol, e.spender, e.allowance])).toEqual([
+      ['USDT', 'gatewayRouter', MAX_UINT256],
+      ['WETH', 'bufferStaker', 5n],
+    ]);
+    expect(entries[0]!.flags).toEqual({ nonStandard: true, requiresReset: true });
+    expect(entries[1]!.flags).toEqual({ nonStandard: false, requiresReset: false });
+  });
+
+  it('skips the read without tokens or spenders', async () => {
+    const multicall = vi.fn();
+    expect(await scanAllowances(clientWith(multicall), OWNER, [], [...spenders])).toEqual([]);
+    expect(multicall).not.toHaveBeenCalled();
+  });
+});
+
+describe('readTokenFlags', () => {
+  it('reads isNonStandardToken from the router and requiresApproveReset from the adapter', async () => {
+    const multicall = vi.fn(({ contracts }: { contracts: { functionName: string }[] }) =>
+      Promise.resolve(contracts[0]!.functionName === 'isNonStandardToken' ? [ok(true), ok(false)] : [failed, ok(true)])
+    );
+
+    const flags = await readTokenFlags(clientWith(multicall), [TOKEN_A, TOKEN_B], { router: ROUTER, vaultAdapter: ADAPTER });
+
+    expect(flags.get(TOKEN_A.toLowerCase())).toEqual({ nonStandard: true, requiresReset: false });
+    expect(flags.get(TOKEN_B.toLowerCase())).toEqual({ nonStandard: false, requiresReset: true });
+  });
+
+  it('defaults to standard behaviour when neither contract is configured', async () => {
+    const multicall = vi.fn();
+    const flags = await readTokenFlags(clientWith(multicall), [TOKEN_A], {});
+    expect(flags.get(TOKEN_A.toLowerCase())).toEqual({ nonStandard: false, requiresReset: false });
+    expect(multicall).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BIN_ID_OFFSET,
+  DISTRIBUTION_PRECISION,
+  binStepFromPercent,
+  buildBinDistribution,
+  encodeBinAmounts,
+  encodeLiquidityConfigs,
+  getIdFromPrice,
+  getPriceFromId,
+  previewBinDistribution,
+} from '../lib/contracts/binDistribution';
+import type { BinDistribution, LiquidityShape } from '../lib/contracts/binDistribution';
+import { BIN_STEPS } from '../lib/contracts/config';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ACTIVE = BIN_ID_OFFSET;
+const ONE = BigInt(10) ** BigInt(18);
+
+const sum = (parts: bigint[]) => parts.reduce((total, p) => total + p, BigInt(0));
+
+const distribute = (shape: LiquidityShape, lowerId = ACTIVE - 5, upperId = ACTIVE + 5, amountX = ONE, amountY = ONE) =>
+  buildBinDistribution({ shape, activeId: ACTIVE, lowerId, upperId, amountX, amountY });
+
+/** Weight of the bin `deltaId` on the side that holds it */
+const weightAt = (distribution: BinDistribution, deltaId: number) => {
+  const i = distribution.deltaIds.indexOf(deltaId);
+  return deltaId >= 0 ? distribution.distributionX[i]! : distribution.distributionY[i]!;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BIN PRICES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('bin prices', () => {
+  it('puts price 1 at 2^23', () => {
+    expect(getPriceFromId(BIN_ID_OFFSET, BIN_STEPS.NORMAL, 18, 18)).toBe(1);
+    expect(getIdFromPrice(1, BIN_STEPS.NORMAL, 18, 18)).toBe(BIN_ID_OFFSET);
+  });
+
+  it('steps by binStep basis points per bin', () => {
+    expect(getPriceFromId(BIN_ID_OFFSET + 1, BIN_STEPS.VOLATILE, 18, 18)).toBeCloseTo(1.01, 12);
+    expect(getIdFromPrice(1.0202, BIN_STEPS.VOLATILE, 18, 18)).toBe(BIN_ID_OFFSET + 2);
+  });
+
+  it('round-trips through getPriceFromId with mixed decimals', () => {
+    for (const id of [BIN_ID_OFFSET - 500, BIN_ID_OFFSET, BIN_ID_OFFSET + 777]) {
+      expect(getIdFromPrice(getPriceFromId(id, BIN_STEPS.WIDE, 18, 6), BIN_STEPS.WIDE, 18, 6)).toBe(id);
+    }
+  });
+
+  it('maps pool fees to bin steps', () => {
+    expect(binStepFromPercent(0.25)).toBe(BIN_STEPS.WIDE);
+    expect(binStepFromPercent(1)).toBe(BIN_STEPS.VOLATILE);
+    expect(binStepFromPercent(0.3)).toBe(BIN_STEPS.NORMAL);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DISTRIBUTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildBinDistribution', () => {
+  it('puts X above the active bin, Y below and both in it', () => {
+    const distribution = distribute('spot');
+    distribution.deltaIds.forEach((deltaId, i) => {
+      expect(distribution.distributionX[i]! > BigInt(0)).toBe(deltaId >= 0);
+      expect(distribution.distributionY[i]! > BigInt(0)).toBe(deltaId <= 0);
+    });
+  });
+
+  it('sums each side to exactly 1e18', () => {
+    for (const shape of ['spot', 'curve', 'bidask'] as const) {
+      const distribution = distribute(shape, ACTIVE - 7, ACTIVE + 3);
+      expect(sum(distribution.distributionX)).toBe(DISTRIBUTION_PRECISION);
+      expect(sum(distribution.distributionY)).toBe(DISTRIBUTION_PRECISION);
+    }
+  });
+
+  it('spreads spot evenly', () => {
+    const { distributionX } = distribute('spot');
+    const weights = distributionX.filter(part => part > BigInt(0));
+    expect(weights).toHaveLength(6);
+    expect(weights[1]).toBe(weights[2]);
+  });
+
+  it('peaks curve at the active bin and bid-ask at the edges', () => {
+    const curve = distribute('curve');
+    expect(weightAt(curve, 0) > weightAt(curve, 3)).toBe(true);
+    expect(weightAt(curve, 3) > weightAt(curve, 5)).toBe(true);
+
+    const bidask = distribute('bidask');
+    expect(weightAt(bidask, 5) > weightAt(bidask, 3)).toBe(true);
+    expect(weightAt(bidask, -5) > weightAt(bidask, 0)).toBe(true);
+  });
+
+  it('is single-sided for ranges off the active bin', () => {
+    const above = distribute('curve', ACTIVE + 2, ACTIVE + 6);
+    expect(sum(above.distributionY)).toBe(BigInt(0));
+    expect(sum(above.distributionX)).toBe(DISTRIBUTION_PRECISION);
+    expect(above.deltaIds).toEqual([2, 3, 4, 5, 6]);
+  });
+
+  it('leaves a side empty when its amount is zero', () => {
+    const distribution = distribute('spot', ACTIVE - 3, ACTIVE + 3, BigInt(0), ONE);
+    expect(sum(distribution.distributionX)).toBe(BigInt(0));
+    expect(sum(distribution.distributionY)).toBe(DISTRIBUTION_PRECISION);
+  });
+
+  it('rejects inverted and oversized ranges', () => {
+    expect(() => distribute('spot', ACTIVE + 1, ACTIVE - 1)).toThrow();
+    expect(() => distribute('spot', ACTIVE - 51, ACTIVE)).toThrow(/50 bins/);
+  });
+});
+
+describe('previewBinDistribution', () => {
+  it('values every bin in Y and keeps the totals', () => {
+    const distribution = distribute('curve', ACTIVE - 2, ACTIVE + 2);
+    const preview = previewBinDistribution(distribution, ACTIVE, BIN_STEPS.NORMAL, { amountX: 2, amountY: 4 }, { x: 18, y: 18 });
+
+    expect(preview.map(bin => bin.binId)).toEqual([ACTIVE - 2, ACTIVE - 1, ACTIVE, ACTIVE + 1, ACTIVE + 2]);
+    expect(preview.reduce((total, bin) => total + bin.amountX, 0)).toBeCloseTo(2, 9);
+    expect(preview.reduce((total, bin) => total + bin.amountY, 0)).toBeCloseTo(4, 9);
+    const top = preview[4]!;
+    expect(top.valueY).toBeCloseTo(top.amountX * top.price, 12);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENCODING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('encodeLiquidityConfigs', () => {
+  it('packs distributionX, distributionY and the bin id', () => {
+    const distribution: BinDistribution = { deltaIds: [0], distributionX: [ONE / BigInt(2)], distributionY: [ONE] };
+    const [config] = encodeLiquidityConfigs(distribution, ACTIVE);
+    const packed = BigInt(config!);
+
+    expect(packed & BigInt(0xffffff)).toBe(BigInt(ACTIVE));
+    expect((packed >> BigInt(24)) & BigInt('0xffffffffffffffff')).toBe(ONE);
+    expect(packed >> BigInt(88)).toBe(ONE / BigInt(2));
+  });
+
+  it('packs amountX low and amountY high', () => {
+    const packed = BigInt(encodeBinAmounts(BigInt(5), BigInt(7)));
+    expect(packed & ((BigInt(1) << BigInt(128)) - BigInt(1))).toBe(BigInt(5));
+    expect(packed >> BigInt(128)).toBe(BigInt(7));
+  });
+});
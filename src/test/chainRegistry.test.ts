@@ -0,0 +1,96 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BASE_SEPOLIA,
+  CHAINS,
+  buildChainConfig,
+  deploymentManifestSchema,
+  getChainConfig,
+  loadDeploymentManifests,
+} from '../lib/contracts/addresses';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ZERO = '0x0000000000000000000000000000000000000000';
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const QUOTER = '0x2222222222222222222222222222222222222222';
+
+const { contracts, ...sepoliaMetadata } = BASE_SEPOLIA;
+const metadata = { ...sepoliaMetadata, weth: contracts.weth };
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MANIFESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('deploymentManifestSchema', () => {
+  it('accepts a manifest with known contracts', () => {
+    const result = deploymentManifestSchema.safeParse({ chainId: 84532, contracts: { gatewayRouter: ROUTER } });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects unknown contract names and bad addresses', () => {
+    expect(deploymentManifestSchema.safeParse({ chainId: 84532, contracts: { router: ROUTER } }).success).toBe(false);
+    expect(deploymentManifestSchema.safeParse({ chainId: 84532, contracts: { gatewayRouter: '0x1234' } }).success).toBe(false);
+  });
+});
+
+describe('loadDeploymentManifests', () => {
+  it('indexes manifests by chain', () => {
+    const manifests = loadDeploymentManifests({
+      'a.json': { chainId: 84532, contracts: { gatewayRouter: ROUTER } },
+      'b.json': { chainId: 8453, contracts: {} },
+    });
+    expect(manifests.get(84532)?.contracts.gatewayRouter).toBe(ROUTER);
+    expect(manifests.size).toBe(2);
+  });
+
+  it('rejects two manifests for the same chain', () => {
+    expect(() => loadDeploymentManifests({
+      'a.json': { chainId: 84532, contracts: {} },
+      'b.json': { chainId: 84532, contracts: {} },
+    })).toThrow(/84532/);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REGISTRY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildChainConfig', () => {
+  it('fills contracts from the manifest and leaves the rest unconfigured', () => {
+    const config = buildChainConfig(metadata, {
+      chainId: 84532,
+      contracts: { gatewayRouter: ROUTER },
+      subgraphUrl: 'https://example.com/subgraph',
+    });
+
+    expect(config.contracts.gatewayRouter).toBe(ROUTER);
+    expect(config.contracts.smartQuoter).toBe(ZERO);
+    expect(config.contracts.weth).toBe(contracts.weth);
+    expect(config.subgraphUrl).toBe('https://example.com/subgraph');
+  });
+
+  it('lets overrides win over the manifest', () => {
+    const config = buildChainConfig(
+      metadata,
+      { chainId: 84532, contracts: { smartQuoter: ROUTER } },
+      { smartQuoter: QUOTER }
+    );
+    expect(config.contracts.smartQuoter).toBe(QUOTER);
+  });
+});
+
+describe('CHAINS', () => {
+  it('loads every bundled manifest into a validated chain', () => {
+    for (const chainId of [8453, 84532, 56, 97]) {
+      const config = getChainConfig(chainId);
+      expect(config.rpcUrls.length).toBeGreaterThan(0);
+      expect(config.explorerName).toBeTruthy();
+      expect(config.contracts.gatewayRouter).toMatch(/^0x[a-fA-F0-9]{40}$/);
+    }
+    expect(Object.keys(CHAINS)).toHaveLength(4);
+  });
+});
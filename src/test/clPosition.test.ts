@@ -0,0 +1,178 @@
+/** Module */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PublicClient, decodeAbiParameters, decodeFunctionData, encodeEventTopics, encodeFunctionData, keccak256, parseAbiParameters } from 'viem';
+import type { Address, Log } from 'viem';
+import {
+  CL_POSITION_MANAGER_ABI,
+  PositionAction,
+  buildCLPoolKey,
+  buildMintPositionCall,
+  feeTierFromPercent,
+  getCLPoolId,
+  getMintedTokenId,
+  readCLPoolState,
+  withSlippageCap,
+} from '../lib/contracts/clPosition';
+import { FEE_TIERS, ZERO_ADDRESS } from '../lib/contracts/config';
+import { Q96 } from '../lib/contracts/tickMath';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TOKEN_A = '0x4000000000000000000000000000000000000004';
+const TOKEN_B = '0x5000000000000000000000000000000000000005';
+const POOL_MANAGER = '0x1000000000000000000000000000000000000001';
+const POSITION_MANAGER = '0x2000000000000000000000000000000000000002';
+const OWNER = '0x3000000000000000000000000000000000000003';
+
+const mintParams = (poolKey: ReturnType<typeof buildCLPoolKey>['poolKey']) => ({
+  positionManager: POSITION_MANAGER,
+  poolKey,
+  tickLower: -600,
+  tickUpper: 600,
+  liquidity: BigInt(1_000_000),
+  amount0Max: BigInt(1_005),
+  amount1Max: BigInt(2_010),
+  owner: OWNER,
+  deadline: BigInt(1_700_000_000),
+}) as const;
+
+/** Action bytes and per-action params of a modifyLiquidities call */
+const decodePayload = (call: ReturnType<typeof buildMintPositionCall>) => {
+  const { args } = decodeFunctionData({ abi: CL_POSITION_MANAGER_ABI, data: encodeFunctionData(call) });
+  const [actions, params] = decodeAbiParameters(parseAbiParameters('bytes, bytes[]'), args![0] as `0x${string}`);
+  return { actions: Array.from(Buffer.from(actions.slice(2), 'hex')), params, deadline: args![1] };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// POOL KEYS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildCLPoolKey', () => {
+  it('sorts currencies and reports when the pair was flipped', () => {
+    expect(buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER).flipped).toBe(false);
+    const { poolKey, flipped } = buildCLPoolKey(TOKEN_B, TOKEN_A, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    expect(flipped).toBe(true);
+    expect([poolKey.currency0, poolKey.currency1]).toEqual([TOKEN_A, TOKEN_B]);
+  });
+
+  it('encodes the fee tier spacing into parameters', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    expect(BigInt(poolKey.parameters) >> BigInt(16)).toBe(BigInt(60));
+    expect(poolKey.hooks).toBe(ZERO_ADDRESS);
+  });
+
+  it('rejects identical currencies and unknown fee tiers', () => {
+    expect(() => buildCLPoolKey(TOKEN_A, TOKEN_A, FEE_TIERS.MEDIUM, POOL_MANAGER)).toThrow();
+    expect(() => buildCLPoolKey(TOKEN_A, TOKEN_B, 2500, POOL_MANAGER)).toThrow();
+  });
+
+  it('maps percent fees to fee tiers', () => {
+    expect(feeTierFromPercent(0.3)).toBe(FEE_TIERS.MEDIUM);
+    expect(feeTierFromPercent(0.05)).toBe(FEE_TIERS.LOW);
+    expect(feeTierFromPercent(0.01)).toBe(FEE_TIERS.LOWEST);
+  });
+});
+
+describe('getCLPoolId', () => {
+  it('hashes the abi-encoded key', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.LOW, POOL_MANAGER);
+    const words = [poolKey.currency0, poolKey.currency1, poolKey.hooks, poolKey.poolManager]
+      .map(address => address.slice(2).padStart(64, '0'))
+      .concat(poolKey.fee.toString(16).padStart(64, '0'), poolKey.parameters.slice(2));
+    expect(getCLPoolId(poolKey)).toBe(keccak256(`0x${words.join('')}`));
+  });
+});
+
+describe('readCLPoolState', () => {
+  const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER);
+  const clientWith = (sqrtPriceX96: bigint) => ({
+    readContract: vi.fn(({ functionName }: { functionName: string }) =>
+      Promise.resolve(functionName === 'getSlot0' ? [sqrtPriceX96, 0, 0, 3000] : BigInt(42))
+    ),
+  }) as unknown as PublicClient;
+
+  it('reads slot0 and liquidity', async () => {
+    expect(await readCLPoolState(clientWith(Q96), poolKey)).toEqual({ sqrtPriceX96: Q96, tick: 0, liquidity: BigInt(42) });
+  });
+
+  it('returns null for uninitialized pools', async () => {
+    expect(await readCLPoolState(clientWith(BigInt(0)), poolKey)).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MINTING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildMintPositionCall', () => {
+  it('mints and settles both currencies', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    const call = buildMintPositionCall(mintParams(poolKey));
+    const { actions, params, deadline } = decodePayload(call);
+
+    expect(actions).toEqual([PositionAction.CL_MINT_POSITION, PositionAction.SETTLE_PAIR]);
+    expect(deadline).toBe(BigInt(1_700_000_000));
+    expect(call.value).toBeUndefined();
+
+    const [, tickLower, tickUpper, liquidity, amount0Max, amount1Max, owner] = decodeAbiParameters(
+      parseAbiParameters('(address, address, address, address, uint24, bytes32), int24, int24, uint256, uint128, uint128, address, bytes'),
+      params[0]!
+    );
+    expect([tickLower, tickUpper, liquidity, amount0Max, amount1Max, owner])
+      .toEqual([-600, 600, BigInt(1_000_000), BigInt(1_005), BigInt(2_010), OWNER]);
+  });
+
+  it('sends native currency0 as value and sweeps the rest back', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_B, ZERO_ADDRESS, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    const call = buildMintPositionCall(mintParams(poolKey));
+
+    expect(decodePayload(call).actions).toEqual([
+      PositionAction.CL_MINT_POSITION,
+      PositionAction.SETTLE_PAIR,
+      PositionAction.SWEEP,
+    ]);
+    expect(call.value).toBe(BigInt(1_005));
+  });
+
+  it('rejects empty ranges', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    expect(() => buildMintPositionCall({ ...mintParams(poolKey), tickLower: 600 })).toThrow();
+  });
+
+  it('caps amounts by the slippage tolerance', () => {
+    expect(withSlippageCap(BigInt(10_000), 50)).toBe(BigInt(10_050));
+  });
+});
+
+describe('getMintedTokenId', () => {
+  const transferLog = (address: Address, from: Address, to: Address, id: bigint): Log => ({
+    address,
+    topics: encodeEventTopics({ abi: CL_POSITION_MANAGER_ABI, eventName: 'Transfer', args: { from, to, id } }) as Log['topics'],
+    data: '0x',
+    blockHash: null,
+    blockNumber: null,
+    logIndex: null,
+    transactionHash: null,
+    transactionIndex: null,
+    removed: false,
+  });
+
+  it('reads the tokenId minted to the owner', () => {
+    const logs = [
+      transferLog(TOKEN_A, OWNER, POSITION_MANAGER, BigInt(5)),
+      transferLog(POSITION_MANAGER, ZERO_ADDRESS, OWNER, BigInt(42)),
+    ];
+    expect(getMintedTokenId(logs, POSITION_MANAGER, OWNER)).toBe(BigInt(42));
+  });
+
+  it('ignores transfers from other contracts, or to other owners', () => {
+    const logs = [
+      transferLog(TOKEN_A, ZERO_ADDRESS, OWNER, BigInt(5)),
+      transferLog(POSITION_MANAGER, ZERO_ADDRESS, TOKEN_B, BigInt(6)),
+    ];
+    expect(getMintedTokenId(logs, POSITION_MANAGER, OWNER)).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import { getAddress, hexToBigInt } from 'viem';
+import {
+  buildRouteGraph,
+  enumerateRoutePaths,
+  encodePoolParameters,
+  getPriceImpactBps,
+  getSpotAmountOut,
+  RegistryPool,
+  RegistryVault,
+} from '../lib/contracts/fallbackRouter';
+import { decodeRoute, encodeSingleRoute } from '../lib/contracts/route';
+import { RouteAction } from '../lib/contracts/types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const USDC = getAddress('0x833589fcd6edb6e08f4c7c32d4f71b54bda02913');
+const WETH = getAddress('0x4200000000000000000000000000000000000006');
+const AUSDC = getAddress('0x4e65fe4dba92790696d040ac24aa414708f5c0ab');
+const CBBTC = getAddress('0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf');
+const NO_HOOKS = getAddress('0x0000000000000000000000000000000000000000');
+
+const clPool = (a: typeof USDC, b: typeof USDC, fee = 500): RegistryPool => ({
+  type: 'CL',
+  token0: a.toLowerCase() < b.toLowerCase() ? a : b,
+  token1: a.toLowerCase() < b.toLowerCase() ? b : a,
+  fee,
+  tickSpacing: 10,
+  hooks: NO_HOOKS,
+});
+
+const binPool = (a: typeof USDC, b: typeof USDC): RegistryPool => ({
+  type: 'BIN',
+  token0: a.toLowerCase() < b.toLowerCase() ? a : b,
+  token1: a.toLowerCase() < b.toLowerCase() ? b : a,
+  binStep: 25,
+  hooks: NO_HOOKS,
+});
+
+const vaults: RegistryVault[] = [{ vault: AUSDC, underlying: USDC }];
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GRAPH
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildRouteGraph', () => {
+  it('adds both swap directions with the matching zeroForOne', () => {
+    const graph = buildRouteGraph([clPool(WETH, USDC)], []);
+    const fromWeth = graph.get(WETH.toLowerCase())!;
+    const fromUsdc = graph.get(USDC.toLowerCase())!;
+
+    expect(fromWeth).toHaveLength(1);
+    expect(fromUsdc).toHaveLength(1);
+    const wethIsToken0 = WETH.toLowerCase() < USDC.toLowerCase();
+    expect(fromWeth[0]!.step.poolData).toMatchObject({ type: 'CL', zeroForOne: wethIsToken0 });
+    expect(fromUsdc[0]!.step.poolData).toMatchObject({ type: 'CL', zeroForOne: !wethIsToken0 });
+  });
+
+  it('adds WRAP and UNWRAP legs for vaults', () => {
+    const graph = buildRouteGraph([], vaults);
+
+    expect(graph.get(USDC.toLowerCase())![0]!.step).toMatchObject({ action: RouteAction.WRAP, tokenOut: AUSDC });
+    expect(graph.get(AUSDC.toLowerCase())![0]!.step).toMatchObject({ action: RouteAction.UNWRAP, tokenOut: USDC });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PATHS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('enumerateRoutePaths', () => {
+  it('finds direct, multi-hop and vault paths, shortest first', () => {
+    const graph = buildRouteGraph(
+      [clPool(WETH, AUSDC), binPool(WETH, USDC), clPool(WETH, CBBTC), clPool(CBBTC, USDC)],
+      vaults
+    );
+    const paths = enumerateRoutePaths(graph, WETH, USDC);
+    const shapes = paths.map(path => path.map(edge => edge.step.action));
+
+    expect(shapes[0]).toEqual([RouteAction.SWAP_BIN]);
+    expect(shapes).toContainEqual([RouteAction.SWAP_CL, RouteAction.UNWRAP]);
+    expect(shapes).toContainEqual([RouteAction.SWAP_CL, RouteAction.SWAP_CL]);
+    for (let i = 1; i < paths.length; i++) {
+      expect(paths[i]!.length).toBeGreaterThanOrEqual(paths[i - 1]!.length);
+    }
+  });
+
+  it('never revisits a token', () => {
+    const graph = buildRouteGraph([clPool(WETH, CBBTC), clPool(CBBTC, USDC), clPool(WETH, USDC)], []);
+    for (const path of enumerateRoutePaths(graph, WETH, USDC)) {
+      const seen = path.map(edge => edge.step.tokenIn.toLowerCase());
+      expect(new Set(seen).size).toBe(seen.length);
+    }
+  });
+
+  it('respects the step and candidate limits', () => {
+    const graph = buildRouteGraph(
+      [clPool(WETH, CBBTC), clPool(CBBTC, AUSDC), clPool(WETH, USDC, 500), clPool(WETH, USDC, 3000)],
+      vaults
+    );
+
+    expect(enumerateRoutePaths(graph, WETH, USDC, 1).every(path => path.length === 1)).toBe(true);
+    expect(enumerateRoutePaths(graph, WETH, USDC, 4, 1)).toHaveLength(1);
+  });
+
+  it('produces paths the router encoding accepts', () => {
+    const graph = buildRouteGraph([clPool(WETH, AUSDC)], vaults);
+    const [path] = enumerateRoutePaths(graph, WETH, USDC);
+    const decoded = decodeRoute(encodeSingleRoute(path!.map(edge => edge.step)));
+
+    expect(decoded.paths[0]!.steps.map(step => step.action)).toEqual([RouteAction.SWAP_CL, RouteAction.UNWRAP]);
+  });
+
+  it('returns nothing when the tokens are not connected', () => {
+    const graph = buildRouteGraph([clPool(WETH, CBBTC)], []);
+    expect(enumerateRoutePaths(graph, WETH, USDC)).toEqual([]);
+  });
+});
+
+describe('encodePoolParameters', () => {
+  it('places tick spacing / bin step above the hooks bitmap', () => {
+    expect(hexToBigInt(encodePoolParameters(clPool(WETH, USDC)))).toBe(10n << 16n);
+    expect(hexToBigInt(encodePoolParameters(binPool(WETH, USDC)))).toBe(25n << 16n);
+  });
+});
+
+describe('getSpotAmountOut', () => {
+  it('prices CL steps from sqrtPriceX96 in both directions', () => {
+    // sqrtPrice 2 → 4 token1 per token0
+    const spot = { type: 'CL' as const, sqrtPriceX96: 2n << 96n };
+    expect(getSpotAmountOut(spot, true, 1000n)).toBeCloseTo(4000);
+    expect(getSpotAmountOut(spot, false, 1000n)).toBeCloseTo(250);
+  });
+
+  it('prices bin steps from the active bin', () => {
+    const spot = { type: 'BIN' as const, activeId: 8388608 + 1, binStep: 100 };
+    expect(getSpotAmountOut(spot, true, 1000n)).toBeCloseTo(1010);
+    expect(getSpotAmountOut(spot, false, 1010n)).toBeCloseTo(1000);
+  });
+});
+
+describe('getPriceImpactBps', () => {
+  it('measures the shortfall against spot', () => {
+    expect(getPriceImpactBps([{ amountOut: 990n, spotAmountOut: 1000 }])).toBe(100);
+  });
+
+  it('compounds across legs', () => {
+    const legs = [
+      { amountOut: 900n, spotAmountOut: 1000 },
+      { amountOut: 900n, spotAmountOut: 1000 },
+    ];
+    expect(getPriceImpactBps(legs)).toBe(1900);
+  });
+
+  it('never reports a negative impact', () => {
+    expect(getPriceImpactBps([{ amountOut: 1010n, spotAmountOut: 1000 }])).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+/** Module */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Abi, PublicClient, parseEther } from 'viem';
+import { base, bsc } from 'viem/chains';
+import {
+  computeFeeTiers,
+  estimateL1DataFee,
+  estimateTransactionCost,
+  priceGasEstimate,
+} from '../services/gasEstimator';
+import { MAX_GAS_LIMIT } from '../lib/contracts/txUtils';
+import { ABIS } from '../lib/contracts/config';
+import type { ContractCall } from '../lib/contracts/simulation';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ROUTER = '0x1000000000000000000000000000000000000001';
+const USER = '0x3000000000000000000000000000000000000003';
+const GWEI = 1_000_000_000n;
+
+const depositCall: ContractCall = {
+  address: ROUTER,
+  abi: ABIS.GatewayRouterV5 as Abi,
+  functionName: 'deposit',
+  value: parseEther('1'),
+};
+
+// Three blocks of [p10, p50, p90] tips; next base fee is 2 gwei
+const history = {
+  baseFeePerGas: [GWEI, GWEI, GWEI, 2n * GWEI],
+  reward: [
+    [1n, 10n, 100n],
+    [3n, 30n, 300n],
+    [2n, 20n, 200n],
+  ],
+};
+
+const clientWith = (overrides: Record<string, unknown>) =>
+  ({
+    chain: base,
+    estimateContractGas: vi.fn(() => Promise.resolve(150_000n)),
+    getFeeHistory: vi.fn(() => Promise.resolve(history)),
+    readContract: vi.fn(() => Promise.resolve(5_000n)),
+    ...overrides,
+  }) as unknown as PublicClient;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FEE TIERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('computeFeeTiers', () => {
+  it('takes the median tip per percentile over the sampled blocks', () => {
+    const { baseFeePerGas, tiers } = computeFeeTiers(history);
+
+    expect(baseFeePerGas).toBe(2n * GWEI);
+    expect(tiers.slow.maxPriorityFeePerGas).toBe(2n);
+    expect(tiers.normal.maxPriorityFeePerGas).toBe(20n);
+    expect(tiers.fast.maxPriorityFeePerGas).toBe(200n);
+    expect(tiers.fast.maxFeePerGas).toBe(4n * GWEI + 200n);
+  });
+
+  it('falls back to a zero tip without rewards', () => {
+    const { tiers } = computeFeeTiers({ baseFeePerGas: [GWEI] });
+    expect(tiers.normal).toEqual({ maxPriorityFeePerGas: 0n, maxFeePerGas: 2n * GWEI });
+  });
+});
+
+describe('priceGasEstimate', () => {
+  it('prices each tier at base fee plus tip and adds the L1 data fee', () => {
+    const estimate = priceGasEstimate(100_000n, computeFeeTiers(history), 1_000n, 2000);
+
+    expect(estimate.tiers.normal.costWei).toBe(100_000n * (2n * GWEI + 20n) + 1_000n);
+    expect(estimate.tiers.fast.costWei).toBeGreaterThan(estimate.tiers.slow.costWei);
+    expect(estimate.tiers.normal.costUSD).toBeCloseTo(estimate.tiers.normal.costETH * 2000);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LIVE ESTIMATE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('estimateL1DataFee', () => {
+  it('reads getL1Fee from the GasPriceOracle predeploy on Base', async () => {
+    const client = clientWith({});
+    const fee = await estimateL1DataFee(client, depositCall, 100_000n, { maxFeePerGas: GWEI, maxPriorityFeePerGas: 1n });
+
+    expect(fee).toBe(5_000n);
+    expect(client.readContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: base.contracts.gasPriceOracle.address,
+      functionName: 'getL1Fee',
+    }));
+  });
+
+  it('is zero on chains without the oracle', async () => {
+    const client = clientWith({ chain: bsc });
+    expect(await estimateL1DataFee(client, depositCall, 100_000n, { maxFeePerGas: GWEI, maxPriorityFeePerGas: 1n })).toBe(0n);
+    expect(client.readContract).not.toHaveBeenCalled();
+  });
+});
+
+describe('estimateTransactionCost', () => {
+  it('buffers the estimate of the exact call', async () => {
+    const client = clientWith({});
+    const estimate = await estimateTransactionCost(client, depositCall, USER, 2000);
+
+    expect(client.estimateContractGas).toHaveBeenCalledWith(expect.objectContaining({ value: parseEther('1'), account: USER }));
+    expect(estimate.gasUnits).toBe(180_000n);
+    expect(estimate.l1DataFeeWei).toBe(5_000n);
+  });
+
+  it('clamps to MAX_GAS_LIMIT and survives a failing oracle', async () => {
+    const client = clientWith({
+      estimateContractGas: vi.fn(() => Promise.resolve(10_000_000n)),
+      readContract: vi.fn(() => Promise.reject(new Error('oracle down'))),
+    });
+    const estimate = await estimateTransactionCost(client, depositCall, USER, 2000);
+
+    expect(estimate.gasUnits).toBe(MAX_GAS_LIMIT);
+    expect(estimate.l1DataFeeWei).toBe(0n);
+  });
+});
@@ -6,6 +6,9 @@ import {
   calculateDeadline,
   formatPriceImpact,
   routeUsesBuffer,
+  calculateMaxAmountIn,
+  solveExactOutput,
+  EXACT_OUTPUT_TOLERANCE_BPS,
 } from '../hooks/contracts/useQuote';
 import { RouteAction } from '../lib/contracts/types';
 
@@ -90,6 +93,50 @@ describe('calculateMinAmountOut', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXACT OUTPUT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('calculateMaxAmountIn', () => {
+  it('adds slippage on top of the required input', () => {
+    expect(calculateMaxAmountIn(1000000000000000000n, 50)).toBe(1005000000000000000n);
+  });
+
+  it('rounds up so the bound is never below the exact value', () => {
+    expect(calculateMaxAmountIn(3n, 50)).toBe(4n);
+    expect(calculateMaxAmountIn(1000n, 0)).toBe(1000n);
+  });
+});
+
+describe('solveExactOutput', () => {
+  // Constant-product pool: 1M in / 2M out reserves, so output is concave in input
+  const reserveIn = 1000000n * 10n ** 18n;
+  const reserveOut = 2000000n * 10n ** 18n;
+  const quoteOut = async (amountIn: bigint) => (amountIn * reserveOut) / (reserveIn + amountIn);
+
+  it('finds an input that reaches the target within tolerance', async () => {
+    const target = 10000n * 10n ** 18n;
+    const { amountIn, amountOut } = await solveExactOutput(target, quoteOut, target / 2n);
+
+    expect(amountOut >= target).toBe(true);
+    expect((amountOut - target) * 10000n / target <= BigInt(EXACT_OUTPUT_TOLERANCE_BPS)).toBe(true);
+    expect(await quoteOut(amountIn - amountIn / 1000n)).toBeLessThan(target);
+  });
+
+  it('converges from an initial guess above the target', async () => {
+    const target = 500n * 10n ** 18n;
+    const { amountOut } = await solveExactOutput(target, quoteOut, target);
+
+    expect(amountOut >= target).toBe(true);
+  });
+
+  it('throws NoRouteFound when liquidity cannot cover the target', async () => {
+    const capped = async (amountIn: bigint) => (amountIn > 100n ? 100n : amountIn);
+
+    await expect(solveExactOutput(1000n, capped, 10n)).rejects.toMatchObject({ code: 'NoRouteFound' });
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // CALCULATE DEADLINE
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -573,6 +620,11 @@ import {
   assertValidDeadline,
   validateMinAmountOut,
   assertValidMinAmountOut,
+  validateMaxAmountIn,
+  assertValidMaxAmountIn,
+  getQuoteFreshness,
+  assertFreshQuote,
+  getQuoteChangeBps,
   validateSlippage,
   assertPositiveAmount,
   assertSufficientBalance,
@@ -785,6 +837,113 @@ describe('P0 Security Validations', () => {
     });
   });
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // MAX AMOUNT IN VALIDATION
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  describe('validateMaxAmountIn', () => {
+    it('accepts a bound at or above the required input', () => {
+      const amountIn = 1000000000000000000n;
+
+      expect(validateMaxAmountIn(amountIn, amountIn).isValid).toBe(true);
+      expect(validateMaxAmountIn(amountIn, 1005000000000000000n).isValid).toBe(true);
+    });
+
+    it('rejects zero amountIn', () => {
+      const result = validateMaxAmountIn(0n, 1000000000000000000n);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe('ZERO_AMOUNT_IN');
+    });
+
+    it('rejects when the required input grew past the bound', () => {
+      const result = validateMaxAmountIn(1010000000000000000n, 1005000000000000000n);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe('MAX_INPUT_EXCEEDED');
+    });
+
+    it('rejects a bound wider than MAX_SLIPPAGE_BPS', () => {
+      const amountIn = 1000000000000000000n;
+      const maxAmountIn = amountIn + (amountIn * BigInt(MAX_SLIPPAGE_BPS + 100)) / 10000n;
+
+      const result = validateMaxAmountIn(amountIn, maxAmountIn);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.code).toBe('SLIPPAGE_TOO_HIGH');
+    });
+  });
+
+  describe('assertValidMaxAmountIn', () => {
+    it('does not throw for valid amounts', () => {
+      expect(() => assertValidMaxAmountIn(1000000000000000000n, 1005000000000000000n)).not.toThrow();
+    });
+
+    it('throws IgnisError when the bound is exceeded', () => {
+      expect(() => assertValidMaxAmountIn(2n, 1n)).toThrow(IgnisError);
+    });
+  });
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // QUOTE FRESHNESS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  describe('getQuoteFreshness', () => {
+    const quote = { quotedBlock: 100n, validForBlocks: 3 };
+
+    it('counts down blocks until quotedBlock + validForBlocks', () => {
+      const result = getQuoteFreshness(quote, 101n, 2);
+
+      expect(result.isStale).toBe(false);
+      expect(result.expiresAtBlock).toBe(103n);
+      expect(result.blocksRemaining).toBe(2);
+      expect(result.secondsRemaining).toBe(6);
+    });
+
+    it('is still fresh on the expiry block and stale after it', () => {
+      expect(getQuoteFreshness(quote, 103n, 2).isStale).toBe(false);
+      expect(getQuoteFreshness(quote, 104n, 2).isStale).toBe(true);
+    });
+
+    it('expires early when the route data is older than the window', () => {
+      const now = 1_700_000_000;
+      const result = getQuoteFreshness({ ...quote, routeTimestamp: now - 10 }, 100n, 2, now);
+
+      expect(result.isStale).toBe(true);
+      expect(result.secondsRemaining).toBe(0);
+    });
+
+    it('caps the countdown by route age', () => {
+      const now = 1_700_000_000;
+      const result = getQuoteFreshness({ ...quote, routeTimestamp: now - 2 }, 100n, 2, now);
+
+      expect(result.isStale).toBe(false);
+      expect(result.secondsRemaining).toBe(4);
+    });
+  });
+
+  describe('assertFreshQuote', () => {
+    it('throws QUOTE_STALE once the quote has expired', () => {
+      const quote = { quotedBlock: 100n, validForBlocks: 3 };
+
+      expect(() => assertFreshQuote(quote, 103n, 2)).not.toThrow();
+      expect(() => assertFreshQuote(quote, 104n, 2)).toThrow(IgnisError);
+      try {
+        assertFreshQuote(quote, 104n, 2);
+      } catch (e) {
+        expect((e as IgnisError).code).toBe('QUOTE_STALE');
+      }
+    });
+  });
+
+  describe('getQuoteChangeBps', () => {
+    it('returns the signed change in basis points', () => {
+      expect(getQuoteChangeBps(10000n, 10050n)).toBe(50);
+      expect(getQuoteChangeBps(10000n, 9950n)).toBe(-50);
+      expect(getQuoteChangeBps(0n, 5n)).toBe(0);
+    });
+  });
+
   // ─────────────────────────────────────────────────────────────────────────────
   // SLIPPAGE VALIDATION
   // ─────────────────────────────────────────────────────────────────────────────
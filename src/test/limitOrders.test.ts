@@ -0,0 +1,119 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildLimitOrder,
+  editLimitOrder,
+  getLimitDistanceBps,
+  getLimitOrderTarget,
+  isLimitReached,
+  isOrderExpired,
+  LIMIT_ORDER_EXPIRY_MS,
+} from '../services/limitOrderService';
+import type { LimitOrderInput } from '../services/limitOrderService';
+import { IgnisError } from '../lib/contracts/errors';
+
+const NOW = 1_700_000_000_000;
+
+const ETH = { symbol: 'ETH', decimals: 18, isNative: true };
+const USDC = { symbol: 'USDC', decimals: 6, address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as const };
+
+const input = (overrides: Partial<LimitOrderInput> = {}): LimitOrderInput => ({
+  account: '0xAbC0000000000000000000000000000000000001',
+  chainId: 8453,
+  tokenIn: ETH,
+  tokenOut: USDC,
+  amountIn: 2n * 10n ** 18n,
+  limitPrice: '3500',
+  expiry: '24h',
+  ...overrides,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TARGET AMOUNT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getLimitOrderTarget', () => {
+  it('scales the price across differing decimals', () => {
+    // 2 ETH at 3500 USDC/ETH = 7000 USDC
+    expect(getLimitOrderTarget(2n * 10n ** 18n, '3500', 18, 6)).toBe(7000n * 10n ** 6n);
+  });
+
+  it('handles fractional prices into an 18-decimal token', () => {
+    // 7000 USDC at 0.0002857 ETH/USDC
+    expect(getLimitOrderTarget(7000n * 10n ** 6n, '0.0002857', 6, 18)).toBe(19999n * 10n ** 14n);
+  });
+
+  it('rejects zero, negative and unparsable prices', () => {
+    for (const price of ['0', '-1', 'abc', '']) {
+      expect(() => getLimitOrderTarget(10n ** 18n, price, 18, 6)).toThrow(IgnisError);
+    }
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ORDER LIFECYCLE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildLimitOrder', () => {
+  it('creates an open order with target and expiry', () => {
+    const order = buildLimitOrder(input(), NOW);
+
+    expect(order.status).toBe('open');
+    expect(order.account).toBe('0xabc0000000000000000000000000000000000001');
+    expect(order.amountIn).toBe((2n * 10n ** 18n).toString());
+    expect(order.targetAmountOut).toBe((7000n * 10n ** 6n).toString());
+    expect(order.expiresAt).toBe(NOW + LIMIT_ORDER_EXPIRY_MS['24h']);
+  });
+
+  it('rejects a zero amount', () => {
+    expect(() => buildLimitOrder(input({ amountIn: 0n }), NOW)).toThrow(IgnisError);
+  });
+});
+
+describe('editLimitOrder', () => {
+  it('recomputes the target for a new price and keeps the expiry', () => {
+    const order = buildLimitOrder(input(), NOW);
+    const edited = editLimitOrder(order, { limitPrice: '4000' }, NOW + 1000);
+
+    expect(edited.targetAmountOut).toBe((8000n * 10n ** 6n).toString());
+    expect(edited.expiresAt).toBe(order.expiresAt);
+    expect(edited.updatedAt).toBe(NOW + 1000);
+  });
+
+  it('resets the expiry from the edit time', () => {
+    const order = buildLimitOrder(input(), NOW);
+    const edited = editLimitOrder(order, { expiry: '7d' }, NOW + 1000);
+
+    expect(edited.expiresAt).toBe(NOW + 1000 + LIMIT_ORDER_EXPIRY_MS['7d']);
+    expect(edited.targetAmountOut).toBe(order.targetAmountOut);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TRIGGER CONDITIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('isLimitReached / getLimitDistanceBps', () => {
+  const order = buildLimitOrder(input(), NOW);
+
+  it('is not reached below the target', () => {
+    const quoted = 6930n * 10n ** 6n; // 1% short
+    expect(isLimitReached(order, quoted)).toBe(false);
+    expect(getLimitDistanceBps(order, quoted)).toBe(100);
+  });
+
+  it('is reached at or above the target', () => {
+    expect(isLimitReached(order, 7000n * 10n ** 6n)).toBe(true);
+    expect(isLimitReached(order, 7100n * 10n ** 6n)).toBe(true);
+    expect(getLimitDistanceBps(order, 7100n * 10n ** 6n)).toBe(0);
+  });
+});
+
+describe('isOrderExpired', () => {
+  it('expires at expiresAt', () => {
+    const order = buildLimitOrder(input({ expiry: '1h' }), NOW);
+    expect(isOrderExpired(order, NOW + LIMIT_ORDER_EXPIRY_MS['1h'] - 1)).toBe(false);
+    expect(isOrderExpired(order, NOW + LIMIT_ORDER_EXPIRY_MS['1h'])).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getRoutableAddress,
+  getWrapKind,
+  getWrappedNativeAddress,
+  isNativeToken,
+  isWrappedNativeToken,
+} from '../lib/contracts/native';
+import { NATIVE_TOKEN_WRAPPER, ZERO_ADDRESS } from '../lib/contracts/config';
+import { IgnisError } from '../lib/contracts/errors';
+
+const BASE = 8453;
+const WETH_ADDRESS = NATIVE_TOKEN_WRAPPER[BASE];
+
+const ETH = { symbol: 'ETH', isNative: true };
+const ETH_ZERO = { symbol: 'ETH', address: ZERO_ADDRESS };
+const WETH = { symbol: 'WETH', address: WETH_ADDRESS };
+const USDC = { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' };
+
+describe('native token helpers', () => {
+  it('recognises native ETH by flag or zero address', () => {
+    expect(isNativeToken(ETH)).toBe(true);
+    expect(isNativeToken(ETH_ZERO)).toBe(true);
+    expect(isNativeToken(WETH)).toBe(false);
+    expect(isNativeToken(null)).toBe(false);
+  });
+
+  it('recognises the chain wrapper regardless of address case', () => {
+    expect(isWrappedNativeToken({ address: WETH_ADDRESS.toLowerCase() }, BASE)).toBe(true);
+    expect(isWrappedNativeToken(USDC, BASE)).toBe(false);
+    expect(isWrappedNativeToken(WETH, 1)).toBe(false);
+  });
+
+  it('routes native ETH through WETH', () => {
+    expect(getRoutableAddress(ETH, BASE)).toBe(WETH_ADDRESS);
+    expect(getRoutableAddress(USDC, BASE)).toBe(USDC.address);
+    expect(getRoutableAddress({ symbol: 'X' }, BASE)).toBeNull();
+  });
+
+  it('detects direct wrap / unwrap pairs only', () => {
+    expect(getWrapKind(ETH, WETH, BASE)).toBe('wrap');
+    expect(getWrapKind(WETH, ETH_ZERO, BASE)).toBe('unwrap');
+    expect(getWrapKind(ETH, USDC, BASE)).toBeNull();
+    expect(getWrapKind(WETH, USDC, BASE)).toBeNull();
+  });
+
+  it('throws for chains without a wrapper', () => {
+    expect(getWrappedNativeAddress(BASE)).toBe(WETH_ADDRESS);
+    expect(() => getWrappedNativeAddress(1)).toThrow(IgnisError);
+  });
+});
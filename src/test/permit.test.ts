@@ -0,0 +1,84 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import { decodeFunctionData } from 'viem';
+import { PERMIT2_ADDRESS, buildPermit2TypedData } from '../lib/contracts/permit';
+import type { PermitSingle } from '../lib/contracts/permit';
+import {
+  CL_POSITION_MANAGER_ABI,
+  buildPositionManagerMulticall,
+  buildPositionManagerPermitCall,
+} from '../lib/contracts/clPosition';
+import { buildSwapCall } from '../hooks/contracts/useSwap';
+import type { SwapParams } from '../hooks/contracts/useSwap';
+import type { QuoteResponse } from '../components/swap/SwapRouteDisplay';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TOKEN = '0x4000000000000000000000000000000000000004';
+const ROUTER = '0x1000000000000000000000000000000000000001';
+const OWNER = '0x3000000000000000000000000000000000000003';
+const POSITION_MANAGER = '0x5000000000000000000000000000000000000005';
+const CHAIN_ID = 84532;
+const R = `0x${'11'.repeat(32)}` as const;
+const S = `0x${'22'.repeat(32)}` as const;
+const SIGNATURE = `${R}${S.slice(2)}1b` as const;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PERMIT2
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const permitSingle: PermitSingle = {
+  details: { token: TOKEN, amount: 1_000n, expiration: 1_700_000_000, nonce: 0 },
+  spender: ROUTER,
+  sigDeadline: 1_700_000_000n,
+};
+
+describe('buildPermit2TypedData', () => {
+  it('signs against the canonical Permit2 contract', () => {
+    const typed = buildPermit2TypedData(permitSingle, CHAIN_ID);
+    expect(typed.domain).toEqual({ name: 'Permit2', chainId: CHAIN_ID, verifyingContract: PERMIT2_ADDRESS });
+    expect(typed.message).toBe(permitSingle);
+  });
+});
+
+describe('position manager Permit2 bundle', () => {
+  const mintCall = {
+    address: POSITION_MANAGER,
+    abi: CL_POSITION_MANAGER_ABI,
+    functionName: 'modifyLiquidities',
+    args: ['0x', 1_700_000_000n],
+    value: 5n,
+  } as const;
+
+  it('bundles the signed PermitSingle ahead of the mint', () => {
+    const permitCall = buildPositionManagerPermitCall(POSITION_MANAGER, OWNER, { ...permitSingle, spender: POSITION_MANAGER }, SIGNATURE);
+    const call = buildPositionManagerMulticall(POSITION_MANAGER, [permitCall, mintCall]);
+
+    expect(call.functionName).toBe('multicall');
+    expect(call.value).toBe(5n);
+    const [data] = call.args as [`0x${string}`[]];
+    expect(data.map(d => decodeFunctionData({ abi: CL_POSITION_MANAGER_ABI, data: d }).functionName))
+      .toEqual(['permit', 'modifyLiquidities']);
+  });
+});
+
+describe('buildSwapCall for exact output', () => {
+  const params: SwapParams = {
+    quote: { encodedRoute: '0x1234', amountIn: '1000', minAmountOut: '990' } as QuoteResponse,
+    deadline: 1_700_000_000n,
+    recipient: OWNER,
+    chainId: CHAIN_ID,
+  };
+
+  it('sells the input bound with the exact target as the floor', () => {
+    const call = buildSwapCall({ ...params, maxAmountIn: 1005n }, ROUTER);
+    expect(call.args).toEqual(['0x1234', 1005n, 990n, OWNER, 1_700_000_000n]);
+  });
+
+  it('sends the bound as msg.value for native input', () => {
+    expect(buildSwapCall({ ...params, maxAmountIn: 1005n, nativeIn: true }, ROUTER).value).toBe(1005n);
+  });
+});
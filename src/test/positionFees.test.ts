@@ -0,0 +1,83 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import { decodeAbiParameters, decodeFunctionData, encodeFunctionData, parseAbiParameters } from 'viem';
+import { CL_POSITION_MANAGER_ABI, PositionAction, buildCLPoolKey } from '../lib/contracts/clPosition';
+import {
+  Q128,
+  buildCollectFeesCall,
+  getFeeGrowthInside,
+  getTokensOwed,
+} from '../lib/contracts/positionFees';
+import { FEE_TIERS } from '../lib/contracts/config';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TOKEN_A = '0x4000000000000000000000000000000000000004';
+const TOKEN_B = '0x5000000000000000000000000000000000000005';
+const POOL_MANAGER = '0x1000000000000000000000000000000000000001';
+const POSITION_MANAGER = '0x2000000000000000000000000000000000000002';
+const OWNER = '0x3000000000000000000000000000000000000003';
+
+const growth = (g0: number, g1: number) => ({ feeGrowth0X128: BigInt(g0) * Q128, feeGrowth1X128: BigInt(g1) * Q128 });
+const UINT256 = BigInt(1) << BigInt(256);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CL FEES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getFeeGrowthInside', () => {
+  const global = growth(100, 50);
+  const lower = growth(10, 5);
+  const upper = growth(20, 10);
+
+  it('subtracts growth below and above the range while in range', () => {
+    expect(getFeeGrowthInside(0, -60, 60, lower, upper, global)).toEqual(growth(70, 35));
+  });
+
+  it('reads outside growth from the other side of a tick the price is past', () => {
+    // Above the range: inside = global - lower - (global - upper) = upper - lower
+    expect(getFeeGrowthInside(120, -60, 60, lower, upper, global)).toEqual(growth(10, 5));
+  });
+
+  it('wraps differences mod 2^256', () => {
+    // Below the range: inside = global - (global - lower) - upper = lower - upper
+    expect(getFeeGrowthInside(-120, -60, 60, lower, upper, global)).toEqual(
+      { feeGrowth0X128: UINT256 - BigInt(10) * Q128, feeGrowth1X128: UINT256 - BigInt(5) * Q128 }
+    );
+  });
+});
+
+describe('getTokensOwed', () => {
+  it('scales the growth since the checkpoint by liquidity', () => {
+    expect(getTokensOwed(BigInt(3), growth(70, 35), growth(60, 30))).toEqual({ amount0: BigInt(30), amount1: BigInt(15) });
+  });
+
+  it('handles accumulators that have overflowed', () => {
+    const last = { feeGrowth0X128: UINT256 - Q128, feeGrowth1X128: BigInt(0) };
+    expect(getTokensOwed(BigInt(2), growth(1, 0), last)).toEqual({ amount0: BigInt(4), amount1: BigInt(0) });
+  });
+});
+
+describe('buildCollectFeesCall', () => {
+  it('decreases by zero liquidity and takes both currencies', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    const call = buildCollectFeesCall({ positionManager: POSITION_MANAGER, tokenId: BigInt(7), poolKey, recipient: OWNER, deadline: BigInt(1) });
+    const { args } = decodeFunctionData({ abi: CL_POSITION_MANAGER_ABI, data: encodeFunctionData(call) });
+    const [actions, params] = decodeAbiParameters(parseAbiParameters('bytes, bytes[]'), args![0] as `0x${string}`);
+
+    expect(Array.from(Buffer.from(actions.slice(2), 'hex'))).toEqual([PositionAction.CL_DECREASE_LIQUIDITY, PositionAction.TAKE_PAIR]);
+    expect(decodeAbiParameters(parseAbiParameters('uint256, uint256, uint128, uint128, bytes'), params[0]!).slice(0, 4))
+      .toEqual([BigInt(7), BigInt(0), BigInt(0), BigInt(0)]);
+    expect(decodeAbiParameters(parseAbiParameters('address, address, address'), params[1]!)).toEqual([TOKEN_A, TOKEN_B, OWNER]);
+    expect(call.value).toBeUndefined();
+  });
+
+  it('rejects invalid position ids', () => {
+    const { poolKey } = buildCLPoolKey(TOKEN_A, TOKEN_B, FEE_TIERS.MEDIUM, POOL_MANAGER);
+    expect(() => buildCollectFeesCall({ positionManager: POSITION_MANAGER, tokenId: BigInt(0), poolKey, recipient: OWNER, deadline: BigInt(1) })).toThrow();
+  });
+});
+
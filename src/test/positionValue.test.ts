@@ -0,0 +1,145 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SWEEP_POINTS,
+  binPositionModel,
+  clPositionModel,
+  clPositionModelForValue,
+  getBreakevenDays,
+  getSweepPrices,
+  simulatePosition,
+} from '../lib/contracts/positionValue';
+import type { BinPreview } from '../lib/contracts/binDistribution';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Bins at 1% steps around price 1: Y below, X above and both in the middle */
+const BIN_STEP = 100;
+const bins: BinPreview[] = [-1, 0, 1].map(offset => {
+  const price = Math.pow(1.01, offset);
+  const amountX = offset >= 0 ? 1 : 0;
+  const amountY = offset <= 0 ? 1 : 0;
+  return { binId: 8388608 + offset, price, amountX, amountY, valueY: amountX * price + amountY };
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CL MODELS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('clPositionModel', () => {
+  it('matches the full-range impermanent loss formula for very wide ranges', () => {
+    const model = clPositionModel({ currentPrice: 1, minPrice: 1e-9, maxPrice: 1e9, amount0: 1, amount1: 1 })!;
+    const deposit = model.amountsAt(1);
+    const { amount0, amount1 } = model.amountsAt(4);
+    const hodl = deposit.amount0 * 4 + deposit.amount1;
+
+    // 2√k / (1 + k) - 1 at k = 4 is -20%
+    expect(((amount0 * 4 + amount1) / hodl - 1) * 100).toBeCloseTo(-20, 1);
+  });
+
+  it('uses no more than the deposit and holds only one token outside the range', () => {
+    const model = clPositionModel({ currentPrice: 1, minPrice: 0.5, maxPrice: 2, amount0: 1, amount1: 5 })!;
+    const deposit = model.amountsAt(1);
+    expect(deposit.amount0).toBeCloseTo(1, 9);
+    expect(deposit.amount1).toBeLessThan(5);
+
+    expect(model.amountsAt(0.4).amount1).toBe(0);
+    expect(model.amountsAt(3).amount0).toBeCloseTo(0, 12);
+    expect(model.amountsAt(0.4)).toEqual(model.amountsAt(0.5));
+  });
+
+  it('takes a single token when the range is away from the price', () => {
+    const above = clPositionModel({ currentPrice: 1, minPrice: 1.1, maxPrice: 1.5, amount0: 2, amount1: 3 })!;
+    expect(above.amountsAt(1).amount0).toBeCloseTo(2, 9);
+    expect(above.amountsAt(1).amount1).toBe(0);
+  });
+
+  it('rejects invalid ranges and empty deposits', () => {
+    expect(clPositionModel({ currentPrice: 1, minPrice: 2, maxPrice: 1, amount0: 1, amount1: 1 })).toBeNull();
+    expect(clPositionModel({ currentPrice: 1, minPrice: 0.5, maxPrice: 2, amount0: 0, amount1: 0 })).toBeNull();
+  });
+});
+
+describe('clPositionModelForValue', () => {
+  it('sizes the position to the value', () => {
+    const model = clPositionModelForValue(2000, 1800, 2200, 1000)!;
+    const { amount0, amount1 } = model.amountsAt(2000);
+    expect(amount0 * 2000 + amount1).toBeCloseTo(1000, 6);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BIN MODELS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('binPositionModel', () => {
+  it('holds the deposit in the bin of the current price', () => {
+    const model = binPositionModel(bins, BIN_STEP, 1)!;
+    expect(model.amountsAt(1)).toEqual({ amount0: 2, amount1: 2 });
+  });
+
+  it('turns single-sided past the outer bins', () => {
+    const model = binPositionModel(bins, BIN_STEP, 1)!;
+    expect(model.lower).toBeCloseTo(1 / 1.01, 12);
+    expect(model.upper).toBeCloseTo(1.01 * 1.01, 12);
+
+    expect(model.amountsAt(1.5).amount0).toBe(0);
+    expect(model.amountsAt(1.5).amount1).toBeCloseTo(1 + 1 + 1 * 1.01 + 1, 9);
+    expect(model.amountsAt(0.5).amount1).toBe(0);
+    expect(model.amountsAt(0.5).amount0).toBeCloseTo(1.01 + 1 + 1 + 1, 9);
+  });
+
+  it('ignores empty bins', () => {
+    expect(binPositionModel(bins.map(bin => ({ ...bin, amountX: 0, amountY: 0 })), BIN_STEP, 1)).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SIMULATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('simulatePosition', () => {
+  const model = clPositionModelForValue(1, 0.8, 1.25, 1000)!;
+
+  it('sweeps geometrically past the range on both sides', () => {
+    const prices = getSweepPrices(model);
+    expect(prices).toHaveLength(DEFAULT_SWEEP_POINTS);
+    expect(prices[0]).toBeCloseTo(0.8 / 1.5, 9);
+    expect(prices[prices.length - 1]).toBeCloseTo(1.25 * 1.5, 9);
+    expect(prices[1]! / prices[0]!).toBeCloseTo(prices[2]! / prices[1]!, 9);
+  });
+
+  it('matches HODL at the current price and trails it away from it', () => {
+    const { points, initialValue, lower, upper } = simulatePosition(model, { feeApr: 10 });
+    expect(initialValue).toBeCloseTo(1000, 6);
+    for (const point of points) {
+      expect(point.value).toBeLessThanOrEqual(point.hodlValue + 1e-9);
+    }
+    expect(lower.ilPercent).toBeLessThan(0);
+    expect(upper.ilPercent).toBeLessThan(0);
+  });
+
+  it('earns fees in range and vault yield anywhere', () => {
+    expect(simulatePosition(model, { feeApr: 36.5 }).dailyIncome).toBeCloseTo(1, 6);
+    expect(simulatePosition(model, { feeApr: 36.5, yieldApr: 36.5 }).dailyIncome).toBeCloseTo(2, 6);
+
+    const outOfRange = clPositionModelForValue(1, 1.1, 1.5, 1000)!;
+    expect(simulatePosition(outOfRange, { feeApr: 36.5, yieldApr: 3.65 }).dailyIncome).toBeCloseTo(0.1, 6);
+  });
+});
+
+describe('getBreakevenDays', () => {
+  const point = { price: 1, amount0: 0, amount1: 0, value: 90, hodlValue: 100, ilPercent: -10 };
+
+  it('divides the shortfall by daily income', () => {
+    expect(getBreakevenDays(point, 2)).toBe(5);
+  });
+
+  it('needs nothing without a shortfall and never gets there without income', () => {
+    expect(getBreakevenDays({ ...point, value: 100 }, 2)).toBe(0);
+    expect(getBreakevenDays(point, 0)).toBe(Infinity);
+  });
+});
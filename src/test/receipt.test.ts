@@ -0,0 +1,179 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import { Abi, AbiEvent, Address, Hex, Log, encodeAbiParameters, getAbiItem, getAddress, parseUnits, toEventSelector } from 'viem';
+import { decodeSwapReceipt, compareWithQuote, calculateSlippageBps } from '../lib/contracts/receipt';
+import { ABIS } from '../lib/contracts/config';
+import { RouteAction } from '../lib/contracts/types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ROUTER_ABI = ABIS.GatewayRouterV5 as Abi;
+
+const ROUTER = getAddress('0x1000000000000000000000000000000000000001');
+const OTHER = getAddress('0x2000000000000000000000000000000000000002');
+const USER = getAddress('0x3000000000000000000000000000000000000003');
+const USDC = getAddress('0x833589fcd6edb6e08f4c7c32d4f71b54bda02913');
+const WETH = getAddress('0x4200000000000000000000000000000000000006');
+
+let logIndex = 0;
+
+function routerLog(
+  eventName: 'RouteExecuted' | 'SplitRouteExecuted' | 'StepExecuted',
+  indexed: { type: string; value: unknown }[],
+  data: { types: { type: string }[]; values: unknown[] },
+  address: Address = ROUTER
+): Log {
+  const selector = toEventSelector(getAbiItem({ abi: ROUTER_ABI, name: eventName }) as AbiEvent);
+  const topics = indexed.map(({ type, value }) => encodeAbiParameters([{ type }], [value]));
+  return {
+    address,
+    topics: [selector, ...topics] as [Hex, ...Hex[]],
+    data: encodeAbiParameters(data.types, data.values),
+    blockHash: `0x${'ab'.repeat(32)}`,
+    blockNumber: 1n,
+    logIndex: logIndex++,
+    transactionHash: `0x${'cd'.repeat(32)}`,
+    transactionIndex: 0,
+    removed: false,
+  } as Log;
+}
+
+const stepLog = (action: number, tokenIn: Address, tokenOut: Address, amountIn: bigint, amountOut: bigint) =>
+  routerLog(
+    'StepExecuted',
+    [
+      { type: 'uint8', value: action },
+      { type: 'address', value: tokenIn },
+      { type: 'address', value: tokenOut },
+    ],
+    { types: [{ type: 'uint256' }, { type: 'uint256' }], values: [amountIn, amountOut] }
+  );
+
+const completionLog = (
+  eventName: 'RouteExecuted' | 'SplitRouteExecuted',
+  amountIn: bigint,
+  amountOut: bigint,
+  address: Address = ROUTER
+) =>
+  routerLog(
+    eventName,
+    [
+      { type: 'address', value: USER },
+      { type: 'address', value: USER },
+      { type: 'address', value: WETH },
+    ],
+    {
+      types: [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }],
+      values: [USDC, amountIn, amountOut],
+    },
+    address
+  );
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('decodeSwapReceipt', () => {
+  it('decodes a single route with its steps', () => {
+    const amountIn = parseUnits('1', 18);
+    const amountOut = parseUnits('2500', 6);
+    const decoded = decodeSwapReceipt(
+      {
+        logs: [
+          stepLog(RouteAction.SWAP_CL, WETH, USDC, amountIn, amountOut),
+          completionLog('RouteExecuted', amountIn, amountOut),
+        ],
+      },
+      ROUTER
+    );
+
+    expect(decoded).not.toBeNull();
+    expect(decoded!.isSplit).toBe(false);
+    expect(decoded!.amountIn).toBe(amountIn);
+    expect(decoded!.amountOut).toBe(amountOut);
+    expect(decoded!.route).toMatchObject({ sender: USER, recipient: USER, tokenIn: WETH, tokenOut: USDC });
+    expect(decoded!.steps).toEqual([
+      { action: RouteAction.SWAP_CL, tokenIn: WETH, tokenOut: USDC, amountIn, amountOut },
+    ]);
+  });
+
+  it('maps split route totals onto amountIn / amountOut', () => {
+    const decoded = decodeSwapReceipt(
+      {
+        logs: [
+          stepLog(RouteAction.SWAP_CL, WETH, USDC, 600n, 1500n),
+          stepLog(RouteAction.SWAP_BIN, WETH, USDC, 400n, 990n),
+          completionLog('SplitRouteExecuted', 1000n, 2490n),
+        ],
+      },
+      ROUTER
+    );
+
+    expect(decoded!.isSplit).toBe(true);
+    expect(decoded!.amountIn).toBe(1000n);
+    expect(decoded!.amountOut).toBe(2490n);
+    expect(decoded!.steps.map(s => s.action)).toEqual([RouteAction.SWAP_CL, RouteAction.SWAP_BIN]);
+  });
+
+  it('ignores logs emitted by other contracts', () => {
+    const decoded = decodeSwapReceipt(
+      {
+        logs: [
+          completionLog('RouteExecuted', 1n, 999n, OTHER),
+          completionLog('RouteExecuted', 1000n, 2000n),
+        ],
+      },
+      ROUTER
+    );
+
+    expect(decoded!.amountOut).toBe(2000n);
+  });
+
+  it('returns null without a completion event', () => {
+    expect(decodeSwapReceipt({ logs: [stepLog(RouteAction.WRAP, WETH, USDC, 1n, 1n)] }, ROUTER)).toBeNull();
+    expect(decodeSwapReceipt({ logs: [] }, ROUTER)).toBeNull();
+  });
+});
+
+describe('compareWithQuote', () => {
+  const decoded = decodeSwapReceipt(
+    { logs: [completionLog('RouteExecuted', parseUnits('1', 18), parseUnits('2475', 6))] },
+    ROUTER
+  )!;
+
+  it('computes decimal-adjusted prices and slippage', () => {
+    const report = compareWithQuote(
+      decoded,
+      { amountIn: parseUnits('1', 18).toString(), expectedAmountOut: parseUnits('2500', 6).toString() },
+      18,
+      6
+    );
+
+    expect(report.quotedAmountOut).toBe(parseUnits('2500', 6));
+    expect(report.quotedPrice).toBe(2500);
+    expect(report.realizedPrice).toBe(2475);
+    expect(report.slippageBps).toBe(100);
+  });
+
+  it('reports positive slippage as negative bps', () => {
+    const report = compareWithQuote(
+      decoded,
+      { amountIn: parseUnits('1', 18), expectedAmountOut: parseUnits('2450', 6) },
+      18,
+      6
+    );
+
+    expect(report.slippageBps).toBeLessThan(0);
+  });
+});
+
+describe('calculateSlippageBps', () => {
+  it('handles exact fills and zero quotes', () => {
+    expect(calculateSlippageBps(1000n, 1000n)).toBe(0);
+    expect(calculateSlippageBps(1000n, 995n)).toBe(50);
+    expect(calculateSlippageBps(0n, 5n)).toBe(0);
+  });
+});
@@ -0,0 +1,299 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import { Address, Hex, getAddress, numberToHex, concat } from 'viem';
+import {
+  encodeRoute,
+  decodeRoute,
+  encodeSingleRoute,
+  decodeSingleRoute,
+  encodeSplitRoute,
+  isSplitRoute,
+  countRouteSteps,
+  PackedRoute,
+  PackedRouteStep,
+  RoutePoolData,
+  MAX_ROUTE_STEPS,
+  MAX_SPLIT_ROUTES,
+  MIN_STEP_SIZE,
+  SPLIT_MARKER_BYTE0,
+  SPLIT_MARKER_BYTE1,
+} from '../lib/contracts/route';
+import { RouteAction, RouteActionType } from '../lib/contracts/types';
+import { IgnisError } from '../lib/contracts/errors';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const USDC = getAddress('0x833589fcd6edb6e08f4c7c32d4f71b54bda02913');
+const WETH = getAddress('0x4200000000000000000000000000000000000006');
+const AUSDC = getAddress('0x4e65fe4dba92790696d040ac24aa414708f5c0ab');
+const NO_HOOKS = getAddress('0x0000000000000000000000000000000000000000');
+
+const clStep = (tokenIn: Address, tokenOut: Address): PackedRouteStep => ({
+  action: RouteAction.SWAP_CL,
+  tokenIn,
+  tokenOut,
+  poolData: {
+    type: 'CL',
+    token0: tokenIn < tokenOut ? tokenIn : tokenOut,
+    token1: tokenIn < tokenOut ? tokenOut : tokenIn,
+    fee: 500,
+    tickSpacing: 10,
+    hooks: NO_HOOKS,
+    zeroForOne: tokenIn < tokenOut,
+  },
+});
+
+const wrapStep = (tokenIn: Address, vault: Address): PackedRouteStep => ({
+  action: RouteAction.WRAP,
+  tokenIn,
+  tokenOut: vault,
+  poolData: { type: 'VAULT', vault, useBuffer: true },
+});
+
+/** Deterministic PRNG (mulberry32) so property failures are reproducible */
+function createRng(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const address = (): Address =>
+    getAddress(`0x${Array.from({ length: 40 }, () => int(0, 15).toString(16)).join('')}`);
+  return { next, int, address };
+}
+
+type Rng = ReturnType<typeof createRng>;
+
+function randomPoolData(rng: Rng, action: RouteActionType, tokenIn: Address, tokenOut: Address): RoutePoolData {
+  if (action === RouteAction.SWAP_CL) {
+    return {
+      type: 'CL',
+      token0: tokenIn,
+      token1: tokenOut,
+      fee: rng.int(0, 0xffffff),
+      tickSpacing: rng.int(-8388608, 8388607),
+      hooks: rng.address(),
+      zeroForOne: rng.next() < 0.5,
+    };
+  }
+  if (action === RouteAction.SWAP_BIN) {
+    return {
+      type: 'BIN',
+      token0: tokenIn,
+      token1: tokenOut,
+      binStep: rng.int(0, 0xffff),
+      hooks: rng.address(),
+      swapForY: rng.next() < 0.5,
+    };
+  }
+  return { type: 'VAULT', vault: tokenOut, useBuffer: rng.next() < 0.5 };
+}
+
+function randomSteps(rng: Rng, tokenIn: Address, tokenOut: Address): PackedRouteStep[] {
+  const count = rng.int(1, MAX_ROUTE_STEPS);
+  const tokens = [tokenIn, ...Array.from({ length: count - 1 }, () => rng.address()), tokenOut];
+
+  return Array.from({ length: count }, (_, i) => {
+    const action = rng.int(0, 3) as RouteActionType;
+    return {
+      action,
+      tokenIn: tokens[i]!,
+      tokenOut: tokens[i + 1]!,
+      poolData: randomPoolData(rng, action, tokens[i]!, tokens[i + 1]!),
+    };
+  });
+}
+
+function randomRoute(rng: Rng): PackedRoute {
+  const tokenIn = rng.address();
+  const tokenOut = rng.address();
+
+  if (rng.next() < 0.5) {
+    return { isSplit: false, paths: [{ steps: randomSteps(rng, tokenIn, tokenOut) }] };
+  }
+
+  const pathCount = rng.int(2, MAX_SPLIT_ROUTES);
+  return {
+    isSplit: true,
+    paths: Array.from({ length: pathCount }, () => ({
+      steps: randomSteps(rng, tokenIn, tokenOut),
+      amountIn: BigInt(rng.int(1, Number.MAX_SAFE_INTEGER)) * BigInt(rng.int(1, 1_000_000)),
+    })),
+  };
+}
+
+function expectRouteError(fn: () => unknown, code: string) {
+  try {
+    fn();
+  } catch (error: unknown) {
+    expect(error).toBeInstanceOf(IgnisError);
+    expect((error as IgnisError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected ${code} to be thrown`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SINGLE ROUTES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('single routes', () => {
+  it('encodes the step header layout', () => {
+    const encoded = encodeSingleRoute([clStep(USDC, WETH)]);
+
+    // [numSteps][action][tokenIn][tokenOut][poolDataLen]
+    expect(encoded.slice(0, 4)).toBe('0x01');
+    expect(encoded.slice(4, 6)).toBe('00');
+    expect(getAddress(`0x${encoded.slice(6, 46)}`)).toBe(USDC);
+    expect(getAddress(`0x${encoded.slice(46, 86)}`)).toBe(WETH);
+    // CL pool data is 6 static ABI words
+    expect(encoded.slice(86, 90)).toBe(numberToHex(6 * 32, { size: 2 }).slice(2));
+    expect((encoded.length - 2) / 2).toBe(1 + MIN_STEP_SIZE + 6 * 32);
+  });
+
+  it('round-trips a wrap + swap route', () => {
+    const steps = [wrapStep(USDC, AUSDC), clStep(AUSDC, WETH)];
+    expect(decodeSingleRoute(encodeSingleRoute(steps))).toEqual(steps);
+  });
+
+  it('rejects empty routes', () => {
+    expectRouteError(() => encodeSingleRoute([]), 'InvalidRoute');
+  });
+
+  it(`rejects routes longer than ${MAX_ROUTE_STEPS} steps`, () => {
+    const tokens = [USDC, AUSDC, WETH, USDC, AUSDC, WETH];
+    const steps = tokens.slice(0, -1).map((token, i) => clStep(token, tokens[i + 1]!));
+    expectRouteError(() => encodeSingleRoute(steps), 'RouteTooLong');
+  });
+
+  it('rejects disconnected steps', () => {
+    expectRouteError(() => encodeSingleRoute([clStep(USDC, WETH), clStep(AUSDC, USDC)]), 'InvalidRoute');
+  });
+
+  it('rejects pool data that does not match the action', () => {
+    const step = { ...clStep(USDC, WETH), action: RouteAction.WRAP };
+    expectRouteError(() => encodeSingleRoute([step]), 'InvalidStep');
+  });
+
+  it('rejects steps shorter than MIN_STEP_SIZE', () => {
+    const encoded = encodeSingleRoute([clStep(USDC, WETH), clStep(WETH, AUSDC)]);
+    const secondStepStart = 2 + (1 + MIN_STEP_SIZE + 6 * 32) * 2;
+    const truncated = encoded.slice(0, secondStepStart + (MIN_STEP_SIZE - 1) * 2) as Hex;
+    expectRouteError(() => decodeSingleRoute(truncated), 'InvalidStep');
+  });
+
+  it('rejects steps with empty pool data', () => {
+    const encoded = encodeSingleRoute([clStep(USDC, WETH)]);
+    const header = encoded.slice(0, 2 + (1 + MIN_STEP_SIZE - 2) * 2) as Hex;
+    expectRouteError(() => decodeSingleRoute(concat([header, '0x0000'])), 'InvalidStep');
+  });
+
+  it('rejects truncated pool data', () => {
+    const encoded = encodeSingleRoute([clStep(USDC, WETH)]);
+    expectRouteError(() => decodeSingleRoute(encoded.slice(0, -2) as Hex), 'InvalidStep');
+  });
+
+  it('rejects trailing bytes', () => {
+    const encoded = encodeSingleRoute([clStep(USDC, WETH)]);
+    expectRouteError(() => decodeSingleRoute(concat([encoded, '0xff'])), 'InvalidRoute');
+  });
+
+  it('rejects unknown actions', () => {
+    const encoded = encodeSingleRoute([clStep(USDC, WETH)]);
+    const corrupted = `0x01${'09'}${encoded.slice(6)}` as Hex;
+    expectRouteError(() => decodeSingleRoute(corrupted), 'InvalidStep');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SPLIT ROUTES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('split routes', () => {
+  const paths = [
+    { steps: [clStep(USDC, WETH)], amountIn: 600_000n },
+    { steps: [wrapStep(USDC, AUSDC), clStep(AUSDC, WETH)], amountIn: 400_000n },
+  ];
+
+  it('starts with the split marker and path count', () => {
+    const encoded = encodeSplitRoute(paths);
+    expect(encoded.slice(0, 8)).toBe(
+      `0x${numberToHex(SPLIT_MARKER_BYTE0, { size: 1 }).slice(2)}${numberToHex(SPLIT_MARKER_BYTE1, { size: 1 }).slice(2)}02`
+    );
+    expect(isSplitRoute(encoded)).toBe(true);
+    expect(isSplitRoute(encodeSingleRoute(paths[0]!.steps))).toBe(false);
+  });
+
+  it('round-trips per-path amounts', () => {
+    const decoded = decodeRoute(encodeSplitRoute(paths));
+    expect(decoded.isSplit).toBe(true);
+    expect(decoded.paths).toEqual(paths);
+    expect(countRouteSteps(decoded)).toBe(3);
+  });
+
+  it('rejects a single path', () => {
+    expectRouteError(() => encodeSplitRoute([paths[0]!]), 'InvalidSplitEncoding');
+  });
+
+  it(`rejects more than ${MAX_SPLIT_ROUTES} paths`, () => {
+    const many = Array.from({ length: MAX_SPLIT_ROUTES + 1 }, () => paths[0]!);
+    expectRouteError(() => encodeSplitRoute(many), 'InvalidSplitEncoding');
+  });
+
+  it('rejects paths with different input or output tokens', () => {
+    expectRouteError(
+      () => encodeSplitRoute([paths[0]!, { steps: [clStep(AUSDC, WETH)], amountIn: 1n }]),
+      'InconsistentInputToken'
+    );
+    expectRouteError(
+      () => encodeSplitRoute([paths[0]!, { steps: [clStep(USDC, AUSDC)], amountIn: 1n }]),
+      'InconsistentOutputToken'
+    );
+  });
+
+  it('rejects paths without an amount', () => {
+    expectRouteError(() => encodeSplitRoute([paths[0]!, { steps: paths[1]!.steps }]), 'ZeroAmount');
+  });
+
+  it('rejects truncated split routes', () => {
+    const encoded = encodeSplitRoute(paths);
+    expectRouteError(() => decodeRoute(encoded.slice(0, -2)), 'InvalidSplitEncoding');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ROUND-TRIP PROPERTIES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('round-trip properties', () => {
+  const RUNS = 200;
+
+  it('decode(encode(route)) === route', () => {
+    const rng = createRng(0x1915);
+    for (let i = 0; i < RUNS; i++) {
+      const route = randomRoute(rng);
+      expect(decodeRoute(encodeRoute(route))).toEqual(route);
+    }
+  });
+
+  it('encode(decode(bytes)) === bytes', () => {
+    const rng = createRng(0xa0e1);
+    for (let i = 0; i < RUNS; i++) {
+      const encoded = encodeRoute(randomRoute(rng));
+      expect(encodeRoute(decodeRoute(encoded))).toBe(encoded);
+    }
+  });
+
+  it('accepts route bytes without a 0x prefix', () => {
+    const rng = createRng(7);
+    const encoded = encodeRoute(randomRoute(rng));
+    expect(decodeRoute(encoded.slice(2))).toEqual(decodeRoute(encoded));
+  });
+});
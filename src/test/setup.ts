@@ -46,7 +46,8 @@ window.scrollTo = vi.fn();
 // ENVIRONMENT MOCKS
 // ─────────────────────────────────────────────────────────────────────────────────
 
-vi.mock('@/config/env', () => ({
+vi.mock('@/config/env', async (importOriginal: () => Promise<object>) => ({
+  ...(await importOriginal()),
   env: {
     MODE: 'test',
     DEV: true,
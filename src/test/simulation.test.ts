@@ -0,0 +1,70 @@
+/** Module */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Abi, BaseError, PublicClient, getAddress } from 'viem';
+import { assertCallSucceeds, getCallKey, simulateCall, ContractCall } from '../lib/contracts/simulation';
+import { ABIS } from '../lib/contracts/config';
+import { ERROR_MESSAGES } from '../lib/contracts/types';
+
+const ROUTER = getAddress('0x1000000000000000000000000000000000000001');
+const USER = getAddress('0x3000000000000000000000000000000000000003');
+
+const depositCall = (value: bigint): ContractCall => ({
+  address: ROUTER,
+  abi: ABIS.GatewayRouterV5 as Abi,
+  functionName: 'deposit',
+  value,
+});
+
+const clientWith = (simulateContract: ReturnType<typeof vi.fn>) =>
+  ({ simulateContract }) as unknown as PublicClient;
+
+describe('getCallKey', () => {
+  it('is stable for identical calls and changes with value or calldata', () => {
+    expect(getCallKey(depositCall(1n))).toBe(getCallKey(depositCall(1n)));
+    expect(getCallKey(depositCall(1n))).not.toBe(getCallKey(depositCall(2n)));
+
+    const withdraw: ContractCall = { ...depositCall(0n), functionName: 'withdraw', args: [1n] };
+    expect(getCallKey(withdraw)).not.toBe(getCallKey(depositCall(0n)));
+  });
+});
+
+describe('simulateCall', () => {
+  it('passes the call and account through to simulateContract', async () => {
+    const simulateContract = vi.fn().mockResolvedValue({ result: undefined });
+    const result = await simulateCall(clientWith(simulateContract), depositCall(5n), USER);
+
+    expect(result).toEqual({ ok: true });
+    expect(simulateContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: ROUTER, functionName: 'deposit', value: 5n, account: USER })
+    );
+  });
+
+  it('decodes reverts into the contract error vocabulary', async () => {
+    const simulateContract = vi.fn().mockRejectedValue(
+      new BaseError('execution reverted with custom error 0x1ab7da6b')
+    );
+    const result = await simulateCall(clientWith(simulateContract), depositCall(5n), USER);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('DeadlineExpired');
+      expect(result.error.userMessage).toBe(ERROR_MESSAGES.DeadlineExpired);
+    }
+  });
+});
+
+describe('assertCallSucceeds', () => {
+  it('throws the decoded revert', async () => {
+    const simulateContract = vi.fn().mockRejectedValue(
+      new BaseError('execution reverted with custom error 0x1ab7da6b')
+    );
+    await expect(assertCallSucceeds(clientWith(simulateContract), depositCall(5n), USER))
+      .rejects.toMatchObject({ code: 'DeadlineExpired' });
+  });
+
+  it('lets the call through when the simulation itself is unavailable', async () => {
+    const simulateContract = vi.fn().mockRejectedValue(new Error('network connection lost'));
+    await expect(assertCallSucceeds(clientWith(simulateContract), depositCall(5n), USER)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,173 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  Q96,
+  encodeSqrtRatioX96,
+  getAmountsForLiquidity,
+  getLiquidityForAmounts,
+  getPositionAmounts,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  getTickSpacing,
+  nearestUsableTick,
+  priceToTick,
+  sqrtRatioToPrice,
+  tickToPrice,
+} from '../lib/contracts/tickMath';
+import { FEE_TIERS } from '../lib/contracts/config';
+
+// Vectors below are from the Uniswap v3 core/periphery and v3-sdk test suites
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TICKS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getSqrtRatioAtTick', () => {
+  it('matches TickMath at the bounds and at tick 0', () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(0)).toBe(Q96);
+  });
+
+  it('matches TickMath next to the bounds', () => {
+    expect(getSqrtRatioAtTick(MIN_TICK + 1)).toBe(BigInt('4295343490'));
+    expect(getSqrtRatioAtTick(MAX_TICK - 1)).toBe(BigInt('1461373636630004318706518188784493106690254656249'));
+  });
+
+  it('rejects ticks out of range', () => {
+    expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow();
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow();
+  });
+});
+
+describe('getTickAtSqrtRatio', () => {
+  it('inverts getSqrtRatioAtTick', () => {
+    expect(getTickAtSqrtRatio(MIN_SQRT_RATIO)).toBe(MIN_TICK);
+    expect(getTickAtSqrtRatio(MAX_SQRT_RATIO - BigInt(1))).toBe(MAX_TICK - 1);
+    for (const tick of [-200311, -60, -1, 0, 1, 60, 200311]) {
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick))).toBe(tick);
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick) - BigInt(1))).toBe(tick - 1);
+    }
+  });
+});
+
+describe('nearestUsableTick', () => {
+  it('rounds to the tick spacing', () => {
+    expect(nearestUsableTick(5, 10)).toBe(10);
+    expect(nearestUsableTick(4, 10)).toBe(0);
+    expect(nearestUsableTick(-5, 10)).toBe(0);
+    expect(nearestUsableTick(-6, 10)).toBe(-10);
+  });
+
+  it('stays inside the tick bounds', () => {
+    expect(nearestUsableTick(MAX_TICK, 1)).toBe(MAX_TICK);
+    expect(nearestUsableTick(MAX_TICK, 60)).toBe(887220);
+    expect(nearestUsableTick(MIN_TICK, 60)).toBe(-887220);
+  });
+
+  it('uses the spacing of each fee tier', () => {
+    expect(getTickSpacing(FEE_TIERS.LOWEST)).toBe(1);
+    expect(getTickSpacing(FEE_TIERS.MEDIUM)).toBe(60);
+    expect(getTickSpacing(FEE_TIERS.HIGH)).toBe(200);
+    expect(() => getTickSpacing(2500)).toThrow(/2500/);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRICES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('encodeSqrtRatioX96', () => {
+  it('encodes reserve ratios', () => {
+    expect(encodeSqrtRatioX96(BigInt(1), BigInt(1))).toBe(Q96);
+    expect(encodeSqrtRatioX96(BigInt(100), BigInt(1))).toBe(BigInt('792281625142643375935439503360'));
+    expect(encodeSqrtRatioX96(BigInt(1), BigInt(100))).toBe(BigInt('7922816251426433759354395033'));
+    expect(encodeSqrtRatioX96(BigInt(111), BigInt(333))).toBe(BigInt('45742400955009932534161870629'));
+    expect(encodeSqrtRatioX96(BigInt(333), BigInt(111))).toBe(BigInt('137227202865029797602485611888'));
+  });
+});
+
+describe('priceToTick', () => {
+  it('applies the decimals difference', () => {
+    expect(priceToTick(1, 18, 18)).toBe(0);
+    // USDC (6) / WETH (18) at 2000 USDC per WETH
+    expect(priceToTick(1 / 2000, 6, 18)).toBe(200311);
+    expect(priceToTick(2000, 18, 6)).toBe(-200312);
+  });
+
+  it('agrees with the exact sqrt ratio', () => {
+    const tick = priceToTick(1.2345, 18, 18);
+    const sqrtPrice = encodeSqrtRatioX96(BigInt(12345), BigInt(10000));
+    expect(tick).toBe(getTickAtSqrtRatio(sqrtPrice));
+  });
+
+  it('reads prices back from sqrt ratios', () => {
+    expect(sqrtRatioToPrice(Q96, 18, 18)).toBe(1);
+    expect(sqrtRatioToPrice(getSqrtRatioAtTick(200311), 6, 18)).toBeCloseTo(1 / 2000, 7);
+  });
+
+  it('round-trips through tickToPrice', () => {
+    for (const tick of [-887220, -200340, -1, 0, 1, 60, 200340, 887220]) {
+      expect(priceToTick(tickToPrice(tick, 6, 18), 6, 18)).toBe(tick);
+    }
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LIQUIDITY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getLiquidityForAmounts', () => {
+  const sqrtA = encodeSqrtRatioX96(BigInt(100), BigInt(110));
+  const sqrtB = encodeSqrtRatioX96(BigInt(110), BigInt(100));
+
+  it('uses both amounts inside the range', () => {
+    expect(getLiquidityForAmounts(encodeSqrtRatioX96(BigInt(1), BigInt(1)), sqrtA, sqrtB, BigInt(100), BigInt(200))).toBe(BigInt(2148));
+  });
+
+  it('uses only token0 below the range and token1 above it', () => {
+    expect(getLiquidityForAmounts(encodeSqrtRatioX96(BigInt(99), BigInt(110)), sqrtA, sqrtB, BigInt(100), BigInt(200))).toBe(BigInt(1048));
+    expect(getLiquidityForAmounts(encodeSqrtRatioX96(BigInt(111), BigInt(100)), sqrtA, sqrtB, BigInt(100), BigInt(200))).toBe(BigInt(2097));
+  });
+});
+
+describe('getAmountsForLiquidity', () => {
+  const sqrtA = encodeSqrtRatioX96(BigInt(100), BigInt(110));
+  const sqrtB = encodeSqrtRatioX96(BigInt(110), BigInt(100));
+
+  it('splits liquidity by where the price sits', () => {
+    expect(getAmountsForLiquidity(encodeSqrtRatioX96(BigInt(1), BigInt(1)), sqrtA, sqrtB, BigInt(2148)))
+      .toEqual({ amount0: BigInt(99), amount1: BigInt(99) });
+    expect(getAmountsForLiquidity(encodeSqrtRatioX96(BigInt(99), BigInt(110)), sqrtA, sqrtB, BigInt(1048)))
+      .toEqual({ amount0: BigInt(99), amount1: BigInt(0) });
+    expect(getAmountsForLiquidity(encodeSqrtRatioX96(BigInt(111), BigInt(100)), sqrtA, sqrtB, BigInt(2097)))
+      .toEqual({ amount0: BigInt(0), amount1: BigInt(199) });
+  });
+});
+
+describe('getPositionAmounts', () => {
+  const ONE = BigInt(10) ** BigInt(18);
+
+  it('fills the other side symmetrically around the current price', () => {
+    const position = getPositionAmounts(Q96, -600, 600, ONE, 0)!;
+    expect(position.amount0).toBe(ONE);
+    // A symmetric range around price 1 needs (almost) equal amounts
+    expect(Number(position.amount1) / Number(ONE)).toBeCloseTo(1, 6);
+    expect(getPositionAmounts(Q96, -600, 600, position.amount1, 1)!.amount0).toBeLessThanOrEqual(ONE);
+  });
+
+  it('is single-sided when the range is out of range', () => {
+    expect(getPositionAmounts(Q96, 60, 600, ONE, 0)).toMatchObject({ amount0: ONE, amount1: BigInt(0) });
+    expect(getPositionAmounts(Q96, -600, -60, ONE, 1)).toMatchObject({ amount0: BigInt(0), amount1: ONE });
+  });
+
+  it('refuses the token the range cannot hold', () => {
+    expect(getPositionAmounts(Q96, 60, 600, ONE, 1)).toBeNull();
+    expect(getPositionAmounts(Q96, -600, -60, ONE, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getListTokensForChain,
+  isTokenListEntry,
+  isUnlistedToken,
+  mergeTokens,
+  parseTokenList,
+} from '../services/tokenListService';
+import { IgnisError } from '../lib/contracts/errors';
+import type { Token } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  chainId: 8453,
+  address: USDC,
+  name: 'USD Coin',
+  symbol: 'USDC',
+  decimals: 6,
+  ...overrides,
+});
+
+const token = (overrides: Partial<Token> = {}): Token => ({
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+  price: 0,
+  balance: 0,
+  ...overrides,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PARSING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('isTokenListEntry', () => {
+  it('accepts a schema-conformant entry', () => {
+    expect(isTokenListEntry(entry())).toBe(true);
+  });
+
+  it('rejects bad addresses, decimals and oversized symbols', () => {
+    expect(isTokenListEntry(entry({ address: '0x1234' }))).toBe(false);
+    expect(isTokenListEntry(entry({ decimals: 256 }))).toBe(false);
+    expect(isTokenListEntry(entry({ decimals: '6' }))).toBe(false);
+    expect(isTokenListEntry(entry({ symbol: 'X'.repeat(21) }))).toBe(false);
+  });
+});
+
+describe('parseTokenList', () => {
+  it('drops malformed entries but keeps the list', () => {
+    const list = parseTokenList({ name: 'Test', tokens: [entry(), entry({ address: 'nope' })] });
+    expect(list.tokens).toHaveLength(1);
+  });
+
+  it('rejects data that is not a token list', () => {
+    expect(() => parseTokenList({ tokens: [] })).toThrow(IgnisError);
+    expect(() => parseTokenList(null)).toThrow(IgnisError);
+  });
+});
+
+describe('getListTokensForChain', () => {
+  it('keeps only the requested chain and tags the list name', () => {
+    const list = parseTokenList({
+      name: 'Test',
+      tokens: [entry({ address: USDC.toLowerCase() }), entry({ chainId: 1 })],
+    });
+    const tokens = getListTokensForChain(list, 8453);
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0]).toMatchObject({ address: USDC, lists: ['Test'], price: 0, balance: 0 });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MERGING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('mergeTokens', () => {
+  it('dedupes by address regardless of case and combines lists', () => {
+    const merged = mergeTokens(
+      [token({ address: USDC, lists: ['A'] })],
+      [token({ address: USDC.toLowerCase() as Token['address'], name: 'Other name', lists: ['B'] })]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ name: 'USD Coin', lists: ['A', 'B'] });
+  });
+
+  it('gives an address-less static token the address of a listed token with its symbol', () => {
+    const merged = mergeTokens(
+      [token({ icon: '$' })],
+      [token({ address: USDC, lists: ['A'] })],
+      [token({ address: USDC, lists: ['B'] })]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ icon: '$', address: USDC, lists: ['A', 'B'] });
+  });
+
+  it('never lets an imported token claim a static symbol', () => {
+    const merged = mergeTokens([token()], [token({ address: USDC, lists: [], isImported: true })]);
+    expect(merged).toHaveLength(2);
+  });
+
+  it('marks vault metadata from the registry onto a listed token', () => {
+    const merged = mergeTokens(
+      [token({ symbol: 'WETH', address: WETH, lists: ['A'] })],
+      [token({ symbol: 'WETH', address: WETH, isYieldBearing: true, underlyingToken: 'ETH', lists: ['Vaults'] })]
+    );
+
+    expect(merged[0]).toMatchObject({ isYieldBearing: true, underlyingToken: 'ETH' });
+  });
+});
+
+describe('isUnlistedToken', () => {
+  it('warns only for imported tokens no list includes', () => {
+    expect(isUnlistedToken(token({ address: USDC, isImported: true, lists: [] }))).toBe(true);
+    expect(isUnlistedToken(token({ address: USDC, isImported: true, lists: ['A'] }))).toBe(false);
+    expect(isUnlistedToken(token())).toBe(false);
+  });
+});
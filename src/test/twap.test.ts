@@ -0,0 +1,169 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applySliceUpdate,
+  buildTwapOrder,
+  deferTwapSlice,
+  getAdverseDeviationBps,
+  getExecutionPrice,
+  getNextSlice,
+  getTwapProgress,
+  isSliceDue,
+  pauseTwapOrder,
+  resumeTwapOrder,
+  splitTwapAmount,
+} from '../services/twapService';
+import type { TwapOrderInput } from '../services/twapService';
+import { IgnisError } from '../lib/contracts/errors';
+
+const NOW = 1_700_000_000_000;
+const MINUTE = 60_000;
+
+const input = (overrides: Partial<TwapOrderInput> = {}): TwapOrderInput => ({
+  account: '0xAbC0000000000000000000000000000000000001',
+  chainId: 8453,
+  tokenIn: { symbol: 'ETH', decimals: 18, isNative: true },
+  tokenOut: { symbol: 'USDC', decimals: 6 },
+  amountIn: 10n ** 18n,
+  totalTrades: 4,
+  intervalMs: 5 * MINUTE,
+  maxDeviationBps: 100,
+  slippageBps: 50,
+  startPrice: 3000,
+  ...overrides,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SLICING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('splitTwapAmount', () => {
+  it('splits evenly', () => {
+    expect(splitTwapAmount(100n, 4)).toEqual([25n, 25n, 25n, 25n]);
+  });
+
+  it('puts the remainder on the last slice', () => {
+    const slices = splitTwapAmount(10n, 3);
+    expect(slices).toEqual([3n, 3n, 4n]);
+    expect(slices.reduce((a, b) => a + b, 0n)).toBe(10n);
+  });
+});
+
+describe('buildTwapOrder', () => {
+  it('creates an active order with its first slice due now', () => {
+    const order = buildTwapOrder(input(), NOW);
+
+    expect(order.status).toBe('active');
+    expect(order.slices).toHaveLength(4);
+    expect(order.slices.every(slice => slice.status === 'pending')).toBe(true);
+    expect(isSliceDue(order, NOW)).toBe(true);
+  });
+
+  it('rejects trade counts outside the supported range', () => {
+    expect(() => buildTwapOrder(input({ totalTrades: 1 }), NOW)).toThrow(IgnisError);
+    expect(() => buildTwapOrder(input({ totalTrades: 21 }), NOW)).toThrow(IgnisError);
+  });
+
+  it('rejects amounts too small to split', () => {
+    expect(() => buildTwapOrder(input({ amountIn: 3n }), NOW)).toThrow(IgnisError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRICE CHECKS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getExecutionPrice / getAdverseDeviationBps', () => {
+  it('prices across decimals', () => {
+    expect(getExecutionPrice(10n ** 18n / 4n, 750n * 10n ** 6n, 18, 6)).toBe(3000);
+  });
+
+  it('counts only moves against the order', () => {
+    expect(getAdverseDeviationBps(3000, 2970)).toBe(100);
+    expect(getAdverseDeviationBps(3000, 3100)).toBe(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEDULE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('applySliceUpdate', () => {
+  it('schedules the next slice one interval after a fill', () => {
+    const order = applySliceUpdate(buildTwapOrder(input(), NOW), 0, { status: 'filled', amountOut: '750000000' }, NOW + 1000);
+
+    expect(order.nextSliceAt).toBe(NOW + 1000 + 5 * MINUTE);
+    expect(getNextSlice(order)?.index).toBe(1);
+    expect(isSliceDue(order, NOW + 2000)).toBe(false);
+    expect(isSliceDue(order, NOW + 1000 + 5 * MINUTE)).toBe(true);
+  });
+
+  it('completes the order after the last fill', () => {
+    let order = buildTwapOrder(input({ totalTrades: 2 }), NOW);
+    order = applySliceUpdate(order, 0, { status: 'filled', amountOut: '1' }, NOW);
+    order = applySliceUpdate(order, 1, { status: 'filled', amountOut: '1' }, NOW);
+
+    expect(order.status).toBe('completed');
+    expect(getNextSlice(order)).toBeUndefined();
+  });
+
+  it('keeps a pause made while the slice was executing', () => {
+    let order = buildTwapOrder(input(), NOW);
+    order = applySliceUpdate(order, 0, { status: 'executing' }, NOW);
+    order = pauseTwapOrder(order, undefined, NOW);
+    order = applySliceUpdate(order, 0, { status: 'filled', amountOut: '1' }, NOW);
+
+    expect(order.status).toBe('paused');
+  });
+});
+
+describe('deferTwapSlice', () => {
+  it('pushes the slice back one interval with a reason', () => {
+    const order = deferTwapSlice(buildTwapOrder(input(), NOW), 'Price moved', NOW);
+
+    expect(order.nextSliceAt).toBe(NOW + 5 * MINUTE);
+    expect(order.error).toBe('Price moved');
+    expect(order.status).toBe('active');
+  });
+});
+
+describe('pauseTwapOrder / resumeTwapOrder', () => {
+  it('retries failed slices and restarts an overdue schedule from now', () => {
+    let order = buildTwapOrder(input(), NOW);
+    order = applySliceUpdate(order, 0, { status: 'failed', error: 'reverted' }, NOW);
+    order = pauseTwapOrder(order, 'Slice 1 failed', NOW);
+    expect(isSliceDue(order, NOW + MINUTE)).toBe(false);
+
+    order = resumeTwapOrder(order, NOW + MINUTE);
+    expect(order.status).toBe('active');
+    expect(order.error).toBeUndefined();
+    expect(order.slices[0]?.status).toBe('pending');
+    expect(order.nextSliceAt).toBe(NOW + MINUTE);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROGRESS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getTwapProgress', () => {
+  it('averages filled slices against the start price', () => {
+    let order = buildTwapOrder(input(), NOW);
+    // 0.25 ETH → 750 USDC, then 0.25 ETH → 735 USDC
+    order = applySliceUpdate(order, 0, { status: 'filled', amountOut: (750n * 10n ** 6n).toString() }, NOW);
+    order = applySliceUpdate(order, 1, { status: 'filled', amountOut: (735n * 10n ** 6n).toString() }, NOW);
+
+    const progress = getTwapProgress(order);
+    expect(progress.filledSlices).toBe(2);
+    expect(progress.amountInFilled).toBe(10n ** 18n / 2n);
+    expect(progress.averagePrice).toBe(2970);
+    expect(progress.priceChangeBps).toBe(-100);
+  });
+
+  it('has no average before the first fill', () => {
+    const progress = getTwapProgress(buildTwapOrder(input(), NOW));
+    expect(progress.averagePrice).toBeNull();
+    expect(progress.priceChangeBps).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/** Module */
+
+import { describe, it, expect, vi } from 'vitest';
+import { TransactionNotFoundError, TransactionReceiptNotFoundError } from 'viem';
+import { reconcileTransaction, TX_DROP_AFTER_MS } from '../services/txHistoryService';
+import { TRANSFER_GAS, buildReplacementRequest, getReplacementFees } from '../lib/contracts/txUtils';
+import type { ReplaceableTransaction } from '../lib/contracts/txUtils';
+import type { TxReconcileClient } from '../services/txHistoryService';
+import type { Transaction } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const HASH = '0xabcdef0000000000000000000000000000000000000000000000000000000001';
+const ACCOUNT = '0x3000000000000000000000000000000000000003';
+const NOW = 1_700_000_000_000;
+
+const pendingTx = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx1',
+  hash: HASH,
+  type: 'swap',
+  status: 'pending',
+  summary: '1 ETH → 3000 USDC',
+  timestamp: NOW - 60_000,
+  account: ACCOUNT,
+  chainId: 84532,
+  ...overrides,
+});
+
+const receiptNotFound = () => Promise.reject(new TransactionReceiptNotFoundError({ hash: HASH }));
+const txNotFound = () => Promise.reject(new TransactionNotFoundError({ hash: HASH }));
+
+const clientWith = (overrides: Partial<Record<keyof TxReconcileClient, ReturnType<typeof vi.fn>>>) =>
+  ({
+    getTransactionReceipt: vi.fn(receiptNotFound),
+    getTransaction: vi.fn(txNotFound),
+    getTransactionCount: vi.fn(() => Promise.resolve(0)),
+    ...overrides,
+  }) as unknown as TxReconcileClient;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RECONCILIATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('reconcileTransaction', () => {
+  it('settles from the receipt', async () => {
+    const mined = clientWith({ getTransactionReceipt: vi.fn(() => Promise.resolve({ status: 'success' })) });
+    expect(await reconcileTransaction(pendingTx(), mined, NOW)).toEqual({ status: 'success' });
+
+    const reverted = clientWith({ getTransactionReceipt: vi.fn(() => Promise.resolve({ status: 'reverted' })) });
+    expect(await reconcileTransaction(pendingTx(), reverted, NOW)).toMatchObject({ status: 'failed' });
+  });
+
+  it('records the nonce while the transaction is in the mempool', async () => {
+    const client = clientWith({ getTransaction: vi.fn(() => Promise.resolve({ nonce: 7 })) });
+    expect(await reconcileTransaction(pendingTx(), client, NOW)).toEqual({ nonce: 7 });
+    expect(await reconcileTransaction(pendingTx({ nonce: 7 }), client, NOW)).toBeNull();
+  });
+
+  it('marks a vanished transaction replaced once its nonce is used', async () => {
+    const client = clientWith({ getTransactionCount: vi.fn(() => Promise.resolve(8)) });
+    expect(await reconcileTransaction(pendingTx({ nonce: 7 }), client, NOW)).toMatchObject({ status: 'replaced' });
+  });
+
+  it('waits before marking an unknown hash dropped', async () => {
+    const client = clientWith({});
+    expect(await reconcileTransaction(pendingTx({ nonce: 7 }), client, NOW)).toBeNull();
+
+    const stale = pendingTx({ timestamp: NOW - TX_DROP_AFTER_MS - 1 });
+    expect(await reconcileTransaction(stale, client, NOW)).toMatchObject({ status: 'dropped' });
+  });
+
+  it('rethrows RPC failures instead of treating the hash as unknown', async () => {
+    const rateLimited = () => Promise.reject(new Error('429 Too Many Requests'));
+    const client = clientWith({
+      getTransactionReceipt: vi.fn(rateLimited),
+      getTransactionCount: vi.fn(() => Promise.resolve(8)),
+    });
+    await expect(reconcileTransaction(pendingTx({ nonce: 7 }), client, NOW)).rejects.toThrow('429');
+    expect(client.getTransactionCount).not.toHaveBeenCalled();
+
+    const stale = pendingTx({ timestamp: NOW - TX_DROP_AFTER_MS - 1 });
+    const lookupFails = clientWith({ getTransaction: vi.fn(rateLimited) });
+    await expect(reconcileTransaction(stale, lookupFails, NOW)).rejects.toThrow('429');
+  });
+
+  it('drops transactions interrupted before a hash was returned', async () => {
+    const client = clientWith({});
+    expect(await reconcileTransaction(pendingTx({ hash: undefined }), client, NOW)).toMatchObject({ status: 'dropped' });
+    expect(client.getTransactionReceipt).not.toHaveBeenCalled();
+  });
+
+  it('ignores settled transactions', async () => {
+    const client = clientWith({});
+    expect(await reconcileTransaction(pendingTx({ status: 'success' }), client, NOW)).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REPLACEMENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ROUTER = '0x1000000000000000000000000000000000000001';
+
+const stuck: ReplaceableTransaction = {
+  from: ACCOUNT,
+  to: ROUTER,
+  input: '0xdeadbeef',
+  value: 5n,
+  nonce: 7,
+  gas: 300_000n,
+  maxFeePerGas: 1_000n,
+  maxPriorityFeePerGas: 100n,
+};
+
+describe('getReplacementFees', () => {
+  it('bumps both fees by at least 10%, rounding up', () => {
+    expect(getReplacementFees(stuck)).toEqual({ maxFeePerGas: 1_150n, maxPriorityFeePerGas: 115n });
+    expect(getReplacementFees({ maxFeePerGas: 1n, maxPriorityFeePerGas: 1n })).toEqual({
+      maxFeePerGas: 2n,
+      maxPriorityFeePerGas: 2n,
+    });
+  });
+
+  it('uses current network fees when they are higher', () => {
+    const fees = getReplacementFees(stuck, { maxFeePerGas: 5_000n, maxPriorityFeePerGas: 50n });
+    expect(fees).toEqual({ maxFeePerGas: 5_000n, maxPriorityFeePerGas: 115n });
+  });
+
+  it('treats a legacy gas price as both fees', () => {
+    expect(getReplacementFees({ gasPrice: 200n })).toEqual({ maxFeePerGas: 230n, maxPriorityFeePerGas: 230n });
+  });
+});
+
+describe('buildReplacementRequest', () => {
+  const fees = { maxFeePerGas: 2_000n, maxPriorityFeePerGas: 200n };
+
+  it('resends the same call with the same nonce to speed up', () => {
+    expect(buildReplacementRequest('speedUp', stuck, fees)).toEqual({
+      to: ROUTER,
+      data: '0xdeadbeef',
+      value: 5n,
+      nonce: 7,
+      gas: 300_000n,
+      ...fees,
+    });
+  });
+
+  it('sends a 0-value self-transfer with the same nonce to cancel', () => {
+    expect(buildReplacementRequest('cancel', stuck, fees)).toEqual({
+      to: ACCOUNT,
+      data: '0x',
+      value: 0n,
+      nonce: 7,
+      gas: TRANSFER_GAS,
+      ...fees,
+    });
+  });
+
+  it('refuses to speed up a contract deployment', () => {
+    expect(() => buildReplacementRequest('speedUp', { ...stuck, to: null }, fees)).toThrow(/cannot be sped up/);
+  });
+});
@@ -0,0 +1,101 @@
+/** Module */
+
+import { describe, it, expect } from 'vitest';
+import { getCLValueSplit, getZapSwapFraction, planCLZapDeposit, splitZapAmount } from '../lib/contracts/zap';
+import { BIN_ID_OFFSET, getShapeValueSplit } from '../lib/contracts/binDistribution';
+import { getSqrtRatioAtTick } from '../lib/contracts/tickMath';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ONE = BigInt(10) ** BigInt(18);
+const PRICE_ONE = getSqrtRatioAtTick(0);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SWAP FRACTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getZapSwapFraction', () => {
+  it('swaps half for an even split without fees', () => {
+    expect(getZapSwapFraction({ value0: 0.5, value1: 0.5 }, 0, 0)).toBe(0.5);
+  });
+
+  it('swaps a little more to cover the pool fee', () => {
+    expect(getZapSwapFraction({ value0: 0.5, value1: 0.5 }, 1, 30)).toBeCloseTo(1 / 1.997, 12);
+  });
+
+  it('swaps nothing or everything for one-sided targets', () => {
+    expect(getZapSwapFraction({ value0: 1, value1: 0 }, 0, 30)).toBe(0);
+    expect(getZapSwapFraction({ value0: 1, value1: 0 }, 1, 30)).toBe(1);
+  });
+});
+
+describe('splitZapAmount', () => {
+  it('splits the input without losing any of it', () => {
+    expect(splitZapAmount(BigInt(1000), 0.25)).toEqual({ swapAmount: BigInt(250), keepAmount: BigInt(750) });
+    const { swapAmount, keepAmount } = splitZapAmount(BigInt(999), 1 / 3);
+    expect(swapAmount + keepAmount).toBe(BigInt(999));
+  });
+
+  it('clamps fractions to [0, 1]', () => {
+    expect(splitZapAmount(BigInt(1000), 1.5)).toEqual({ swapAmount: BigInt(1000), keepAmount: BigInt(0) });
+    expect(splitZapAmount(BigInt(1000), -1)).toEqual({ swapAmount: BigInt(0), keepAmount: BigInt(1000) });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CL RANGES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getCLValueSplit', () => {
+  it('splits a range centred on the price evenly', () => {
+    const split = getCLValueSplit(PRICE_ONE, -600, 600);
+    expect(split.value0).toBeCloseTo(0.5, 6);
+    expect(split.value1).toBeCloseTo(0.5, 6);
+  });
+
+  it('is all token0 below the range and all token1 above it', () => {
+    expect(getCLValueSplit(getSqrtRatioAtTick(-1200), -600, 600)).toEqual({ value0: 1, value1: 0 });
+    expect(getCLValueSplit(getSqrtRatioAtTick(1200), -600, 600)).toEqual({ value0: 0, value1: 1 });
+  });
+});
+
+describe('planCLZapDeposit', () => {
+  it('leaves the excess of the side the range does not need as dust', () => {
+    const balance0 = BigInt(1000) * ONE;
+    const balance1 = BigInt(500) * ONE;
+    const plan = planCLZapDeposit(PRICE_ONE, -600, 600, balance0, balance1);
+
+    expect(plan.liquidity > BigInt(0)).toBe(true);
+    expect(plan.amount0 + plan.dust0).toBe(balance0);
+    expect(plan.amount1 + plan.dust1).toBe(balance1);
+    // token1 is the limit; only rounding is left of it
+    expect(plan.dust1 < BigInt(1000)).toBe(true);
+    expect(Number(plan.dust0) / Number(ONE)).toBeCloseTo(500, 0);
+  });
+
+  it('deposits nothing when the balances back no liquidity', () => {
+    const plan = planCLZapDeposit(PRICE_ONE, -600, 600, BigInt(0), BigInt(0));
+    expect(plan).toEqual({ liquidity: BigInt(0), amount0: BigInt(0), amount1: BigInt(0), dust0: BigInt(0), dust1: BigInt(0) });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LB SHAPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getShapeValueSplit', () => {
+  it('splits symmetric ranges evenly', () => {
+    for (const shape of ['spot', 'curve', 'bidask'] as const) {
+      const split = getShapeValueSplit(shape, BIN_ID_OFFSET, BIN_ID_OFFSET - 10, BIN_ID_OFFSET + 10);
+      expect(split.valueX).toBeCloseTo(0.5, 12);
+    }
+  });
+
+  it('follows the shape weights on lopsided ranges', () => {
+    // Spot over 2 bins below, the active bin and 1 above: 1.5 of 4 in X
+    expect(getShapeValueSplit('spot', BIN_ID_OFFSET, BIN_ID_OFFSET - 2, BIN_ID_OFFSET + 1).valueX).toBeCloseTo(0.375, 12);
+    expect(getShapeValueSplit('spot', BIN_ID_OFFSET, BIN_ID_OFFSET + 1, BIN_ID_OFFSET + 5)).toEqual({ valueX: 1, valueY: 0 });
+  });
+});
@@ -25,6 +25,11 @@ export interface Token {
   protocol?: string;
   underlyingToken?: string;
   apy?: number;
+  logoURI?: string;
+  /** Names of the token lists that include this token */
+  lists?: string[];
+  /** Added by the user by address rather than from a list */
+  isImported?: boolean;
 }
 
 export interface TokenBalance {
@@ -71,6 +76,13 @@ export interface PoolStats {
 
 export type PositionStatus = 'active' | 'inactive' | 'closed';
 
+/**
+ * Where a position lives on-chain, for reading the fees it is owed: the
+ * CLPositionManager NFT. LB positions have no on-chain reference until bin
+ * mints are wired up.
+ */
+export type PositionOnChain = { type: 'CL'; tokenId: string };
+
 export interface Position {
   id: string;
   pool: Pool;
@@ -79,9 +91,11 @@ export interface Position {
   minPrice: number;
   maxPrice: number;
   status: PositionStatus;
+  /** USD; a static estimate unless `onChain` is set */
   unclaimedFees: number;
   unclaimedYield?: number;
   createdAt?: Date;
+  onChain?: PositionOnChain;
 }
 
 export interface PositionSummary {
@@ -110,10 +124,14 @@ export interface SwapQuote {
   gasEstimate?: bigint;
 }
 
+/** Exact approves only what a transaction spends; unlimited approves MAX_UINT256 once */
+export type ApprovalMode = 'exact' | 'unlimited';
+
 export interface SwapSettings {
   slippage: number;
   deadline: number;
   mevProtection: boolean;
+  approvalMode: ApprovalMode;
 }
 
 export interface TWAPSettings {
@@ -130,8 +148,69 @@ export interface LimitSettings {
 // TRANSACTION TYPES
 // ─────────────────────────────────────────────────────────────────────────────
 
-export type TxStatus = 'pending' | 'success' | 'failed';
-export type TxType = 'swap' | 'approve' | 'addLiquidity' | 'removeLiquidity' | 'stake' | 'unstake' | 'claim';
+/** 'replaced': another transaction used the nonce; 'dropped': never mined */
+export type TxStatus = 'pending' | 'success' | 'failed' | 'replaced' | 'dropped';
+export type TxType = 'swap' | 'limit' | 'twap' | 'approve' | 'addLiquidity' | 'removeLiquidity' | 'stake' | 'unstake' | 'claim' | 'cancel';
+
+/** Quoted vs. received output of a completed swap, in display units */
+export interface SwapExecutionSummary {
+  quotedAmount: string;
+  receivedAmount: string;
+  symbol: string;
+  /** Shortfall vs quote in basis points; negative when more was received */
+  slippageBps: number;
+}
+
+/** One transaction of a multi-transaction plan, listed for review before signing */
+export interface TransactionPlanStep {
+  title: string;
+  detail?: string;
+}
+
+/** Result of simulating a transaction before the wallet prompt */
+export type PreflightStatus = 'idle' | 'simulating' | 'passed' | 'reverted';
+
+export interface PreflightCheck {
+  status: PreflightStatus;
+  /** Decoded revert reason, set when status is 'reverted' */
+  reason?: string;
+}
+
+/** How an input token is approved for the router: not needed, or an approve transaction */
+export type ApprovalMethod = 'none' | 'approve';
+
+/** Fee speed picked in the confirm modal */
+export type GasTier = 'slow' | 'normal' | 'fast';
+
+export interface GasTierCost {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Expected total cost (L2 execution + L1 data fee) in wei */
+  costWei: bigint;
+  costETH: number;
+  costUSD: number;
+}
+
+/** Live cost of an exact transaction, per fee tier */
+export interface GasCostEstimate {
+  /** eth_estimateGas result with the gas buffer applied */
+  gasUnits: bigint;
+  /** OP Stack L1 data fee in wei (0 elsewhere) */
+  l1DataFeeWei: bigint;
+  baseFeePerGas: bigint;
+  tiers: Record<GasTier, GasTierCost>;
+}
+
+/** A requote that moved the floating side past QUOTE_CHANGE_THRESHOLD_BPS */
+export interface QuoteUpdate {
+  previousAmount: string;
+  newAmount: string;
+  symbol: string;
+  /** Signed change in basis points; positive means a larger amount */
+  changeBps: number;
+  /** Which side moved: output for exact-input swaps, input for exact-output */
+  side: 'input' | 'output';
+}
 
 export interface Transaction {
   id: string;
@@ -141,18 +220,35 @@ export interface Transaction {
   summary: string;
   timestamp: number;
   error?: string;
+  execution?: SwapExecutionSummary;
+  /** Lowercased sender; set when the transaction is persisted */
+  account?: string;
+  chainId?: number;
+  /** Sender nonce, recorded once the transaction is seen in the mempool */
+  nonce?: number;
+  /** Id of the same-nonce transaction sent to speed up or cancel this one */
+  replacedBy?: string;
+  /** Id of the stuck transaction this one replaced */
+  replaces?: string;
 }
 
+/** A transaction as pages add it; status defaults to 'pending' */
+export type NewTransaction = Omit<Transaction, 'id' | 'timestamp' | 'status'> & Partial<Pick<Transaction, 'status'>>;
+
 export interface PendingTransactions {
   transactions: Transaction[];
   pendingCount: number;
-  addTx: (tx: Omit<Transaction, 'id' | 'timestamp'>) => string;
+  addTx: (tx: NewTransaction) => string;
+  /** Record the hash as soon as the wallet broadcasts, before the receipt */
+  submitTx: (id: string, hash: Hash) => void;
+  /** Link a stuck transaction to its sped-up or cancelling replacement; returns the new id */
+  replaceTx: (id: string, replacement: { type: 'speedUp' | 'cancel'; hash: Hash; nonce: number }) => string;
   updateTx: (id: string, updates: Partial<Transaction>) => void;
   removeTx: (id: string) => void;
   clearAll: () => void;
   clearCompleted: () => void;
   // Aliases for page compatibility
-  addTransaction: (tx: Omit<Transaction, 'id' | 'timestamp'>) => string;
+  addTransaction: (tx: NewTransaction) => string;
   confirmTransaction: (id: string, hash: string) => void;
   failTransaction: (id: string, error: string) => void;
 }
@@ -237,11 +333,15 @@ export interface TokenSelectorModalProps extends ModalProps {
   favoriteTokens?: string[];
   recentTokens?: string[];
   onToggleFavorite?: (symbol: string) => void;
+  /** Tokens to choose from; defaults to the static token list */
+  tokens?: Token[];
+  /** Look up an unlisted token by pasted address */
+  onImport?: (address: Address) => Promise<Token>;
 }
 
 export interface TransactionConfirmModalProps extends ModalProps {
   onConfirm: () => void;
-  type: 'swap' | 'twap' | 'limit' | 'addLiquidity' | 'removeLiquidity' | 'stake' | 'claim';
+  type: 'swap' | 'twap' | 'limit' | 'addLiquidity' | 'removeLiquidity' | 'stake' | 'claim' | 'revoke';
   fromToken?: Token | null;
   toToken?: Token | null;
   fromAmount?: string;
@@ -261,6 +361,28 @@ export interface TransactionConfirmModalProps extends ModalProps {
   lockDuration?: number;
   veAmount?: number;
   isPending?: boolean;
+  /** Set once the swap is mined; switches the modal to its result view */
+  execution?: SwapExecutionSummary | null;
+  /** Pre-flight simulation; a revert blocks the confirm button */
+  preflight?: PreflightCheck;
+  /** EXACT_OUTPUT swaps sell the input bound, with the exact output as the floor */
+  tradeType?: 'EXACT_INPUT' | 'EXACT_OUTPUT';
+  maxSold?: string;
+  /** Block-based expiry of the live quote; replaces the fixed countdown */
+  quoteFreshness?: { secondsRemaining: number; isStale: boolean } | null;
+  /** Set when the quote refreshed beyond the threshold; confirm needs acceptance first */
+  quoteUpdate?: QuoteUpdate | null;
+  onAcceptQuoteUpdate?: () => void;
+  /** Live cost of the exact transaction; replaces networkFee when set */
+  gasEstimate?: GasCostEstimate | null;
+  gasTier?: GasTier;
+  onGasTierChange?: (tier: GasTier) => void;
+  /** How the input token is approved for the router; omitted for native input */
+  approvalMethod?: ApprovalMethod | null;
+  /** Transactions the confirm will send, in order */
+  steps?: TransactionPlanStep[];
+  /** Set when there is nothing to sign (e.g. no live quote); blocks the confirm button */
+  unavailableReason?: string | null;
 }
 
 export interface SlippageSettingsProps extends ModalProps {
@@ -268,12 +390,16 @@ export interface SlippageSettingsProps extends ModalProps {
   setSlippage: (value: number) => void;
   deadline: number;
   setDeadline: (value: number) => void;
+  approvalMode?: ApprovalMode;
+  setApprovalMode?: (mode: ApprovalMode) => void;
 }
 
 export interface AddLiquidityModalProps extends ModalProps {
   pool?: Pool | null;
   isConnected: boolean;
   onConnect: () => void;
+  /** Slippage and approval mode from the swap settings; defaults apply when omitted */
+  settings?: Pick<SwapSettings, 'slippage' | 'approvalMode'>;
 }
 
 export interface LockIgnisModalProps extends ModalProps {
@@ -1,7 +1,14 @@
 /** Module */
 
 import { describe, it, expect } from 'vitest';
-import { generateCandlesticks, generateLiquidityDepth } from './charts';
+import {
+  CHART_TIMEFRAMES,
+  buildCandles,
+  buildDepthBars,
+  generateCandlesticks,
+  generateLiquidityDepth,
+  getTimeframeWindow,
+} from './charts';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // generateCandlesticks
@@ -210,3 +217,133 @@ describe('generateLiquidityDepth', () => {
     });
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// buildCandles
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildCandles', () => {
+  const HOUR = 3_600;
+  // 2024-01-02 00:30 UTC, half an hour into a 1D-timeframe bucket
+  const NOW = 1_704_155_400;
+  const { start } = getTimeframeWindow('1D', NOW);
+
+  describe('timeframe windows', () => {
+    it('ends with the bucket containing now', () => {
+      for (const timeframe of ['1D', '7D', '1M'] as const) {
+        const window = getTimeframeWindow(timeframe, NOW);
+        const end = window.start + window.count * window.bucket;
+        expect(window.bucket).toBe(CHART_TIMEFRAMES[timeframe].bucket);
+        expect(NOW).toBeGreaterThanOrEqual(end - window.bucket);
+        expect(NOW).toBeLessThan(end);
+        expect(window.start % window.bucket).toBe(0);
+      }
+    });
+
+    it('has one bucket per candle interval of the lookback', () => {
+      expect(getTimeframeWindow('1D', NOW).count).toBe(24);
+      expect(getTimeframeWindow('7D', NOW).count).toBe(42);
+      expect(getTimeframeWindow('1M', NOW).count).toBe(30);
+    });
+  });
+
+  describe('bucketing', () => {
+    it('takes open, high, low and close from the trades in a bucket', () => {
+      const candles = buildCandles([
+        { timestamp: start + 10, price: 100 },
+        { timestamp: start + 20, price: 105 },
+        { timestamp: start + 30, price: 98 },
+        { timestamp: start + 40, price: 101 },
+      ], '1D', NOW);
+
+      expect(candles[0]).toEqual({ time: start, open: 100, high: 105, low: 98, close: 101 });
+    });
+
+    it('orders trades by time before bucketing', () => {
+      const candles = buildCandles([
+        { timestamp: start + 40, price: 101 },
+        { timestamp: start + 10, price: 100 },
+      ], '1D', NOW);
+
+      expect(candles[0]).toMatchObject({ open: 100, close: 101 });
+    });
+
+    it('carries the close through buckets without trades', () => {
+      const candles = buildCandles([
+        { timestamp: start + 10, price: 100 },
+        { timestamp: start + 3 * HOUR + 10, price: 110 },
+      ], '1D', NOW);
+
+      expect(candles).toHaveLength(24);
+      expect(candles[1]).toEqual({ time: start + HOUR, open: 100, high: 100, low: 100, close: 100 });
+      expect(candles[3]).toMatchObject({ time: start + 3 * HOUR, open: 110 });
+      expect(candles[23]!.close).toBe(110);
+    });
+
+    it('leaves out buckets before the first known price', () => {
+      const candles = buildCandles([{ timestamp: start + 5 * HOUR, price: 100 }], '1D', NOW);
+
+      expect(candles[0]!.time).toBe(start + 5 * HOUR);
+      expect(candles).toHaveLength(19);
+    });
+
+    it('seeds the first close from trades before the window', () => {
+      const candles = buildCandles([{ timestamp: start - HOUR, price: 90 }], '1D', NOW);
+
+      expect(candles).toHaveLength(24);
+      expect(candles[0]).toMatchObject({ open: 90, close: 90 });
+    });
+
+    it('buckets the same trades differently per timeframe', () => {
+      // 22:30 and 23:30 the day before: one daily candle, two hourly ones
+      const points = [
+        { timestamp: NOW - 2 * HOUR, price: 100 },
+        { timestamp: NOW - HOUR, price: 120 },
+      ];
+
+      const daily = buildCandles(points, '1M', NOW);
+      expect(daily).toHaveLength(2);
+      expect(daily[0]).toMatchObject({ open: 100, high: 120, low: 100, close: 120 });
+
+      const hourly = buildCandles(points, '1D', NOW);
+      expect(hourly).toHaveLength(3);
+      expect(hourly[0]).toMatchObject({ open: 100, close: 100 });
+      expect(hourly[1]).toMatchObject({ open: 120, close: 120 });
+    });
+
+    it('ignores invalid prices and returns nothing without trades', () => {
+      expect(buildCandles([], '7D', NOW)).toEqual([]);
+      expect(buildCandles([{ timestamp: start, price: 0 }, { timestamp: start, price: Infinity }], '1D', NOW)).toEqual([]);
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// buildDepthBars
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildDepthBars', () => {
+  it('scales depth to the deepest level and sorts by price', () => {
+    const bars = buildDepthBars([
+      { price: 2010, liquidity: 50 },
+      { price: 1990, liquidity: 200 },
+      { price: 2000, liquidity: 100 },
+    ]);
+
+    expect(bars).toEqual([
+      { price: 1990, depth: 100 },
+      { price: 2000, depth: 50 },
+      { price: 2010, depth: 25 },
+    ]);
+  });
+
+  it('inverts prices for flipped pools', () => {
+    const bars = buildDepthBars([{ price: 0.0005, liquidity: 1 }, { price: 0.00025, liquidity: 1 }], true);
+
+    expect(bars.map(bar => bar.price)).toEqual([2000, 4000]);
+  });
+
+  it('drops empty and invalid levels', () => {
+    expect(buildDepthBars([{ price: 100, liquidity: 0 }, { price: 0, liquidity: 5 }])).toEqual([]);
+  });
+});
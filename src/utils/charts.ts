@@ -1,16 +1,42 @@
-interface Candlestick {
+export interface Candlestick {
     open: number;
     high: number;
     low: number;
     close: number;
 }
 
+/** Candle for one time bucket; `time` is the bucket start in seconds */
+export interface OHLCCandle extends Candlestick {
+    time: number;
+}
+
 interface LiquidityBin {
     price: number;
     depth: number;
     isActive: boolean;
 }
 
+/** Liquidity at a price, with depth scaled so the deepest level is 100 */
+export interface DepthBar {
+    price: number;
+    depth: number;
+}
+
+/** Execution price of a trade at `timestamp` (seconds) */
+export interface PricePoint {
+    timestamp: number;
+    price: number;
+}
+
+export type ChartTimeframe = '1D' | '7D' | '1M';
+
+/** How far back each timeframe looks and the candle size, in seconds */
+export const CHART_TIMEFRAMES: Record<ChartTimeframe, { lookback: number; bucket: number }> = {
+    '1D': { lookback: 86_400, bucket: 3_600 },
+    '7D': { lookback: 604_800, bucket: 14_400 },
+    '1M': { lookback: 2_592_000, bucket: 86_400 },
+};
+
 /**
  * Generate mock candlestick data
  */
@@ -59,3 +85,70 @@ export function generateLiquidityDepth(currentPrice: number, bins: number = 50):
     
     return depth;
 }
+
+/**
+ * Buckets covered by a timeframe: `count` buckets of `bucket` seconds from
+ * `start`, the last one being the bucket `now` falls in
+ */
+export function getTimeframeWindow(timeframe: ChartTimeframe, now: number): { start: number; bucket: number; count: number } {
+    const { lookback, bucket } = CHART_TIMEFRAMES[timeframe];
+    const count = lookback / bucket;
+    return { start: (Math.floor(now / bucket) - count + 1) * bucket, bucket, count };
+}
+
+/**
+ * Bucket trades into OHLC candles for a timeframe. Buckets without trades
+ * repeat the previous close as a flat candle; buckets before the first known
+ * price are left out. Trades before the window only seed that first close.
+ */
+export function buildCandles(points: PricePoint[], timeframe: ChartTimeframe, now: number): OHLCCandle[] {
+    const { start, bucket, count } = getTimeframeWindow(timeframe, now);
+    const sorted = points
+        .filter(p => p.price > 0 && Number.isFinite(p.price))
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    const candles: OHLCCandle[] = [];
+    let lastClose: number | null = null;
+    let i = 0;
+    for (; i < sorted.length && sorted[i]!.timestamp < start; i++) {
+        lastClose = sorted[i]!.price;
+    }
+
+    for (let b = 0; b < count; b++) {
+        const time = start + b * bucket;
+        const end = time + bucket;
+        let candle: OHLCCandle | null = null;
+        for (; i < sorted.length && sorted[i]!.timestamp < end; i++) {
+            const price = sorted[i]!.price;
+            if (!candle) {
+                candle = { time, open: price, high: price, low: price, close: price };
+            } else {
+                candle.high = Math.max(candle.high, price);
+                candle.low = Math.min(candle.low, price);
+                candle.close = price;
+            }
+        }
+        if (candle) {
+            candles.push(candle);
+            lastClose = candle.close;
+        } else if (lastClose !== null) {
+            candles.push({ time, open: lastClose, high: lastClose, low: lastClose, close: lastClose });
+        }
+    }
+
+    return candles;
+}
+
+/**
+ * Depth levels as bars sorted by price. `invert` flips prices to the other
+ * side of the pair, for pools whose currencies sort opposite to the display.
+ */
+export function buildDepthBars(levels: { price: number; liquidity: number }[], invert: boolean = false): DepthBar[] {
+    const valid = levels.filter(l => l.price > 0 && Number.isFinite(l.price) && l.liquidity > 0);
+    const maxLiquidity = Math.max(0, ...valid.map(l => l.liquidity));
+    if (maxLiquidity <= 0) return [];
+
+    return valid
+        .map(l => ({ price: invert ? 1 / l.price : l.price, depth: (l.liquidity / maxLiquidity) * 100 }))
+        .sort((a, b) => a.price - b.price);
+}
@@ -1,5 +1,13 @@
 export { formatCurrency, formatNumber, formatPercent, formatAddress, formatTokenAmount } from './format';
-export { generateCandlesticks, generateLiquidityDepth } from './charts';
+export {
+  generateCandlesticks,
+  generateLiquidityDepth,
+  buildCandles,
+  buildDepthBars,
+  getTimeframeWindow,
+  CHART_TIMEFRAMES,
+} from './charts';
+export type { Candlestick, OHLCCandle, DepthBar, PricePoint, ChartTimeframe } from './charts';
 export { showTxToast } from './toast';
 export { getErrorMessage, getErrorInfo, isUserRejection } from './errorMessages';
 export { 
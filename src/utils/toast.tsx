@@ -1,5 +1,6 @@
 import { toast, Id } from 'react-toastify';
 import { formatAddress } from './format';
+import { BASE_MAINNET, CHAINS } from '../lib/contracts/addresses';
 
 interface TxToast {
     pending: (message: string) => Id;
@@ -12,24 +13,12 @@ interface TxToast {
 }
 
 const getExplorerUrl = (hash: string, chainId: number = 8453): string => {
-    const explorers: Record<number, string> = {
-        8453: 'https://basescan.org',
-        84532: 'https://sepolia.basescan.org',
-        56: 'https://bscscan.com',
-        97: 'https://testnet.bscscan.com',
-    };
-    const explorer = explorers[chainId] || 'https://basescan.org';
+    const explorer = (CHAINS[chainId] ?? BASE_MAINNET).blockExplorer;
     return `${explorer}/tx/${hash}`;
 };
 
 const getExplorerName = (chainId: number = 8453): string => {
-    const names: Record<number, string> = {
-        8453: 'BaseScan',
-        84532: 'BaseScan',
-        56: 'BscScan',
-        97: 'BscScan',
-    };
-    return names[chainId] || 'Explorer';
+    return CHAINS[chainId]?.explorerName ?? 'Explorer';
 };
 
 const TxSuccessContent = ({ message, hash, chainId = 8453 }: { message: string; hash?: string; chainId?: number }): JSX.Element => (